@@ -0,0 +1,156 @@
+/**
+ * Embedded Database Integration Test
+ * Boots the storage layer on an in-memory embedded database: migrations, service
+ * startup, transaction isolation, season reward payout and arena queueing
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+
+// Must be set before the database module picks its backend
+process.env.DB_BACKEND = 'embedded';
+delete process.env.DB_DATA_DIR;
+
+const database = await import('../../src/database/index.ts');
+// Services are imported directly; the module indexes also load routes and auth
+const { CurrencyService } = await import('../../src/currency/CurrencyService.ts');
+const { InventoryService } = await import('../../src/inventory/InventoryService.ts');
+const { ArenaSeasonService } = await import('../../src/arena/ArenaSeasonService.ts');
+const { ArenaService } = await import('../../src/arena/ArenaService.ts');
+const { GuildService } = await import('../../src/guild/GuildService.ts');
+const { PartyService } = await import('../../src/party/PartyService.ts');
+const { FriendService } = await import('../../src/friends/FriendService.ts');
+const { ChatService } = await import('../../src/chat/ChatService.ts');
+const { loadGameData } = await import('../../src/combat/GameData.ts');
+
+const { pool } = database;
+
+describe('embedded database', () => {
+	beforeAll(async () => {
+		expect(pool.kind).toBe('embedded');
+		expect(await database.testConnection()).toBe(true);
+	});
+
+	afterAll(async () => {
+		await database.closePool();
+	});
+
+	test('applies every migration', async () => {
+		const migrations = database.loadMigrations();
+		const applied = await database.migrateUp();
+
+		expect(applied.map((m) => m.version)).toEqual(migrations.map((m) => m.version));
+
+		const status = await database.getMigrationStatus();
+		expect(status.every((s) => s.state === 'applied')).toBe(true);
+	});
+
+	test('starts the database services', async () => {
+		const gameData = loadGameData();
+		const currency = new CurrencyService(pool);
+		const inventory = new InventoryService();
+		const arenaSeasons = new ArenaSeasonService(pool, currency, inventory, gameData.items);
+		const guilds = new GuildService(pool, currency, inventory, gameData.items);
+		const parties = new PartyService(inventory, gameData.items);
+		const chat = new ChatService(pool, parties, guilds, new FriendService(pool));
+
+		try {
+			await arenaSeasons.initialize();
+			await chat.initialize();
+
+			const seasons = await pool.query("SELECT id FROM arena_seasons WHERE status = 'active'");
+			expect(seasons.rows.length).toBe(1);
+		} finally {
+			arenaSeasons.destroy();
+		}
+	});
+
+	test('keeps concurrent transactions apart', async () => {
+		const rolledBack = crypto.randomUUID();
+		const committed = crypto.randomUUID();
+
+		const failing = database.transaction(async (client) => {
+			await client.query('INSERT INTO currency_balances (player_id, balance) VALUES ($1, 10)', [
+				rolledBack,
+			]);
+			await Bun.sleep(20);
+			throw new Error('rolled back on purpose');
+		});
+		const succeeding = database.transaction(async (client) => {
+			await client.query('INSERT INTO currency_balances (player_id, balance) VALUES ($1, 20)', [
+				committed,
+			]);
+		});
+
+		await expect(failing).rejects.toThrow('rolled back on purpose');
+		await succeeding;
+
+		const rows = await pool.query(
+			'SELECT player_id FROM currency_balances WHERE player_id = ANY($1::uuid[])',
+			[[rolledBack, committed]],
+		);
+		expect(rows.rows.map((row) => row.player_id)).toEqual([committed]);
+	});
+
+	test('pays each season reward once', async () => {
+		const gameData = loadGameData();
+		const currency = new CurrencyService(pool);
+		const arenaSeasons = new ArenaSeasonService(
+			pool,
+			currency,
+			new InventoryService(),
+			gameData.items,
+		);
+		const player = await pool.query(
+			`INSERT INTO players (username, email, password_hash)
+			VALUES ('veteran', 'veteran@example.com', 'unused')
+			RETURNING id`,
+		);
+		const playerId = player.rows[0].id;
+
+		const season = await pool.query(
+			`INSERT INTO arena_seasons (name, starts_at, ends_at, status)
+			VALUES ('Past Season', NOW() - INTERVAL '100 days', NOW() - INTERVAL '10 days', 'ended')
+			RETURNING id`,
+		);
+		await pool.query(
+			`INSERT INTO arena_season_standings
+				(season_id, player_id, player_name, mode, rank, final_rating, peak_rating, tier, wins, losses)
+			VALUES ($1, $2, 'Veteran', '1v1', 1, 1800, 1850, 'Silver', 30, 10)`,
+			[season.rows[0].id, playerId],
+		);
+
+		// Overlapping season checks must not pay the standing twice
+		await Promise.all([arenaSeasons.processSeason(), arenaSeasons.processSeason()]);
+
+		expect(await currency.getBalance(playerId)).toBe(250);
+
+		const history = await arenaSeasons.getPlayerSeasonHistory(playerId);
+		expect(history).toHaveLength(1);
+		expect(history[0]?.rewarded_at).toBeTruthy();
+		expect(history[0]?.pending_items).toEqual([]);
+	});
+
+	test('queues a player once when joins overlap', async () => {
+		const arena = new ArenaService(pool);
+		const player = await pool.query(
+			`INSERT INTO players (username, email, password_hash)
+			VALUES ('duelist', 'duelist@example.com', 'unused')
+			RETURNING id`,
+		);
+		const request = { player_id: player.rows[0].id, player_name: 'Duelist' };
+
+		// Both requests pass the queue check before either has loaded its rating
+		const results = await Promise.all([arena.joinQueue(request), arena.joinQueue(request)]);
+
+		expect(results.filter((result) => result.success)).toHaveLength(1);
+		expect(arena.getQueueStatus().queueSize).toBe(1);
+	});
+
+	test('rolls every migration back', async () => {
+		const migrations = database.loadMigrations();
+		await database.migrateDown(migrations.length);
+
+		const status = await database.getMigrationStatus();
+		expect(status.every((s) => s.state === 'pending')).toBe(true);
+	});
+});
@@ -0,0 +1,207 @@
+/**
+ * Save Validator Unit Test
+ * Checks gold, EXP, stats, vitals and inventory against a fake server profile
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { StorageClient } from '../../src/database/index.ts';
+import type { CurrencyService } from '../../src/currency/CurrencyService.ts';
+import type { InventoryItem, InventoryService } from '../../src/inventory/InventoryService.ts';
+import { loadGameData } from '../../src/combat/GameData.ts';
+import { SaveValidator } from '../../src/save/SaveValidator.ts';
+import type { PlayerSaveData } from '../../src/save/SaveService.ts';
+import { CURRENT_SAVE_VERSION } from '../../src/save/migrations.ts';
+
+const PLAYER_ID = 'player-1';
+const STATS = { strength: 10, dexterity: 10, intelligence: 10, vitality: 10, luck: 10 };
+const { world } = loadGameData();
+
+interface StoredRow {
+	level: number;
+	experience: number;
+	stats: PlayerSaveData['profile']['stats'];
+	max_health: number;
+	max_mana: number;
+	current_map: string;
+	position_x: number;
+	position_y: number;
+	validated_level: number;
+	validated_at: Date;
+}
+
+interface Setup {
+	row?: Partial<StoredRow>;
+	gold?: number;
+	items?: Array<{ itemId: string; quantity: number }>;
+}
+
+function makeRow(overrides: Partial<StoredRow> = {}): StoredRow {
+	return {
+		level: 5,
+		experience: 0,
+		stats: { ...STATS },
+		max_health: 200,
+		max_mana: 100,
+		current_map: 'green_forest',
+		position_x: 100,
+		position_y: 100,
+		validated_level: 5,
+		validated_at: new Date(),
+		...overrides,
+	};
+}
+
+function makeSave(profile: Partial<PlayerSaveData['profile']> = {}): PlayerSaveData {
+	return {
+		saveVersion: CURRENT_SAVE_VERSION,
+		profile: {
+			displayName: 'Tester',
+			level: 5,
+			experience: 0,
+			gold: 0,
+			position: { x: 100, y: 100 },
+			currentMap: 'green_forest',
+			health: 200,
+			maxHealth: 200,
+			mana: 100,
+			maxMana: 100,
+			stats: { ...STATS },
+			...profile,
+		},
+		jobs: [],
+		inventory: [],
+		skills: [],
+		quests: { active: [], completed: [] },
+	};
+}
+
+async function validate(saveData: PlayerSaveData, setup: Setup = {}) {
+	const row = makeRow(setup.row);
+	const client = {
+		query: async () => ({ rows: [row], rowCount: 1 }),
+		release: () => {},
+	} as unknown as StorageClient;
+	const currency = {
+		getBalance: async () => setup.gold ?? 0,
+	} as unknown as CurrencyService;
+	const items: InventoryItem[] = (setup.items ?? []).map((item, index) => ({
+		id: `slot-${index}`,
+		player_id: PLAYER_ID,
+		item_id: item.itemId,
+		quantity: item.quantity,
+		slot_index: index,
+		is_equipped: false,
+		acquired_at: new Date(),
+	}));
+	const inventory = {
+		getInventory: async () => items,
+	} as unknown as InventoryService;
+
+	return new SaveValidator(currency, inventory, world).validate(client, PLAYER_ID, saveData);
+}
+
+function minutesAgo(minutes: number): Date {
+	return new Date(Date.now() - minutes * 60000);
+}
+
+describe('SaveValidator', () => {
+	test('accepts a save that matches the server', async () => {
+		const result = await validate(makeSave({ gold: 250 }), {
+			gold: 250,
+			items: [{ itemId: 'health_potion', quantity: 3 }],
+		});
+
+		expect(result.valid).toBe(true);
+		expect(result.violations).toEqual([]);
+	});
+
+	test('replaces gold with the currency ledger balance', async () => {
+		const result = await validate(makeSave({ gold: 99999 }), { gold: 250 });
+
+		expect(result.saveData.profile.gold).toBe(250);
+		expect(result.violations.map((v) => v.field)).toEqual(['gold']);
+	});
+
+	test('grants no EXP to a save right after the last one', async () => {
+		const result = await validate(makeSave({ experience: 1 }), {
+			row: { validated_at: new Date() },
+		});
+
+		expect(result.saveData.profile.experience).toBe(0);
+		expect(result.violations.map((v) => v.field)).toEqual(['experience']);
+	});
+
+	test('allows EXP for the time since the last validated save', async () => {
+		const accepted = await validate(makeSave({ experience: 900 }), {
+			row: { validated_at: minutesAgo(2) },
+		});
+		expect(accepted.violations).toEqual([]);
+
+		const rejected = await validate(makeSave({ experience: 1100 }), {
+			row: { validated_at: minutesAgo(2) },
+		});
+		expect(rejected.saveData.profile.experience).toBe(0);
+		expect(rejected.violations.map((v) => v.field)).toEqual(['experience']);
+	});
+
+	test('rejects EXP past the next level on the curve', async () => {
+		const result = await validate(makeSave({ experience: 10_000_000 }), {
+			row: { validated_at: minutesAgo(60) },
+		});
+
+		expect(result.saveData.profile.level).toBe(5);
+		expect(result.violations[0]?.reason).toContain('EXP curve');
+	});
+
+	test('resets stats that grew without a level-up', async () => {
+		const result = await validate(makeSave({ stats: { ...STATS, strength: 11 } }));
+
+		expect(result.saveData.profile.stats).toEqual(STATS);
+		expect(result.violations.map((v) => v.field)).toEqual(['stats']);
+	});
+
+	test('caps max health and mana that grew without a level-up', async () => {
+		const result = await validate(makeSave({ maxHealth: 250, health: 250, maxMana: 120 }));
+
+		expect(result.saveData.profile.maxHealth).toBe(200);
+		expect(result.saveData.profile.maxMana).toBe(100);
+		expect(result.saveData.profile.health).toBe(200);
+		expect(result.violations.map((v) => v.field)).toEqual(['vitals', 'vitals']);
+	});
+
+	test('keeps stat and vitals growth from levels a battle granted', async () => {
+		// The battle wrote level 6 to the profile; the last save was at level 5
+		const result = await validate(
+			makeSave({
+				level: 6,
+				stats: { ...STATS, strength: 13, vitality: 13, luck: 11 },
+				maxHealth: 230,
+				health: 230,
+				maxMana: 110,
+			}),
+			{ row: { level: 6, validated_level: 5 } },
+		);
+
+		expect(result.violations).toEqual([]);
+		expect(result.saveData.profile.maxHealth).toBe(230);
+	});
+
+	test('replaces the inventory with the server copy and flags extra items', async () => {
+		const save = makeSave();
+		save.inventory = [
+			{ itemId: 'health_potion', quantity: 9, slotIndex: 0, isEquipped: false },
+			{ itemId: 'iron_sword', quantity: 1, slotIndex: 1, isEquipped: true },
+		];
+
+		const result = await validate(save, { items: [{ itemId: 'health_potion', quantity: 3 }] });
+
+		expect(result.saveData.inventory).toEqual([
+			{ itemId: 'health_potion', quantity: 3, slotIndex: 0, isEquipped: false },
+		]);
+		expect(result.violations).toHaveLength(1);
+		expect(result.violations[0]?.claimed).toEqual([
+			{ itemId: 'health_potion', claimed: 9, owned: 3 },
+			{ itemId: 'iron_sword', claimed: 1, owned: 0 },
+		]);
+	});
+});
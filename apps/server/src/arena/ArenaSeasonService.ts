@@ -0,0 +1,519 @@
+/**
+ * ArenaSeasonService
+ * Arena seasons: start/end dates, soft rating resets, archived standings,
+ * season rewards and inactivity rating decay
+ */
+
+import type { StorageBackend } from '../database/index.ts';
+import type { Item } from '@rpg/game-core/inventory/index';
+import type { CurrencyService } from '../currency/CurrencyService.ts';
+import type { InventoryService } from '../inventory/InventoryService.ts';
+import type { ArenaMode } from './ArenaService.ts';
+import {
+	INITIAL_RATING,
+	PLACEMENT_MATCHES,
+	SEASON_REWARDS,
+	TIER_THRESHOLDS,
+	getTier,
+} from './tiers.ts';
+import type { ArenaTier, TierReward } from './tiers.ts';
+
+export interface ArenaSeason {
+	id: number;
+	name: string;
+	starts_at: string;
+	ends_at: string;
+	status: 'active' | 'ended';
+}
+
+export interface SeasonStanding {
+	season_id: number;
+	season_name: string;
+	player_id: string;
+	player_name: string;
+	mode: ArenaMode; // Each mode has its own standing and reward
+	rank: number;
+	final_rating: number;
+	peak_rating: number;
+	tier: ArenaTier;
+	wins: number;
+	losses: number;
+	rewards: TierReward | null;
+	rewarded_at: string | null;
+	pending_items: TierReward['items']; // Reward items not granted yet (e.g. the inventory was full)
+}
+
+// Identifies one archived standing
+type StandingKey = Pick<SeasonStanding, 'season_id' | 'player_id' | 'mode'>;
+
+export class ArenaSeasonService {
+	private db: StorageBackend;
+	private currency: CurrencyService;
+	private inventory: InventoryService;
+	private items: Map<string, Item>;
+	private currentSeason: ArenaSeason | null = null;
+	private seasonInterval: Timer | null = null;
+
+	// Configuration
+	private readonly SEASON_LENGTH_DAYS = 90;
+	private readonly SOFT_RESET_FACTOR = 0.5; // Keep half of the distance from the initial rating
+	private readonly DECAY_MIN_RATING = TIER_THRESHOLDS.find((t) => t.tier === 'Diamond')!.minRating;
+	private readonly DECAY_GRACE_DAYS = 14; // Days without a match before decay starts
+	private readonly DECAY_PER_DAY = 25;
+	private readonly SEASON_CHECK_INTERVAL = 3600000; // 1 hour
+
+	constructor(
+		db: StorageBackend,
+		currency: CurrencyService,
+		inventory: InventoryService,
+		items: Map<string, Item>,
+	) {
+		this.db = db;
+		this.currency = currency;
+		this.inventory = inventory;
+		this.items = items;
+	}
+
+	/**
+	 * Make sure a season is running and start the season loop
+	 * (tables are created by the database migrations)
+	 */
+	async initialize(): Promise<void> {
+		await this.ensureActiveSeason();
+		this.startSeasonLoop();
+	}
+
+	/**
+	 * Start the season check loop (season end, reward payout, decay)
+	 */
+	private startSeasonLoop(): void {
+		if (this.seasonInterval) {
+			return;
+		}
+
+		this.seasonInterval = setInterval(() => {
+			this.processSeason().catch((error) => {
+				console.error('[ArenaSeasonService] Season check failed:', error);
+			});
+		}, this.SEASON_CHECK_INTERVAL);
+
+		console.log('[ArenaSeasonService] Season loop started');
+	}
+
+	/**
+	 * End the season when due, pay outstanding rewards and apply decay
+	 */
+	async processSeason(): Promise<void> {
+		const season = await this.getCurrentSeason();
+
+		if (season && new Date(season.ends_at).getTime() <= Date.now()) {
+			await this.endSeason(season.id);
+		}
+
+		await this.payPendingRewards();
+		await this.applyRatingDecay();
+	}
+
+	/**
+	 * Create the first season if none is active
+	 */
+	private async ensureActiveSeason(): Promise<ArenaSeason> {
+		const current = await this.getCurrentSeason();
+		if (current) {
+			return current;
+		}
+
+		const countResult = await this.db.query('SELECT COUNT(*) as count FROM arena_seasons');
+		return this.createSeason(this.db, parseInt(countResult.rows[0].count) + 1);
+	}
+
+	/**
+	 * Insert a new active season starting now
+	 */
+	private async createSeason(
+		client: Pick<StorageBackend, 'query'>,
+		seasonNumber: number,
+	): Promise<ArenaSeason> {
+		const result = await client.query(
+			`INSERT INTO arena_seasons (name, starts_at, ends_at, status)
+			VALUES ($1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP + ($2 || ' days')::interval, 'active')
+			RETURNING *`,
+			[`Season ${seasonNumber}`, this.SEASON_LENGTH_DAYS],
+		);
+
+		this.currentSeason = result.rows[0];
+		console.log(`[ArenaSeasonService] ${this.currentSeason!.name} started`);
+
+		return this.currentSeason!;
+	}
+
+	/**
+	 * Get the active season
+	 */
+	async getCurrentSeason(): Promise<ArenaSeason | null> {
+		if (this.currentSeason) {
+			return this.currentSeason;
+		}
+
+		try {
+			const result = await this.db.query(
+				"SELECT * FROM arena_seasons WHERE status = 'active' ORDER BY id DESC LIMIT 1",
+			);
+			this.currentSeason = result.rows[0] || null;
+			return this.currentSeason;
+		} catch (error) {
+			console.error('[ArenaSeasonService] Failed to get current season:', error);
+			return null;
+		}
+	}
+
+	/**
+	 * Get all seasons, newest first
+	 */
+	async getSeasons(): Promise<ArenaSeason[]> {
+		try {
+			const result = await this.db.query('SELECT * FROM arena_seasons ORDER BY id DESC');
+			return result.rows;
+		} catch (error) {
+			console.error('[ArenaSeasonService] Failed to get seasons:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * End a season: archive standings, soft-reset ratings and start the next season
+	 * Rewards are paid afterwards so a payout failure never blocks the reset
+	 */
+	async endSeason(seasonId: number): Promise<{ success: boolean; error?: string }> {
+		const client = await this.db.connect();
+		try {
+			await client.query('BEGIN');
+
+			const ended = await client.query(
+				`UPDATE arena_seasons SET status = 'ended', ends_at = LEAST(ends_at, CURRENT_TIMESTAMP)
+				WHERE id = $1 AND status = 'active'
+				RETURNING *`,
+				[seasonId],
+			);
+
+			if (ended.rows.length === 0) {
+				await client.query('ROLLBACK');
+				return { success: false, error: 'Season not found or already ended' };
+			}
+
+			// Only placed players get a final standing, ranked within their mode
+			const players = await client.query(
+				`SELECT player_id, player_name, mode, rating, peak_rating, season_wins, season_losses,
+					ROW_NUMBER() OVER (PARTITION BY mode ORDER BY rating DESC) as rank
+				FROM arena_players
+				WHERE (season_wins + season_losses) >= $1
+				ORDER BY mode, rating DESC`,
+				[PLACEMENT_MATCHES],
+			);
+
+			for (const player of players.rows) {
+				await client.query(
+					`INSERT INTO arena_season_standings
+					(season_id, player_id, player_name, mode, rank, final_rating, peak_rating, tier, wins, losses)
+					VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+					[
+						seasonId,
+						player.player_id,
+						player.player_name,
+						player.mode,
+						parseInt(player.rank),
+						player.rating,
+						Math.max(player.peak_rating ?? player.rating, player.rating),
+						getTier(player.rating),
+						player.season_wins,
+						player.season_losses,
+					],
+				);
+			}
+
+			// Soft reset pulls everyone halfway back toward the initial rating
+			await client.query(
+				`UPDATE arena_players
+				SET rating = ROUND($1 + (rating - $1) * $2::numeric),
+					peak_rating = ROUND($1 + (rating - $1) * $2::numeric),
+					season_wins = 0,
+					season_losses = 0,
+					current_streak = 0,
+					updated_at = CURRENT_TIMESTAMP`,
+				[INITIAL_RATING, this.SOFT_RESET_FACTOR],
+			);
+
+			this.currentSeason = null;
+			const countResult = await client.query('SELECT COUNT(*) as count FROM arena_seasons');
+			await this.createSeason(client, parseInt(countResult.rows[0].count) + 1);
+
+			await client.query('COMMIT');
+
+			console.log(
+				`[ArenaSeasonService] ${ended.rows[0].name} ended (${players.rows.length} ranked players)`,
+			);
+		} catch (error) {
+			await client.query('ROLLBACK');
+			this.currentSeason = null;
+			console.error('[ArenaSeasonService] Failed to end season:', error);
+			return { success: false, error: 'Failed to end season' };
+		} finally {
+			client.release();
+		}
+
+		await this.payPendingRewards();
+		return { success: true };
+	}
+
+	/**
+	 * Pay tier rewards for archived standings that have not been paid yet,
+	 * and retry reward items that could not be granted before
+	 */
+	private async payPendingRewards(): Promise<void> {
+		const result = await this.db.query(
+			`SELECT season_id, player_id, mode, tier, rewarded_at FROM arena_season_standings
+			WHERE rewarded_at IS NULL OR jsonb_array_length(pending_items) > 0`,
+		);
+
+		for (const standing of result.rows) {
+			try {
+				if (standing.rewarded_at === null) {
+					await this.payStandingReward(standing);
+				} else {
+					await this.grantPendingItems(standing);
+				}
+			} catch (error) {
+				console.error(
+					`[ArenaSeasonService] Season reward for ${standing.player_id} (season ${standing.season_id}, ${standing.mode}) failed:`,
+					error,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Claim a standing, then pay its reward
+	 * The claim comes first so two season checks never pay the same standing twice
+	 */
+	private async payStandingReward(standing: StandingKey & { tier: string }): Promise<void> {
+		const reward = SEASON_REWARDS[standing.tier as keyof typeof SEASON_REWARDS];
+		if (!reward) return;
+
+		const key = [standing.season_id, standing.player_id, standing.mode];
+		const claimed = await this.db.query(
+			`UPDATE arena_season_standings SET rewarded_at = CURRENT_TIMESTAMP
+			WHERE season_id = $1 AND player_id = $2 AND mode = $3 AND rewarded_at IS NULL
+			RETURNING season_id`,
+			key,
+		);
+		if (claimed.rows.length === 0) return; // Already claimed by another check
+
+		const paid = await this.currency.addCurrency(
+			standing.player_id,
+			reward.gold,
+			'arena_season_reward',
+		);
+		if (!paid.success) {
+			// Nothing was paid, so give the claim back for the next check
+			await this.db.query(
+				`UPDATE arena_season_standings SET rewarded_at = NULL
+				WHERE season_id = $1 AND player_id = $2 AND mode = $3`,
+				key,
+			);
+			console.warn(
+				`[ArenaSeasonService] Season reward for ${standing.player_id} deferred: ${paid.error}`,
+			);
+			return;
+		}
+
+		await this.grantRewardItems(standing, reward.items);
+	}
+
+	/**
+	 * Take the pending items off a paid standing and try to grant them again
+	 */
+	private async grantPendingItems(standing: StandingKey): Promise<void> {
+		const client = await this.db.connect();
+		let items: TierReward['items'];
+
+		try {
+			await client.query('BEGIN');
+
+			const result = await client.query(
+				`SELECT pending_items FROM arena_season_standings
+				WHERE season_id = $1 AND player_id = $2 AND mode = $3
+				FOR UPDATE`,
+				[standing.season_id, standing.player_id, standing.mode],
+			);
+			items = result.rows[0]?.pending_items ?? [];
+
+			await client.query(
+				`UPDATE arena_season_standings SET pending_items = '[]'
+				WHERE season_id = $1 AND player_id = $2 AND mode = $3`,
+				[standing.season_id, standing.player_id, standing.mode],
+			);
+
+			await client.query('COMMIT');
+		} catch (error) {
+			await client.query('ROLLBACK');
+			throw error;
+		} finally {
+			client.release();
+		}
+
+		await this.grantRewardItems(standing, items);
+	}
+
+	/**
+	 * Grant reward items; the ones that could not be granted stay pending on the standing
+	 */
+	private async grantRewardItems(standing: StandingKey, items: TierReward['items']): Promise<void> {
+		const failed: TierReward['items'] = [];
+
+		for (const { itemId, quantity } of items) {
+			const item = this.items.get(itemId);
+			if (!item) {
+				console.warn(`[ArenaSeasonService] Unknown season reward item: ${itemId}`);
+				continue;
+			}
+
+			let added: { valid: boolean; error?: string };
+			try {
+				added = await this.inventory.addItem(
+					standing.player_id,
+					itemId,
+					quantity,
+					item.weight,
+					item.stackable,
+					item.maxStack,
+				);
+			} catch {
+				added = { valid: false, error: 'Failed to add item' };
+			}
+
+			if (!added.valid) {
+				console.warn(
+					`[ArenaSeasonService] Could not grant ${quantity}x ${itemId} to ${standing.player_id}, kept pending: ${added.error}`,
+				);
+				failed.push({ itemId, quantity });
+			}
+		}
+
+		if (failed.length > 0) {
+			await this.db.query(
+				`UPDATE arena_season_standings SET pending_items = pending_items || $4::jsonb
+				WHERE season_id = $1 AND player_id = $2 AND mode = $3`,
+				[standing.season_id, standing.player_id, standing.mode, JSON.stringify(failed)],
+			);
+		}
+	}
+
+	/**
+	 * Decay high ratings of players who stopped playing (at most once per day)
+	 */
+	async applyRatingDecay(): Promise<number> {
+		try {
+			const result = await this.db.query(
+				`UPDATE arena_players
+				SET rating = GREATEST($1, rating - $2),
+					last_decay_at = CURRENT_TIMESTAMP,
+					updated_at = CURRENT_TIMESTAMP
+				WHERE rating > $1
+					AND last_match_at < CURRENT_TIMESTAMP - ($3 || ' days')::interval
+					AND (last_decay_at IS NULL OR last_decay_at < CURRENT_TIMESTAMP - INTERVAL '1 day')`,
+				[this.DECAY_MIN_RATING, this.DECAY_PER_DAY, this.DECAY_GRACE_DAYS],
+			);
+
+			const decayed = result.rowCount ?? 0;
+			if (decayed > 0) {
+				console.log(`[ArenaSeasonService] Applied inactivity decay to ${decayed} players`);
+			}
+
+			return decayed;
+		} catch (error) {
+			console.error('[ArenaSeasonService] Failed to apply rating decay:', error);
+			return 0;
+		}
+	}
+
+	/**
+	 * Get archived standings for a season and mode
+	 */
+	async getSeasonStandings(
+		seasonId: number,
+		mode: ArenaMode = '1v1',
+		limit: number = 100,
+		offset: number = 0,
+	): Promise<SeasonStanding[]> {
+		try {
+			const result = await this.db.query(
+				`SELECT st.*, s.name as season_name
+				FROM arena_season_standings st
+				JOIN arena_seasons s ON s.id = st.season_id
+				WHERE st.season_id = $1 AND st.mode = $4
+				ORDER BY st.rank
+				LIMIT $2 OFFSET $3`,
+				[seasonId, limit, offset, mode],
+			);
+
+			return result.rows.map((row) => this.rowToStanding(row));
+		} catch (error) {
+			console.error('[ArenaSeasonService] Failed to get season standings:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Get a player's final standings (one per mode) in every past season
+	 */
+	async getPlayerSeasonHistory(playerId: string): Promise<SeasonStanding[]> {
+		try {
+			const result = await this.db.query(
+				`SELECT st.*, s.name as season_name
+				FROM arena_season_standings st
+				JOIN arena_seasons s ON s.id = st.season_id
+				WHERE st.player_id = $1
+				ORDER BY st.season_id DESC, st.mode`,
+				[playerId],
+			);
+
+			return result.rows.map((row) => this.rowToStanding(row));
+		} catch (error) {
+			console.error('[ArenaSeasonService] Failed to get season history:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Convert database row to SeasonStanding
+	 */
+	private rowToStanding(row: any): SeasonStanding {
+		return {
+			season_id: row.season_id,
+			season_name: row.season_name,
+			player_id: row.player_id,
+			player_name: row.player_name,
+			mode: row.mode ?? '1v1',
+			rank: row.rank,
+			final_rating: row.final_rating,
+			peak_rating: row.peak_rating,
+			tier: row.tier,
+			wins: row.wins,
+			losses: row.losses,
+			rewards: SEASON_REWARDS[row.tier as keyof typeof SEASON_REWARDS] ?? null,
+			rewarded_at: row.rewarded_at,
+			pending_items: row.pending_items ?? [],
+		};
+	}
+
+	/**
+	 * Cleanup
+	 */
+	destroy(): void {
+		if (this.seasonInterval) {
+			clearInterval(this.seasonInterval);
+			this.seasonInterval = null;
+		}
+		this.currentSeason = null;
+	}
+}
@@ -3,11 +3,27 @@
  * Server-side PvP arena matchmaking and ranking system
  */
 
-import type { Pool } from 'pg';
+import type { StorageBackend, StorageClient } from '../database/index.ts';
+import { randomUUID } from 'crypto';
+import { INITIAL_RATING, PLACEMENT_MATCHES, getTier } from './tiers.ts';
+import type { ArenaTier } from './tiers.ts';
+import type { BattleReplay } from '../combat/BattleService.ts';
+
+export type ArenaMode = '1v1' | '2v2' | '3v3';
+
+export const ARENA_MODES: ArenaMode[] = ['1v1', '2v2', '3v3'];
+
+// Players per side in each mode
+export const ARENA_TEAM_SIZES: Record<ArenaMode, number> = {
+	'1v1': 1,
+	'2v2': 2,
+	'3v3': 3,
+};
 
 export interface ArenaPlayer {
 	player_id: string;
 	player_name: string;
+	mode: ArenaMode; // Ratings and records are tracked per mode
 	rank: number;
 	rating: number;
 	wins: number;
@@ -16,131 +32,220 @@ export interface ArenaPlayer {
 	current_streak: number;
 	best_streak: number;
 	last_match_at: string | null;
+	tier: ArenaTier;
+	peak_rating: number; // Highest rating this season
+	season_wins: number;
+	season_losses: number;
+	placement_matches_remaining: number;
 }
 
-export interface QueueEntry {
+export interface ArenaTeamMember {
 	player_id: string;
 	player_name: string;
 	rating: number;
+}
+
+/**
+ * A solo player or a pre-made party waiting for a match (keyed by the leader)
+ */
+export interface QueueEntry {
+	player_id: string; // Party leader (or the solo player)
+	player_name: string;
+	mode: ArenaMode;
+	rating: number; // Average rating of the members
+	members: ArenaTeamMember[];
 	queued_at: string;
 }
 
+export interface ArenaPartyMember {
+	player_id: string;
+	player_name: string;
+}
+
+/**
+ * Pre-made group that queues for team modes together
+ */
+export interface ArenaParty {
+	id: string;
+	leader_id: string;
+	members: ArenaPartyMember[];
+	invites: string[]; // Invited player IDs
+}
+
+/**
+ * player1/player2 are the team captains (the only players in 1v1)
+ */
 export interface ArenaMatch {
 	id: number;
+	mode: ArenaMode;
 	player1_id: string;
 	player1_name: string;
 	player1_rating: number;
 	player2_id: string;
 	player2_name: string;
 	player2_rating: number;
-	winner_id: string | null;
+	team1: ArenaTeamMember[];
+	team2: ArenaTeamMember[];
+	winner_id: string | null; // Winning captain
+	winning_team: 1 | 2 | null;
 	status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
 	started_at: string;
 	completed_at: string | null;
 }
 
 export interface MatchResult {
-	winner_id: string;
-	loser_id: string;
+	winning_team: 1 | 2;
 	duration: number; // seconds
 }
 
 export interface JoinQueueRequest {
 	player_id: string;
 	player_name: string;
+	mode?: ArenaMode; // Defaults to 1v1
+}
+
+export type ArenaNotificationType =
+	| 'arena-match-found'
+	| 'arena-match-ready'
+	| 'arena-match-cancelled'
+	| 'arena-party-invite'
+	| 'arena-party-updated'
+	| 'arena-queue-timeout';
+
+export type ArenaNotify = (playerIds: string[], type: ArenaNotificationType, data: any) => void;
+
+interface ReadyCheck {
+	matchId: number;
+	entries: QueueEntry[]; // Original queue entries, used to requeue players who accepted
+	accepted: Set<string>;
+	deadline: number;
+	timer: Timer;
+}
+
+/**
+ * Get every player in a match, team 1 first
+ */
+export function getMatchPlayerIds(match: ArenaMatch): string[] {
+	return [...match.team1, ...match.team2].map((member) => member.player_id);
+}
+
+export interface QueueStatus {
+	queueSize: number;
+	averageRating: number;
+	activeMatches: number;
+	modes: Record<ArenaMode, number>; // Queued players per mode
+	estimatedWait: Record<ArenaMode, number | null>; // Seconds, from recent matches (null = no data yet)
+	player?: {
+		// Set when the requesting player is queued
+		mode: ArenaMode;
+		waited: number; // Seconds
+		ratingRange: number; // Current acceptable rating difference
+		estimatedWait: number | null; // Seconds remaining
+	};
+}
+
+export interface MatchmakingMetrics {
+	mode: ArenaMode;
+	queued: number;
+	matchesFound: number; // Within the sampled window
+	averageWait: number | null; // Seconds
+	medianWait: number | null;
+	p90Wait: number | null;
+	averageTeamRatingGap: number | null; // Difference between team average ratings
+	averageRatingSpread: number | null; // Highest minus lowest rating in a match
+	averageRatingRange: number | null; // Acceptable rating difference used when matching
+	timeouts: number;
+	rematchesAvoided: number;
+}
+
+interface MatchmakingSample {
+	mode: ArenaMode;
+	waits: number[]; // Milliseconds each entry waited
+	teamRatingGap: number;
+	ratingSpread: number;
+	ratingRange: number;
+	createdAt: number;
+}
+
+interface DodgeRecord {
+	count: number; // Dodges within DODGE_WINDOW
+	lastDodgeAt: number;
+	lockedUntil: number;
 }
 
 export interface LeaderboardEntry {
 	rank: number;
 	player_id: string;
 	player_name: string;
+	mode: ArenaMode;
 	rating: number;
-	wins: number;
-	losses: number;
+	tier: ArenaTier;
+	wins: number; // This season
+	losses: number; // This season
 	win_rate: number;
 }
 
 export class ArenaService {
-	private db: Pool;
-	private queue: Map<string, QueueEntry> = new Map();
+	private db: StorageBackend;
+	private queue: Map<string, QueueEntry> = new Map(); // Leader ID -> entry
+	private matchingEntries: Set<QueueEntry> = new Set(); // Taken from the queue while their match is created
+	private parties: Map<string, ArenaParty> = new Map();
+	private playerParties: Map<string, string> = new Map(); // Player ID -> party ID
 	private activeMatches: Map<number, ArenaMatch> = new Map();
+	private readyChecks: Map<number, ReadyCheck> = new Map();
+	private dodges: Map<string, DodgeRecord> = new Map();
 	private matchmakingInterval: Timer | null = null;
+	private matchmakingRunning: boolean = false;
+	private notifyCallback: ArenaNotify | null = null;
+	private matchReadyCallback: ((match: ArenaMatch) => void) | null = null;
+	private recentOpponents: Map<string, Map<string, number>> = new Map(); // Player ID -> opponent ID -> last played
+	private matchmakingSamples: MatchmakingSample[] = [];
+	private queueTimeouts: Record<ArenaMode, number> = { '1v1': 0, '2v2': 0, '3v3': 0 };
+	private rematchesAvoided: Record<ArenaMode, number> = { '1v1': 0, '2v2': 0, '3v3': 0 };
+	private rematchAvoidedEntries: WeakSet<QueueEntry> = new WeakSet();
 
 	// Configuration
-	private readonly INITIAL_RATING = 1500;
+	private readonly INITIAL_RATING = INITIAL_RATING;
 	private readonly K_FACTOR = 32; // ELO K-factor
-	private readonly RATING_RANGE = 200; // Max rating difference for matching
-	private readonly QUEUE_TIMEOUT = 300000; // 5 minutes
+	private readonly PLACEMENT_K_FACTOR = 64; // Ratings move faster during placement matches
+	private readonly RATING_RANGE = 100; // Starting max rating difference for matching
+	private readonly RATING_RANGE_STEP = 50; // The window widens by this much...
+	private readonly RATING_RANGE_STEP_INTERVAL = 15000; // ...every 15 seconds in queue
+	private readonly MAX_RATING_RANGE = 500;
+	private readonly QUEUE_TIMEOUT = 600000; // 10 minutes
+	private readonly REMATCH_COOLDOWN = 900000; // Avoid the same opponents for 15 minutes...
+	private readonly REMATCH_RELAX_AFTER = 120000; // ...unless every entry has waited 2 minutes
+	private readonly METRICS_SAMPLE_SIZE = 200; // Recent matches used for estimates and metrics
 	private readonly MATCHMAKING_INTERVAL = 5000; // 5 seconds
-	private readonly MIN_MATCHES_FOR_RANK = 10;
-
-	constructor(db: Pool) {
+	private readonly MIN_MATCHES_FOR_RANK = PLACEMENT_MATCHES;
+	private readonly READY_CHECK_TIMEOUT = 20000; // 20 seconds to accept
+	private readonly DODGE_WINDOW = 3600000; // Dodges within an hour escalate
+	private readonly DODGE_PENALTIES = [60000, 300000, 900000]; // Queue lockout per dodge: 1, 5, 15 minutes
+	private readonly MAX_PARTY_SIZE = Math.max(...Object.values(ARENA_TEAM_SIZES));
+	private readonly MATCH_CANDIDATES = 8; // Queue entries considered when building one team match
+
+	constructor(db: StorageBackend) {
 		this.db = db;
 	}
 
 	/**
-	 * Initialize database tables
+	 * Set callback that pushes arena events to connected players
 	 */
-	async initialize(): Promise<void> {
-		const client = await this.db.connect();
-		try {
-			// Arena players table
-			await client.query(`
-				CREATE TABLE IF NOT EXISTS arena_players (
-					player_id VARCHAR(255) PRIMARY KEY,
-					player_name VARCHAR(255) NOT NULL,
-					rating INTEGER DEFAULT 1500,
-					wins INTEGER DEFAULT 0,
-					losses INTEGER DEFAULT 0,
-					current_streak INTEGER DEFAULT 0,
-					best_streak INTEGER DEFAULT 0,
-					last_match_at TIMESTAMP,
-					created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-					updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-				)
-			`);
-
-			// Arena matches table
-			await client.query(`
-				CREATE TABLE IF NOT EXISTS arena_matches (
-					id SERIAL PRIMARY KEY,
-					player1_id VARCHAR(255) NOT NULL,
-					player1_name VARCHAR(255) NOT NULL,
-					player1_rating INTEGER NOT NULL,
-					player2_id VARCHAR(255) NOT NULL,
-					player2_name VARCHAR(255) NOT NULL,
-					player2_rating INTEGER NOT NULL,
-					winner_id VARCHAR(255),
-					status VARCHAR(50) DEFAULT 'pending',
-					duration INTEGER,
-					started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-					completed_at TIMESTAMP
-				)
-			`);
-
-			// Indexes
-			await client.query('CREATE INDEX IF NOT EXISTS idx_arena_players_rating ON arena_players(rating DESC)');
-			await client.query('CREATE INDEX IF NOT EXISTS idx_arena_matches_status ON arena_matches(status)');
-			await client.query(
-				'CREATE INDEX IF NOT EXISTS idx_arena_matches_player1 ON arena_matches(player1_id)',
-			);
-			await client.query(
-				'CREATE INDEX IF NOT EXISTS idx_arena_matches_player2 ON arena_matches(player2_id)',
-			);
-
-			console.log('[ArenaService] Database tables initialized');
+	setNotifyCallback(notify: ArenaNotify): void {
+		this.notifyCallback = notify;
+	}
 
-			// Start matchmaking loop
-			this.startMatchmaking();
-		} finally {
-			client.release();
-		}
+	/**
+	 * Set callback invoked once both players accept the ready check
+	 */
+	setMatchReadyCallback(onMatchReady: (match: ArenaMatch) => void): void {
+		this.matchReadyCallback = onMatchReady;
 	}
 
 	/**
 	 * Start matchmaking loop
 	 */
-	private startMatchmaking(): void {
+	startMatchmaking(): void {
 		if (this.matchmakingInterval) {
 			return;
 		}
@@ -164,39 +269,70 @@ export class ArenaService {
 	}
 
 	/**
-	 * Join arena queue
+	 * Join arena queue (a party leader queues the whole party)
 	 */
 	async joinQueue(request: JoinQueueRequest): Promise<{ success: boolean; error?: string; queueSize?: number }> {
-		// Check if already in queue
-		if (this.queue.has(request.player_id)) {
-			return { success: false, error: 'Already in queue' };
+		const mode = request.mode ?? '1v1';
+		if (!ARENA_MODES.includes(mode)) {
+			return { success: false, error: 'Invalid arena mode' };
 		}
 
-		// Check if in active match
-		const inMatch = Array.from(this.activeMatches.values()).some(
-			(match) =>
-				match.status === 'in_progress' &&
-				(match.player1_id === request.player_id || match.player2_id === request.player_id),
-		);
+		const party = this.getParty(request.player_id);
+		if (party && party.leader_id !== request.player_id) {
+			return { success: false, error: 'Only the party leader can join the queue' };
+		}
+
+		const members = party ? party.members : [{ player_id: request.player_id, player_name: request.player_name }];
+		if (members.length > ARENA_TEAM_SIZES[mode]) {
+			return { success: false, error: `Party is too large for ${mode}` };
+		}
+
+		const blocked = this.getQueueBlocker(members);
+		if (blocked) {
+			return { success: false, error: blocked };
+		}
+
+		// Get or create each member's rating for this mode
+		const rated: ArenaTeamMember[] = [];
+		for (const member of members) {
+			const player = await this.getOrCreatePlayer(member.player_id, member.player_name, mode);
+			rated.push({ player_id: member.player_id, player_name: member.player_name, rating: player.rating });
+		}
 
-		if (inMatch) {
-			return { success: false, error: 'Already in an active match' };
+		// A second request, a match or a party change may have happened while ratings loaded
+		const memberIds = (party: ArenaParty | null) =>
+			party ? party.members.map((member) => member.player_id).join(',') : request.player_id;
+		const current = this.getParty(request.player_id);
+		if (memberIds(current) !== memberIds(party) || (current && current.leader_id !== request.player_id)) {
+			return { success: false, error: 'Party changed while joining the queue' };
 		}
 
-		// Get or create player rating
-		const player = await this.getOrCreatePlayer(request.player_id, request.player_name);
+		const blockedNow = this.getQueueBlocker(members);
+		if (blockedNow) {
+			return { success: false, error: blockedNow };
+		}
 
 		// Add to queue
 		const entry: QueueEntry = {
 			player_id: request.player_id,
 			player_name: request.player_name,
-			rating: player.rating,
+			mode,
+			rating: this.getAverageRating(rated),
+			members: rated,
 			queued_at: new Date().toISOString(),
 		};
 
 		this.queue.set(request.player_id, entry);
+		if (party) {
+			this.notifyParty(party);
+		}
+
+		console.log(
+			`[ArenaService] ${request.player_name} joined ${mode} queue with ${members.length} player(s) (${this.queue.size} in queue)`,
+		);
 
-		console.log(`[ArenaService] Player ${request.player_name} joined queue (${this.queue.size} in queue)`);
+		// Match right away instead of waiting for the next interval
+		void this.processMatchmaking();
 
 		return {
 			success: true,
@@ -205,26 +341,84 @@ export class ArenaService {
 	}
 
 	/**
-	 * Leave arena queue
+	 * Get why these players can't queue, or null when they can
+	 */
+	private getQueueBlocker(members: ArenaPartyMember[]): string | null {
+		for (const member of members) {
+			// Check if already in queue
+			if (this.findQueueEntry(member.player_id)) {
+				return `${member.player_name} is already in queue`;
+			}
+
+			// Check if in active match
+			if (this.getActiveMatch(member.player_id)) {
+				return `${member.player_name} is already in an active match`;
+			}
+
+			// Check dodge penalty
+			const lockedFor = this.getQueueLockout(member.player_id);
+			if (lockedFor > 0) {
+				return `${member.player_name} is locked out of the queue after dodging a match (${Math.ceil(lockedFor / 1000)}s remaining)`;
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Leave arena queue (any party member removes the whole party)
+	 * Leaving while a match is being created keeps the entry out of the queue if creation fails
 	 */
 	leaveQueue(playerId: string): { success: boolean } {
-		const removed = this.queue.delete(playerId);
+		const entry = this.findQueueEntry(playerId);
+		const removed = entry ? this.queue.delete(entry.player_id) || this.matchingEntries.delete(entry) : false;
 
 		if (removed) {
 			console.log(`[ArenaService] Player ${playerId} left queue (${this.queue.size} in queue)`);
+
+			const party = this.getParty(playerId);
+			if (party) {
+				this.notifyParty(party);
+			}
 		}
 
 		return { success: removed };
 	}
 
+	/**
+	 * Find the queue entry a player is part of
+	 */
+	private findQueueEntry(playerId: string): QueueEntry | null {
+		for (const entry of [...this.queue.values(), ...this.matchingEntries]) {
+			if (entry.members.some((member) => member.player_id === playerId)) {
+				return entry;
+			}
+		}
+		return null;
+	}
+
 	/**
 	 * Process matchmaking
 	 */
 	private async processMatchmaking(): Promise<void> {
-		if (this.queue.size < 2) {
+		if (this.queue.size < 2 || this.matchmakingRunning) {
 			return;
 		}
 
+		this.matchmakingRunning = true;
+		try {
+			await this.matchQueuedPlayers();
+		} catch (error) {
+			console.error('[ArenaService] Matchmaking failed:', error);
+		} finally {
+			this.matchmakingRunning = false;
+		}
+	}
+
+	/**
+	 * Build matches for each mode from queued players within rating range
+	 */
+	private async matchQueuedPlayers(): Promise<void> {
 		const now = Date.now();
 		const entries = Array.from(this.queue.values());
 
@@ -233,68 +427,287 @@ export class ArenaService {
 			const queuedAt = new Date(entry.queued_at).getTime();
 			if (now - queuedAt > this.QUEUE_TIMEOUT) {
 				this.queue.delete(entry.player_id);
+				this.queueTimeouts[entry.mode]++;
+				this.notify(
+					entry.members.map((member) => member.player_id),
+					'arena-queue-timeout',
+					{ mode: entry.mode },
+				);
 				console.log(`[ArenaService] Player ${entry.player_name} removed from queue (timeout)`);
 			}
 		});
 
-		// Sort by rating
-		const validEntries = Array.from(this.queue.values()).sort((a, b) => a.rating - b.rating);
+		this.pruneRecentOpponents(now);
+
+		for (const mode of ARENA_MODES) {
+			// Sort by rating
+			const validEntries = Array.from(this.queue.values())
+				.filter((entry) => entry.mode === mode)
+				.sort((a, b) => a.rating - b.rating);
+
+			// Entries can leave or time out while a match is created, so check they are still queued
+			const isQueued = (entry: QueueEntry) => this.queue.get(entry.player_id) === entry;
 
-		// Try to match players
-		const matched: Set<string> = new Set();
+			for (const anchor of validEntries) {
+				if (!isQueued(anchor)) {
+					continue;
+				}
 
-		for (let i = 0; i < validEntries.length - 1; i++) {
-			if (matched.has(validEntries[i].player_id)) {
+				// Either entry's window is enough, so long waits widen the search for both sides
+				const candidates = validEntries
+					.filter(
+						(entry) =>
+							entry !== anchor &&
+							isQueued(entry) &&
+							Math.abs(entry.rating - anchor.rating) <=
+								Math.max(this.getRatingRange(anchor, now), this.getRatingRange(entry, now)),
+					)
+					.sort((a, b) => Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating))
+					.slice(0, this.MATCH_CANDIDATES - 1);
+
+				const found = this.findBalancedTeams(anchor, candidates, ARENA_TEAM_SIZES[mode], now);
+				if (!found) {
+					continue;
+				}
+
+				const { teams, ratingRange } = found;
+				const entries = [...teams[0], ...teams[1]];
+
+				// Take the entries out of the queue while the match is created so nothing else matches them
+				for (const entry of entries) {
+					this.queue.delete(entry.player_id);
+					this.matchingEntries.add(entry);
+				}
+
+				const match = await this.createMatch(mode, teams[0], teams[1]);
+
+				// If creation fails, entries that didn't leave meanwhile are queued again and retried
+				for (const entry of entries) {
+					if (this.matchingEntries.delete(entry) && !match) {
+						this.queue.set(entry.player_id, entry);
+					}
+				}
+
+				if (match) {
+					this.recordMatchmakingSample(mode, teams, ratingRange, now);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Pick queue entries that fill two teams of teamSize (parties stay together),
+	 * minimizing the difference in average team rating and avoiding recent opponents
+	 */
+	private findBalancedTeams(
+		anchor: QueueEntry,
+		candidates: QueueEntry[],
+		teamSize: number,
+		now: number,
+	): { teams: [QueueEntry[], QueueEntry[]]; ratingRange: number } | null {
+		const pool = [anchor, ...candidates];
+		let best: { teams: [QueueEntry[], QueueEntry[]]; diff: number; ratingRange: number } | null = null;
+		let avoidedRematch = false;
+
+		// Every subset of the pool that includes the anchor (bit 0)
+		for (let subset = 1; subset < 1 << pool.length; subset += 2) {
+			const chosen = pool.filter((_, i) => subset & (1 << i));
+			if (chosen.reduce((sum, entry) => sum + entry.members.length, 0) !== teamSize * 2) {
 				continue;
 			}
 
-			for (let j = i + 1; j < validEntries.length; j++) {
-				if (matched.has(validEntries[j].player_id)) {
+			// Every split that puts the anchor on team 1
+			for (let split = 1; split < 1 << chosen.length; split += 2) {
+				const team1 = chosen.filter((_, i) => split & (1 << i));
+				const team2 = chosen.filter((_, i) => !(split & (1 << i)));
+
+				if (team1.reduce((sum, entry) => sum + entry.members.length, 0) !== teamSize) {
+					continue;
+				}
+
+				const diff = Math.abs(
+					this.getAverageRating(team1.flatMap((entry) => entry.members)) -
+						this.getAverageRating(team2.flatMap((entry) => entry.members)),
+				);
+				const ratingRange = Math.max(...chosen.map((entry) => this.getRatingRange(entry, now)));
+
+				if (diff > ratingRange || (best && diff >= best.diff)) {
+					continue;
+				}
+
+				if (this.isRecentRematch(team1, team2, now)) {
+					avoidedRematch = true;
 					continue;
 				}
 
-				const player1 = validEntries[i];
-				const player2 = validEntries[j];
-				const ratingDiff = Math.abs(player1.rating - player2.rating);
-
-				// Check if ratings are close enough
-				if (ratingDiff <= this.RATING_RANGE) {
-					// Create match
-					await this.createMatch(player1, player2);
-					matched.add(player1.player_id);
-					matched.add(player2.player_id);
-					this.queue.delete(player1.player_id);
-					this.queue.delete(player2.player_id);
-					break;
+				best = { teams: [team1, team2], diff, ratingRange };
+			}
+		}
+
+		// Count each queue entry once, not on every matchmaking pass
+		if (avoidedRematch && !this.rematchAvoidedEntries.has(anchor)) {
+			this.rematchAvoidedEntries.add(anchor);
+			this.rematchesAvoided[anchor.mode]++;
+		}
+
+		return best ? { teams: best.teams, ratingRange: best.ratingRange } : null;
+	}
+
+	/**
+	 * Acceptable rating difference for a queue entry, widening the longer it waits
+	 */
+	private getRatingRange(entry: QueueEntry, now: number): number {
+		const waited = now - new Date(entry.queued_at).getTime();
+		const steps = Math.floor(waited / this.RATING_RANGE_STEP_INTERVAL);
+		return Math.min(this.MAX_RATING_RANGE, this.RATING_RANGE + steps * this.RATING_RANGE_STEP);
+	}
+
+	/**
+	 * Check whether any two opponents played each other within the rematch cooldown
+	 * (ignored once every entry has waited long enough)
+	 */
+	private isRecentRematch(team1: QueueEntry[], team2: QueueEntry[], now: number): boolean {
+		const entries = [...team1, ...team2];
+		if (entries.every((entry) => now - new Date(entry.queued_at).getTime() >= this.REMATCH_RELAX_AFTER)) {
+			return false;
+		}
+
+		const opponents = team2.flatMap((entry) => entry.members.map((member) => member.player_id));
+		return team1.some((entry) =>
+			entry.members.some((member) => {
+				const recent = this.recentOpponents.get(member.player_id);
+				return opponents.some((opponentId) => {
+					const playedAt = recent?.get(opponentId);
+					return playedAt !== undefined && now - playedAt < this.REMATCH_COOLDOWN;
+				});
+			}),
+		);
+	}
+
+	/**
+	 * Remember who played whom so matchmaking can avoid immediate rematches
+	 */
+	private recordOpponents(match: ArenaMatch): void {
+		const now = Date.now();
+		const sides: [ArenaTeamMember[], ArenaTeamMember[]][] = [
+			[match.team1, match.team2],
+			[match.team2, match.team1],
+		];
+
+		for (const [team, opponents] of sides) {
+			for (const member of team) {
+				const recent = this.recentOpponents.get(member.player_id) ?? new Map<string, number>();
+				for (const opponent of opponents) {
+					recent.set(opponent.player_id, now);
+				}
+				this.recentOpponents.set(member.player_id, recent);
+			}
+		}
+	}
+
+	/**
+	 * Drop opponent records older than the rematch cooldown
+	 */
+	private pruneRecentOpponents(now: number): void {
+		for (const [playerId, recent] of this.recentOpponents) {
+			for (const [opponentId, playedAt] of recent) {
+				if (now - playedAt >= this.REMATCH_COOLDOWN) {
+					recent.delete(opponentId);
 				}
 			}
+			if (recent.size === 0) {
+				this.recentOpponents.delete(playerId);
+			}
+		}
+	}
+
+	/**
+	 * Record wait times and match quality for queue estimates and metrics
+	 */
+	private recordMatchmakingSample(
+		mode: ArenaMode,
+		teams: [QueueEntry[], QueueEntry[]],
+		ratingRange: number,
+		now: number,
+	): void {
+		const members1 = teams[0].flatMap((entry) => entry.members);
+		const members2 = teams[1].flatMap((entry) => entry.members);
+		const ratings = [...members1, ...members2].map((member) => member.rating);
+
+		this.matchmakingSamples.push({
+			mode,
+			waits: [...teams[0], ...teams[1]].map((entry) => now - new Date(entry.queued_at).getTime()),
+			teamRatingGap: Math.abs(this.getAverageRating(members1) - this.getAverageRating(members2)),
+			ratingSpread: Math.max(...ratings) - Math.min(...ratings),
+			ratingRange,
+			createdAt: now,
+		});
+
+		if (this.matchmakingSamples.length > this.METRICS_SAMPLE_SIZE) {
+			this.matchmakingSamples.shift();
 		}
 	}
 
+	/**
+	 * Sorted wait times (ms) of recent matches in a mode
+	 */
+	private getRecentWaits(mode: ArenaMode): number[] {
+		return this.matchmakingSamples
+			.filter((sample) => sample.mode === mode)
+			.flatMap((sample) => sample.waits)
+			.sort((a, b) => a - b);
+	}
+
+	/**
+	 * Average rating of a group of players
+	 */
+	private getAverageRating(members: { rating: number }[]): number {
+		return members.length > 0 ? Math.round(members.reduce((sum, m) => sum + m.rating, 0) / members.length) : 0;
+	}
+
 	/**
 	 * Create a match
 	 */
-	private async createMatch(player1: QueueEntry, player2: QueueEntry): Promise<ArenaMatch | null> {
+	private async createMatch(mode: ArenaMode, team1: QueueEntry[], team2: QueueEntry[]): Promise<ArenaMatch | null> {
+		const members1 = team1.flatMap((entry) => entry.members);
+		const members2 = team2.flatMap((entry) => entry.members);
+		const captain1 = members1[0]!;
+		const captain2 = members2[0]!;
+
 		const client = await this.db.connect();
 		try {
 			await client.query('BEGIN');
 
 			const result = await client.query(
 				`INSERT INTO arena_matches
-				(player1_id, player1_name, player1_rating, player2_id, player2_name, player2_rating, status)
-				VALUES ($1, $2, $3, $4, $5, $6, 'pending')
+				(player1_id, player1_name, player1_rating, player2_id, player2_name, player2_rating,
+					mode, team1, team2, status, season_id)
+				VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending',
+					(SELECT id FROM arena_seasons WHERE status = 'active' ORDER BY id DESC LIMIT 1))
 				RETURNING *`,
-				[player1.player_id, player1.player_name, player1.rating, player2.player_id, player2.player_name, player2.rating],
+				[
+					captain1.player_id,
+					captain1.player_name,
+					this.getAverageRating(members1),
+					captain2.player_id,
+					captain2.player_name,
+					this.getAverageRating(members2),
+					mode,
+					JSON.stringify(members1),
+					JSON.stringify(members2),
+				],
 			);
 
 			await client.query('COMMIT');
 
-			const match: ArenaMatch = result.rows[0];
+			const match = this.rowToMatch(result.rows[0]);
 			this.activeMatches.set(match.id, match);
 
-			console.log(
-				`[ArenaService] Match created: ${player1.player_name} (${player1.rating}) vs ${player2.player_name} (${player2.rating})`,
-			);
+			const describe = (members: ArenaTeamMember[]) =>
+				members.map((member) => `${member.player_name} (${member.rating})`).join(', ');
+			console.log(`[ArenaService] ${mode} match created: ${describe(members1)} vs ${describe(members2)}`);
+
+			this.startReadyCheck(match, [...team1, ...team2]);
 
 			return match;
 		} catch (error) {
@@ -306,6 +719,303 @@ export class ArenaService {
 		}
 	}
 
+	/**
+	 * Ask every player to accept the match before it starts
+	 */
+	private startReadyCheck(match: ArenaMatch, entries: QueueEntry[]): void {
+		const deadline = Date.now() + this.READY_CHECK_TIMEOUT;
+		const timer = setTimeout(() => {
+			this.expireReadyCheck(match.id).catch((error) => {
+				console.error('[ArenaService] Failed to expire ready check:', error);
+			});
+		}, this.READY_CHECK_TIMEOUT);
+
+		this.readyChecks.set(match.id, { matchId: match.id, entries, accepted: new Set(), deadline, timer });
+		this.notify(getMatchPlayerIds(match), 'arena-match-found', { match, readyDeadline: deadline });
+	}
+
+	/**
+	 * Accept or decline a match ready check
+	 */
+	async respondToReadyCheck(
+		matchId: number,
+		playerId: string,
+		accept: boolean,
+	): Promise<{ success: boolean; error?: string }> {
+		const check = this.readyChecks.get(matchId);
+		const match = this.activeMatches.get(matchId);
+
+		if (!check || !match) {
+			return { success: false, error: 'Ready check not found' };
+		}
+
+		const playerIds = getMatchPlayerIds(match);
+		if (!playerIds.includes(playerId)) {
+			return { success: false, error: 'Not a participant in this match' };
+		}
+
+		if (!accept) {
+			await this.failReadyCheck(check, [playerId], 'declined');
+			return { success: true };
+		}
+
+		check.accepted.add(playerId);
+
+		if (check.accepted.size < playerIds.length) {
+			return { success: true };
+		}
+
+		clearTimeout(check.timer);
+		this.readyChecks.delete(matchId);
+
+		console.log(`[ArenaService] Match ${matchId} ready`);
+		this.notify(playerIds, 'arena-match-ready', { match });
+		this.matchReadyCallback?.(match);
+
+		return { success: true };
+	}
+
+	/**
+	 * Check whether a match is still waiting on its ready check
+	 */
+	isReadyCheckPending(matchId: number): boolean {
+		return this.readyChecks.has(matchId);
+	}
+
+	/**
+	 * Players who did not accept in time are treated as dodging
+	 */
+	private async expireReadyCheck(matchId: number): Promise<void> {
+		const check = this.readyChecks.get(matchId);
+		if (!check) return;
+
+		const dodgers = check.entries
+			.flatMap((entry) => entry.members.map((member) => member.player_id))
+			.filter((playerId) => !check.accepted.has(playerId));
+
+		await this.failReadyCheck(check, dodgers, 'timeout');
+	}
+
+	/**
+	 * Cancel the match, penalize dodgers and requeue every party without a dodger
+	 */
+	private async failReadyCheck(
+		check: ReadyCheck,
+		dodgerIds: string[],
+		reason: 'declined' | 'timeout',
+	): Promise<void> {
+		clearTimeout(check.timer);
+		this.readyChecks.delete(check.matchId);
+
+		await this.cancelMatch(check.matchId);
+
+		for (const playerId of dodgerIds) {
+			this.applyDodgePenalty(playerId);
+		}
+
+		// Players who accepted keep their original queue time
+		const requeued: string[] = [];
+		for (const entry of check.entries) {
+			const memberIds = entry.members.map((member) => member.player_id);
+			if (!memberIds.some((playerId) => dodgerIds.includes(playerId))) {
+				this.queue.set(entry.player_id, entry);
+				requeued.push(...memberIds);
+			}
+		}
+
+		this.notify(
+			check.entries.flatMap((entry) => entry.members.map((member) => member.player_id)),
+			'arena-match-cancelled',
+			{ matchId: check.matchId, reason, dodgerIds, requeued },
+		);
+
+		void this.processMatchmaking();
+	}
+
+	/**
+	 * Lock a player out of the queue, longer for repeat dodges
+	 */
+	private applyDodgePenalty(playerId: string): void {
+		const now = Date.now();
+		const previous = this.dodges.get(playerId);
+		const count = previous && now - previous.lastDodgeAt < this.DODGE_WINDOW ? previous.count + 1 : 1;
+		const penalty = this.DODGE_PENALTIES[Math.min(count, this.DODGE_PENALTIES.length) - 1]!;
+
+		this.dodges.set(playerId, { count, lastDodgeAt: now, lockedUntil: now + penalty });
+
+		console.log(`[ArenaService] Player ${playerId} dodged (${count} in window), locked for ${penalty / 1000}s`);
+	}
+
+	/**
+	 * Get remaining queue lockout in milliseconds
+	 */
+	getQueueLockout(playerId: string): number {
+		const record = this.dodges.get(playerId);
+		return record ? Math.max(0, record.lockedUntil - Date.now()) : 0;
+	}
+
+	/**
+	 * Create a party led by the player
+	 */
+	createParty(playerId: string, playerName: string): { success: boolean; error?: string; party?: ArenaParty } {
+		if (this.playerParties.has(playerId)) {
+			return { success: false, error: 'Already in a party' };
+		}
+
+		if (this.findQueueEntry(playerId)) {
+			return { success: false, error: 'Leave the queue before creating a party' };
+		}
+
+		const party: ArenaParty = {
+			id: randomUUID(),
+			leader_id: playerId,
+			members: [{ player_id: playerId, player_name: playerName }],
+			invites: [],
+		};
+
+		this.parties.set(party.id, party);
+		this.playerParties.set(playerId, party.id);
+
+		console.log(`[ArenaService] ${playerName} created party ${party.id}`);
+
+		return { success: true, party };
+	}
+
+	/**
+	 * Invite a player to the leader's party
+	 */
+	inviteToParty(leaderId: string, targetId: string): { success: boolean; error?: string } {
+		const party = this.getParty(leaderId);
+
+		if (!party || party.leader_id !== leaderId) {
+			return { success: false, error: 'Only the party leader can invite players' };
+		}
+
+		if (targetId === leaderId || party.members.some((member) => member.player_id === targetId)) {
+			return { success: false, error: 'Player is already in the party' };
+		}
+
+		if (party.members.length + party.invites.length >= this.MAX_PARTY_SIZE) {
+			return { success: false, error: 'Party is full' };
+		}
+
+		if (!party.invites.includes(targetId)) {
+			party.invites.push(targetId);
+		}
+
+		this.notify([targetId], 'arena-party-invite', { party });
+		this.notifyParty(party);
+
+		return { success: true };
+	}
+
+	/**
+	 * Accept a party invite
+	 */
+	acceptPartyInvite(
+		partyId: string,
+		playerId: string,
+		playerName: string,
+	): { success: boolean; error?: string; party?: ArenaParty } {
+		const party = this.parties.get(partyId);
+
+		if (!party || !party.invites.includes(playerId)) {
+			return { success: false, error: 'Invite not found' };
+		}
+
+		if (this.playerParties.has(playerId)) {
+			return { success: false, error: 'Already in a party' };
+		}
+
+		if (this.findQueueEntry(playerId) || this.getActiveMatch(playerId)) {
+			return { success: false, error: 'Cannot join a party while queued or in a match' };
+		}
+
+		// The party's queue entry no longer matches its members
+		this.leaveQueue(party.leader_id);
+
+		party.invites = party.invites.filter((id) => id !== playerId);
+		party.members.push({ player_id: playerId, player_name: playerName });
+		this.playerParties.set(playerId, party.id);
+
+		console.log(`[ArenaService] ${playerName} joined party ${party.id}`);
+		this.notifyParty(party);
+
+		return { success: true, party };
+	}
+
+	/**
+	 * Decline a party invite
+	 */
+	declinePartyInvite(partyId: string, playerId: string): { success: boolean; error?: string } {
+		const party = this.parties.get(partyId);
+
+		if (!party || !party.invites.includes(playerId)) {
+			return { success: false, error: 'Invite not found' };
+		}
+
+		party.invites = party.invites.filter((id) => id !== playerId);
+		this.notifyParty(party);
+
+		return { success: true };
+	}
+
+	/**
+	 * Leave the current party (leadership passes on; empty parties are disbanded)
+	 */
+	leaveParty(playerId: string): { success: boolean; error?: string } {
+		const party = this.getParty(playerId);
+
+		if (!party) {
+			return { success: false, error: 'Not in a party' };
+		}
+
+		this.leaveQueue(playerId);
+
+		party.members = party.members.filter((member) => member.player_id !== playerId);
+		this.playerParties.delete(playerId);
+		this.notify([playerId], 'arena-party-updated', { party: null, queueMode: null });
+
+		if (party.members.length === 0) {
+			this.parties.delete(party.id);
+			console.log(`[ArenaService] Party ${party.id} disbanded`);
+			return { success: true };
+		}
+
+		if (party.leader_id === playerId) {
+			party.leader_id = party.members[0]!.player_id;
+		}
+
+		this.notifyParty(party);
+
+		return { success: true };
+	}
+
+	/**
+	 * Get the party a player belongs to
+	 */
+	getParty(playerId: string): ArenaParty | null {
+		const partyId = this.playerParties.get(playerId);
+		return partyId ? (this.parties.get(partyId) ?? null) : null;
+	}
+
+	/**
+	 * Push the current party state (and the mode it is queued for) to its members
+	 */
+	private notifyParty(party: ArenaParty): void {
+		this.notify(party.members.map((member) => member.player_id), 'arena-party-updated', {
+			party,
+			queueMode: this.queue.get(party.leader_id)?.mode ?? null,
+		});
+	}
+
+	/**
+	 * Push an arena event to players
+	 */
+	private notify(playerIds: string[], type: ArenaNotificationType, data: any): void {
+		this.notifyCallback?.(playerIds, type, data);
+	}
+
 	/**
 	 * Start match
 	 */
@@ -329,7 +1039,7 @@ export class ArenaService {
 
 			await client.query('COMMIT');
 
-			const match = result.rows[0];
+			const match = this.rowToMatch(result.rows[0]);
 			this.activeMatches.set(match.id, match);
 
 			console.log(`[ArenaService] Match ${matchId} started`);
@@ -345,27 +1055,20 @@ export class ArenaService {
 	}
 
 	/**
-	 * Complete match with result
+	 * Complete match with result (each player's rating moves against the opposing team's average)
 	 */
 	async completeMatch(
 		matchId: number,
 		result: MatchResult,
-	): Promise<{ success: boolean; error?: string; ratingChanges?: { winner: number; loser: number } }> {
+	): Promise<{ success: boolean; error?: string; ratingChanges?: Record<string, number> }> {
 		const match = this.activeMatches.get(matchId);
 
 		if (!match) {
 			return { success: false, error: 'Match not found' };
 		}
 
-		// Validate winner is one of the players
-		if (result.winner_id !== match.player1_id && result.winner_id !== match.player2_id) {
-			return { success: false, error: 'Invalid winner' };
-		}
-
-		// Validate loser is the other player
-		const expectedLoserId = result.winner_id === match.player1_id ? match.player2_id : match.player1_id;
-		if (result.loser_id !== expectedLoserId) {
-			return { success: false, error: 'Invalid loser' };
+		if (result.winning_team !== 1 && result.winning_team !== 2) {
+			return { success: false, error: 'Invalid winning team' };
 		}
 
 		const client = await this.db.connect();
@@ -373,75 +1076,86 @@ export class ArenaService {
 			await client.query('BEGIN');
 
 			// Get current ratings
-			const winner = await this.getPlayer(result.winner_id);
-			const loser = await this.getPlayer(result.loser_id);
+			const [winnerTeam, loserTeam] =
+				result.winning_team === 1 ? [match.team1, match.team2] : [match.team2, match.team1];
+			const winners = await Promise.all(
+				winnerTeam.map((m) => this.getPlayer(m.player_id, match.mode, client)),
+			);
+			const losers = await Promise.all(
+				loserTeam.map((m) => this.getPlayer(m.player_id, match.mode, client)),
+			);
 
-			if (!winner || !loser) {
+			if (winners.some((player) => !player) || losers.some((player) => !player)) {
 				await client.query('ROLLBACK');
 				return { success: false, error: 'Player not found' };
 			}
 
-			// Calculate new ratings using ELO
-			const expectedWinner = 1 / (1 + Math.pow(10, (loser.rating - winner.rating) / 400));
-			const expectedLoser = 1 - expectedWinner;
-
-			const newWinnerRating = Math.round(winner.rating + this.K_FACTOR * (1 - expectedWinner));
-			const newLoserRating = Math.round(loser.rating + this.K_FACTOR * (0 - expectedLoser));
-
-			const winnerRatingChange = newWinnerRating - winner.rating;
-			const loserRatingChange = newLoserRating - loser.rating;
-
-			// Update winner
-			await client.query(
-				`UPDATE arena_players
-				SET rating = $1,
-					wins = wins + 1,
-					current_streak = current_streak + 1,
-					best_streak = GREATEST(best_streak, current_streak + 1),
-					last_match_at = CURRENT_TIMESTAMP,
-					updated_at = CURRENT_TIMESTAMP
-				WHERE player_id = $2`,
-				[newWinnerRating, result.winner_id],
-			);
+			const winnerAverage = this.getAverageRating(winners as ArenaPlayer[]);
+			const loserAverage = this.getAverageRating(losers as ArenaPlayer[]);
+			const ratingChanges: Record<string, number> = {};
+
+			// Update winners
+			for (const winner of winners as ArenaPlayer[]) {
+				const expected = 1 / (1 + Math.pow(10, (loserAverage - winner.rating) / 400));
+				const newRating = Math.round(winner.rating + this.getKFactor(winner) * (1 - expected));
+				ratingChanges[winner.player_id] = newRating - winner.rating;
+
+				await client.query(
+					`UPDATE arena_players
+					SET rating = $1,
+						peak_rating = GREATEST(peak_rating, $1),
+						wins = wins + 1,
+						season_wins = season_wins + 1,
+						current_streak = current_streak + 1,
+						best_streak = GREATEST(best_streak, current_streak + 1),
+						last_match_at = CURRENT_TIMESTAMP,
+						updated_at = CURRENT_TIMESTAMP
+					WHERE player_id = $2 AND mode = $3`,
+					[newRating, winner.player_id, match.mode],
+				);
+			}
 
-			// Update loser
-			await client.query(
-				`UPDATE arena_players
-				SET rating = $1,
-					losses = losses + 1,
-					current_streak = 0,
-					last_match_at = CURRENT_TIMESTAMP,
-					updated_at = CURRENT_TIMESTAMP
-				WHERE player_id = $2`,
-				[newLoserRating, result.loser_id],
-			);
+			// Update losers
+			for (const loser of losers as ArenaPlayer[]) {
+				const expected = 1 / (1 + Math.pow(10, (winnerAverage - loser.rating) / 400));
+				const newRating = Math.round(loser.rating + this.getKFactor(loser) * (0 - expected));
+				ratingChanges[loser.player_id] = newRating - loser.rating;
+
+				await client.query(
+					`UPDATE arena_players
+					SET rating = $1,
+						losses = losses + 1,
+						season_losses = season_losses + 1,
+						current_streak = 0,
+						last_match_at = CURRENT_TIMESTAMP,
+						updated_at = CURRENT_TIMESTAMP
+					WHERE player_id = $2 AND mode = $3`,
+					[newRating, loser.player_id, match.mode],
+				);
+			}
 
 			// Update match
 			await client.query(
 				`UPDATE arena_matches
 				SET winner_id = $1,
+					winning_team = $2,
 					status = 'completed',
-					duration = $2,
+					duration = $3,
 					completed_at = CURRENT_TIMESTAMP
-				WHERE id = $3`,
-				[result.winner_id, result.duration, matchId],
+				WHERE id = $4`,
+				[winnerTeam[0]!.player_id, result.winning_team, result.duration, matchId],
 			);
 
 			await client.query('COMMIT');
 
 			this.activeMatches.delete(matchId);
+			this.recordOpponents(match);
 
 			console.log(
-				`[ArenaService] Match ${matchId} completed: ${winner.player_name} wins (+${winnerRatingChange} rating)`,
+				`[ArenaService] ${match.mode} match ${matchId} completed: team ${result.winning_team} wins`,
 			);
 
-			return {
-				success: true,
-				ratingChanges: {
-					winner: winnerRatingChange,
-					loser: loserRatingChange,
-				},
-			};
+			return { success: true, ratingChanges };
 		} catch (error) {
 			await client.query('ROLLBACK');
 			console.error('[ArenaService] Failed to complete match:', error);
@@ -471,6 +1185,12 @@ export class ArenaService {
 
 			this.activeMatches.delete(matchId);
 
+			const check = this.readyChecks.get(matchId);
+			if (check) {
+				clearTimeout(check.timer);
+				this.readyChecks.delete(matchId);
+			}
+
 			console.log(`[ArenaService] Match ${matchId} cancelled`);
 
 			return { success: true };
@@ -483,25 +1203,73 @@ export class ArenaService {
 		}
 	}
 
+	/**
+	 * Persist the replay of a completed match
+	 */
+	async saveReplay(replay: BattleReplay): Promise<void> {
+		try {
+			await this.db.query(
+				`INSERT INTO arena_replays (match_id, battle_id, entities, frames, result, duration)
+				VALUES ($1, $2, $3, $4, $5, $6)
+				ON CONFLICT (match_id) DO NOTHING`,
+				[
+					replay.matchId,
+					replay.battleId,
+					JSON.stringify(replay.entities),
+					JSON.stringify(replay.frames),
+					JSON.stringify(replay.result),
+					replay.duration,
+				],
+			);
+		} catch (error) {
+			console.error('[ArenaService] Failed to save replay:', error);
+		}
+	}
+
+	/**
+	 * Get the replay of a completed match
+	 */
+	async getReplay(matchId: number): Promise<BattleReplay | null> {
+		try {
+			const result = await this.db.query('SELECT * FROM arena_replays WHERE match_id = $1', [matchId]);
+			const row = result.rows[0];
+			if (!row) {
+				return null;
+			}
+
+			return {
+				battleId: row.battle_id,
+				matchId: row.match_id,
+				entities: row.entities,
+				frames: row.frames,
+				result: row.result,
+				duration: row.duration,
+			};
+		} catch (error) {
+			console.error('[ArenaService] Failed to get replay:', error);
+			return null;
+		}
+	}
+
 	/**
 	 * Get or create player
 	 */
-	private async getOrCreatePlayer(playerId: string, playerName: string): Promise<ArenaPlayer> {
-		let player = await this.getPlayer(playerId);
+	private async getOrCreatePlayer(playerId: string, playerName: string, mode: ArenaMode): Promise<ArenaPlayer> {
+		let player = await this.getPlayer(playerId, mode);
 
 		if (!player) {
 			const client = await this.db.connect();
 			try {
 				const result = await client.query(
-					`INSERT INTO arena_players (player_id, player_name, rating)
-					VALUES ($1, $2, $3)
-					ON CONFLICT (player_id) DO UPDATE SET player_name = $2
+					`INSERT INTO arena_players (player_id, player_name, mode, rating, peak_rating)
+					VALUES ($1, $2, $3, $4, $4)
+					ON CONFLICT (player_id, mode) DO UPDATE SET player_name = $2
 					RETURNING *`,
-					[playerId, playerName, this.INITIAL_RATING],
+					[playerId, playerName, mode, this.INITIAL_RATING],
 				);
 
 				player = this.rowToPlayer(result.rows[0]);
-				console.log(`[ArenaService] Created arena player: ${playerName}`);
+				console.log(`[ArenaService] Created ${mode} arena player: ${playerName}`);
 			} finally {
 				client.release();
 			}
@@ -511,11 +1279,18 @@ export class ArenaService {
 	}
 
 	/**
-	 * Get player
+	 * Get player (pass the client when called inside a transaction)
 	 */
-	private async getPlayer(playerId: string): Promise<ArenaPlayer | null> {
+	private async getPlayer(
+		playerId: string,
+		mode: ArenaMode,
+		db: Pick<StorageClient, 'query'> = this.db,
+	): Promise<ArenaPlayer | null> {
 		try {
-			const result = await this.db.query('SELECT * FROM arena_players WHERE player_id = $1', [playerId]);
+			const result = await db.query('SELECT * FROM arena_players WHERE player_id = $1 AND mode = $2', [
+				playerId,
+				mode,
+			]);
 
 			if (result.rows.length === 0) {
 				return null;
@@ -531,35 +1306,42 @@ export class ArenaService {
 	/**
 	 * Get player stats
 	 */
-	async getPlayerStats(playerId: string): Promise<ArenaPlayer | null> {
-		return this.getPlayer(playerId);
+	async getPlayerStats(playerId: string, mode: ArenaMode = '1v1'): Promise<ArenaPlayer | null> {
+		return this.getPlayer(playerId, mode);
 	}
 
 	/**
-	 * Get leaderboard
+	 * Get leaderboard for a mode
 	 */
-	async getLeaderboard(limit: number = 100, offset: number = 0): Promise<LeaderboardEntry[]> {
+	async getLeaderboard(limit: number = 100, offset: number = 0, mode: ArenaMode = '1v1'): Promise<LeaderboardEntry[]> {
 		try {
 			const result = await this.db.query(
 				`SELECT
 					ROW_NUMBER() OVER (ORDER BY rating DESC) as rank,
 					player_id,
 					player_name,
+					mode,
 					rating,
-					wins,
-					losses,
+					season_wins as wins,
+					season_losses as losses,
 					CASE
-						WHEN (wins + losses) > 0 THEN ROUND((wins::numeric / (wins + losses)) * 100, 2)
+						WHEN (season_wins + season_losses) > 0
+						THEN ROUND((season_wins::numeric / (season_wins + season_losses)) * 100, 2)
 						ELSE 0
 					END as win_rate
 				FROM arena_players
-				WHERE (wins + losses) >= $3
+				WHERE (season_wins + season_losses) >= $3 AND mode = $4
 				ORDER BY rating DESC
 				LIMIT $1 OFFSET $2`,
-				[limit, offset, this.MIN_MATCHES_FOR_RANK],
+				[limit, offset, this.MIN_MATCHES_FOR_RANK, mode],
 			);
 
-			return result.rows;
+			return result.rows.map((row) => ({
+				...row,
+				rank: parseInt(row.rank),
+				win_rate: Number(row.win_rate),
+				tier: getTier(row.rating),
+			}));
 		} catch (error) {
 			console.error('[ArenaService] Failed to get leaderboard:', error);
 			return [];
@@ -567,9 +1349,9 @@ export class ArenaService {
 	}
 
 	/**
-	 * Get player rank
+	 * Get player rank in a mode
 	 */
-	async getPlayerRank(playerId: string): Promise<number | null> {
+	async getPlayerRank(playerId: string, mode: ArenaMode = '1v1'): Promise<number | null> {
 		try {
 			const result = await this.db.query(
 				`SELECT rank FROM (
@@ -577,10 +1359,10 @@ export class ArenaService {
 						player_id,
 						ROW_NUMBER() OVER (ORDER BY rating DESC) as rank
 					FROM arena_players
-					WHERE (wins + losses) >= $1
+					WHERE (season_wins + season_losses) >= $1 AND mode = $3
 				) ranked
 				WHERE player_id = $2`,
-				[this.MIN_MATCHES_FOR_RANK, playerId],
+				[this.MIN_MATCHES_FOR_RANK, playerId, mode],
 			);
 
 			if (result.rows.length === 0) {
@@ -595,20 +1377,20 @@ export class ArenaService {
 	}
 
 	/**
-	 * Get match history
+	 * Get match history (all modes)
 	 */
 	async getMatchHistory(playerId: string, limit: number = 20, offset: number = 0): Promise<ArenaMatch[]> {
 		try {
 			const result = await this.db.query(
 				`SELECT * FROM arena_matches
-				WHERE (player1_id = $1 OR player2_id = $1)
+				WHERE (player1_id = $1 OR player2_id = $1 OR team1 @> $4::jsonb OR team2 @> $4::jsonb)
 				AND status = 'completed'
 				ORDER BY completed_at DESC
 				LIMIT $2 OFFSET $3`,
-				[playerId, limit, offset],
+				[playerId, limit, offset, JSON.stringify([{ player_id: playerId }])],
 			);
 
-			return result.rows;
+			return result.rows.map((row) => this.rowToMatch(row));
 		} catch (error) {
 			console.error('[ArenaService] Failed to get match history:', error);
 			return [];
@@ -616,28 +1398,108 @@ export class ArenaService {
 	}
 
 	/**
-	 * Get queue status
+	 * Get queue status with estimated waits (and the player's own queue state when queued)
 	 */
-	getQueueStatus(): { queueSize: number; averageRating: number; activeMatches: number } {
-		const entries = Array.from(this.queue.values());
-		const averageRating =
-			entries.length > 0 ? Math.round(entries.reduce((sum, e) => sum + e.rating, 0) / entries.length) : 0;
+	getQueueStatus(playerId?: string): QueueStatus {
+		const now = Date.now();
+		const members = Array.from(this.queue.values()).flatMap((entry) => entry.members);
+		const modes = { '1v1': 0, '2v2': 0, '3v3': 0 };
+		for (const entry of this.queue.values()) {
+			modes[entry.mode] += entry.members.length;
+		}
 
-		return {
-			queueSize: this.queue.size,
-			averageRating,
+		const estimatedWait = { '1v1': null, '2v2': null, '3v3': null } as Record<ArenaMode, number | null>;
+		for (const mode of ARENA_MODES) {
+			const waits = this.getRecentWaits(mode);
+			estimatedWait[mode] = waits.length > 0 ? Math.round(this.getPercentile(waits, 0.5) / 1000) : null;
+		}
+
+		const status: QueueStatus = {
+			queueSize: members.length,
+			averageRating: this.getAverageRating(members),
 			activeMatches: this.activeMatches.size,
+			modes,
+			estimatedWait,
 		};
+
+		const entry = playerId ? this.findQueueEntry(playerId) : null;
+		if (entry) {
+			const waited = Math.round((now - new Date(entry.queued_at).getTime()) / 1000);
+			const estimate = estimatedWait[entry.mode];
+
+			status.player = {
+				mode: entry.mode,
+				waited,
+				ratingRange: this.getRatingRange(entry, now),
+				estimatedWait: estimate === null ? null : Math.max(0, estimate - waited),
+			};
+		}
+
+		return status;
+	}
+
+	/**
+	 * Matchmaking quality per mode over recent matches (admin)
+	 */
+	getMatchmakingMetrics(): MatchmakingMetrics[] {
+		return ARENA_MODES.map((mode) => {
+			const samples = this.matchmakingSamples.filter((sample) => sample.mode === mode);
+			const waits = this.getRecentWaits(mode);
+			const average = (values: number[]) =>
+				values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+			const seconds = (ms: number | null) => (ms === null ? null : Math.round(ms / 1000));
+
+			return {
+				mode,
+				queued: Array.from(this.queue.values())
+					.filter((entry) => entry.mode === mode)
+					.reduce((sum, entry) => sum + entry.members.length, 0),
+				matchesFound: samples.length,
+				averageWait: seconds(average(waits)),
+				medianWait: seconds(waits.length > 0 ? this.getPercentile(waits, 0.5) : null),
+				p90Wait: seconds(waits.length > 0 ? this.getPercentile(waits, 0.9) : null),
+				averageTeamRatingGap: average(samples.map((sample) => sample.teamRatingGap)),
+				averageRatingSpread: average(samples.map((sample) => sample.ratingSpread)),
+				averageRatingRange: average(samples.map((sample) => sample.ratingRange)),
+				timeouts: this.queueTimeouts[mode],
+				rematchesAvoided: this.rematchesAvoided[mode],
+			};
+		});
 	}
 
 	/**
-	 * Get active match for player
+	 * Value at a percentile of sorted values
+	 */
+	private getPercentile(sorted: number[], percentile: number): number {
+		return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * percentile))] ?? 0;
+	}
+
+	/**
+	 * Get match by ID (active matches first, then match history)
+	 */
+	async getMatch(matchId: number): Promise<ArenaMatch | null> {
+		const active = this.activeMatches.get(matchId);
+		if (active) {
+			return active;
+		}
+
+		try {
+			const result = await this.db.query('SELECT * FROM arena_matches WHERE id = $1', [matchId]);
+			return result.rows[0] ? this.rowToMatch(result.rows[0]) : null;
+		} catch (error) {
+			console.error('[ArenaService] Failed to get match:', error);
+			return null;
+		}
+	}
+
+	/**
+	 * Get active (pending or in progress) match for player
 	 */
 	getActiveMatch(playerId: string): ArenaMatch | null {
 		for (const match of this.activeMatches.values()) {
 			if (
-				match.status === 'in_progress' &&
-				(match.player1_id === playerId || match.player2_id === playerId)
+				(match.status === 'pending' || match.status === 'in_progress') &&
+				getMatchPlayerIds(match).includes(playerId)
 			) {
 				return match;
 			}
@@ -651,10 +1513,12 @@ export class ArenaService {
 	private rowToPlayer(row: any): ArenaPlayer {
 		const totalMatches = row.wins + row.losses;
 		const winRate = totalMatches > 0 ? (row.wins / totalMatches) * 100 : 0;
+		const seasonMatches = (row.season_wins ?? 0) + (row.season_losses ?? 0);
 
 		return {
 			player_id: row.player_id,
 			player_name: row.player_name,
+			mode: row.mode ?? '1v1',
 			rank: 0, // Will be calculated when needed
 			rating: row.rating,
 			wins: row.wins,
@@ -663,15 +1527,58 @@ export class ArenaService {
 			current_streak: row.current_streak,
 			best_streak: row.best_streak,
 			last_match_at: row.last_match_at,
+			tier: getTier(row.rating, seasonMatches >= this.MIN_MATCHES_FOR_RANK),
+			peak_rating: row.peak_rating ?? row.rating,
+			season_wins: row.season_wins ?? 0,
+			season_losses: row.season_losses ?? 0,
+			placement_matches_remaining: Math.max(0, this.MIN_MATCHES_FOR_RANK - seasonMatches),
+		};
+	}
+
+	/**
+	 * Convert database row to ArenaMatch (matches from before team modes have no team columns)
+	 */
+	private rowToMatch(row: any): ArenaMatch {
+		return {
+			id: row.id,
+			mode: row.mode ?? '1v1',
+			player1_id: row.player1_id,
+			player1_name: row.player1_name,
+			player1_rating: row.player1_rating,
+			player2_id: row.player2_id,
+			player2_name: row.player2_name,
+			player2_rating: row.player2_rating,
+			team1: row.team1 ?? [{ player_id: row.player1_id, player_name: row.player1_name, rating: row.player1_rating }],
+			team2: row.team2 ?? [{ player_id: row.player2_id, player_name: row.player2_name, rating: row.player2_rating }],
+			winner_id: row.winner_id,
+			winning_team:
+				row.winning_team ?? (row.winner_id ? (row.winner_id === row.player1_id ? 1 : 2) : null),
+			status: row.status,
+			started_at: row.started_at,
+			completed_at: row.completed_at,
 		};
 	}
 
+	/**
+	 * Placement matches use a larger K-factor so new ratings settle quickly
+	 */
+	private getKFactor(player: ArenaPlayer): number {
+		return player.placement_matches_remaining > 0 ? this.PLACEMENT_K_FACTOR : this.K_FACTOR;
+	}
+
 	/**
 	 * Cleanup
 	 */
 	destroy(): void {
 		this.stopMatchmaking();
+		this.readyChecks.forEach((check) => clearTimeout(check.timer));
+		this.readyChecks.clear();
+		this.dodges.clear();
 		this.queue.clear();
+		this.parties.clear();
+		this.playerParties.clear();
 		this.activeMatches.clear();
+		this.recentOpponents.clear();
+		this.matchmakingSamples = [];
 	}
 }
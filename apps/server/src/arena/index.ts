@@ -0,0 +1,25 @@
+/**
+ * Arena Module
+ * PvP arena matchmaking, rankings, seasons and REST routes
+ */
+
+export { ArenaService, ARENA_MODES, ARENA_TEAM_SIZES, getMatchPlayerIds } from './ArenaService.ts';
+export type {
+	ArenaMode,
+	ArenaPlayer,
+	ArenaTeamMember,
+	ArenaParty,
+	ArenaPartyMember,
+	QueueEntry,
+	QueueStatus,
+	MatchmakingMetrics,
+	ArenaMatch,
+	MatchResult,
+	JoinQueueRequest,
+	LeaderboardEntry,
+} from './ArenaService.ts';
+export { ArenaSeasonService } from './ArenaSeasonService.ts';
+export type { ArenaSeason, SeasonStanding } from './ArenaSeasonService.ts';
+export { INITIAL_RATING, PLACEMENT_MATCHES, TIER_THRESHOLDS, SEASON_REWARDS, getTier } from './tiers.ts';
+export type { ArenaTier, TierReward } from './tiers.ts';
+export { registerArenaRoutes } from './routes.ts';
@@ -0,0 +1,323 @@
+/**
+ * Arena Routes
+ * REST endpoints for arena queue, matches and rankings (all require authentication)
+ */
+
+import type { Elit } from 'elit';
+import { adminMiddleware, authMiddleware } from '../auth/middleware.ts';
+import {
+	getPlayer,
+	getQuery,
+	parseInteger,
+	readBody,
+	sendError,
+	sendResult,
+} from '../http/index.ts';
+import type { BattleService } from '../combat/index.ts';
+import { ARENA_MODES, getMatchPlayerIds } from './ArenaService.ts';
+import type { ArenaMatch, ArenaMode, ArenaService } from './ArenaService.ts';
+import type { ArenaSeasonService } from './ArenaSeasonService.ts';
+
+function isParticipant(match: ArenaMatch, playerId: string): boolean {
+	return getMatchPlayerIds(match).includes(playerId);
+}
+
+// Missing mode means 1v1; unknown modes are rejected
+function parseMode(value: unknown): ArenaMode | null {
+	const mode = value || '1v1';
+	return ARENA_MODES.includes(mode as ArenaMode) ? (mode as ArenaMode) : null;
+}
+
+export function registerArenaRoutes(
+	app: Elit,
+	arena: ArenaService,
+	battles: BattleService,
+	seasons: ArenaSeasonService,
+): void {
+	app.post('/api/arena/queue/join', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+		const mode = parseMode(body?.mode);
+
+		if (!mode) {
+			return sendError(ctx, 400, 'Invalid arena mode');
+		}
+
+		// Party leaders queue their whole party
+		const result = await arena.joinQueue({
+			player_id: player.playerId,
+			player_name: player.username,
+			mode,
+		});
+
+		sendResult(ctx, result);
+	});
+
+	app.post('/api/arena/queue/leave', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		ctx.json(arena.leaveQueue(player.playerId));
+	});
+
+	app.get('/api/arena/party', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		ctx.json({ success: true, party: arena.getParty(player.playerId) });
+	});
+
+	app.post('/api/arena/party/create', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, arena.createParty(player.playerId, player.username), 201);
+	});
+
+	app.post('/api/arena/party/invite', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.player_id) {
+			return sendError(ctx, 400, 'player_id is required');
+		}
+
+		sendResult(ctx, arena.inviteToParty(player.playerId, String(body.player_id)));
+	});
+
+	app.post('/api/arena/party/accept/:partyId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, arena.acceptPartyInvite(ctx.params.partyId, player.playerId, player.username));
+	});
+
+	app.post('/api/arena/party/decline/:partyId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, arena.declinePartyInvite(ctx.params.partyId, player.playerId));
+	});
+
+	app.post('/api/arena/party/leave', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, arena.leaveParty(player.playerId));
+	});
+
+	app.get('/api/arena/queue/status', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		ctx.json({ success: true, status: arena.getQueueStatus(player.playerId) });
+	});
+
+	app.get('/api/arena/admin/matchmaking', adminMiddleware, async (ctx) => {
+		ctx.json({ success: true, metrics: arena.getMatchmakingMetrics() });
+	});
+
+	// Players can only poll their own active match
+	app.get('/api/arena/match/active/:playerId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+
+		if (ctx.params.playerId !== player.playerId) {
+			return sendError(ctx, 403, "Cannot view another player's active match");
+		}
+
+		ctx.json({ success: true, match: arena.getActiveMatch(player.playerId) });
+	});
+
+	app.get('/api/arena/match/:matchId', authMiddleware, async (ctx) => {
+		const matchId = parseInteger(ctx.params.matchId);
+
+		if (matchId === undefined) {
+			return sendError(ctx, 400, 'Invalid match ID');
+		}
+
+		const match = await arena.getMatch(matchId);
+
+		if (!match) {
+			return sendError(ctx, 404, 'Match not found');
+		}
+
+		ctx.json({ success: true, match });
+	});
+
+	app.post('/api/arena/match/ready/:matchId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const matchId = parseInteger(ctx.params.matchId);
+		const body = await readBody(ctx);
+
+		if (matchId === undefined) {
+			return sendError(ctx, 400, 'Invalid match ID');
+		}
+
+		if (typeof body?.accept !== 'boolean') {
+			return sendError(ctx, 400, 'accept is required');
+		}
+
+		const result = await arena.respondToReadyCheck(matchId, player.playerId, body.accept);
+		sendResult(ctx, result);
+	});
+
+	app.post('/api/arena/match/start/:matchId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const matchId = parseInteger(ctx.params.matchId);
+
+		if (matchId === undefined) {
+			return sendError(ctx, 400, 'Invalid match ID');
+		}
+
+		const match = await arena.getMatch(matchId);
+
+		if (!match) {
+			return sendError(ctx, 404, 'Match not found');
+		}
+
+		if (!isParticipant(match, player.playerId)) {
+			return sendError(ctx, 403, 'Not a participant in this match');
+		}
+
+		if (match.status === 'completed' || match.status === 'cancelled') {
+			return sendError(ctx, 400, 'Match has already ended');
+		}
+
+		if (arena.isReadyCheckPending(matchId)) {
+			return sendError(ctx, 400, 'Waiting for all players to accept');
+		}
+
+		// Battles start once the ready check passes; this returns it (e.g. after a reconnect)
+		const result = await battles.startArenaBattle(match);
+		sendResult(ctx, result);
+	});
+
+	app.get('/api/arena/live', authMiddleware, async (ctx) => {
+		const matches = [];
+		for (const battle of battles.getLiveArenaBattles()) {
+			const match = await arena.getMatch(battle.matchId);
+			if (match) {
+				matches.push({ ...battle, match });
+			}
+		}
+
+		ctx.json({ success: true, matches });
+	});
+
+	// Spectators receive the delayed turn stream as spectate-update events
+	app.post('/api/arena/spectate/leave', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, battles.stopSpectating(player.playerId));
+	});
+
+	app.post('/api/arena/spectate/:matchId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const matchId = parseInteger(ctx.params.matchId);
+
+		if (matchId === undefined) {
+			return sendError(ctx, 400, 'Invalid match ID');
+		}
+
+		sendResult(ctx, battles.spectate(matchId, player.playerId));
+	});
+
+	app.get('/api/arena/replay/:matchId', authMiddleware, async (ctx) => {
+		const matchId = parseInteger(ctx.params.matchId);
+
+		if (matchId === undefined) {
+			return sendError(ctx, 400, 'Invalid match ID');
+		}
+
+		const [match, replay] = await Promise.all([arena.getMatch(matchId), arena.getReplay(matchId)]);
+
+		if (!match || !replay) {
+			return sendError(ctx, 404, 'Replay not found');
+		}
+
+		ctx.json({ success: true, match, replay });
+	});
+
+	app.get('/api/arena/stats/:playerId', authMiddleware, async (ctx) => {
+		const mode = parseMode(getQuery(ctx).get('mode'));
+
+		if (!mode) {
+			return sendError(ctx, 400, 'Invalid arena mode');
+		}
+
+		const stats = await arena.getPlayerStats(ctx.params.playerId, mode);
+
+		if (!stats) {
+			return sendError(ctx, 404, 'Player not found');
+		}
+
+		ctx.json({ success: true, stats });
+	});
+
+	app.get('/api/arena/leaderboard', authMiddleware, async (ctx) => {
+		const query = getQuery(ctx);
+		const mode = parseMode(query.get('mode'));
+
+		if (!mode) {
+			return sendError(ctx, 400, 'Invalid arena mode');
+		}
+
+		const leaderboard = await arena.getLeaderboard(
+			parseInteger(query.get('limit')),
+			parseInteger(query.get('offset')),
+			mode,
+		);
+
+		ctx.json({ success: true, leaderboard });
+	});
+
+	app.get('/api/arena/rank/:playerId', authMiddleware, async (ctx) => {
+		const mode = parseMode(getQuery(ctx).get('mode'));
+
+		if (!mode) {
+			return sendError(ctx, 400, 'Invalid arena mode');
+		}
+
+		const rank = await arena.getPlayerRank(ctx.params.playerId, mode);
+		ctx.json({ success: true, rank });
+	});
+
+	app.get('/api/arena/history/:playerId', authMiddleware, async (ctx) => {
+		const query = getQuery(ctx);
+		const matches = await arena.getMatchHistory(
+			ctx.params.playerId,
+			parseInteger(query.get('limit')),
+			parseInteger(query.get('offset')),
+		);
+
+		ctx.json({ success: true, matches });
+	});
+
+	app.get('/api/arena/season', authMiddleware, async (ctx) => {
+		const season = await seasons.getCurrentSeason();
+
+		if (!season) {
+			return sendError(ctx, 404, 'No active season');
+		}
+
+		ctx.json({ success: true, season });
+	});
+
+	app.get('/api/arena/seasons', authMiddleware, async (ctx) => {
+		ctx.json({ success: true, seasons: await seasons.getSeasons() });
+	});
+
+	app.get('/api/arena/season/:seasonId/standings', authMiddleware, async (ctx) => {
+		const seasonId = parseInteger(ctx.params.seasonId);
+
+		if (seasonId === undefined) {
+			return sendError(ctx, 400, 'Invalid season ID');
+		}
+
+		const query = getQuery(ctx);
+		const mode = parseMode(query.get('mode'));
+
+		if (!mode) {
+			return sendError(ctx, 400, 'Invalid arena mode');
+		}
+
+		const standings = await seasons.getSeasonStandings(
+			seasonId,
+			mode,
+			parseInteger(query.get('limit')),
+			parseInteger(query.get('offset')),
+		);
+
+		ctx.json({ success: true, standings });
+	});
+
+	app.get('/api/arena/season-history/:playerId', authMiddleware, async (ctx) => {
+		const history = await seasons.getPlayerSeasonHistory(ctx.params.playerId);
+		ctx.json({ success: true, history });
+	});
+}
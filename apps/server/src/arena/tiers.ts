@@ -0,0 +1,54 @@
+/**
+ * Arena Tiers
+ * Named rank tiers derived from rating, and end-of-season rewards per tier
+ */
+
+export type ArenaTier =
+	| 'Unranked'
+	| 'Bronze'
+	| 'Silver'
+	| 'Gold'
+	| 'Platinum'
+	| 'Diamond'
+	| 'Master'
+	| 'Grandmaster';
+
+export interface TierReward {
+	gold: number;
+	items: { itemId: string; quantity: number }[];
+}
+
+export const INITIAL_RATING = 1500;
+export const PLACEMENT_MATCHES = 10; // Season matches before a player gets a tier and leaderboard rank
+
+// Minimum rating per tier, highest first
+export const TIER_THRESHOLDS: { tier: Exclude<ArenaTier, 'Unranked'>; minRating: number }[] = [
+	{ tier: 'Grandmaster', minRating: 2200 },
+	{ tier: 'Master', minRating: 2000 },
+	{ tier: 'Diamond', minRating: 1800 },
+	{ tier: 'Platinum', minRating: 1600 },
+	{ tier: 'Gold', minRating: 1400 },
+	{ tier: 'Silver', minRating: 1200 },
+	{ tier: 'Bronze', minRating: 0 },
+];
+
+export const SEASON_REWARDS: Record<Exclude<ArenaTier, 'Unranked'>, TierReward> = {
+	Bronze: { gold: 100, items: [] },
+	Silver: { gold: 250, items: [{ itemId: 'potion', quantity: 5 }] },
+	Gold: { gold: 500, items: [{ itemId: 'hi_potion', quantity: 5 }] },
+	Platinum: { gold: 1000, items: [{ itemId: 'hi_potion', quantity: 10 }] },
+	Diamond: { gold: 2000, items: [{ itemId: 'elixir', quantity: 1 }] },
+	Master: { gold: 3500, items: [{ itemId: 'elixir', quantity: 3 }] },
+	Grandmaster: { gold: 5000, items: [{ itemId: 'elixir', quantity: 5 }] },
+};
+
+/**
+ * Get the tier for a rating; players still in placement matches are Unranked
+ */
+export function getTier(rating: number, placed: boolean = true): ArenaTier {
+	if (!placed) {
+		return 'Unranked';
+	}
+
+	return TIER_THRESHOLDS.find((threshold) => rating >= threshold.minRating)?.tier ?? 'Bronze';
+}
@@ -3,7 +3,7 @@
  * Server-side auction house with centralized order matching
  */
 
-import type { Pool } from 'pg';
+import type { StorageBackend } from '../database/index.ts';
 
 export interface AuctionOrder {
 	id: number;
@@ -43,111 +43,15 @@ export interface BuyOrderResult {
 }
 
 export class AuctionHouseService {
-	private pool: Pool;
+	private pool: StorageBackend;
 	private readonly ORDER_EXPIRATION_DAYS = 7;
 	private readonly MAX_ACTIVE_ORDERS_PER_PLAYER = 50;
 	private readonly AUCTION_FEE_PERCENT = 5; // 5% fee
 
-	constructor(pool: Pool) {
+	constructor(pool: StorageBackend) {
 		this.pool = pool;
 	}
 
-	/**
-	 * Initialize auction house tables
-	 */
-	async initializeTables(): Promise<void> {
-		const client = await this.pool.connect();
-
-		try {
-			await client.query('BEGIN');
-
-			// Auction orders table
-			await client.query(`
-				CREATE TABLE IF NOT EXISTS auction_orders (
-					id SERIAL PRIMARY KEY,
-					seller_id VARCHAR(255) NOT NULL,
-					seller_name VARCHAR(255) NOT NULL,
-					item_id VARCHAR(255) NOT NULL,
-					quantity INTEGER NOT NULL CHECK (quantity > 0),
-					price_per_unit BIGINT NOT NULL CHECK (price_per_unit > 0),
-					total_price BIGINT NOT NULL,
-					created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-					expires_at TIMESTAMP NOT NULL,
-					status VARCHAR(50) NOT NULL DEFAULT 'active',
-					buyer_id VARCHAR(255),
-					buyer_name VARCHAR(255),
-					sold_at TIMESTAMP,
-
-					FOREIGN KEY (seller_id) REFERENCES players(id) ON DELETE CASCADE
-				)
-			`);
-
-			// Create indexes
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_auction_orders_item
-				ON auction_orders(item_id)
-			`);
-
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_auction_orders_seller
-				ON auction_orders(seller_id)
-			`);
-
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_auction_orders_status
-				ON auction_orders(status)
-			`);
-
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_auction_orders_price
-				ON auction_orders(price_per_unit)
-			`);
-
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_auction_orders_expires
-				ON auction_orders(expires_at)
-			`);
-
-			// Auction transactions table (for history)
-			await client.query(`
-				CREATE TABLE IF NOT EXISTS auction_transactions (
-					id SERIAL PRIMARY KEY,
-					order_id INTEGER NOT NULL,
-					seller_id VARCHAR(255) NOT NULL,
-					buyer_id VARCHAR(255) NOT NULL,
-					item_id VARCHAR(255) NOT NULL,
-					quantity INTEGER NOT NULL,
-					price_per_unit BIGINT NOT NULL,
-					total_price BIGINT NOT NULL,
-					auction_fee BIGINT NOT NULL,
-					timestamp TIMESTAMP NOT NULL DEFAULT NOW(),
-
-					FOREIGN KEY (order_id) REFERENCES auction_orders(id) ON DELETE CASCADE
-				)
-			`);
-
-			// Create index
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_auction_transactions_seller
-				ON auction_transactions(seller_id)
-			`);
-
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_auction_transactions_buyer
-				ON auction_transactions(buyer_id)
-			`);
-
-			await client.query('COMMIT');
-			console.log('[AuctionHouseService] Tables initialized successfully');
-		} catch (error) {
-			await client.query('ROLLBACK');
-			console.error('[AuctionHouseService] Failed to initialize tables:', error);
-			throw error;
-		} finally {
-			client.release();
-		}
-	}
-
 	/**
 	 * Create auction order (with item escrow)
 	 */
@@ -549,4 +453,28 @@ export class AuctionHouseService {
 			activeOrders: Number(result.rows[0]?.active_orders ?? 0),
 		};
 	}
+
+	/**
+	 * Get unit price summary of recent sales for an item
+	 */
+	async getItemPriceHistory(
+		itemId: string,
+		days: number = 7,
+	): Promise<{ avgPrice: number; minPrice: number; maxPrice: number }> {
+		const result = await this.pool.query<{ avg_price: string; min_price: string; max_price: string }>(
+			`SELECT
+				COALESCE(ROUND(AVG(price_per_unit)), 0) as avg_price,
+				COALESCE(MIN(price_per_unit), 0) as min_price,
+				COALESCE(MAX(price_per_unit), 0) as max_price
+			 FROM auction_transactions
+			 WHERE item_id = $1 AND timestamp > NOW() - ($2 * INTERVAL '1 day')`,
+			[itemId, days],
+		);
+
+		return {
+			avgPrice: Number(result.rows[0]?.avg_price ?? 0),
+			minPrice: Number(result.rows[0]?.min_price ?? 0),
+			maxPrice: Number(result.rows[0]?.max_price ?? 0),
+		};
+	}
 }
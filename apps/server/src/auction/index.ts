@@ -0,0 +1,13 @@
+/**
+ * Auction Module
+ * Server-side auction house and its REST routes
+ */
+
+export { AuctionHouseService } from './AuctionHouseService.ts';
+export type {
+	AuctionOrder,
+	CreateOrderRequest,
+	SearchRequest,
+	BuyOrderResult,
+} from './AuctionHouseService.ts';
+export { registerAuctionRoutes } from './routes.ts';
@@ -0,0 +1,146 @@
+/**
+ * Auction Routes
+ * REST endpoints for the auction house (all require authentication)
+ */
+
+import type { Elit } from 'elit';
+import { authMiddleware } from '../auth/middleware.ts';
+import {
+	getPlayer,
+	getQuery,
+	parseInteger,
+	readBody,
+	sendError,
+	sendResult,
+} from '../http/index.ts';
+import type { AuctionHouseService, SearchRequest } from './AuctionHouseService.ts';
+
+const SORT_OPTIONS: NonNullable<SearchRequest['sort_by']>[] = [
+	'price_asc',
+	'price_desc',
+	'date_asc',
+	'date_desc',
+];
+
+export function registerAuctionRoutes(app: Elit, auctionHouse: AuctionHouseService): void {
+	app.post('/api/auction/create', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+		const quantity = Number(body?.quantity);
+		const pricePerUnit = Number(body?.price_per_unit);
+
+		if (!body?.item_id || !Number.isInteger(quantity) || !Number.isInteger(pricePerUnit)) {
+			return sendError(ctx, 400, 'item_id, quantity and price_per_unit are required');
+		}
+
+		// Seller identity always comes from the token
+		const result = await auctionHouse.createOrder({
+			seller_id: player.playerId,
+			seller_name: player.username,
+			item_id: String(body.item_id),
+			quantity,
+			price_per_unit: pricePerUnit,
+		});
+
+		sendResult(ctx, result, 201);
+	});
+
+	app.post('/api/auction/buy/:orderId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const orderId = parseInteger(ctx.params.orderId);
+
+		if (orderId === undefined) {
+			return sendError(ctx, 400, 'Invalid order ID');
+		}
+
+		const result = await auctionHouse.buyOrder(orderId, player.playerId, player.username);
+		sendResult(ctx, result);
+	});
+
+	app.delete('/api/auction/cancel/:orderId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const orderId = parseInteger(ctx.params.orderId);
+
+		if (orderId === undefined) {
+			return sendError(ctx, 400, 'Invalid order ID');
+		}
+
+		const result = await auctionHouse.cancelOrder(orderId, player.playerId);
+		sendResult(ctx, result);
+	});
+
+	app.get('/api/auction/search', authMiddleware, async (ctx) => {
+		const query = getQuery(ctx);
+		const sortBy = query.get('sort_by') as SearchRequest['sort_by'];
+
+		if (sortBy && !SORT_OPTIONS.includes(sortBy)) {
+			return sendError(ctx, 400, 'Invalid sort_by');
+		}
+
+		const orders = await auctionHouse.searchOrders({
+			item_id: query.get('item_id') || undefined,
+			min_price: parseInteger(query.get('min_price')),
+			max_price: parseInteger(query.get('max_price')),
+			seller_id: query.get('seller_id') || undefined,
+			sort_by: sortBy || undefined,
+			limit: parseInteger(query.get('limit')),
+			offset: parseInteger(query.get('offset')),
+		});
+
+		ctx.json({ success: true, orders });
+	});
+
+	app.get('/api/auction/my-orders', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const includeInactive = getQuery(ctx).get('include_inactive') === 'true';
+		const orders = await auctionHouse.getMyOrders(player.playerId, includeInactive);
+
+		ctx.json({ success: true, orders });
+	});
+
+	app.get('/api/auction/order/:orderId', authMiddleware, async (ctx) => {
+		const orderId = parseInteger(ctx.params.orderId);
+
+		if (orderId === undefined) {
+			return sendError(ctx, 400, 'Invalid order ID');
+		}
+
+		const order = await auctionHouse.getOrder(orderId);
+
+		if (!order) {
+			return sendError(ctx, 404, 'Order not found');
+		}
+
+		ctx.json({ success: true, order });
+	});
+
+	app.get('/api/auction/history', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const query = getQuery(ctx);
+		const transactions = await auctionHouse.getTransactionHistory(
+			player.playerId,
+			parseInteger(query.get('limit')),
+			parseInteger(query.get('offset')),
+		);
+
+		ctx.json({ success: true, transactions });
+	});
+
+	app.get('/api/auction/statistics', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const statistics = await auctionHouse.getStatistics(player.playerId);
+
+		ctx.json({ success: true, statistics });
+	});
+
+	app.get('/api/auction/item-price/:itemId', authMiddleware, async (ctx) => {
+		const days = parseInteger(getQuery(ctx).get('days')) ?? 7;
+
+		if (days <= 0) {
+			return sendError(ctx, 400, 'days must be positive');
+		}
+
+		const priceHistory = await auctionHouse.getItemPriceHistory(ctx.params.itemId, days);
+		ctx.json({ success: true, priceHistory });
+	});
+}
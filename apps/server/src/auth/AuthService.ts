@@ -1,17 +1,32 @@
 /**
  * Authentication Service
- * Handles user registration, login, and JWT token management
+ * Handles user registration, login, access/refresh tokens and sessions
  */
 
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
+import type { SignOptions } from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
+import { isIP } from 'net';
 import { query, transaction } from '../database/index.ts';
-import type { PoolClient } from 'pg';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this';
-const JWT_EXPIRATION = process.env.JWT_EXPIRATION || '7d';
+import type { StorageClient } from '../database/index.ts';
+
+// Placeholder secrets shipped in code and the example configs, never valid in production
+const DEFAULT_JWT_SECRETS = [
+	'your-secret-key-change-this',
+	'your-super-secret-key-change-this-in-production',
+	'your_super_secret_jwt_key_change_this',
+];
+
+const JWT_SECRET = process.env.JWT_SECRET || DEFAULT_JWT_SECRETS[0]!;
+// A number of seconds or a duration such as '15m'
+const ACCESS_TOKEN_EXPIRATION = (process.env.JWT_ACCESS_EXPIRATION ||
+	'15m') as SignOptions['expiresIn'];
+const REFRESH_TOKEN_DAYS = parseInt(process.env.REFRESH_TOKEN_DAYS || '30', 10);
 const SALT_ROUNDS = 10;
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export interface RegisterData {
 	username: string;
 	email: string;
@@ -30,7 +45,8 @@ export interface AuthResponse {
 		playerId: string;
 		username: string;
 		email: string;
-		token: string;
+		token: string; // Short-lived access token
+		refreshToken: string; // Exchanged at /api/auth/refresh, single use
 	};
 	error?: string;
 }
@@ -38,15 +54,51 @@ export interface AuthResponse {
 export interface TokenPayload {
 	playerId: string;
 	username: string;
+	sessionId: string;
 	iat?: number;
 	exp?: number;
 }
 
+/**
+ * The device a session was started or last refreshed from
+ */
+export interface DeviceInfo {
+	userAgent?: string | null;
+	ipAddress?: string | null;
+}
+
+export interface SessionInfo {
+	id: string;
+	userAgent: string | null;
+	ipAddress: string | null;
+	createdAt: string;
+	lastUsedAt: string;
+	expiresAt: string;
+	current: boolean;
+}
+
+// Called with the IDs of sessions that were just revoked
+export type SessionRevokedHandler = (sessionIds: string[]) => void;
+
+interface SessionTokens {
+	token: string;
+	refreshToken: string;
+}
+
 export class AuthService {
+	private static revokedHandler: SessionRevokedHandler | null = null;
+
+	/**
+	 * Set callback for revoked sessions (used to close their sockets)
+	 */
+	static setRevocationCallback(onRevoked: SessionRevokedHandler): void {
+		this.revokedHandler = onRevoked;
+	}
+
 	/**
 	 * Register a new player
 	 */
-	static async register(data: RegisterData): Promise<AuthResponse> {
+	static async register(data: RegisterData, device: DeviceInfo = {}): Promise<AuthResponse> {
 		try {
 			// Validate input
 			if (!data.username || data.username.length < 3) {
@@ -91,7 +143,7 @@ export class AuthService {
 			const passwordHash = await bcrypt.hash(data.password, SALT_ROUNDS);
 
 			// Create player and profile in a transaction
-			const result = await transaction(async (client: PoolClient) => {
+			const result = await transaction(async (client: StorageClient) => {
 				// Insert player
 				const playerResult = await client.query(
 					`INSERT INTO players (username, email, password_hash)
@@ -112,14 +164,7 @@ export class AuthService {
 				return player;
 			});
 
-			// Generate JWT token
-			const token = this.generateToken({
-				playerId: result.id,
-				username: result.username,
-			});
-
-			// Create session
-			await this.createSession(result.id, token);
+			const tokens = await this.createSession(result.id, result.username, device);
 
 			console.log('[Auth] User registered:', result.username);
 
@@ -130,7 +175,7 @@ export class AuthService {
 					playerId: result.id,
 					username: result.username,
 					email: result.email,
-					token,
+					...tokens,
 				},
 			};
 		} catch (error) {
@@ -146,7 +191,7 @@ export class AuthService {
 	/**
 	 * Login existing player
 	 */
-	static async login(data: LoginData): Promise<AuthResponse> {
+	static async login(data: LoginData, device: DeviceInfo = {}): Promise<AuthResponse> {
 		try {
 			// Get player by username
 			const result = await query(
@@ -203,14 +248,7 @@ export class AuthService {
 				player.id,
 			]);
 
-			// Generate JWT token
-			const token = this.generateToken({
-				playerId: player.id,
-				username: player.username,
-			});
-
-			// Create session
-			await this.createSession(player.id, token);
+			const tokens = await this.createSession(player.id, player.username, device);
 
 			console.log('[Auth] User logged in:', player.username);
 
@@ -221,7 +259,7 @@ export class AuthService {
 					playerId: player.id,
 					username: player.username,
 					email: player.email,
-					token,
+					...tokens,
 				},
 			};
 		} catch (error) {
@@ -235,17 +273,152 @@ export class AuthService {
 	}
 
 	/**
-	 * Verify JWT token
+	 * Exchange a refresh token for new access and refresh tokens
+	 * Each refresh token works once; presenting one that was already exchanged
+	 * means it leaked, so the whole session is revoked.
+	 */
+	static async refresh(refreshToken: string, device: DeviceInfo = {}): Promise<AuthResponse> {
+		if (!refreshToken || typeof refreshToken !== 'string') {
+			return {
+				success: false,
+				message: 'Refresh token is required',
+				error: 'INVALID_REFRESH_TOKEN',
+			};
+		}
+
+		try {
+			const tokenHash = this.hashToken(refreshToken);
+
+			return await transaction(async (client: StorageClient): Promise<AuthResponse> => {
+				const sessionResult = await client.query(
+					`SELECT s.id, s.player_id, s.is_active, s.expires_at,
+					        p.username, p.email, p.is_active AS player_active, p.is_banned
+					 FROM sessions s
+					 JOIN players p ON p.id = s.player_id
+					 WHERE s.token_hash = $1
+					 FOR UPDATE OF s`,
+					[tokenHash],
+				);
+
+				const session = sessionResult.rows[0];
+
+				if (!session) {
+					const reused = await client.query(
+						'SELECT session_id FROM used_refresh_tokens WHERE token_hash = $1',
+						[tokenHash],
+					);
+
+					if (reused.rows.length > 0) {
+						const sessionId = reused.rows[0].session_id;
+						await this.revokeSession(client, sessionId, 'refresh_token_reuse');
+						await client.query(
+							`INSERT INTO audit_logs (player_id, action, details, ip_address)
+							 SELECT player_id, 'refresh_token_reuse', $2, $3 FROM sessions WHERE id = $1`,
+							[
+								sessionId,
+								JSON.stringify({ session_id: sessionId }),
+								this.toIpAddress(device.ipAddress),
+							],
+						);
+						console.warn('[Auth] Refresh token reused, session revoked:', sessionId);
+
+						return {
+							success: false,
+							message: 'Refresh token was already used, please log in again',
+							error: 'REFRESH_TOKEN_REUSED',
+						};
+					}
+
+					return {
+						success: false,
+						message: 'Invalid refresh token',
+						error: 'INVALID_REFRESH_TOKEN',
+					};
+				}
+
+				if (!session.is_active || new Date(session.expires_at) <= new Date()) {
+					return {
+						success: false,
+						message: 'Session has expired, please log in again',
+						error: 'SESSION_EXPIRED',
+					};
+				}
+
+				if (session.is_banned || !session.player_active) {
+					await this.revokeSession(client, session.id, 'account_disabled');
+					return {
+						success: false,
+						message: session.is_banned ? 'Account has been banned' : 'Account is not active',
+						error: session.is_banned ? 'ACCOUNT_BANNED' : 'ACCOUNT_INACTIVE',
+					};
+				}
+
+				// Rotate: retire the presented token and issue the next one
+				const nextRefreshToken = this.generateRefreshToken();
+
+				await client.query(
+					'INSERT INTO used_refresh_tokens (token_hash, session_id) VALUES ($1, $2)',
+					[tokenHash, session.id],
+				);
+				await client.query(
+					`UPDATE sessions
+					 SET token_hash = $2,
+					     expires_at = $3,
+					     last_used_at = CURRENT_TIMESTAMP,
+					     user_agent = COALESCE($4, user_agent),
+					     ip_address = COALESCE($5, ip_address)
+					 WHERE id = $1`,
+					[
+						session.id,
+						this.hashToken(nextRefreshToken),
+						this.getRefreshExpiry(),
+						device.userAgent ?? null,
+						this.toIpAddress(device.ipAddress),
+					],
+				);
+
+				return {
+					success: true,
+					message: 'Token refreshed',
+					data: {
+						playerId: session.player_id,
+						username: session.username,
+						email: session.email,
+						token: this.generateToken({
+							playerId: session.player_id,
+							username: session.username,
+							sessionId: session.id,
+						}),
+						refreshToken: nextRefreshToken,
+					},
+				};
+			});
+		} catch (error) {
+			console.error('[Auth] Refresh error:', error);
+			return {
+				success: false,
+				message: 'Token refresh failed',
+				error: 'REFRESH_ERROR',
+			};
+		}
+	}
+
+	/**
+	 * Verify an access token and check that its session is still active
 	 */
 	static async verifyToken(token: string): Promise<TokenPayload | null> {
 		try {
 			const decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
 
-			// Check if session is still valid
+			// Tokens issued before sessions were tracked by id carry no sessionId
+			if (!decoded.sessionId) {
+				return null;
+			}
+
 			const sessionResult = await query(
 				`SELECT id FROM sessions
-				 WHERE token_hash = $1 AND is_active = true AND expires_at > CURRENT_TIMESTAMP`,
-				[this.hashToken(token)],
+				 WHERE id = $1 AND player_id = $2 AND is_active = true AND expires_at > CURRENT_TIMESTAMP`,
+				[decoded.sessionId, decoded.playerId],
 			);
 
 			if (sessionResult.rows.length === 0) {
@@ -260,14 +433,28 @@ export class AuthService {
 	}
 
 	/**
-	 * Logout player (invalidate session)
+	 * Get which of the given sessions are still active and unexpired
 	 */
-	static async logout(token: string): Promise<boolean> {
+	static async getActiveSessionIds(sessionIds: string[]): Promise<Set<string>> {
+		if (sessionIds.length === 0) {
+			return new Set();
+		}
+
+		const result = await query(
+			`SELECT id FROM sessions
+			 WHERE id = ANY($1::uuid[]) AND is_active = true AND expires_at > CURRENT_TIMESTAMP`,
+			[sessionIds],
+		);
+
+		return new Set(result.rows.map((row) => row.id));
+	}
+
+	/**
+	 * Logout player (revoke the current session)
+	 */
+	static async logout(sessionId: string): Promise<boolean> {
 		try {
-			await query(
-				'UPDATE sessions SET is_active = false WHERE token_hash = $1',
-				[this.hashToken(token)],
-			);
+			await this.revokeSession({ query }, sessionId, 'logout');
 			return true;
 		} catch (error) {
 			console.error('[Auth] Logout error:', error);
@@ -276,34 +463,167 @@ export class AuthService {
 	}
 
 	/**
-	 * Generate JWT token
+	 * List a player's active sessions, most recently used first
+	 */
+	static async getSessions(playerId: string, currentSessionId: string): Promise<SessionInfo[]> {
+		const result = await query(
+			`SELECT id, user_agent, ip_address, created_at, last_used_at, expires_at
+			 FROM sessions
+			 WHERE player_id = $1 AND is_active = true AND expires_at > CURRENT_TIMESTAMP
+			 ORDER BY last_used_at DESC`,
+			[playerId],
+		);
+
+		return result.rows.map((row) => ({
+			id: row.id,
+			userAgent: row.user_agent,
+			ipAddress: row.ip_address,
+			createdAt: new Date(row.created_at).toISOString(),
+			lastUsedAt: new Date(row.last_used_at).toISOString(),
+			expiresAt: new Date(row.expires_at).toISOString(),
+			current: row.id === currentSessionId,
+		}));
+	}
+
+	/**
+	 * Revoke one of a player's sessions
+	 * Returns false when the session doesn't exist, belongs to someone else or is already revoked
+	 */
+	static async revokePlayerSession(playerId: string, sessionId: string): Promise<boolean> {
+		if (!UUID_PATTERN.test(sessionId)) {
+			return false;
+		}
+
+		const result = await query(
+			`UPDATE sessions
+			 SET is_active = false, revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'revoked'
+			 WHERE id = $1 AND player_id = $2 AND is_active = true
+			 RETURNING id`,
+			[sessionId, playerId],
+		);
+
+		this.notifyRevoked(result.rows.map((row) => row.id));
+		return result.rows.length > 0;
+	}
+
+	/**
+	 * Revoke every session of a player ("log out everywhere")
+	 * Returns the number of sessions revoked
+	 */
+	static async revokeAllSessions(playerId: string): Promise<number> {
+		const result = await query(
+			`UPDATE sessions
+			 SET is_active = false, revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'logout_all'
+			 WHERE player_id = $1 AND is_active = true
+			 RETURNING id`,
+			[playerId],
+		);
+
+		this.notifyRevoked(result.rows.map((row) => row.id));
+		const revoked = result.rows.length;
+		console.log(`[Auth] Revoked ${revoked} sessions for player ${playerId}`);
+		return revoked;
+	}
+
+	/**
+	 * Check whether JWT_SECRET is unset or still a published placeholder
+	 */
+	static isUsingDefaultSecret(): boolean {
+		return DEFAULT_JWT_SECRETS.includes(JWT_SECRET);
+	}
+
+	/**
+	 * Generate access token
 	 */
 	private static generateToken(payload: TokenPayload): string {
 		return jwt.sign(payload, JWT_SECRET, {
-			expiresIn: JWT_EXPIRATION,
+			expiresIn: ACCESS_TOKEN_EXPIRATION,
 		});
 	}
 
 	/**
-	 * Create session record
+	 * Generate an opaque refresh token
+	 */
+	private static generateRefreshToken(): string {
+		return randomBytes(32).toString('base64url');
+	}
+
+	/**
+	 * Get the expiry of a newly issued refresh token
+	 */
+	private static getRefreshExpiry(): Date {
+		return new Date(Date.now() + REFRESH_TOKEN_DAYS * 24 * 60 * 60 * 1000);
+	}
+
+	/**
+	 * Create session record and issue its first tokens
+	 */
+	private static async createSession(
+		playerId: string,
+		username: string,
+		device: DeviceInfo,
+	): Promise<SessionTokens> {
+		const refreshToken = this.generateRefreshToken();
+
+		const result = await query(
+			`INSERT INTO sessions (player_id, token_hash, expires_at, user_agent, ip_address)
+			 VALUES ($1, $2, $3, $4, $5)
+			 RETURNING id`,
+			[
+				playerId,
+				this.hashToken(refreshToken),
+				this.getRefreshExpiry(),
+				device.userAgent ?? null,
+				this.toIpAddress(device.ipAddress),
+			],
+		);
+
+		return {
+			token: this.generateToken({ playerId, username, sessionId: result.rows[0].id }),
+			refreshToken,
+		};
+	}
+
+	/**
+	 * Mark a session inactive
 	 */
-	private static async createSession(playerId: string, token: string): Promise<void> {
-		const tokenHash = this.hashToken(token);
-		const decoded = jwt.decode(token) as any;
-		const expiresAt = new Date(decoded.exp * 1000);
-
-		await query(
-			`INSERT INTO sessions (player_id, token_hash, expires_at)
-			 VALUES ($1, $2, $3)`,
-			[playerId, tokenHash, expiresAt],
+	private static async revokeSession(
+		client: Pick<StorageClient, 'query'>,
+		sessionId: string,
+		reason: string,
+	): Promise<void> {
+		const result = await client.query(
+			`UPDATE sessions
+			 SET is_active = false, revoked_at = CURRENT_TIMESTAMP, revoked_reason = $2
+			 WHERE id = $1 AND is_active = true
+			 RETURNING id`,
+			[sessionId, reason],
 		);
+
+		this.notifyRevoked(result.rows.map((row) => row.id));
+	}
+
+	/**
+	 * Report revoked sessions to the revocation callback
+	 */
+	private static notifyRevoked(sessionIds: string[]): void {
+		if (sessionIds.length > 0) {
+			this.revokedHandler?.(sessionIds);
+		}
 	}
 
 	/**
 	 * Hash token for storage
 	 */
 	private static hashToken(token: string): string {
-		return require('crypto').createHash('sha256').update(token).digest('hex');
+		return createHash('sha256').update(token).digest('hex');
+	}
+
+	/**
+	 * Keep an address only if the INET column will accept it
+	 */
+	private static toIpAddress(ipAddress: string | null | undefined): string | null {
+		return ipAddress && isIP(ipAddress) ? ipAddress : null;
 	}
 
 	/**
@@ -4,5 +4,19 @@
  */
 
 export { AuthService } from './AuthService.ts';
-export type { RegisterData, LoginData, AuthResponse, TokenPayload } from './AuthService.ts';
-export { authMiddleware, optionalAuthMiddleware } from './middleware.ts';
+export {
+	authMiddleware,
+	adminMiddleware,
+	optionalAuthMiddleware,
+	isAdmin,
+	getDeviceInfo,
+} from './middleware.ts';
+export type {
+	RegisterData,
+	LoginData,
+	AuthResponse,
+	TokenPayload,
+	DeviceInfo,
+	SessionInfo,
+	SessionRevokedHandler,
+} from './AuthService.ts';
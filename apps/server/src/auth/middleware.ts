@@ -4,8 +4,25 @@
  */
 
 import { AuthService } from './AuthService.ts';
+import type { DeviceInfo } from './AuthService.ts';
 import type { Context } from 'elit';
 
+// Player IDs allowed to use admin endpoints (comma-separated)
+const ADMIN_PLAYER_IDS = new Set(
+	(process.env.ADMIN_PLAYER_IDS || '')
+		.split(',')
+		.map((id) => id.trim())
+		.filter(Boolean),
+);
+
+// Reverse proxy addresses whose X-Forwarded-For header is trusted (comma-separated)
+const TRUSTED_PROXIES = new Set(
+	(process.env.TRUSTED_PROXIES || '')
+		.split(',')
+		.map((address) => address.trim())
+		.filter(Boolean),
+);
+
 /**
  * Extract token from Authorization header
  */
@@ -23,6 +40,46 @@ function extractToken(authHeader: string | undefined): string | null {
 	return parts[1];
 }
 
+/**
+ * Get the address of the peer connected to the server socket (the proxy, if any)
+ */
+function getSocketAddress(ctx: Context): string | null {
+	const address: string | undefined = ctx.req?.socket?.remoteAddress;
+	if (!address) {
+		return null;
+	}
+
+	// IPv4 peers on a dual-stack socket show up as ::ffff:a.b.c.d
+	return address.startsWith('::ffff:') ? address.slice('::ffff:'.length) : address;
+}
+
+/**
+ * Get the client's user agent and address for the session list
+ * X-Forwarded-For is only read when the request comes from a trusted proxy; the client
+ * is then the last address in it that isn't one of the trusted proxies
+ */
+export function getDeviceInfo(ctx: Context): DeviceInfo {
+	const socketAddress = getSocketAddress(ctx);
+	let ipAddress = socketAddress;
+
+	if (socketAddress && TRUSTED_PROXIES.has(socketAddress)) {
+		const hops = (ctx.request.headers.get('x-forwarded-for') ?? '')
+			.split(',')
+			.map((hop: string) => hop.trim())
+			.filter(Boolean);
+
+		while (hops.length > 0 && TRUSTED_PROXIES.has(hops[hops.length - 1]!)) {
+			hops.pop();
+		}
+		ipAddress = hops.pop() ?? socketAddress;
+	}
+
+	return {
+		userAgent: ctx.request.headers.get('user-agent'),
+		ipAddress,
+	};
+}
+
 /**
  * Authentication middleware
  * Verifies JWT token and attaches player data to context
@@ -33,6 +90,7 @@ export async function authMiddleware(ctx: Context, next: () => Promise<void>) {
 
 	if (!token) {
 		ctx.status(401).json({
+			success: false,
 			error: 'Unauthorized',
 			message: 'No token provided',
 		});
@@ -43,6 +101,7 @@ export async function authMiddleware(ctx: Context, next: () => Promise<void>) {
 
 	if (!payload) {
 		ctx.status(401).json({
+			success: false,
 			error: 'Unauthorized',
 			message: 'Invalid or expired token',
 		});
@@ -55,6 +114,32 @@ export async function authMiddleware(ctx: Context, next: () => Promise<void>) {
 	await next();
 }
 
+/**
+ * Check whether a player is listed in ADMIN_PLAYER_IDS
+ */
+export function isAdmin(playerId: string): boolean {
+	return ADMIN_PLAYER_IDS.has(playerId);
+}
+
+/**
+ * Admin middleware
+ * Authenticates like authMiddleware, then rejects players not listed in ADMIN_PLAYER_IDS
+ */
+export async function adminMiddleware(ctx: Context, next: () => Promise<void>) {
+	await authMiddleware(ctx, async () => {
+		if (!isAdmin((ctx as any).player.playerId)) {
+			ctx.status(403).json({
+				success: false,
+				error: 'Forbidden',
+				message: 'Admin access required',
+			});
+			return;
+		}
+
+		await next();
+	});
+}
+
 /**
  * Optional authentication middleware
  * Attaches player data if token is valid, but doesn't reject if missing
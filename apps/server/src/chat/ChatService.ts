@@ -0,0 +1,639 @@
+/**
+ * ChatService
+ * Server-routed chat channels (global, zone, party, guild, whisper) with rate
+ * limiting, a profanity filter, moderator mutes, player reports and a
+ * persisted moderation log
+ */
+
+import type { StorageBackend } from '../database/index.ts';
+import { randomUUID } from 'node:crypto';
+import type { FriendService } from '../friends/FriendService.ts';
+import type { GuildService } from '../guild/GuildService.ts';
+import type { PartyService } from '../party/PartyService.ts';
+import { filterProfanity } from './profanity.ts';
+
+export type ChatChannel = 'global' | 'zone' | 'party' | 'guild' | 'whisper';
+
+export const CHAT_CHANNELS: ChatChannel[] = ['global', 'zone', 'party', 'guild', 'whisper'];
+
+export interface ChatMessage {
+	id: string;
+	channel: ChatChannel;
+	sender_id: string;
+	sender_name: string;
+	target_id: string | null; // Whisper recipient
+	target_name: string | null;
+	zone_id: string | null;
+	message: string;
+	sent_at: string;
+}
+
+export interface ChatMute {
+	player_id: string;
+	muted_by: string;
+	reason: string;
+	expires_at: string;
+	created_at: string;
+}
+
+export type ChatReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export interface ChatReport {
+	id: number;
+	reporter_id: string;
+	reporter_name: string;
+	reported_id: string;
+	reason: string;
+	evidence: RecentMessage[];
+	status: ChatReportStatus;
+	resolved_by: string | null;
+	created_at: string;
+	resolved_at: string | null;
+}
+
+export type ModerationAction =
+	| 'mute'
+	| 'unmute'
+	| 'auto_mute'
+	| 'report'
+	| 'resolve_report'
+	| 'dismiss_report'
+	| 'filtered';
+
+export interface ModerationLogEntry {
+	id: number;
+	action: ModerationAction;
+	player_id: string;
+	moderator_id: string | null;
+	details: string | null;
+	created_at: string;
+}
+
+/**
+ * A player's recent message, kept so reports carry what was actually said
+ */
+export interface RecentMessage {
+	channel: ChatChannel;
+	target_id: string | null;
+	message: string;
+	sent_at: string;
+}
+
+/**
+ * Online players and zones (the signaling server implements this)
+ */
+export interface ChatAudience {
+	getConnectedPlayers(): string[];
+	getPlayersInZone(zoneId: string): string[];
+	getPresence(playerId: string): { online: boolean; zone_id: string | null };
+}
+
+export type ChatNotificationType = 'chat-message' | 'chat-muted' | 'chat-unmuted';
+
+export type ChatNotify = (playerIds: string[], type: ChatNotificationType, data: any) => void;
+
+type ChatResult<T = object> = ({ success: true } & T) | { success: false; error: string };
+
+export class ChatService {
+	private db: StorageBackend;
+	private parties: PartyService;
+	private guilds: GuildService;
+	private friends: FriendService;
+	private audience: ChatAudience | null = null;
+	private notifyCallback: ChatNotify | null = null;
+	private mutes: Map<string, ChatMute> = new Map(); // Active mutes by player ID
+	private sendTimes: Map<string, number[]> = new Map(); // Player ID -> recent send timestamps
+	private lastGlobalSend: Map<string, number> = new Map();
+	private spamStrikes: Map<string, number[]> = new Map(); // Player ID -> rate limit hit timestamps
+	private recentMessages: Map<string, RecentMessage[]> = new Map();
+
+	// Configuration
+	private readonly MAX_MESSAGE_LENGTH = 500;
+	private readonly RATE_LIMIT_MESSAGES = 5; // Messages allowed per window
+	private readonly RATE_LIMIT_WINDOW = 10000; // 10 seconds
+	private readonly GLOBAL_COOLDOWN = 5000; // Minimum gap between global messages
+	private readonly SPAM_STRIKES = 3; // Rate limit hits within the strike window before an auto-mute
+	private readonly SPAM_STRIKE_WINDOW = 60000; // 1 minute
+	private readonly AUTO_MUTE_MINUTES = 5;
+	private readonly MAX_MUTE_MINUTES = 43200; // 30 days
+	private readonly RECENT_MESSAGES = 20; // Kept per player as report evidence
+	private readonly MAX_REPORTS_PER_HOUR = 10;
+	private readonly MAX_REASON_LENGTH = 500;
+
+	constructor(db: StorageBackend, parties: PartyService, guilds: GuildService, friends: FriendService) {
+		this.db = db;
+		this.parties = parties;
+		this.guilds = guilds;
+		this.friends = friends;
+	}
+
+	/**
+	 * Set callback that pushes chat messages and mute notices to connected players
+	 */
+	setNotifyCallback(notify: ChatNotify): void {
+		this.notifyCallback = notify;
+	}
+
+	/**
+	 * Set the source of online players and zones
+	 */
+	setAudience(audience: ChatAudience): void {
+		this.audience = audience;
+	}
+
+	/**
+	 * Load active mutes
+	 */
+	async initialize(): Promise<void> {
+		const mutes = await this.db.query('SELECT * FROM chat_mutes WHERE expires_at > NOW()');
+		for (const row of mutes.rows) {
+			const mute = this.rowToMute(row);
+			this.mutes.set(mute.player_id, mute);
+		}
+
+		console.log(`[ChatService] Loaded ${this.mutes.size} active mutes`);
+	}
+
+	/**
+	 * Send a message on a channel. The sender's name always comes from their
+	 * authenticated session, never from the client.
+	 */
+	async sendMessage(
+		playerId: string,
+		playerName: string,
+		channel: ChatChannel,
+		text: string,
+		targetName?: string,
+	): Promise<ChatResult> {
+		if (!CHAT_CHANNELS.includes(channel)) {
+			return { success: false, error: 'Invalid chat channel' };
+		}
+
+		const mute = this.getMute(playerId);
+		if (mute) {
+			return { success: false, error: `Muted until ${mute.expires_at}` };
+		}
+
+		text = text.trim();
+		if (!text) {
+			return { success: false, error: 'Message is empty' };
+		}
+		if (text.length > this.MAX_MESSAGE_LENGTH) {
+			return {
+				success: false,
+				error: `Messages are limited to ${this.MAX_MESSAGE_LENGTH} characters`,
+			};
+		}
+
+		const rateLimitError = await this.checkRateLimit(playerId, channel);
+		if (rateLimitError) {
+			return { success: false, error: rateLimitError };
+		}
+
+		const filtered = filterProfanity(text);
+		if (filtered.filtered) {
+			await this.log('filtered', playerId, null, `[${channel}] ${text}`);
+		}
+
+		// Party and guild chat keep their own routing (and guild chat history)
+		if (channel === 'party') {
+			const result = this.parties.sendChatMessage(playerId, filtered.text);
+			if (!result.success) {
+				return { success: false, error: result.error ?? 'Failed to send party message' };
+			}
+			this.remember(playerId, channel, null, filtered.text);
+			return { ...result, success: true };
+		}
+
+		if (channel === 'guild') {
+			const result = await this.guilds.sendChatMessage(playerId, filtered.text);
+			if (result.success) this.remember(playerId, channel, null, filtered.text);
+			return result;
+		}
+
+		if (!this.audience) {
+			return { success: false, error: 'Chat is unavailable' };
+		}
+
+		const message: ChatMessage = {
+			id: randomUUID(),
+			channel,
+			sender_id: playerId,
+			sender_name: playerName,
+			target_id: null,
+			target_name: null,
+			zone_id: null,
+			message: filtered.text,
+			sent_at: new Date().toISOString(),
+		};
+		let recipients: string[];
+
+		if (channel === 'global') {
+			recipients = this.audience.getConnectedPlayers();
+		} else if (channel === 'zone') {
+			const zoneId = this.audience.getPresence(playerId).zone_id;
+			if (!zoneId) {
+				return { success: false, error: 'Not in a zone' };
+			}
+
+			message.zone_id = zoneId;
+			recipients = this.audience.getPlayersInZone(zoneId);
+		} else {
+			if (!targetName?.trim()) {
+				return { success: false, error: 'Whisper target is required' };
+			}
+
+			const target = await this.db.query(
+				'SELECT id, username FROM players WHERE LOWER(username) = LOWER($1)',
+				[targetName.trim()],
+			);
+			const targetRow = target.rows[0];
+			const targetId = targetRow ? String(targetRow.id) : null;
+
+			// Blocked players can't tell they were blocked: they just can't reach the player
+			if (
+				!targetId ||
+				!this.audience.getPresence(targetId).online ||
+				(await this.friends.isBlocked(playerId, targetId))
+			) {
+				return { success: false, error: 'Player not found or offline' };
+			}
+			if (targetId === playerId) {
+				return { success: false, error: 'Cannot whisper yourself' };
+			}
+
+			message.target_id = targetId;
+			message.target_name = targetRow.username;
+			recipients = [playerId, targetId];
+		}
+
+		this.remember(playerId, channel, message.target_id, message.message);
+		this.notify(recipients, 'chat-message', { message });
+
+		return { success: true };
+	}
+
+	/**
+	 * Look up a player ID by username (case-insensitive)
+	 */
+	async findPlayerId(username: string): Promise<string | null> {
+		const result = await this.db.query('SELECT id FROM players WHERE LOWER(username) = LOWER($1)', [
+			username.trim(),
+		]);
+
+		return result.rows[0] ? String(result.rows[0].id) : null;
+	}
+
+	/**
+	 * Get a player's active mute, if any
+	 */
+	getMute(playerId: string): ChatMute | null {
+		const mute = this.mutes.get(playerId);
+
+		if (mute && new Date(mute.expires_at).getTime() <= Date.now()) {
+			this.mutes.delete(playerId);
+			return null;
+		}
+
+		return mute ?? null;
+	}
+
+	/**
+	 * Mute a player for a number of minutes (moderators only)
+	 */
+	async mutePlayer(
+		moderatorId: string,
+		playerId: string,
+		minutes: number,
+		reason: string,
+	): Promise<ChatResult<{ mute: ChatMute }>> {
+		if (!Number.isInteger(minutes) || minutes < 1 || minutes > this.MAX_MUTE_MINUTES) {
+			return {
+				success: false,
+				error: `Mute duration must be between 1 and ${this.MAX_MUTE_MINUTES} minutes`,
+			};
+		}
+
+		const target = await this.db.query('SELECT id FROM players WHERE id = $1', [playerId]);
+		if (target.rows.length === 0) {
+			return { success: false, error: 'Player not found' };
+		}
+
+		const mute = await this.applyMute(
+			playerId,
+			moderatorId,
+			minutes,
+			reason.slice(0, this.MAX_REASON_LENGTH),
+		);
+		await this.log('mute', playerId, moderatorId, `${minutes} minutes: ${mute.reason}`);
+
+		return { success: true, mute };
+	}
+
+	/**
+	 * Lift a player's mute (moderators only)
+	 */
+	async unmutePlayer(moderatorId: string, playerId: string): Promise<ChatResult> {
+		const result = await this.db.query('DELETE FROM chat_mutes WHERE player_id = $1', [playerId]);
+		const wasMuted = this.mutes.delete(playerId);
+
+		if (result.rowCount === 0 && !wasMuted) {
+			return { success: false, error: 'Player is not muted' };
+		}
+
+		await this.log('unmute', playerId, moderatorId, null);
+		this.notify([playerId], 'chat-unmuted', {});
+
+		return { success: true };
+	}
+
+	/**
+	 * Report a player. Their recent messages the reporter could see are attached,
+	 * so reports can't quote things that were never said.
+	 */
+	async reportPlayer(
+		reporterId: string,
+		reporterName: string,
+		reportedId: string,
+		reason: string,
+	): Promise<ChatResult<{ report: ChatReport }>> {
+		if (reportedId === reporterId) {
+			return { success: false, error: 'Cannot report yourself' };
+		}
+
+		reason = reason.trim();
+		if (!reason) {
+			return { success: false, error: 'A reason is required' };
+		}
+		if (reason.length > this.MAX_REASON_LENGTH) {
+			return {
+				success: false,
+				error: `Reasons are limited to ${this.MAX_REASON_LENGTH} characters`,
+			};
+		}
+
+		const target = await this.db.query('SELECT id FROM players WHERE id = $1', [reportedId]);
+		if (target.rows.length === 0) {
+			return { success: false, error: 'Player not found' };
+		}
+
+		const recent = await this.db.query(
+			`SELECT COUNT(*) AS count FROM chat_reports
+			WHERE reporter_id = $1 AND created_at > NOW() - INTERVAL '1 hour'`,
+			[reporterId],
+		);
+		if (Number(recent.rows[0]?.count ?? 0) >= this.MAX_REPORTS_PER_HOUR) {
+			return { success: false, error: 'Too many reports, try again later' };
+		}
+
+		// Whispers to other players stay private
+		const evidence = (this.recentMessages.get(reportedId) ?? []).filter(
+			(message) => message.channel !== 'whisper' || message.target_id === reporterId,
+		);
+
+		const result = await this.db.query(
+			`INSERT INTO chat_reports (reporter_id, reporter_name, reported_id, reason, evidence)
+			VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+			[reporterId, reporterName, reportedId, reason, JSON.stringify(evidence)],
+		);
+		const report = this.rowToReport(result.rows[0]);
+
+		await this.log(
+			'report',
+			reportedId,
+			null,
+			`Report #${report.id} by ${reporterName}: ${reason}`,
+		);
+
+		return { success: true, report };
+	}
+
+	/**
+	 * Get reports by status, oldest first (moderators only)
+	 */
+	async getReports(
+		status: ChatReportStatus = 'open',
+		limit: number = 50,
+		offset: number = 0,
+	): Promise<ChatReport[]> {
+		const result = await this.db.query(
+			`SELECT * FROM chat_reports WHERE status = $1
+			ORDER BY created_at ASC LIMIT $2 OFFSET $3`,
+			[status, Math.min(Math.max(limit, 1), 100), Math.max(offset, 0)],
+		);
+
+		return result.rows.map((row) => this.rowToReport(row));
+	}
+
+	/**
+	 * Close a report as resolved (action taken) or dismissed (moderators only)
+	 */
+	async closeReport(
+		moderatorId: string,
+		reportId: number,
+		status: 'resolved' | 'dismissed',
+	): Promise<ChatResult> {
+		const result = await this.db.query(
+			`UPDATE chat_reports SET status = $1, resolved_by = $2, resolved_at = NOW()
+			WHERE id = $3 AND status = 'open'
+			RETURNING reported_id`,
+			[status, moderatorId, reportId],
+		);
+
+		if (result.rows.length === 0) {
+			return { success: false, error: 'Open report not found' };
+		}
+
+		await this.log(
+			status === 'resolved' ? 'resolve_report' : 'dismiss_report',
+			result.rows[0].reported_id,
+			moderatorId,
+			`Report #${reportId}`,
+		);
+
+		return { success: true };
+	}
+
+	/**
+	 * Get the moderation log, newest first, optionally for one player (moderators only)
+	 */
+	async getModerationLog(
+		playerId?: string,
+		limit: number = 50,
+		offset: number = 0,
+	): Promise<ModerationLogEntry[]> {
+		const result = await this.db.query(
+			`SELECT * FROM chat_moderation_log
+			WHERE ($1::VARCHAR IS NULL OR player_id = $1)
+			ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+			[playerId ?? null, Math.min(Math.max(limit, 1), 100), Math.max(offset, 0)],
+		);
+
+		return result.rows.map((row) => ({
+			id: row.id,
+			action: row.action,
+			player_id: row.player_id,
+			moderator_id: row.moderator_id,
+			details: row.details,
+			created_at: row.created_at,
+		}));
+	}
+
+	/**
+	 * Forget a disconnected player's rate limit state and recent messages
+	 */
+	handleDisconnect(playerId: string): void {
+		this.sendTimes.delete(playerId);
+		this.lastGlobalSend.delete(playerId);
+		this.spamStrikes.delete(playerId);
+		this.recentMessages.delete(playerId);
+	}
+
+	/**
+	 * Check the player's send rate; repeated violations earn an automatic mute.
+	 * Returns an error message when the message must be dropped.
+	 */
+	private async checkRateLimit(playerId: string, channel: ChatChannel): Promise<string | null> {
+		const now = Date.now();
+		const times = (this.sendTimes.get(playerId) ?? []).filter(
+			(time) => now - time < this.RATE_LIMIT_WINDOW,
+		);
+		const lastGlobal = this.lastGlobalSend.get(playerId) ?? 0;
+
+		if (channel === 'global' && now - lastGlobal < this.GLOBAL_COOLDOWN) {
+			this.sendTimes.set(playerId, times);
+			return `You can only post in global chat every ${this.GLOBAL_COOLDOWN / 1000} seconds`;
+		}
+
+		if (times.length >= this.RATE_LIMIT_MESSAGES) {
+			this.sendTimes.set(playerId, times);
+
+			const strikes = (this.spamStrikes.get(playerId) ?? []).filter(
+				(time) => now - time < this.SPAM_STRIKE_WINDOW,
+			);
+			strikes.push(now);
+			this.spamStrikes.set(playerId, strikes);
+
+			if (strikes.length >= this.SPAM_STRIKES) {
+				this.spamStrikes.delete(playerId);
+				await this.applyMute(playerId, 'system', this.AUTO_MUTE_MINUTES, 'Spamming');
+				await this.log(
+					'auto_mute',
+					playerId,
+					null,
+					`${this.AUTO_MUTE_MINUTES} minutes for spamming`,
+				);
+				return `Muted for ${this.AUTO_MUTE_MINUTES} minutes for spamming`;
+			}
+
+			return 'You are sending messages too quickly';
+		}
+
+		times.push(now);
+		this.sendTimes.set(playerId, times);
+		if (channel === 'global') {
+			this.lastGlobalSend.set(playerId, now);
+		}
+
+		return null;
+	}
+
+	/**
+	 * Store a mute and tell the muted player
+	 */
+	private async applyMute(
+		playerId: string,
+		mutedBy: string,
+		minutes: number,
+		reason: string,
+	): Promise<ChatMute> {
+		const expiresAt = new Date(Date.now() + minutes * 60000);
+		const result = await this.db.query(
+			`INSERT INTO chat_mutes (player_id, muted_by, reason, expires_at)
+			VALUES ($1, $2, $3, $4)
+			ON CONFLICT (player_id)
+			DO UPDATE SET muted_by = $2, reason = $3, expires_at = $4, created_at = NOW()
+			RETURNING *`,
+			[playerId, mutedBy, reason, expiresAt],
+		);
+
+		const mute = this.rowToMute(result.rows[0]);
+		this.mutes.set(playerId, mute);
+		this.notify([playerId], 'chat-muted', { mute });
+
+		return mute;
+	}
+
+	/**
+	 * Keep a player's recent messages as report evidence
+	 */
+	private remember(
+		playerId: string,
+		channel: ChatChannel,
+		targetId: string | null,
+		message: string,
+	): void {
+		const messages = this.recentMessages.get(playerId) ?? [];
+		messages.push({ channel, target_id: targetId, message, sent_at: new Date().toISOString() });
+
+		if (messages.length > this.RECENT_MESSAGES) {
+			messages.shift();
+		}
+
+		this.recentMessages.set(playerId, messages);
+	}
+
+	/**
+	 * Write a moderation log entry
+	 */
+	private async log(
+		action: ModerationAction,
+		playerId: string,
+		moderatorId: string | null,
+		details: string | null,
+	): Promise<void> {
+		await this.db.query(
+			`INSERT INTO chat_moderation_log (action, player_id, moderator_id, details)
+			VALUES ($1, $2, $3, $4)`,
+			[action, playerId, moderatorId, details],
+		);
+	}
+
+	/**
+	 * Push a chat event to players
+	 */
+	private notify(playerIds: string[], type: ChatNotificationType, data: any): void {
+		this.notifyCallback?.(playerIds, type, data);
+	}
+
+	/**
+	 * Convert a database row to a mute
+	 */
+	private rowToMute(row: any): ChatMute {
+		return {
+			player_id: row.player_id,
+			muted_by: row.muted_by,
+			reason: row.reason,
+			expires_at: new Date(row.expires_at).toISOString(),
+			created_at: row.created_at,
+		};
+	}
+
+	/**
+	 * Convert a database row to a report
+	 */
+	private rowToReport(row: any): ChatReport {
+		return {
+			id: row.id,
+			reporter_id: row.reporter_id,
+			reporter_name: row.reporter_name,
+			reported_id: row.reported_id,
+			reason: row.reason,
+			evidence: typeof row.evidence === 'string' ? JSON.parse(row.evidence) : row.evidence,
+			status: row.status,
+			resolved_by: row.resolved_by,
+			created_at: row.created_at,
+			resolved_at: row.resolved_at,
+		};
+	}
+}
@@ -0,0 +1,21 @@
+/**
+ * Chat Module
+ * Server-routed chat channels, moderation and REST routes
+ */
+
+export { ChatService, CHAT_CHANNELS } from './ChatService.ts';
+export type {
+	ChatChannel,
+	ChatMessage,
+	ChatMute,
+	ChatReport,
+	ChatReportStatus,
+	ModerationAction,
+	ModerationLogEntry,
+	RecentMessage,
+	ChatAudience,
+	ChatNotificationType,
+	ChatNotify,
+} from './ChatService.ts';
+export { filterProfanity } from './profanity.ts';
+export { registerChatRoutes } from './routes.ts';
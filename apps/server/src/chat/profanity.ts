@@ -0,0 +1,87 @@
+/**
+ * Profanity Filter
+ * Masks blocked words in chat messages
+ */
+
+// Matched as whole words, alone or followed by one of INFLECTIONS
+const BLOCKED_WORDS = [
+	'fuck',
+	'shit',
+	'bitch',
+	'cunt',
+	'asshole',
+	'bastard',
+	'motherfuck',
+	'nigger',
+	'nigga',
+	'faggot',
+	'retard',
+	'whore',
+	'slut',
+];
+
+// Endings that turn a blocked word into another form of it ("...ing", "...ed"). Only these
+// count, so words that merely start with a blocked one ("retardant", "shitake") pass.
+const INFLECTIONS = ['s', 'es', 'ed', 'er', 'ers', 'ing', 'in', 'y', 'ies', 'z'];
+
+// Common letter substitutions used to slip past the filter
+const SUBSTITUTIONS: Record<string, string> = {
+	'0': 'o',
+	'1': 'i',
+	'3': 'e',
+	'4': 'a',
+	'5': 's',
+	'7': 't',
+	'@': 'a',
+	$: 's',
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}@$]+/gu;
+
+/**
+ * Normalize a word for matching (lowercase, undo substitutions, collapse repeated letters)
+ */
+function normalizeWord(word: string): string {
+	return word
+		.toLowerCase()
+		.split('')
+		.map((char) => SUBSTITUTIONS[char] ?? char)
+		.join('')
+		.replace(/(.)\1+/g, '$1');
+}
+
+// Blocked words collapse the same way so "asshole" still matches "ashole"
+const NORMALIZED_BLOCKED_WORDS = new Set(BLOCKED_WORDS.map(normalizeWord));
+
+/**
+ * Check a normalized word is a blocked word or an inflection of one
+ */
+function isBlocked(normalized: string): boolean {
+	if (NORMALIZED_BLOCKED_WORDS.has(normalized)) {
+		return true;
+	}
+
+	return INFLECTIONS.some(
+		(ending) =>
+			normalized.endsWith(ending) &&
+			NORMALIZED_BLOCKED_WORDS.has(normalized.slice(0, -ending.length)),
+	);
+}
+
+/**
+ * Replace blocked words with asterisks
+ */
+export function filterProfanity(text: string): { text: string; filtered: boolean } {
+	let filtered = false;
+
+	const result = text.replace(WORD_PATTERN, (word) => {
+		if (isBlocked(normalizeWord(word))) {
+			filtered = true;
+			return '*'.repeat(word.length);
+		}
+
+		return word;
+	});
+
+	return { text: result, filtered };
+}
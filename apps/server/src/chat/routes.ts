@@ -0,0 +1,137 @@
+/**
+ * Chat Routes
+ * REST endpoints for chat channels, reports and moderation (moderation requires admin)
+ */
+
+import type { Elit } from 'elit';
+import { adminMiddleware, authMiddleware } from '../auth/middleware.ts';
+import {
+	getPlayer,
+	getQuery,
+	parseInteger,
+	readBody,
+	sendError,
+	sendResult,
+} from '../http/index.ts';
+import { CHAT_CHANNELS } from './ChatService.ts';
+import type { ChatChannel, ChatReportStatus, ChatService } from './ChatService.ts';
+
+const REPORT_STATUSES: ChatReportStatus[] = ['open', 'resolved', 'dismissed'];
+
+export function registerChatRoutes(app: Elit, chat: ChatService): void {
+	// REST fallback for the chat-send WebSocket request
+	app.post('/api/chat/send', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!CHAT_CHANNELS.includes(body?.channel) || typeof body?.message !== 'string') {
+			return sendError(ctx, 400, `channel (${CHAT_CHANNELS.join(', ')}) and message are required`);
+		}
+
+		const result = await chat.sendMessage(
+			player.playerId,
+			player.username,
+			body.channel as ChatChannel,
+			body.message,
+			body.target ? String(body.target) : undefined,
+		);
+
+		sendResult(ctx, result);
+	});
+
+	app.get('/api/chat/mute', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		ctx.json({ success: true, mute: chat.getMute(player.playerId) });
+	});
+
+	app.post('/api/chat/report', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.player_id || !body?.reason) {
+			return sendError(ctx, 400, 'player_id and reason are required');
+		}
+
+		const result = await chat.reportPlayer(
+			player.playerId,
+			player.username,
+			String(body.player_id),
+			String(body.reason),
+		);
+
+		sendResult(ctx, result, 201);
+	});
+
+	app.post('/api/chat/admin/mute', adminMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.player_id || !body?.minutes) {
+			return sendError(ctx, 400, 'player_id and minutes are required');
+		}
+
+		const result = await chat.mutePlayer(
+			player.playerId,
+			String(body.player_id),
+			Number(body.minutes),
+			String(body.reason ?? ''),
+		);
+
+		sendResult(ctx, result);
+	});
+
+	app.post('/api/chat/admin/unmute', adminMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.player_id) {
+			return sendError(ctx, 400, 'player_id is required');
+		}
+
+		sendResult(ctx, await chat.unmutePlayer(player.playerId, String(body.player_id)));
+	});
+
+	app.get('/api/chat/admin/reports', adminMiddleware, async (ctx) => {
+		const query = getQuery(ctx);
+		const status = (query.get('status') || 'open') as ChatReportStatus;
+
+		if (!REPORT_STATUSES.includes(status)) {
+			return sendError(ctx, 400, 'Invalid report status');
+		}
+
+		const reports = await chat.getReports(
+			status,
+			parseInteger(query.get('limit')) ?? 50,
+			parseInteger(query.get('offset')) ?? 0,
+		);
+
+		ctx.json({ success: true, reports });
+	});
+
+	app.post('/api/chat/admin/reports/:reportId/:action', adminMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const reportId = parseInteger(ctx.params.reportId);
+		const action = ctx.params.action;
+
+		if (reportId === undefined) {
+			return sendError(ctx, 400, 'Invalid report ID');
+		}
+		if (action !== 'resolve' && action !== 'dismiss') {
+			return sendError(ctx, 400, "Action must be 'resolve' or 'dismiss'");
+		}
+
+		const status = action === 'resolve' ? 'resolved' : 'dismissed';
+		sendResult(ctx, await chat.closeReport(player.playerId, reportId, status));
+	});
+
+	app.get('/api/chat/admin/log', adminMiddleware, async (ctx) => {
+		const query = getQuery(ctx);
+		const entries = await chat.getModerationLog(
+			query.get('player_id') || undefined,
+			parseInteger(query.get('limit')) ?? 50,
+			parseInteger(query.get('offset')) ?? 0,
+		);
+
+		ctx.json({ success: true, entries });
+	});
+}
@@ -0,0 +1,1273 @@
+/**
+ * BattleService
+ * Server-authoritative combat: runs a headless CombatManager per battle,
+ * accepts only action submissions from clients and grants rewards from its own results
+ */
+
+import type { StorageBackend } from '../database/index.ts';
+import { randomInt, randomUUID } from 'crypto';
+import {
+	AIPattern,
+	CombatAI,
+	CombatActionType,
+	CombatManager,
+	CombatState,
+	CombatantFactory,
+	DeterministicRNG,
+	LootResolver,
+	MAX_PARTY_SIZE,
+	MonsterFactory,
+} from '@rpg/game-core/combat/index';
+import type {
+	CombatAction,
+	CombatEntity,
+	CombatStats,
+	DamageResult,
+	LootDrop,
+	StatusEffect,
+} from '@rpg/game-core/combat/index';
+import { InventoryManager } from '@rpg/game-core/inventory/index';
+import type { InventorySlot } from '@rpg/game-core/inventory/index';
+import { JobManager } from '@rpg/game-core/jobs/index';
+import type { LearnedJob } from '@rpg/game-core/jobs/index';
+import { CharacterProgression } from '@rpg/game-core/progression/index';
+import type { Zone } from '@rpg/game-core/world/index';
+import { getMatchPlayerIds } from '../arena/ArenaService.ts';
+import type { ArenaMatch, ArenaService } from '../arena/ArenaService.ts';
+import type { CurrencyService } from '../currency/CurrencyService.ts';
+import type { InventoryService } from '../inventory/InventoryService.ts';
+import { loadGameData } from './GameData.ts';
+import type { GameData } from './GameData.ts';
+
+export type BattleKind = 'pve' | 'arena';
+
+export type BattleOutcome = 'victory' | 'defeat' | 'fled' | 'forfeit' | 'timeout';
+
+export interface BattleActionRequest {
+	type: CombatActionType;
+	targetId: string;
+	skillId?: string;
+	itemId?: string;
+}
+
+export interface BattleTurn {
+	turn: number;
+	action: CombatAction;
+	result: DamageResult;
+}
+
+export interface BattleEntityFrame {
+	id: string;
+	hp: number;
+	mp: number;
+	statusEffects: StatusEffect[];
+}
+
+export interface BattleReplayFrame extends BattleTurn {
+	entities: BattleEntityFrame[]; // Entity state after the action resolved
+}
+
+export interface BattleReplay {
+	battleId: string;
+	matchId: number;
+	entities: BattleEntityState[]; // Entity state when the battle started
+	frames: BattleReplayFrame[];
+	result: BattleResult;
+	duration: number; // Seconds
+}
+
+export interface LiveArenaBattle {
+	matchId: number;
+	battleId: string;
+	turn: number;
+	spectators: number;
+	startedAt: number;
+}
+
+export interface BattleEntityState {
+	id: string;
+	name: string;
+	level: number;
+	stats: CombatStats;
+	skills: string[];
+	statusEffects: StatusEffect[];
+	isPlayer: boolean;
+	controllerId: string | null; // Player ID of the client controlling this entity (null = server AI)
+}
+
+export interface BattleRewards {
+	exp: number;
+	gold: number;
+	items: LootDrop[];
+	overflow: LootDrop[]; // Drops that did not fit in the inventory
+	levelsGained: number;
+}
+
+export interface BattleResult {
+	outcome: BattleOutcome; // From the party side (PvE player / arena team 1)
+	winnerIds: string[];
+	loserIds: string[];
+	rewards?: BattleRewards; // Solo PvE victories
+	partyRewards?: Record<string, BattleRewards>; // Party PvE victories, keyed by player ID
+	ratingChanges?: Record<string, number>; // Player ID -> rating change
+}
+
+export interface BattleSnapshot {
+	battleId: string;
+	kind: BattleKind;
+	state: CombatState;
+	turn: number;
+	currentActorId: string | null;
+	awaitingPlayerId: string | null;
+	turnDeadline: number | null;
+	entities: BattleEntityState[];
+	turns: BattleTurn[];
+	result: BattleResult | null;
+}
+
+export type BattleBroadcast = (
+	playerIds: string[],
+	type: 'battle-update' | 'battle-turn' | 'battle-end' | 'spectate-update' | 'spectate-end',
+	snapshot: BattleSnapshot,
+) => void;
+
+/**
+ * Split party battle drops; returns the drops each player receives now
+ */
+export type LootDistributor = (playerIds: string[], drops: LootDrop[]) => Map<string, LootDrop[]>;
+
+interface BattleSession {
+	id: string;
+	kind: BattleKind;
+	combat: CombatManager;
+	controllers: Map<string, string>; // Entity ID -> player ID
+	participants: string[];
+	teams: [string[], string[]]; // Player IDs on the party side and the enemy side
+	turns: BattleTurn[];
+	frames: BattleReplayFrame[];
+	initialEntities: BattleEntityState[];
+	spectators: Set<string>;
+	spectatorView: BattleSnapshot | null; // Delayed snapshot shown to spectators
+	actionPending: boolean; // An accepted action is waiting on the server inventory
+	steals: ItemSteal[]; // Steals not yet applied to the server inventories
+	arenaMatchId: number | null;
+	startedAt: number;
+	turnDeadline: number | null;
+	result: BattleResult | null;
+}
+
+interface ItemSteal {
+	thiefId: string | null; // Player ID (null for monsters)
+	victimId: string | null; // Player ID (null for monsters)
+	itemId: string;
+}
+
+interface PlayerCombatant {
+	entity: CombatEntity;
+	consumables: InventorySlot[];
+	level: number;
+	experience: number;
+	learnedJobs: LearnedJob[];
+}
+
+export class BattleService {
+	private db: StorageBackend;
+	private data: GameData;
+	private battles: Map<string, BattleSession> = new Map();
+	private playerBattles: Map<string, string> = new Map(); // Player ID -> battle ID
+	private spectatedBattles: Map<string, string> = new Map(); // Spectator ID -> battle ID
+	private arena: ArenaService;
+	private currency: CurrencyService;
+	private inventory: InventoryService;
+	private pendingArenaStarts: Map<
+		number,
+		Promise<{ success: boolean; error?: string; battle?: BattleSnapshot }>
+	> = new Map();
+	private broadcastCallback: BattleBroadcast | null = null;
+	private lootDistributor: LootDistributor | null = null;
+	private timeoutInterval: Timer | null = null;
+
+	private readonly MAX_TURNS = 200;
+	private readonly TURN_TIMEOUT = 60000; // 1 minute to submit an action
+	private readonly TIMEOUT_CHECK_INTERVAL = 5000;
+	private readonly MAX_ENCOUNTER_SIZE = 3;
+	private readonly FINISHED_BATTLE_TTL = 60000; // Keep results readable for a minute
+	private readonly SPECTATOR_DELAY = 5000; // Spectators see turns 5 seconds late
+
+	constructor(
+		db: StorageBackend,
+		arena: ArenaService,
+		currency: CurrencyService,
+		inventory: InventoryService,
+		data: GameData = loadGameData(),
+	) {
+		this.db = db;
+		this.arena = arena;
+		this.currency = currency;
+		this.inventory = inventory;
+		this.data = data;
+	}
+
+	/**
+	 * Set how drops from party battles are split between the players
+	 */
+	setLootDistributor(distribute: LootDistributor): void {
+		this.lootDistributor = distribute;
+	}
+
+	/**
+	 * Set callback that pushes battle updates to connected players
+	 */
+	setBroadcastCallback(broadcast: BattleBroadcast): void {
+		this.broadcastCallback = broadcast;
+	}
+
+	/**
+	 * Start the turn timeout loop
+	 */
+	start(): void {
+		if (this.timeoutInterval) return;
+
+		this.timeoutInterval = setInterval(() => {
+			this.checkTimeouts().catch((error) => {
+				console.error('[BattleService] Timeout check failed:', error);
+			});
+		}, this.TIMEOUT_CHECK_INTERVAL);
+
+		console.log('[BattleService] Turn timeout loop started');
+	}
+
+	/**
+	 * Start a PvE battle against a random encounter from a zone.
+	 * The player must be in the zone (per the server's profile) and within its level range.
+	 * Party members passed in fight alongside the player if their saved profile is in the
+	 * same zone and they are not already in a battle.
+	 */
+	async startPvEBattle(
+		playerId: string,
+		zoneId: string,
+		partyMemberIds: string[] = [],
+	): Promise<{ success: boolean; error?: string; battle?: BattleSnapshot }> {
+		if (this.playerBattles.has(playerId)) {
+			return { success: false, error: 'Already in a battle' };
+		}
+
+		const zone = this.findZone(zoneId);
+		if (!zone) {
+			return { success: false, error: 'Zone not found' };
+		}
+
+		const profileResult = await this.db.query(
+			'SELECT level, current_map FROM player_profiles WHERE player_id = $1',
+			[playerId],
+		);
+		const profile = profileResult.rows[0];
+		if (!profile) {
+			return { success: false, error: 'Player profile not found' };
+		}
+		if (profile.current_map !== zoneId) {
+			return { success: false, error: 'Not in that zone' };
+		}
+
+		const [minLevel, maxLevel] = zone.level_range;
+		if (profile.level < minLevel || profile.level > maxLevel) {
+			return { success: false, error: `Zone is for levels ${minLevel}-${maxLevel}` };
+		}
+
+		// The monster index may override the zone's own encounter table
+		const monsterIds = this.data.zones[zoneId] ?? zone.monsters ?? [];
+		if (monsterIds.length === 0) {
+			return { success: false, error: 'Zone has no monsters' };
+		}
+
+		// Party members join only if their saved profile is in the same zone
+		const candidateIds = partyMemberIds.filter(
+			(id) => id !== playerId && !this.playerBattles.has(id),
+		);
+		const nearbyIds = new Set<string>();
+
+		if (candidateIds.length > 0) {
+			const nearby = await this.db.query(
+				'SELECT player_id FROM player_profiles WHERE player_id = ANY($1::uuid[]) AND current_map = $2',
+				[candidateIds, zoneId],
+			);
+			nearby.rows.forEach((row) => nearbyIds.add(row.player_id));
+		}
+
+		const playerIds = [playerId, ...candidateIds.filter((id) => nearbyIds.has(id))];
+		const party: CombatEntity[] = [];
+		const players = new Map<string, { playerId: string; consumables: InventorySlot[] }>();
+
+		for (const memberId of playerIds.slice(0, MAX_PARTY_SIZE)) {
+			const combatant = await this.loadCombatant(memberId);
+			if (!combatant) {
+				if (memberId === playerId) {
+					return { success: false, error: 'Player profile not found' };
+				}
+				continue;
+			}
+
+			party.push(combatant.entity);
+			players.set(combatant.entity.id, { playerId: memberId, consumables: combatant.consumables });
+		}
+
+		// The server rolls the encounter; clients never choose their monsters
+		const count = randomInt(1, this.MAX_ENCOUNTER_SIZE + 1);
+		const enemies: CombatEntity[] = [];
+
+		for (let i = 0; i < count; i++) {
+			const monsterId = monsterIds[randomInt(monsterIds.length)]!;
+			const monster = this.data.monsters.get(monsterId);
+			if (!monster) continue;
+
+			const levels = this.data.monsterLevels.get(monsterId);
+			const level = levels ? randomInt(levels.minLevel, levels.maxLevel + 1) : monster.level;
+			const enemy = MonsterFactory.createCombatEntity(monster, `enemy-${i}`, level);
+			// Steals can only take items the server can grant
+			enemy.stealableItems = enemy.stealableItems?.filter((itemId) => this.data.items.has(itemId));
+			enemies.push(enemy);
+		}
+
+		if (enemies.length === 0) {
+			return { success: false, error: 'Zone has no monsters' };
+		}
+
+		const session = this.createSession('pve', party, enemies, players, null);
+
+		this.advance(session);
+		await this.settleSteals(session);
+		await this.settleIfEnded(session);
+		this.broadcast(session);
+
+		return { success: true, battle: this.getSnapshot(session) };
+	}
+
+	/**
+	 * Start the battle for an arena match (team 1 on the party side, team 2 opposite)
+	 */
+	async startArenaBattle(
+		match: ArenaMatch,
+	): Promise<{ success: boolean; error?: string; battle?: BattleSnapshot }> {
+		const existing = this.getArenaBattle(match.id);
+		if (existing) {
+			return { success: true, battle: this.getSnapshot(existing) };
+		}
+
+		// Every player calls start; later calls wait for the first
+		const pending = this.pendingArenaStarts.get(match.id);
+		if (pending) {
+			return pending;
+		}
+
+		const start = this.createArenaBattle(match);
+		this.pendingArenaStarts.set(match.id, start);
+
+		try {
+			return await start;
+		} finally {
+			this.pendingArenaStarts.delete(match.id);
+		}
+	}
+
+	/**
+	 * Submit an action for the entity the player controls
+	 */
+	async submitAction(
+		battleId: string,
+		playerId: string,
+		request: BattleActionRequest,
+	): Promise<{ success: boolean; error?: string; battle?: BattleSnapshot }> {
+		const session = this.battles.get(battleId);
+		if (!session || !session.participants.includes(playerId)) {
+			return { success: false, error: 'Battle not found' };
+		}
+
+		const combat = session.combat;
+		const actor = combat.getCurrentActor();
+
+		if (
+			session.result ||
+			session.actionPending ||
+			combat.getState() !== CombatState.ACTION_SELECT ||
+			!actor
+		) {
+			return { success: false, error: 'Battle is not accepting actions' };
+		}
+
+		if (session.controllers.get(actor.id) !== playerId) {
+			return { success: false, error: 'Not your turn' };
+		}
+
+		const error = this.validateAction(session, actor, request);
+		if (error) {
+			return { success: false, error };
+		}
+
+		// Items leave the server inventory before they take effect
+		if (request.type === CombatActionType.ITEM) {
+			const itemError = await this.consumeItem(session, playerId, request.itemId!);
+			if (itemError) {
+				return { success: false, error: itemError };
+			}
+		}
+
+		combat.submitAction({
+			actorId: actor.id,
+			type: request.type,
+			targetId: request.targetId,
+			skillId: request.skillId,
+			itemId: request.itemId,
+		});
+		this.recordFrames(session);
+
+		this.advance(session);
+		await this.settleSteals(session);
+		await this.settleIfEnded(session);
+		this.broadcast(session);
+
+		return { success: true, battle: this.getSnapshot(session) };
+	}
+
+	/**
+	 * Forfeit a battle (arena forfeits count as a loss for the player's whole team)
+	 */
+	async forfeit(battleId: string, playerId: string): Promise<{ success: boolean; error?: string }> {
+		const session = this.battles.get(battleId);
+		if (!session || !session.participants.includes(playerId) || session.result) {
+			return { success: false, error: 'Battle not found' };
+		}
+
+		await this.finish(session, 'forfeit', playerId);
+		return { success: true };
+	}
+
+	/**
+	 * Get a battle snapshot (participants only)
+	 */
+	getBattle(battleId: string, playerId: string): BattleSnapshot | null {
+		const session = this.battles.get(battleId);
+		if (!session || !session.participants.includes(playerId)) {
+			return null;
+		}
+		return this.getSnapshot(session);
+	}
+
+	/**
+	 * Get the player's current battle
+	 */
+	getPlayerBattle(playerId: string): BattleSnapshot | null {
+		const battleId = this.playerBattles.get(playerId);
+		const session = battleId ? this.battles.get(battleId) : undefined;
+		return session ? this.getSnapshot(session) : null;
+	}
+
+	/**
+	 * Get the battle ID of an arena match, if it has started
+	 */
+	getArenaBattleId(matchId: number): string | null {
+		return this.getArenaBattle(matchId)?.id ?? null;
+	}
+
+	/**
+	 * List arena battles in progress
+	 */
+	getLiveArenaBattles(): LiveArenaBattle[] {
+		return Array.from(this.battles.values())
+			.filter((session) => session.arenaMatchId !== null && !session.result)
+			.map((session) => ({
+				matchId: session.arenaMatchId!,
+				battleId: session.id,
+				turn: session.spectatorView?.turn ?? 0,
+				spectators: session.spectators.size,
+				startedAt: session.startedAt,
+			}));
+	}
+
+	/**
+	 * Watch an arena battle read-only; returns the delayed view
+	 */
+	spectate(
+		matchId: number,
+		playerId: string,
+	): { success: boolean; error?: string; battle?: BattleSnapshot } {
+		const session = this.getArenaBattle(matchId);
+		if (!session || session.result || !session.spectatorView) {
+			return { success: false, error: 'Match is not live' };
+		}
+
+		if (session.participants.includes(playerId)) {
+			return { success: false, error: 'Cannot spectate your own match' };
+		}
+
+		this.stopSpectating(playerId);
+		session.spectators.add(playerId);
+		this.spectatedBattles.set(playerId, session.id);
+
+		return { success: true, battle: session.spectatorView };
+	}
+
+	/**
+	 * Stop watching the battle the player is spectating
+	 */
+	stopSpectating(playerId: string): { success: boolean; error?: string } {
+		const battleId = this.spectatedBattles.get(playerId);
+		if (!battleId) {
+			return { success: false, error: 'Not spectating a match' };
+		}
+
+		this.battles.get(battleId)?.spectators.delete(playerId);
+		this.spectatedBattles.delete(playerId);
+		return { success: true };
+	}
+
+	/**
+	 * Stop the timeout loop and drop all battles
+	 */
+	destroy(): void {
+		if (this.timeoutInterval) {
+			clearInterval(this.timeoutInterval);
+			this.timeoutInterval = null;
+		}
+
+		for (const session of this.battles.values()) {
+			session.combat.destroy();
+		}
+		this.battles.clear();
+		this.playerBattles.clear();
+		this.spectatedBattles.clear();
+	}
+
+	/**
+	 * Load every arena player and start the match battle
+	 */
+	private async createArenaBattle(
+		match: ArenaMatch,
+	): Promise<{ success: boolean; error?: string; battle?: BattleSnapshot }> {
+		for (const playerId of getMatchPlayerIds(match)) {
+			if (this.playerBattles.has(playerId)) {
+				return { success: false, error: 'A participant is already in a battle' };
+			}
+		}
+
+		const players = new Map<string, { playerId: string; consumables: InventorySlot[] }>();
+		const teams: [CombatEntity[], CombatEntity[]] = [[], []];
+
+		for (const [side, members] of [match.team1, match.team2].entries()) {
+			for (const member of members) {
+				const combatant = await this.loadCombatant(member.player_id);
+				if (!combatant) {
+					return { success: false, error: 'Player profile not found' };
+				}
+
+				// Team 2 fights from the enemy side but is controlled by its clients
+				const entity: CombatEntity = side === 0 ? combatant.entity : { ...combatant.entity, isPlayer: false };
+				teams[side]!.push(entity);
+				players.set(entity.id, { playerId: member.player_id, consumables: combatant.consumables });
+			}
+		}
+
+		if (match.status === 'pending') {
+			const started = await this.arena.startMatch(match.id);
+			if (!started.success) {
+				return started;
+			}
+		}
+
+		const session = this.createSession('arena', teams[0], teams[1], players, match.id);
+
+		this.advance(session);
+		await this.settleSteals(session);
+		await this.settleIfEnded(session);
+		this.broadcast(session);
+
+		return { success: true, battle: this.getSnapshot(session) };
+	}
+
+	/**
+	 * Create a battle session and start combat
+	 */
+	private createSession(
+		kind: BattleKind,
+		party: CombatEntity[],
+		enemies: CombatEntity[],
+		players: Map<string, { playerId: string; consumables: InventorySlot[] }>, // Entity ID -> controller
+		arenaMatchId: number | null,
+	): BattleSession {
+		const combat = new CombatManager({ rng: new DeterministicRNG(randomInt(233280)) });
+
+		const session: BattleSession = {
+			id: randomUUID(),
+			kind,
+			combat,
+			controllers: new Map(),
+			participants: [],
+			teams: [[], []],
+			turns: [],
+			frames: [],
+			initialEntities: [],
+			spectators: new Set(),
+			spectatorView: null,
+			actionPending: false,
+			steals: [],
+			arenaMatchId,
+			startedAt: Date.now(),
+			turnDeadline: null,
+			result: null,
+		};
+
+		for (const [entityId, { playerId, consumables }] of players) {
+			const inventory = new InventoryManager();
+			inventory.import({ slots: consumables, weight: 0 });
+			combat.setInventory(entityId, inventory);
+
+			session.controllers.set(entityId, playerId);
+			session.participants.push(playerId);
+			session.teams[enemies.some((enemy) => enemy.id === entityId) ? 1 : 0].push(playerId);
+			this.playerBattles.set(playerId, session.id);
+		}
+
+		combat.on('action-executed', (action, result) => {
+			session.turns.push({
+				turn: combat.getTurnCount(),
+				action: { ...action },
+				result: { ...result },
+			});
+		});
+
+		combat.on('item-stolen', (actorId, targetId, itemId) => {
+			session.steals.push({
+				thiefId: session.controllers.get(actorId) ?? null,
+				victimId: session.controllers.get(targetId) ?? null,
+				itemId,
+			});
+		});
+
+		combat.initCombat(party, enemies);
+		this.battles.set(session.id, session);
+
+		const snapshot = this.getSnapshot(session);
+		session.initialEntities = snapshot.entities;
+		session.spectatorView = snapshot;
+
+		console.log(`[BattleService] ${kind} battle ${session.id} started`);
+
+		return session;
+	}
+
+	/**
+	 * Run AI turns until a player-controlled entity must act or combat ends
+	 */
+	private advance(session: BattleSession): void {
+		const combat = session.combat;
+		session.turnDeadline = null;
+
+		while (combat.getState() === CombatState.ACTION_SELECT) {
+			if (combat.getTurnCount() > this.MAX_TURNS) return;
+
+			const actor = combat.getCurrentActor();
+			if (!actor) return;
+
+			if (session.controllers.has(actor.id)) {
+				session.turnDeadline = Date.now() + this.TURN_TIMEOUT;
+				return;
+			}
+
+			combat.submitAction(
+				CombatAI.decideAction(
+					actor,
+					combat.getAllies(actor.id),
+					combat.getOpponents(actor.id),
+					(actor.aiPattern as AIPattern) ?? AIPattern.RANDOM,
+				),
+			);
+			this.recordFrames(session);
+		}
+	}
+
+	/**
+	 * Record replay frames for new arena turns ('action-executed' fires before damage is applied)
+	 */
+	private recordFrames(session: BattleSession): void {
+		if (session.kind !== 'arena') return;
+
+		const entities = session.combat.getAllEntities().map((entity) => ({
+			id: entity.id,
+			hp: entity.stats.hp,
+			mp: entity.stats.mp,
+			statusEffects: entity.statusEffects.map((status) => ({ ...status })),
+		}));
+
+		for (const turn of session.turns.slice(session.frames.length)) {
+			session.frames.push({ ...turn, entities });
+		}
+	}
+
+	/**
+	 * Settle the battle if combat has ended or hit the turn limit
+	 */
+	private async settleIfEnded(session: BattleSession): Promise<void> {
+		if (session.result) return;
+
+		const state = session.combat.getState();
+		if (state === CombatState.VICTORY) {
+			await this.finish(session, 'victory');
+		} else if (state === CombatState.DEFEAT) {
+			await this.finish(session, 'defeat');
+		} else if (state === CombatState.FLED) {
+			await this.finish(session, 'fled');
+		} else if (session.combat.getTurnCount() > this.MAX_TURNS) {
+			await this.finish(session, 'timeout');
+		}
+	}
+
+	/**
+	 * Record the result, settle rewards or rating, and release the participants
+	 */
+	private async finish(
+		session: BattleSession,
+		outcome: BattleOutcome,
+		forfeitingPlayerId?: string,
+	): Promise<void> {
+		const result: BattleResult = { outcome, winnerIds: [], loserIds: [] };
+		session.result = result;
+		session.turnDeadline = null;
+
+		const [partyPlayerIds, opponentPlayerIds] = session.teams;
+
+		try {
+			if (session.kind === 'pve') {
+				if (outcome === 'victory' && partyPlayerIds.length > 0) {
+					result.winnerIds = [...partyPlayerIds];
+
+					// Drops are rolled once for the encounter, then split by the party's loot mode
+					const drops = this.rollPvEDrops(session);
+					const assigned =
+						partyPlayerIds.length > 1 && this.lootDistributor
+							? this.lootDistributor(partyPlayerIds, drops)
+							: new Map([[partyPlayerIds[0]!, drops]]);
+
+					const rewards: Record<string, BattleRewards> = {};
+					for (const playerId of partyPlayerIds) {
+						rewards[playerId] = await this.grantPvERewards(session, playerId, assigned.get(playerId) ?? []);
+					}
+
+					if (partyPlayerIds.length > 1) {
+						result.partyRewards = rewards;
+					} else {
+						result.rewards = rewards[partyPlayerIds[0]!];
+					}
+				}
+			} else {
+				let winningTeam: 1 | 2 | null = null;
+				if (outcome === 'forfeit' && forfeitingPlayerId) {
+					winningTeam = partyPlayerIds.includes(forfeitingPlayerId) ? 2 : 1;
+				} else if (outcome === 'victory') {
+					winningTeam = 1;
+				} else if (outcome === 'defeat') {
+					winningTeam = 2;
+				}
+
+				if (winningTeam) {
+					result.winnerIds = winningTeam === 1 ? partyPlayerIds : opponentPlayerIds;
+					result.loserIds = winningTeam === 1 ? opponentPlayerIds : partyPlayerIds;
+				}
+
+				await this.settleArenaMatch(session, result, winningTeam);
+			}
+		} catch (error) {
+			console.error(`[BattleService] Failed to settle battle ${session.id}:`, error);
+		}
+
+		for (const playerId of session.participants) {
+			if (this.playerBattles.get(playerId) === session.id) {
+				this.playerBattles.delete(playerId);
+			}
+		}
+
+		this.broadcast(session);
+		console.log(`[BattleService] Battle ${session.id} ended: ${outcome}`);
+
+		setTimeout(() => {
+			session.combat.destroy();
+			this.battles.delete(session.id);
+		}, this.FINISHED_BATTLE_TTL);
+	}
+
+	/**
+	 * Roll every defeated monster's drop table using the surviving party's average luck
+	 */
+	private rollPvEDrops(session: BattleSession): LootDrop[] {
+		const combat = session.combat;
+		const loot = new LootResolver(new DeterministicRNG(randomInt(233280)));
+		loot.loadMonsters(Array.from(this.data.monsters.values()));
+		loot.loadItems(Array.from(this.data.items.values()));
+
+		const survivors = combat.getParty().filter((member) => member.stats.hp > 0);
+		const luck =
+			survivors.length > 0
+				? survivors.reduce((sum, member) => sum + member.stats.luck, 0) / survivors.length
+				: 0;
+
+		const drops: LootDrop[] = [];
+		for (const enemy of combat.getAllEntities()) {
+			const monster = enemy.monsterId ? this.data.monsters.get(enemy.monsterId) : undefined;
+			if (!monster) continue;
+
+			drops.push(...loot.rollDrops(monster, luck));
+		}
+
+		return drops;
+	}
+
+	/**
+	 * Grant EXP, job EXP, gold and the assigned drops from the server's own battle result
+	 */
+	private async grantPvERewards(
+		session: BattleSession,
+		playerId: string,
+		drops: LootDrop[],
+	): Promise<BattleRewards> {
+		const combat = session.combat;
+		const share = combat.getRewards()?.shares.find((s) => s.entityId === playerId);
+		const rewards: BattleRewards = {
+			exp: share?.exp ?? 0,
+			gold: share?.gold ?? 0,
+			items: [],
+			overflow: [],
+			levelsGained: 0,
+		};
+
+		const player = await this.loadCombatant(playerId);
+		if (!player) return rewards;
+
+		for (const drop of drops) {
+			const item = this.data.items.get(drop.itemId);
+			const added = item
+				? await this.inventory.addItem(
+						playerId,
+						item.id,
+						drop.quantity,
+						item.weight,
+						item.stackable,
+						item.maxStack,
+					)
+				: null;
+
+			if (added?.valid) {
+				rewards.items.push(drop);
+			} else {
+				rewards.overflow.push(drop);
+			}
+		}
+
+		if (rewards.gold > 0) {
+			await this.currency.addCurrency(playerId, rewards.gold, 'battle_reward');
+		}
+
+		if (rewards.exp > 0) {
+			const progression = new CharacterProgression();
+			progression.import({ level: player.level, experience: player.experience });
+			rewards.levelsGained = progression.addExperience(rewards.exp);
+
+			// Job EXP goes to every learned job, same as the client LootResolver
+			const jobManager = new JobManager();
+			jobManager.loadJobs(Array.from(this.data.jobs.values()));
+			jobManager.import({ learnedJobs: player.learnedJobs.map((job) => [job.jobId, job]) });
+			for (const learnedJob of player.learnedJobs) {
+				jobManager.addJobExperience(learnedJob.jobId, rewards.exp);
+			}
+
+			const client = await this.db.connect();
+			try {
+				await client.query('BEGIN');
+
+				await client.query(
+					`UPDATE player_profiles
+					SET level = $1, experience = $2, updated_at = CURRENT_TIMESTAMP
+					WHERE player_id = $3`,
+					[progression.getLevel(), progression.getExperience(), playerId],
+				);
+
+				for (const job of jobManager.getAllLearnedJobs()) {
+					await client.query(
+						`UPDATE player_jobs SET level = $1, experience = $2
+						WHERE player_id = $3 AND job_id = $4`,
+						[job.level, job.experience, playerId, job.jobId],
+					);
+				}
+
+				await client.query('COMMIT');
+			} catch (error) {
+				await client.query('ROLLBACK');
+				throw error;
+			} finally {
+				client.release();
+			}
+		}
+
+		return rewards;
+	}
+
+	/**
+	 * Complete or cancel the arena match from the simulated result
+	 */
+	private async settleArenaMatch(
+		session: BattleSession,
+		result: BattleResult,
+		winningTeam: 1 | 2 | null,
+	): Promise<void> {
+		if (session.arenaMatchId === null) return;
+
+		if (!winningTeam) {
+			await this.arena.cancelMatch(session.arenaMatchId);
+			return;
+		}
+
+		const completed = await this.arena.completeMatch(session.arenaMatchId, {
+			winning_team: winningTeam,
+			duration: Math.round((Date.now() - session.startedAt) / 1000),
+		});
+
+		if (completed.success) {
+			result.ratingChanges = completed.ratingChanges;
+			await this.arena.saveReplay({
+				battleId: session.id,
+				matchId: session.arenaMatchId,
+				entities: session.initialEntities,
+				frames: session.frames,
+				result,
+				duration: Math.round((Date.now() - session.startedAt) / 1000),
+			});
+		} else {
+			console.error(
+				`[BattleService] Failed to complete arena match ${session.arenaMatchId}: ${completed.error}`,
+			);
+		}
+	}
+
+	/**
+	 * Remove one of an item from the server inventory for an ITEM action
+	 * Returns an error when the player no longer has it or the battle ended meanwhile
+	 */
+	private async consumeItem(
+		session: BattleSession,
+		playerId: string,
+		itemId: string,
+	): Promise<string | null> {
+		session.actionPending = true;
+		let removed;
+		try {
+			removed = await this.inventory.removeItem(playerId, itemId, 1);
+		} finally {
+			session.actionPending = false;
+		}
+
+		if (!removed.valid) {
+			return 'Item not available';
+		}
+
+		// A timeout or forfeit may have settled the battle while the item was removed
+		if (session.result) {
+			const item = this.data.items.get(itemId);
+			const returned = item
+				? await this.inventory.addItem(
+						playerId,
+						itemId,
+						1,
+						item.weight,
+						item.stackable,
+						item.maxStack,
+					)
+				: null;
+			if (!returned?.valid) {
+				console.error(
+					`[BattleService] Failed to return ${itemId} to ${playerId}: ${returned?.error}`,
+				);
+			}
+			return 'Battle is not accepting actions';
+		}
+
+		return null;
+	}
+
+	/**
+	 * Move stolen items between the players' server inventories
+	 * Monsters have no server inventory: what they steal is gone, what is stolen from them is new
+	 */
+	private async settleSteals(session: BattleSession): Promise<void> {
+		for (const steal of session.steals.splice(0)) {
+			if (steal.victimId) {
+				const removed = await this.inventory.removeItem(steal.victimId, steal.itemId, 1);
+				if (!removed.valid) {
+					// The thief only gets what the victim actually lost
+					console.error(
+						`[BattleService] Failed to remove stolen ${steal.itemId} from ${steal.victimId}: ${removed.error}`,
+					);
+					continue;
+				}
+			}
+
+			if (steal.thiefId) {
+				const item = this.data.items.get(steal.itemId);
+				const added = item
+					? await this.inventory.addItem(
+							steal.thiefId,
+							item.id,
+							1,
+							item.weight,
+							item.stackable,
+							item.maxStack,
+						)
+					: null;
+				if (!added?.valid) {
+					console.error(
+						`[BattleService] Failed to give stolen ${steal.itemId} to ${steal.thiefId}: ${added?.error}`,
+					);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Reject actions the client should not be able to take
+	 */
+	private validateAction(
+		session: BattleSession,
+		actor: CombatEntity,
+		request: BattleActionRequest,
+	): string | null {
+		const combat = session.combat;
+
+		if (!Object.values(CombatActionType).includes(request.type)) {
+			return 'Invalid action type';
+		}
+
+		if (request.type === CombatActionType.FLEE) {
+			return session.kind === 'arena' ? 'Cannot flee from an arena match' : null;
+		}
+
+		const target = combat.getEntity(request.targetId);
+		if (!target) {
+			return 'Invalid target';
+		}
+
+		if (request.type === CombatActionType.ATTACK && target.isPlayer === actor.isPlayer) {
+			return 'Cannot attack an ally';
+		}
+
+		if (request.type === CombatActionType.SKILL) {
+			const skill = request.skillId
+				? combat.getSkillRegistry().getSkill(request.skillId)
+				: undefined;
+			if (!request.skillId || !actor.skills.includes(request.skillId) || !skill) {
+				return 'Skill not available';
+			}
+			if (actor.stats.mp < skill.mpCost) {
+				return 'Not enough MP';
+			}
+		}
+
+		if (request.type === CombatActionType.ITEM) {
+			const inventory = combat.getInventory(actor.id);
+			if (!request.itemId || !inventory || inventory.getItemCount(request.itemId) <= 0) {
+				return 'Item not available';
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Find a zone in the world data
+	 */
+	private findZone(zoneId: string): Zone | null {
+		for (const continent of this.data.world.continents) {
+			const zone = continent.zones.find((z) => z.id === zoneId);
+			if (zone) return zone;
+		}
+		return null;
+	}
+
+	/**
+	 * Build a player's combat entity from server-side profile, jobs and equipment
+	 */
+	private async loadCombatant(playerId: string): Promise<PlayerCombatant | null> {
+		const profileResult = await this.db.query(
+			'SELECT display_name, level, experience FROM player_profiles WHERE player_id = $1',
+			[playerId],
+		);
+
+		const profile = profileResult.rows[0];
+		if (!profile) {
+			return null;
+		}
+
+		const jobsResult = await this.db.query(
+			'SELECT job_id, level, experience FROM player_jobs WHERE player_id = $1',
+			[playerId],
+		);
+
+		const inventoryResult = await this.db.query(
+			'SELECT item_id, quantity, is_equipped FROM player_inventory WHERE player_id = $1',
+			[playerId],
+		);
+
+		const learnedJobs: LearnedJob[] = jobsResult.rows.flatMap((row) => {
+			const job = this.data.jobs.get(row.job_id);
+			if (!job) return [];
+			return [
+				{
+					jobId: job.id,
+					level: row.level,
+					experience: row.experience,
+					learnedAt: 0,
+					unlockedSkills: CombatantFactory.getJobSkills(job, row.level),
+				},
+			];
+		});
+
+		const jobManager = new JobManager();
+		jobManager.loadJobs(Array.from(this.data.jobs.values()));
+		jobManager.import({ learnedJobs: learnedJobs.map((job) => [job.jobId, job]) });
+
+		const equipment = inventoryResult.rows
+			.filter((row) => row.is_equipped)
+			.flatMap((row) => {
+				const item = this.data.items.get(row.item_id);
+				return item ? [item] : [];
+			});
+
+		const consumables: InventorySlot[] = inventoryResult.rows
+			.filter((row) => !row.is_equipped)
+			.flatMap((row) => {
+				const item = this.data.items.get(row.item_id);
+				return item?.type === 'consumable' ? [{ item, quantity: row.quantity }] : [];
+			});
+
+		const entity = CombatantFactory.createPlayerEntity(
+			{
+				name: profile.display_name,
+				level: profile.level,
+				jobStats: jobManager.calculateTotalStats(),
+				skills: learnedJobs.flatMap((job) => job.unlockedSkills),
+				equipment,
+			},
+			playerId,
+		);
+
+		return {
+			entity,
+			consumables,
+			level: profile.level,
+			experience: profile.experience,
+			learnedJobs,
+		};
+	}
+
+	/**
+	 * Forfeit players who let their turn time out
+	 */
+	private async checkTimeouts(): Promise<void> {
+		const now = Date.now();
+
+		for (const session of Array.from(this.battles.values())) {
+			if (session.result || session.turnDeadline === null || session.turnDeadline > now) {
+				continue;
+			}
+
+			const actor = session.combat.getCurrentActor();
+			const playerId = actor ? session.controllers.get(actor.id) : undefined;
+			if (!playerId) continue;
+
+			console.log(`[BattleService] Player ${playerId} timed out in battle ${session.id}`);
+			await this.finish(session, session.kind === 'arena' ? 'forfeit' : 'timeout', playerId);
+		}
+	}
+
+	/**
+	 * Find the battle for an arena match
+	 */
+	private getArenaBattle(matchId: number): BattleSession | undefined {
+		for (const session of this.battles.values()) {
+			if (session.arenaMatchId === matchId) {
+				return session;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Push the current state to every participant, then prompt whoever must act
+	 */
+	private broadcast(session: BattleSession): void {
+		if (!this.broadcastCallback) return;
+
+		const snapshot = this.getSnapshot(session);
+		this.broadcastCallback(
+			session.participants,
+			session.result ? 'battle-end' : 'battle-update',
+			snapshot,
+		);
+
+		if (snapshot.awaitingPlayerId) {
+			this.broadcastCallback([snapshot.awaitingPlayerId], 'battle-turn', snapshot);
+		}
+
+		if (session.kind === 'arena') {
+			this.scheduleSpectatorUpdate(session, snapshot);
+		}
+	}
+
+	/**
+	 * Release a snapshot to spectators after the spectator delay
+	 */
+	private scheduleSpectatorUpdate(session: BattleSession, snapshot: BattleSnapshot): void {
+		// Spectators only watch; they are never prompted for a turn
+		const view: BattleSnapshot = { ...snapshot, awaitingPlayerId: null, turnDeadline: null };
+
+		setTimeout(() => {
+			session.spectatorView = view;
+
+			const spectators = Array.from(session.spectators);
+			if (spectators.length > 0) {
+				this.broadcastCallback?.(spectators, view.result ? 'spectate-end' : 'spectate-update', view);
+			}
+
+			if (view.result) {
+				for (const spectatorId of spectators) {
+					this.stopSpectating(spectatorId);
+				}
+			}
+		}, this.SPECTATOR_DELAY);
+	}
+
+	/**
+	 * Build the client-facing view of a battle
+	 */
+	private getSnapshot(session: BattleSession): BattleSnapshot {
+		const combat = session.combat;
+		const actor = session.result ? null : combat.getCurrentActor();
+
+		return {
+			battleId: session.id,
+			kind: session.kind,
+			state: combat.getState(),
+			turn: combat.getTurnCount(),
+			currentActorId: actor?.id ?? null,
+			awaitingPlayerId: actor ? (session.controllers.get(actor.id) ?? null) : null,
+			turnDeadline: session.turnDeadline,
+			entities: combat.getAllEntities().map((entity) => ({
+				id: entity.id,
+				name: entity.name,
+				level: entity.level,
+				stats: { ...entity.stats },
+				skills: [...entity.skills],
+				statusEffects: entity.statusEffects.map((status) => ({ ...status })),
+				isPlayer: entity.isPlayer,
+				controllerId: session.controllers.get(entity.id) ?? null,
+			})),
+			turns: [...session.turns],
+			result: session.result,
+		};
+	}
+}
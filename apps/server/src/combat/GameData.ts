@@ -0,0 +1,89 @@
+/**
+ * Game Data Loader
+ * Reads job, monster, item and world definitions from packages/data for server-side simulation
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { SkillRegistry } from '@rpg/game-core/combat/index';
+import type { MonsterData } from '@rpg/game-core/combat/index';
+import type { Item } from '@rpg/game-core/inventory/index';
+import type { Job } from '@rpg/game-core/jobs/index';
+import type { WorldData } from '@rpg/game-core/world/index';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const DATA_DIR = join(__dirname, '../../../../packages/data');
+
+export interface MonsterIndexEntry {
+	id: string;
+	file: string;
+	minLevel: number;
+	maxLevel: number;
+}
+
+export interface GameData {
+	jobs: Map<string, Job>;
+	monsters: Map<string, MonsterData>;
+	items: Map<string, Item>;
+	monsterLevels: Map<string, { minLevel: number; maxLevel: number }>;
+	zones: Record<string, string[]>; // Zone ID -> monster IDs
+	world: WorldData; // Continents, towns and zones (used to validate saved positions)
+}
+
+function readJson<T>(...segments: string[]): T {
+	return JSON.parse(readFileSync(join(DATA_DIR, ...segments), 'utf-8'));
+}
+
+/**
+ * Load all game data needed to run battles
+ */
+export function loadGameData(): GameData {
+	const jobIndex = readJson<{ jobFiles: string[] }>('jobs', 'index.json');
+	const monsterIndex = readJson<{ monsters: MonsterIndexEntry[]; zones: Record<string, string[]> }>(
+		'monsters',
+		'index.json',
+	);
+	const itemIndex = readJson<{ itemFiles: string[] }>('items', 'index.json');
+
+	const jobs = jobIndex.jobFiles.map((file) => readJson<Job>('jobs', file));
+	const monsters = monsterIndex.monsters.map((entry) =>
+		readJson<MonsterData>('monsters', entry.file),
+	);
+	// Item files are either a plain array or { items: [...] }
+	const items = itemIndex.itemFiles.flatMap((file) => {
+		const data = readJson<Item[] | { items: Item[] }>('items', file);
+		return Array.isArray(data) ? data : data.items;
+	});
+
+	// Combat wastes the turn of anyone using an undefined skill, so refuse to start instead
+	const skills = SkillRegistry.loadDefault();
+	for (const job of jobs) {
+		skills.assertSkillsExist(
+			job.skills.map((skill) => skill.skillId),
+			`Job ${job.id}`,
+		);
+	}
+	for (const monster of monsters) {
+		skills.assertSkillsExist(monster.skills, `Monster ${monster.id}`);
+	}
+
+	console.log(
+		`[GameData] Loaded ${jobs.length} jobs, ${monsters.length} monsters, ${items.length} items`,
+	);
+
+	return {
+		jobs: new Map(jobs.map((job) => [job.id, job])),
+		monsters: new Map(monsters.map((monster) => [monster.id, monster])),
+		items: new Map(items.map((item) => [item.id, item])),
+		monsterLevels: new Map(
+			monsterIndex.monsters.map((entry) => [
+				entry.id,
+				{ minLevel: entry.minLevel, maxLevel: entry.maxLevel },
+			]),
+		),
+		zones: monsterIndex.zones,
+		world: readJson<WorldData>('world', 'continents.json'),
+	};
+}
@@ -0,0 +1,25 @@
+/**
+ * Combat Module
+ * Server-authoritative battles, game data loading and REST routes
+ */
+
+export { BattleService } from './BattleService.ts';
+export type {
+	BattleKind,
+	BattleOutcome,
+	BattleActionRequest,
+	BattleTurn,
+	BattleEntityState,
+	BattleEntityFrame,
+	BattleReplayFrame,
+	BattleReplay,
+	LiveArenaBattle,
+	BattleRewards,
+	BattleResult,
+	BattleSnapshot,
+	BattleBroadcast,
+	LootDistributor,
+} from './BattleService.ts';
+export { loadGameData } from './GameData.ts';
+export type { GameData, MonsterIndexEntry } from './GameData.ts';
+export { registerBattleRoutes } from './routes.ts';
@@ -0,0 +1,97 @@
+/**
+ * Battle Routes
+ * REST endpoints for server-run battles (all require authentication)
+ */
+
+import type { Elit } from 'elit';
+import { CombatActionType } from '@rpg/game-core/combat/index';
+import { authMiddleware } from '../auth/middleware.ts';
+import {
+	getPlayer,
+	getQuery,
+	parseInteger,
+	readBody,
+	sendError,
+	sendResult,
+} from '../http/index.ts';
+import type { PartyService } from '../party/PartyService.ts';
+import type { BattleActionRequest, BattleService } from './BattleService.ts';
+
+const ACTION_TYPES = Object.values(CombatActionType);
+
+export function registerBattleRoutes(
+	app: Elit,
+	battles: BattleService,
+	parties: PartyService,
+): void {
+	app.post('/api/battle/pve/start', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.zone_id) {
+			return sendError(ctx, 400, 'zone_id is required');
+		}
+
+		// Monsters are rolled by the server, only the zone comes from the client;
+		// party members in the same zone are pulled into the encounter
+		const zoneId = String(body.zone_id);
+		const result = await battles.startPvEBattle(
+			player.playerId,
+			zoneId,
+			parties.getEncounterMembers(player.playerId),
+		);
+		sendResult(ctx, result, 201);
+	});
+
+	app.get('/api/battle/current', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const battle = battles.getPlayerBattle(player.playerId);
+
+		if (!battle) {
+			return sendError(ctx, 404, 'Battle not found');
+		}
+
+		ctx.json({ success: true, battle });
+	});
+
+	app.get('/api/battle/:battleId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const battle = battles.getBattle(ctx.params.battleId, player.playerId);
+
+		if (!battle) {
+			return sendError(ctx, 404, 'Battle not found');
+		}
+
+		// Clients that already have earlier turns can request only newer ones
+		const since = parseInteger(getQuery(ctx).get('since')) ?? 0;
+		ctx.json({
+			success: true,
+			battle: { ...battle, turns: battle.turns.filter((turn) => turn.turn > since) },
+		});
+	});
+
+	app.post('/api/battle/:battleId/action', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody<Partial<BattleActionRequest>>(ctx);
+
+		if (!body?.type || !ACTION_TYPES.includes(body.type)) {
+			return sendError(ctx, 400, 'Invalid action type');
+		}
+
+		// The actor is always the entity the caller controls, never taken from the body
+		const result = await battles.submitAction(ctx.params.battleId, player.playerId, {
+			type: body.type,
+			targetId: String(body.targetId ?? ''),
+			skillId: body.skillId ? String(body.skillId) : undefined,
+			itemId: body.itemId ? String(body.itemId) : undefined,
+		});
+
+		sendResult(ctx, result);
+	});
+
+	app.post('/api/battle/:battleId/forfeit', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const result = await battles.forfeit(ctx.params.battleId, player.playerId);
+		sendResult(ctx, result);
+	});
+}
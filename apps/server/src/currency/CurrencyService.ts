@@ -3,7 +3,7 @@
  * Server-side currency management with validation and anti-cheat
  */
 
-import type { Pool } from 'pg';
+import type { StorageBackend, StorageClient } from '../database/index.ts';
 
 export interface CurrencyTransaction {
 	player_id: string;
@@ -29,92 +29,33 @@ export interface ValidationResult {
 }
 
 export class CurrencyService {
-	private pool: Pool;
+	private pool: StorageBackend;
 
 	// Anti-cheat thresholds
 	private readonly MAX_EARN_PER_HOUR = 10000; // Max currency per hour from earning
 	private readonly MAX_TRADE_AMOUNT = 1000000; // Max single trade amount
 	private readonly SUSPICIOUS_TRANSACTION_COUNT = 50; // Transactions per hour
 
-	constructor(pool: Pool) {
+	constructor(pool: StorageBackend) {
 		this.pool = pool;
 	}
 
-	/**
-	 * Initialize currency tables
-	 */
-	async initializeTables(): Promise<void> {
-		const client = await this.pool.connect();
-
-		try {
-			await client.query('BEGIN');
-
-			// Currency balances table
-			await client.query(`
-				CREATE TABLE IF NOT EXISTS currency_balances (
-					player_id VARCHAR(255) PRIMARY KEY,
-					balance BIGINT NOT NULL DEFAULT 0 CHECK (balance >= 0),
-					last_updated TIMESTAMP NOT NULL DEFAULT NOW(),
-					created_at TIMESTAMP NOT NULL DEFAULT NOW()
-				)
-			`);
-
-			// Currency transactions table
-			await client.query(`
-				CREATE TABLE IF NOT EXISTS currency_transactions (
-					id SERIAL PRIMARY KEY,
-					player_id VARCHAR(255) NOT NULL,
-					amount BIGINT NOT NULL,
-					transaction_type VARCHAR(50) NOT NULL,
-					source VARCHAR(255),
-					target_player_id VARCHAR(255),
-					item_id VARCHAR(255),
-					quantity INTEGER,
-					timestamp TIMESTAMP NOT NULL DEFAULT NOW(),
-
-					FOREIGN KEY (player_id) REFERENCES players(id) ON DELETE CASCADE
-				)
-			`);
-
-			// Create indexes
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_currency_transactions_player
-				ON currency_transactions(player_id)
-			`);
-
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_currency_transactions_timestamp
-				ON currency_transactions(timestamp DESC)
-			`);
-
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_currency_transactions_type
-				ON currency_transactions(transaction_type)
-			`);
-
-			await client.query('COMMIT');
-			console.log('[CurrencyService] Tables initialized successfully');
-		} catch (error) {
-			await client.query('ROLLBACK');
-			console.error('[CurrencyService] Failed to initialize tables:', error);
-			throw error;
-		} finally {
-			client.release();
-		}
-	}
-
 	/**
 	 * Get player's currency balance
+	 * Pass the client when called inside a transaction
 	 */
-	async getBalance(playerId: string): Promise<number> {
-		const result = await this.pool.query<CurrencyBalance>(
+	async getBalance(
+		playerId: string,
+		db: Pick<StorageClient, 'query'> = this.pool,
+	): Promise<number> {
+		const result = await db.query<CurrencyBalance>(
 			'SELECT balance FROM currency_balances WHERE player_id = $1',
 			[playerId],
 		);
 
 		if (result.rows.length === 0) {
 			// Initialize balance if doesn't exist
-			await this.initializePlayerBalance(playerId);
+			await this.initializePlayerBalance(playerId, 0, db);
 			return 0;
 		}
 
@@ -124,8 +65,12 @@ export class CurrencyService {
 	/**
 	 * Initialize player balance
 	 */
-	private async initializePlayerBalance(playerId: string, startingBalance: number = 0): Promise<void> {
-		await this.pool.query(
+	private async initializePlayerBalance(
+		playerId: string,
+		startingBalance: number = 0,
+		db: Pick<StorageClient, 'query'> = this.pool,
+	): Promise<void> {
+		await db.query(
 			`INSERT INTO currency_balances (player_id, balance)
 			 VALUES ($1, $2)
 			 ON CONFLICT (player_id) DO NOTHING`,
@@ -172,7 +117,7 @@ export class CurrencyService {
 
 			if (result.rows.length === 0) {
 				// Initialize if doesn't exist
-				await this.initializePlayerBalance(playerId, amount);
+				await this.initializePlayerBalance(playerId, amount, client);
 			}
 
 			const newBalance = Number(result.rows[0]?.balance ?? amount);
@@ -0,0 +1,8 @@
+/**
+ * Currency Module
+ * Server-side currency ledger and REST routes
+ */
+
+export { CurrencyService } from './CurrencyService.ts';
+export type { CurrencyTransaction, CurrencyBalance, ValidationResult } from './CurrencyService.ts';
+export { registerCurrencyRoutes } from './routes.ts';
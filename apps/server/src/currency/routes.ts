@@ -0,0 +1,62 @@
+/**
+ * Currency Routes
+ * REST endpoints for balances and player-to-player transfers (all require authentication)
+ * Earning and spending stay server-internal and are not exposed to clients
+ */
+
+import type { Elit } from 'elit';
+import { authMiddleware } from '../auth/middleware.ts';
+import {
+	getPlayer,
+	getQuery,
+	parseInteger,
+	readBody,
+	sendError,
+	sendResult,
+} from '../http/index.ts';
+import type { CurrencyService } from './CurrencyService.ts';
+
+export function registerCurrencyRoutes(app: Elit, currency: CurrencyService): void {
+	app.get('/api/currency/balance', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const balance = await currency.getBalance(player.playerId);
+
+		ctx.json({ success: true, balance });
+	});
+
+	app.post('/api/currency/transfer', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+		const amount = Number(body?.amount);
+
+		if (!body?.to_player_id || !Number.isInteger(amount)) {
+			return sendError(ctx, 400, 'to_player_id and amount are required');
+		}
+
+		const result = await currency.transferCurrency(
+			player.playerId,
+			String(body.to_player_id),
+			amount,
+		);
+		sendResult(ctx, result);
+	});
+
+	app.get('/api/currency/history', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const query = getQuery(ctx);
+		const transactions = await currency.getTransactionHistory(
+			player.playerId,
+			parseInteger(query.get('limit')),
+			parseInteger(query.get('offset')),
+		);
+
+		ctx.json({ success: true, transactions });
+	});
+
+	app.get('/api/currency/statistics', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const statistics = await currency.getStatistics(player.playerId);
+
+		ctx.json({ success: true, statistics });
+	});
+}
@@ -0,0 +1,111 @@
+/**
+ * Embedded Backend
+ * In-process PostgreSQL (PGlite) for local development and tests, no database server needed
+ */
+
+import { PGlite } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import type { StorageBackend, StorageClient, StorageResult } from './storage.ts';
+
+// Return BIGINT and NUMERIC as strings, the same as pg does
+const INT8_OID = 20;
+const NUMERIC_OID = 1700;
+
+/**
+ * PGlite has a single session, so it behaves like a pool of one connection:
+ * a checked-out client holds the session until it is released, and queries
+ * made directly on the backend wait for it. Code holding a client must run
+ * every query on that client, or it waits for itself.
+ */
+export class EmbeddedBackend implements StorageBackend {
+	readonly kind = 'embedded';
+	private db: PGlite;
+	private lock: Promise<void> = Promise.resolve();
+
+	/**
+	 * Data is kept in memory unless a directory is given
+	 */
+	constructor(dataDir?: string) {
+		this.db = new PGlite({
+			dataDir,
+			extensions: { uuid_ossp },
+			parsers: {
+				[INT8_OID]: (value: string) => value,
+				[NUMERIC_OID]: (value: string) => value,
+			},
+		});
+
+		console.log(`[Database] Using embedded database (${dataDir ?? 'in memory'})`);
+	}
+
+	/**
+	 * Run a query once no client holds the session
+	 */
+	async query<T = any>(text: string, params?: any[]): Promise<StorageResult<T>> {
+		const release = await this.acquire();
+		try {
+			return await this.run<T>(text, params);
+		} finally {
+			release();
+		}
+	}
+
+	/**
+	 * Check out the session until the client is released
+	 */
+	async connect(): Promise<StorageClient> {
+		const release = await this.acquire();
+		let released = false;
+
+		return {
+			query: (text, params) => this.run(text, params),
+			release: () => {
+				if (released) return;
+				released = true;
+				release();
+			},
+		};
+	}
+
+	/**
+	 * Close the embedded database, flushing it to disk when persisted
+	 */
+	async end(): Promise<void> {
+		const release = await this.acquire();
+		try {
+			await this.db.close();
+		} finally {
+			release();
+		}
+	}
+
+	/**
+	 * Wait for the session, in request order. Resolves with its release function.
+	 */
+	private acquire(): Promise<() => void> {
+		let release!: () => void;
+		const released = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+
+		const previous = this.lock;
+		this.lock = previous.then(() => released);
+		return previous.then(() => release);
+	}
+
+	/**
+	 * Run a query on the session. Like pg, a query without parameters may hold several
+	 * statements (migration scripts rely on this) and returns the last statement's result.
+	 */
+	private async run<T>(text: string, params?: any[]): Promise<StorageResult<T>> {
+		if (params && params.length > 0) {
+			const result = await this.db.query<T>(text, params);
+			return { rows: result.rows, rowCount: result.affectedRows || result.rows.length };
+		}
+
+		const results = await this.db.exec(text);
+		const last = results[results.length - 1];
+		const rows = (last?.rows ?? []) as T[];
+		return { rows, rowCount: last?.affectedRows || rows.length };
+	}
+}
@@ -0,0 +1,46 @@
+/**
+ * Postgres Backend
+ * Storage backed by a PostgreSQL server through a pg connection pool
+ */
+
+import pg from 'pg';
+import type { DatabaseConfig } from './config.ts';
+import type { StorageBackend, StorageClient, StorageResult } from './storage.ts';
+
+const { Pool } = pg;
+
+export class PostgresBackend implements StorageBackend {
+	readonly kind = 'postgres';
+	private pool: pg.Pool;
+
+	constructor(config: DatabaseConfig) {
+		this.pool = new Pool(config);
+
+		// The pool drops a client that errors while idle and opens a new one on the next query
+		this.pool.on('error', (err) => {
+			console.error('[Database] Unexpected error on idle client', err);
+		});
+	}
+
+	/**
+	 * Run a query on any free pooled connection
+	 */
+	async query<T = any>(text: string, params?: any[]): Promise<StorageResult<T>> {
+		const result = await this.pool.query(text, params);
+		return { rows: result.rows as T[], rowCount: result.rowCount };
+	}
+
+	/**
+	 * Check out a dedicated connection
+	 */
+	async connect(): Promise<StorageClient> {
+		return this.pool.connect();
+	}
+
+	/**
+	 * Close every pooled connection
+	 */
+	async end(): Promise<void> {
+		await this.pool.end();
+	}
+}
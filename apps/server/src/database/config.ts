@@ -1,11 +1,15 @@
 /**
  * Database Configuration
- * PostgreSQL connection setup
+ * Storage backend setup (PostgreSQL server or embedded)
  */
 
-import pg from 'pg';
-
-const { Pool } = pg;
+import { PostgresBackend } from './PostgresBackend.ts';
+import type {
+	StorageBackend,
+	StorageBackendKind,
+	StorageClient,
+	StorageResult,
+} from './storage.ts';
 
 export interface DatabaseConfig {
 	host: string;
@@ -30,14 +34,28 @@ const config: DatabaseConfig = {
 	connectionTimeoutMillis: 2000, // Return error after 2 seconds if connection cannot be established
 };
 
-// Create the connection pool
-export const pool = new Pool(config);
+/**
+ * Create the backend selected by DB_BACKEND ('postgres' by default)
+ * The embedded backend is only loaded when selected, so deployments don't need PGlite
+ */
+export async function createStorageBackend(
+	kind: string = process.env.DB_BACKEND || 'postgres',
+): Promise<StorageBackend> {
+	switch (kind as StorageBackendKind) {
+		case 'postgres':
+			return new PostgresBackend(config);
+		case 'embedded': {
+			const { EmbeddedBackend } = await import('./EmbeddedBackend.ts');
+			// DB_DATA_DIR keeps the embedded database between restarts
+			return new EmbeddedBackend(process.env.DB_DATA_DIR || undefined);
+		}
+		default:
+			throw new Error(`Unknown DB_BACKEND: ${kind} (expected 'postgres' or 'embedded')`);
+	}
+}
 
-// Error handler
-pool.on('error', (err) => {
-	console.error('[Database] Unexpected error on idle client', err);
-	process.exit(-1);
-});
+// The storage backend shared by every service
+export const pool = await createStorageBackend();
 
 // Connection test
 export async function testConnection(): Promise<boolean> {
@@ -61,10 +79,7 @@ export async function closePool(): Promise<void> {
 }
 
 // Query helper with error handling
-export async function query<T = any>(
-	text: string,
-	params?: any[],
-): Promise<pg.QueryResult<T>> {
+export async function query<T = any>(text: string, params?: any[]): Promise<StorageResult<T>> {
 	const start = Date.now();
 	try {
 		const result = await pool.query<T>(text, params);
@@ -82,9 +97,7 @@ export async function query<T = any>(
 }
 
 // Transaction helper
-export async function transaction<T>(
-	callback: (client: pg.PoolClient) => Promise<T>,
-): Promise<T> {
+export async function transaction<T>(callback: (client: StorageClient) => Promise<T>): Promise<T> {
 	const client = await pool.connect();
 	try {
 		await client.query('BEGIN');
@@ -3,6 +3,21 @@
  * Exports all database functionality
  */
 
-export { pool, testConnection, closePool, query, transaction } from './config.ts';
+export {
+	pool,
+	createStorageBackend,
+	testConnection,
+	closePool,
+	query,
+	transaction,
+} from './config.ts';
+export { PostgresBackend } from './PostgresBackend.ts';
+export { migrateUp, migrateDown, getMigrationStatus, loadMigrations } from './migrate.ts';
 export type { DatabaseConfig } from './config.ts';
-export { initializeDatabase } from './init.ts';
+export type {
+	StorageBackend,
+	StorageBackendKind,
+	StorageClient,
+	StorageResult,
+} from './storage.ts';
+export type { Migration, MigrationState, MigrationStatus } from './migrate.ts';
@@ -0,0 +1,295 @@
+/**
+ * Database Migrations
+ * Applies the numbered up/down scripts in ./migrations and records them in schema_migrations
+ *
+ * Usage: bun run src/database/migrate.ts up [version] | down [steps] | status
+ */
+
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { pool, testConnection } from './config.ts';
+import type { StorageClient } from './storage.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const MIGRATIONS_DIR = join(__dirname, 'migrations');
+
+// Files are named NNN_description.up.sql / NNN_description.down.sql
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+// Serializes migration runs when several servers boot at once
+const MIGRATION_LOCK_ID = 727_001;
+
+export interface Migration {
+	version: number;
+	name: string;
+	up: string;
+	down: string;
+	checksum: string; // SHA-256 of the up script
+}
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+export interface MigrationStatus {
+	version: number;
+	name: string;
+	state: MigrationState; // 'modified': up script changed after it was applied, 'missing': applied but no file
+	applied_at: string | null;
+}
+
+interface AppliedMigration {
+	version: number;
+	name: string;
+	checksum: string;
+	applied_at: string;
+}
+
+/**
+ * Read migration scripts, ordered by version
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+	const scripts = new Map<number, { name: string; up?: string; down?: string }>();
+
+	for (const file of readdirSync(dir)) {
+		const match = MIGRATION_FILE_PATTERN.exec(file);
+		if (!match) continue;
+
+		const [, versionText = '', name = '', direction] = match;
+		const version = parseInt(versionText, 10);
+		const entry = scripts.get(version) ?? { name };
+
+		if (entry.name !== name) {
+			throw new Error(`Migration ${version} has two names: ${entry.name} and ${name}`);
+		}
+
+		entry[direction as 'up' | 'down'] = readFileSync(join(dir, file), 'utf-8');
+		scripts.set(version, entry);
+	}
+
+	return Array.from(scripts.entries())
+		.sort(([a], [b]) => a - b)
+		.map(([version, { name, up, down }]) => {
+			if (up === undefined || down === undefined) {
+				throw new Error(`Migration ${version}_${name} needs both an up and a down script`);
+			}
+			return { version, name, up, down, checksum: checksum(up) };
+		});
+}
+
+/**
+ * Apply pending migrations in order, up to and including `target` (all by default)
+ * Returns the migrations that were applied
+ */
+export async function migrateUp(target?: number): Promise<Migration[]> {
+	const migrations = loadMigrations();
+
+	return withMigrationLock(async (client) => {
+		const applied = await getAppliedMigrations(client);
+
+		// Applied scripts should never change; new changes belong in a new migration
+		for (const migration of migrations) {
+			const record = applied.get(migration.version);
+			if (record && record.checksum !== migration.checksum) {
+				console.warn(
+					`[Migrations] ⚠ ${formatMigration(migration)} was modified after it was applied`,
+				);
+			}
+		}
+
+		const pending = migrations.filter(
+			(m) => !applied.has(m.version) && (target === undefined || m.version <= target),
+		);
+
+		for (const migration of pending) {
+			await runInTransaction(client, async () => {
+				await client.query(migration.up);
+				await client.query(
+					'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+					[migration.version, migration.name, migration.checksum],
+				);
+			});
+			console.log(`[Migrations] ✓ Applied ${formatMigration(migration)}`);
+		}
+
+		if (pending.length === 0) {
+			console.log('[Migrations] Database is up to date');
+		}
+
+		return pending;
+	});
+}
+
+/**
+ * Roll back the most recently applied migrations
+ * Returns the migrations that were rolled back
+ */
+export async function migrateDown(steps: number = 1): Promise<Migration[]> {
+	const migrations = new Map(loadMigrations().map((m) => [m.version, m]));
+
+	return withMigrationLock(async (client) => {
+		const applied = Array.from((await getAppliedMigrations(client)).values())
+			.sort((a, b) => b.version - a.version)
+			.slice(0, steps);
+
+		const rolledBack: Migration[] = [];
+
+		for (const { version, name } of applied) {
+			const migration = migrations.get(version);
+			if (!migration) {
+				throw new Error(`Cannot roll back ${version}_${name}: its scripts are missing`);
+			}
+
+			await runInTransaction(client, async () => {
+				await client.query(migration.down);
+				await client.query('DELETE FROM schema_migrations WHERE version = $1', [version]);
+			});
+			console.log(`[Migrations] ✓ Rolled back ${formatMigration(migration)}`);
+			rolledBack.push(migration);
+		}
+
+		return rolledBack;
+	});
+}
+
+/**
+ * Get every known migration with its applied state
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+	const migrations = loadMigrations();
+
+	const applied = await withMigrationLock((client) => getAppliedMigrations(client));
+
+	const statuses: MigrationStatus[] = migrations.map((migration) => {
+		const record = applied.get(migration.version);
+		return {
+			version: migration.version,
+			name: migration.name,
+			state: !record ? 'pending' : record.checksum !== migration.checksum ? 'modified' : 'applied',
+			applied_at: record?.applied_at ?? null,
+		};
+	});
+
+	for (const record of applied.values()) {
+		if (!migrations.some((m) => m.version === record.version)) {
+			statuses.push({
+				version: record.version,
+				name: record.name,
+				state: 'missing',
+				applied_at: record.applied_at,
+			});
+		}
+	}
+
+	return statuses.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Run a callback on a dedicated client holding the migration lock
+ */
+async function withMigrationLock<T>(callback: (client: StorageClient) => Promise<T>): Promise<T> {
+	const client = await pool.connect();
+	try {
+		await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+		try {
+			await client.query(`
+				CREATE TABLE IF NOT EXISTS schema_migrations (
+					version INTEGER PRIMARY KEY,
+					name VARCHAR(255) NOT NULL,
+					checksum VARCHAR(64) NOT NULL,
+					applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+				)
+			`);
+			return await callback(client);
+		} finally {
+			await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+		}
+	} finally {
+		client.release();
+	}
+}
+
+/**
+ * Run a migration step in its own transaction
+ */
+async function runInTransaction(client: StorageClient, step: () => Promise<void>): Promise<void> {
+	await client.query('BEGIN');
+	try {
+		await step();
+		await client.query('COMMIT');
+	} catch (error) {
+		await client.query('ROLLBACK');
+		throw error;
+	}
+}
+
+/**
+ * Get applied migrations by version
+ */
+async function getAppliedMigrations(client: StorageClient): Promise<Map<number, AppliedMigration>> {
+	const result = await client.query<AppliedMigration>(
+		'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version',
+	);
+	return new Map(result.rows.map((row) => [row.version, row]));
+}
+
+/**
+ * Hash a script so edits to applied migrations can be detected
+ */
+function checksum(script: string): string {
+	return createHash('sha256').update(script).digest('hex');
+}
+
+/**
+ * Format a migration as its file prefix, e.g. 001_initial_schema
+ */
+function formatMigration(migration: { version: number; name: string }): string {
+	return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+}
+
+/**
+ * Command line entry point
+ */
+async function runCommand(command: string | undefined, arg: string | undefined): Promise<void> {
+	const connected = await testConnection();
+	if (!connected) {
+		throw new Error('Failed to connect to database');
+	}
+
+	const count = arg !== undefined ? Number(arg) : undefined;
+	if (count !== undefined && (!Number.isInteger(count) || count < 0)) {
+		throw new Error(`Expected a non-negative integer, got: ${arg}`);
+	}
+
+	switch (command) {
+		case 'up':
+			await migrateUp(count);
+			break;
+
+		case 'down':
+			await migrateDown(count ?? 1);
+			break;
+
+		case 'status':
+			for (const status of await getMigrationStatus()) {
+				console.log(
+					`${formatMigration(status).padEnd(32)} ${status.state.padEnd(9)} ${status.applied_at ?? ''}`,
+				);
+			}
+			break;
+
+		default:
+			throw new Error('Usage: migrate up [version] | down [steps] | status');
+	}
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+	runCommand(process.argv[2], process.argv[3])
+		.then(() => process.exit(0))
+		.catch((error) => {
+			console.error('[Migrations] Failed:', error);
+			process.exit(1);
+		});
+}
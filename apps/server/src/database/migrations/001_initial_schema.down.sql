@@ -0,0 +1,14 @@
+-- Drops every table from the initial schema (and all player data with it)
+
+DROP TABLE IF EXISTS transactions;
+DROP TABLE IF EXISTS audit_logs;
+DROP TABLE IF EXISTS sessions;
+DROP TABLE IF EXISTS game_saves;
+DROP TABLE IF EXISTS player_quests;
+DROP TABLE IF EXISTS player_skills;
+DROP TABLE IF EXISTS player_inventory;
+DROP TABLE IF EXISTS player_jobs;
+DROP TABLE IF EXISTS player_profiles;
+DROP TABLE IF EXISTS players;
+
+DROP FUNCTION IF EXISTS update_updated_at_column();
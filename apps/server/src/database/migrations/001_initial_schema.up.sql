@@ -1,5 +1,6 @@
--- RPG Game Database Schema
--- PostgreSQL database schema for authentication, player data, and game state
+-- Initial schema: authentication, player data and game state
+-- Every statement is idempotent so databases created before migrations existed
+-- can record this version without changes
 
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
@@ -79,6 +80,19 @@ CREATE TABLE IF NOT EXISTS player_skills (
     UNIQUE(player_id, skill_id)
 );
 
+-- Player quests table (active and completed quests)
+CREATE TABLE IF NOT EXISTS player_quests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+    quest_id VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL, -- 'active', 'completed'
+    progress JSONB DEFAULT '{}'::jsonb,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    times_completed INTEGER DEFAULT 0,
+    UNIQUE(player_id, quest_id)
+);
+
 -- Game saves table (snapshot of player state)
 CREATE TABLE IF NOT EXISTS game_saves (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -129,6 +143,7 @@ CREATE INDEX IF NOT EXISTS idx_player_profiles_player_id ON player_profiles(play
 CREATE INDEX IF NOT EXISTS idx_player_jobs_player_id ON player_jobs(player_id);
 CREATE INDEX IF NOT EXISTS idx_player_inventory_player_id ON player_inventory(player_id);
 CREATE INDEX IF NOT EXISTS idx_player_skills_player_id ON player_skills(player_id);
+CREATE INDEX IF NOT EXISTS idx_player_quests_player_id ON player_quests(player_id);
 CREATE INDEX IF NOT EXISTS idx_game_saves_player_id ON game_saves(player_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_player_id ON sessions(player_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
@@ -147,9 +162,11 @@ END;
 $$ language 'plpgsql';
 
 -- Apply updated_at trigger to relevant tables
+DROP TRIGGER IF EXISTS update_players_updated_at ON players;
 CREATE TRIGGER update_players_updated_at BEFORE UPDATE ON players
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_player_profiles_updated_at ON player_profiles;
 CREATE TRIGGER update_player_profiles_updated_at BEFORE UPDATE ON player_profiles
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -159,6 +176,7 @@ COMMENT ON TABLE player_profiles IS 'Player game state and statistics';
 COMMENT ON TABLE player_jobs IS 'Multi-job system - players can learn unlimited jobs';
 COMMENT ON TABLE player_inventory IS 'Player inventory with slot-based system';
 COMMENT ON TABLE player_skills IS 'Skills learned from jobs';
+COMMENT ON TABLE player_quests IS 'Quest progress and completion history';
 COMMENT ON TABLE game_saves IS 'Snapshots of player game state for save/load';
 COMMENT ON TABLE sessions IS 'JWT token sessions for authentication';
 COMMENT ON TABLE audit_logs IS 'Security and anti-cheat audit trail';
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS currency_transactions;
+DROP TABLE IF EXISTS currency_balances;
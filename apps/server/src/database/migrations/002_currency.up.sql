@@ -0,0 +1,26 @@
+-- Currency ledger: balances and transaction history
+
+CREATE TABLE IF NOT EXISTS currency_balances (
+    player_id UUID PRIMARY KEY,
+    balance BIGINT NOT NULL DEFAULT 0 CHECK (balance >= 0),
+    last_updated TIMESTAMP NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS currency_transactions (
+    id SERIAL PRIMARY KEY,
+    player_id UUID NOT NULL,
+    amount BIGINT NOT NULL,
+    transaction_type VARCHAR(50) NOT NULL,
+    source VARCHAR(255),
+    target_player_id UUID,
+    item_id VARCHAR(255),
+    quantity INTEGER,
+    timestamp TIMESTAMP NOT NULL DEFAULT NOW(),
+
+    FOREIGN KEY (player_id) REFERENCES players(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_currency_transactions_player ON currency_transactions(player_id);
+CREATE INDEX IF NOT EXISTS idx_currency_transactions_timestamp ON currency_transactions(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_currency_transactions_type ON currency_transactions(transaction_type);
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS auction_transactions;
+DROP TABLE IF EXISTS auction_orders;
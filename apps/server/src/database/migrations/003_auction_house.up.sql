@@ -0,0 +1,43 @@
+-- Auction house orders and sale history
+
+CREATE TABLE IF NOT EXISTS auction_orders (
+    id SERIAL PRIMARY KEY,
+    seller_id UUID NOT NULL,
+    seller_name VARCHAR(255) NOT NULL,
+    item_id VARCHAR(255) NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    price_per_unit BIGINT NOT NULL CHECK (price_per_unit > 0),
+    total_price BIGINT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP NOT NULL,
+    status VARCHAR(50) NOT NULL DEFAULT 'active',
+    buyer_id UUID,
+    buyer_name VARCHAR(255),
+    sold_at TIMESTAMP,
+
+    FOREIGN KEY (seller_id) REFERENCES players(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_auction_orders_item ON auction_orders(item_id);
+CREATE INDEX IF NOT EXISTS idx_auction_orders_seller ON auction_orders(seller_id);
+CREATE INDEX IF NOT EXISTS idx_auction_orders_status ON auction_orders(status);
+CREATE INDEX IF NOT EXISTS idx_auction_orders_price ON auction_orders(price_per_unit);
+CREATE INDEX IF NOT EXISTS idx_auction_orders_expires ON auction_orders(expires_at);
+
+CREATE TABLE IF NOT EXISTS auction_transactions (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL,
+    seller_id UUID NOT NULL,
+    buyer_id UUID NOT NULL,
+    item_id VARCHAR(255) NOT NULL,
+    quantity INTEGER NOT NULL,
+    price_per_unit BIGINT NOT NULL,
+    total_price BIGINT NOT NULL,
+    auction_fee BIGINT NOT NULL,
+    timestamp TIMESTAMP NOT NULL DEFAULT NOW(),
+
+    FOREIGN KEY (order_id) REFERENCES auction_orders(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_auction_transactions_seller ON auction_transactions(seller_id);
+CREATE INDEX IF NOT EXISTS idx_auction_transactions_buyer ON auction_transactions(buyer_id);
@@ -0,0 +1,21 @@
+-- Log of validated P2P trades
+
+CREATE TABLE IF NOT EXISTS trade_logs (
+    id SERIAL PRIMARY KEY,
+    trade_id VARCHAR(255) NOT NULL,
+    initiator_id UUID NOT NULL,
+    partner_id UUID NOT NULL,
+    initiator_items JSONB,
+    partner_items JSONB,
+    initiator_currency BIGINT,
+    partner_currency BIGINT,
+    status VARCHAR(50) NOT NULL,
+    timestamp TIMESTAMP NOT NULL DEFAULT NOW(),
+
+    FOREIGN KEY (initiator_id) REFERENCES players(id) ON DELETE CASCADE,
+    FOREIGN KEY (partner_id) REFERENCES players(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_logs_initiator ON trade_logs(initiator_id);
+CREATE INDEX IF NOT EXISTS idx_trade_logs_partner ON trade_logs(partner_id);
+CREATE INDEX IF NOT EXISTS idx_trade_logs_timestamp ON trade_logs(timestamp DESC);
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS arena_replays;
+DROP TABLE IF EXISTS arena_matches;
+DROP TABLE IF EXISTS arena_players;
@@ -0,0 +1,74 @@
+-- Arena ratings, matches and replays
+-- The ALTERs bring databases created by older servers up to the per-mode, team and
+-- season columns; on a fresh database they are no-ops after the CREATEs
+
+CREATE TABLE IF NOT EXISTS arena_players (
+    player_id VARCHAR(255) PRIMARY KEY,
+    player_name VARCHAR(255) NOT NULL,
+    rating INTEGER DEFAULT 1500,
+    wins INTEGER DEFAULT 0,
+    losses INTEGER DEFAULT 0,
+    current_streak INTEGER DEFAULT 0,
+    best_streak INTEGER DEFAULT 0,
+    last_match_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS arena_matches (
+    id SERIAL PRIMARY KEY,
+    player1_id VARCHAR(255) NOT NULL,
+    player1_name VARCHAR(255) NOT NULL,
+    player1_rating INTEGER NOT NULL,
+    player2_id VARCHAR(255) NOT NULL,
+    player2_name VARCHAR(255) NOT NULL,
+    player2_rating INTEGER NOT NULL,
+    winner_id VARCHAR(255),
+    status VARCHAR(50) DEFAULT 'pending',
+    duration INTEGER,
+    started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_arena_players_rating ON arena_players(rating DESC);
+CREATE INDEX IF NOT EXISTS idx_arena_matches_status ON arena_matches(status);
+CREATE INDEX IF NOT EXISTS idx_arena_matches_player1 ON arena_matches(player1_id);
+CREATE INDEX IF NOT EXISTS idx_arena_matches_player2 ON arena_matches(player2_id);
+
+-- Season columns (seasons are managed by ArenaSeasonService)
+ALTER TABLE arena_players
+    ADD COLUMN IF NOT EXISTS peak_rating INTEGER DEFAULT 1500,
+    ADD COLUMN IF NOT EXISTS season_wins INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS season_losses INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_decay_at TIMESTAMP;
+ALTER TABLE arena_matches ADD COLUMN IF NOT EXISTS season_id INTEGER;
+
+-- Per-mode ratings: one arena_players row per player and mode
+ALTER TABLE arena_players ADD COLUMN IF NOT EXISTS mode VARCHAR(10) NOT NULL DEFAULT '1v1';
+DO $$
+BEGIN
+    IF (SELECT COUNT(*) FROM information_schema.key_column_usage
+        WHERE table_name = 'arena_players' AND constraint_name = 'arena_players_pkey') = 1 THEN
+        ALTER TABLE arena_players DROP CONSTRAINT arena_players_pkey;
+        ALTER TABLE arena_players ADD PRIMARY KEY (player_id, mode);
+    END IF;
+END $$;
+
+-- Team matches (player1/player2 columns hold the team captains)
+ALTER TABLE arena_matches
+    ADD COLUMN IF NOT EXISTS mode VARCHAR(10) NOT NULL DEFAULT '1v1',
+    ADD COLUMN IF NOT EXISTS team1 JSONB,
+    ADD COLUMN IF NOT EXISTS team2 JSONB,
+    ADD COLUMN IF NOT EXISTS winning_team INTEGER;
+CREATE INDEX IF NOT EXISTS idx_arena_players_mode ON arena_players(mode, rating DESC);
+
+-- Recorded turn streams of completed matches
+CREATE TABLE IF NOT EXISTS arena_replays (
+    match_id INTEGER PRIMARY KEY REFERENCES arena_matches(id) ON DELETE CASCADE,
+    battle_id VARCHAR(255) NOT NULL,
+    entities JSONB NOT NULL,
+    frames JSONB NOT NULL,
+    result JSONB NOT NULL,
+    duration INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
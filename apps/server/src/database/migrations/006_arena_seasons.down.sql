@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS arena_season_standings;
+DROP TABLE IF EXISTS arena_seasons;
@@ -0,0 +1,37 @@
+-- Arena seasons and final standings per season and mode
+
+CREATE TABLE IF NOT EXISTS arena_seasons (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    starts_at TIMESTAMP NOT NULL,
+    ends_at TIMESTAMP NOT NULL,
+    status VARCHAR(50) DEFAULT 'active'
+);
+
+CREATE TABLE IF NOT EXISTS arena_season_standings (
+    season_id INTEGER NOT NULL REFERENCES arena_seasons(id),
+    player_id VARCHAR(255) NOT NULL,
+    player_name VARCHAR(255) NOT NULL,
+    rank INTEGER NOT NULL,
+    final_rating INTEGER NOT NULL,
+    peak_rating INTEGER NOT NULL,
+    tier VARCHAR(50) NOT NULL,
+    wins INTEGER NOT NULL,
+    losses INTEGER NOT NULL,
+    rewarded_at TIMESTAMP,
+    PRIMARY KEY (season_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_arena_season_standings_player ON arena_season_standings(player_id);
+
+-- Standings are kept per arena mode
+ALTER TABLE arena_season_standings ADD COLUMN IF NOT EXISTS mode VARCHAR(10) NOT NULL DEFAULT '1v1';
+DO $$
+BEGIN
+    IF (SELECT COUNT(*) FROM information_schema.key_column_usage
+        WHERE table_name = 'arena_season_standings'
+        AND constraint_name = 'arena_season_standings_pkey') = 2 THEN
+        ALTER TABLE arena_season_standings DROP CONSTRAINT arena_season_standings_pkey;
+        ALTER TABLE arena_season_standings ADD PRIMARY KEY (season_id, player_id, mode);
+    END IF;
+END $$;
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS player_shop_transactions;
+DROP TABLE IF EXISTS player_shop_items;
+DROP TABLE IF EXISTS player_shops;
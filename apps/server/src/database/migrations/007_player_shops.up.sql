@@ -0,0 +1,46 @@
+-- Player-run shops, their stock and sales
+
+CREATE TABLE IF NOT EXISTS player_shops (
+    id SERIAL PRIMARY KEY,
+    owner_id VARCHAR(255) NOT NULL,
+    owner_name VARCHAR(255) NOT NULL,
+    shop_name VARCHAR(50) NOT NULL,
+    description TEXT,
+    zone_id VARCHAR(255) NOT NULL,
+    x REAL NOT NULL,
+    y REAL NOT NULL,
+    is_open BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(owner_id)
+);
+
+CREATE TABLE IF NOT EXISTS player_shop_items (
+    id SERIAL PRIMARY KEY,
+    shop_id INTEGER NOT NULL REFERENCES player_shops(id) ON DELETE CASCADE,
+    item_id VARCHAR(255) NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity >= 0),
+    price_per_unit INTEGER NOT NULL CHECK (price_per_unit > 0),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(shop_id, item_id)
+);
+
+CREATE TABLE IF NOT EXISTS player_shop_transactions (
+    id SERIAL PRIMARY KEY,
+    shop_id INTEGER NOT NULL REFERENCES player_shops(id),
+    buyer_id VARCHAR(255) NOT NULL,
+    buyer_name VARCHAR(255) NOT NULL,
+    item_id VARCHAR(255) NOT NULL,
+    quantity INTEGER NOT NULL,
+    price_per_unit INTEGER NOT NULL,
+    total_cost INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_shops_zone ON player_shops(zone_id);
+CREATE INDEX IF NOT EXISTS idx_shops_owner ON player_shops(owner_id);
+CREATE INDEX IF NOT EXISTS idx_shop_items_shop ON player_shop_items(shop_id);
+CREATE INDEX IF NOT EXISTS idx_shop_items_item ON player_shop_items(item_id);
+CREATE INDEX IF NOT EXISTS idx_shop_transactions_shop ON player_shop_transactions(shop_id);
+CREATE INDEX IF NOT EXISTS idx_shop_transactions_buyer ON player_shop_transactions(buyer_id);
@@ -0,0 +1,6 @@
+DROP TABLE IF EXISTS guild_chat_messages;
+DROP TABLE IF EXISTS guild_log;
+DROP TABLE IF EXISTS guild_bank_items;
+DROP TABLE IF EXISTS guild_invites;
+DROP TABLE IF EXISTS guild_members;
+DROP TABLE IF EXISTS guilds;
@@ -0,0 +1,70 @@
+-- Guilds, members, invites, shared bank, audit log and chat history
+
+CREATE TABLE IF NOT EXISTS guilds (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(24) NOT NULL,
+    tag VARCHAR(5) NOT NULL,
+    leader_id VARCHAR(255) NOT NULL,
+    motd TEXT NOT NULL DEFAULT '',
+    bank_balance BIGINT NOT NULL DEFAULT 0 CHECK (bank_balance >= 0),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Names and tags are unique regardless of case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guilds_name ON guilds(LOWER(name));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guilds_tag ON guilds(UPPER(tag));
+
+CREATE TABLE IF NOT EXISTS guild_members (
+    player_id VARCHAR(255) PRIMARY KEY,
+    guild_id INTEGER NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+    player_name VARCHAR(255) NOT NULL,
+    rank VARCHAR(20) NOT NULL DEFAULT 'recruit',
+    joined_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_guild_members_guild ON guild_members(guild_id);
+
+CREATE TABLE IF NOT EXISTS guild_invites (
+    guild_id INTEGER NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+    player_id VARCHAR(255) NOT NULL,
+    invited_by VARCHAR(255) NOT NULL,
+    invited_by_name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    expires_at TIMESTAMP NOT NULL,
+    PRIMARY KEY (guild_id, player_id)
+);
+
+CREATE TABLE IF NOT EXISTS guild_bank_items (
+    guild_id INTEGER NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+    item_id VARCHAR(255) NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    PRIMARY KEY (guild_id, item_id)
+);
+
+-- Audit log of membership and bank changes
+CREATE TABLE IF NOT EXISTS guild_log (
+    id SERIAL PRIMARY KEY,
+    guild_id INTEGER NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+    player_id VARCHAR(255) NOT NULL,
+    player_name VARCHAR(255) NOT NULL,
+    action VARCHAR(50) NOT NULL,
+    target_id VARCHAR(255),
+    item_id VARCHAR(255),
+    quantity INTEGER,
+    amount BIGINT,
+    details TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_guild_log_guild ON guild_log(guild_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS guild_chat_messages (
+    id SERIAL PRIMARY KEY,
+    guild_id INTEGER NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+    sender_id VARCHAR(255) NOT NULL,
+    sender_name VARCHAR(255) NOT NULL,
+    message TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_guild_chat_guild ON guild_chat_messages(guild_id, created_at DESC);
@@ -0,0 +1,31 @@
+-- Friend requests, friendships and block lists
+
+CREATE TABLE IF NOT EXISTS friend_requests (
+    from_player_id VARCHAR(255) NOT NULL,
+    from_player_name VARCHAR(255) NOT NULL,
+    to_player_id VARCHAR(255) NOT NULL,
+    to_player_name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (from_player_id, to_player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_friend_requests_to ON friend_requests(to_player_id);
+
+-- One row per direction so either side can list their friends with a single lookup
+CREATE TABLE IF NOT EXISTS friendships (
+    player_id VARCHAR(255) NOT NULL,
+    friend_id VARCHAR(255) NOT NULL,
+    friend_name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (player_id, friend_id)
+);
+
+CREATE TABLE IF NOT EXISTS player_blocks (
+    player_id VARCHAR(255) NOT NULL,
+    blocked_id VARCHAR(255) NOT NULL,
+    blocked_name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (player_id, blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_blocks_blocked ON player_blocks(blocked_id);
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS chat_moderation_log;
+DROP TABLE IF EXISTS chat_reports;
+DROP TABLE IF EXISTS chat_mutes;
@@ -0,0 +1,35 @@
+-- Chat mutes, player reports and the moderation log
+
+CREATE TABLE IF NOT EXISTS chat_mutes (
+    player_id VARCHAR(255) PRIMARY KEY,
+    muted_by VARCHAR(255) NOT NULL,
+    reason TEXT NOT NULL DEFAULT '',
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS chat_reports (
+    id SERIAL PRIMARY KEY,
+    reporter_id VARCHAR(255) NOT NULL,
+    reporter_name VARCHAR(255) NOT NULL,
+    reported_id VARCHAR(255) NOT NULL,
+    reason TEXT NOT NULL,
+    evidence JSONB NOT NULL DEFAULT '[]',
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    resolved_by VARCHAR(255),
+    created_at TIMESTAMP DEFAULT NOW(),
+    resolved_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_reports_status ON chat_reports(status, created_at);
+
+CREATE TABLE IF NOT EXISTS chat_moderation_log (
+    id SERIAL PRIMARY KEY,
+    action VARCHAR(50) NOT NULL,
+    player_id VARCHAR(255) NOT NULL,
+    moderator_id VARCHAR(255),
+    details TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_moderation_log_player ON chat_moderation_log(player_id, created_at DESC);
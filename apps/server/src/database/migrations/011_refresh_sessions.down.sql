@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS used_refresh_tokens;
+DROP INDEX IF EXISTS idx_sessions_token_hash;
+ALTER TABLE sessions DROP COLUMN IF EXISTS revoked_reason;
+ALTER TABLE sessions DROP COLUMN IF EXISTS revoked_at;
+ALTER TABLE sessions DROP COLUMN IF EXISTS last_used_at;
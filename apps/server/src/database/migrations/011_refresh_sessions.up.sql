@@ -0,0 +1,21 @@
+-- Refresh token sessions: sessions.token_hash now holds the session's current refresh
+-- token, and rotated-out tokens are kept so a replayed one can be detected
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS revoked_reason VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_token_hash ON sessions(token_hash);
+
+CREATE TABLE IF NOT EXISTS used_refresh_tokens (
+    token_hash VARCHAR(64) PRIMARY KEY,
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    used_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_used_refresh_tokens_session ON used_refresh_tokens(session_id);
+
+-- Sessions created before this migration hold long-lived access tokens, end them
+UPDATE sessions
+SET is_active = false, revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'upgrade'
+WHERE is_active = true;
@@ -0,0 +1 @@
+ALTER TABLE arena_season_standings DROP COLUMN IF EXISTS pending_items;
@@ -0,0 +1,4 @@
+-- Season reward items that could not be granted (e.g. the inventory was full) stay
+-- pending on the standing and are granted on a later season check
+
+ALTER TABLE arena_season_standings ADD COLUMN IF NOT EXISTS pending_items JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,2 @@
+ALTER TABLE player_profiles DROP COLUMN IF EXISTS validated_at;
+ALTER TABLE player_profiles DROP COLUMN IF EXISTS validated_level;
@@ -0,0 +1,8 @@
+-- Level and time of the last validated save. Battles write level and EXP directly, so stat
+-- growth and the save EXP allowance are measured from the last save instead of the profile
+
+ALTER TABLE player_profiles ADD COLUMN IF NOT EXISTS validated_level INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE player_profiles ADD COLUMN IF NOT EXISTS validated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+UPDATE player_profiles
+SET validated_level = COALESCE(level, 1), validated_at = COALESCE(updated_at, CURRENT_TIMESTAMP);
@@ -0,0 +1,29 @@
+/**
+ * Storage Backend
+ * The query interface services use, independent of where the data lives
+ */
+
+export type StorageBackendKind = 'postgres' | 'embedded';
+
+export interface StorageResult<T = any> {
+	rows: T[];
+	rowCount: number | null;
+}
+
+/**
+ * A connection checked out of a backend, used for transactions
+ */
+export interface StorageClient {
+	query<T = any>(text: string, params?: any[]): Promise<StorageResult<T>>;
+	release(): void;
+}
+
+/**
+ * Both backends speak PostgreSQL, so services and migrations run unchanged on either
+ */
+export interface StorageBackend {
+	readonly kind: StorageBackendKind;
+	query<T = any>(text: string, params?: any[]): Promise<StorageResult<T>>;
+	connect(): Promise<StorageClient>;
+	end(): Promise<void>;
+}
@@ -0,0 +1,497 @@
+/**
+ * FriendService
+ * Friend requests and friend lists stored server-side, online/offline/zone
+ * presence pushed to friends, and per-player block lists
+ */
+
+import type { StorageBackend } from '../database/index.ts';
+
+export interface FriendPresence {
+	online: boolean;
+	zone_id: string | null;
+}
+
+export interface Friend extends FriendPresence {
+	player_id: string;
+	player_name: string;
+	since: string;
+}
+
+export interface FriendRequest {
+	from_player_id: string;
+	from_player_name: string;
+	to_player_id: string;
+	to_player_name: string;
+	created_at: string;
+}
+
+export interface BlockedPlayer {
+	player_id: string;
+	player_name: string;
+	blocked_at: string;
+}
+
+export type FriendNotificationType =
+	| 'friend-request'
+	| 'friend-added'
+	| 'friend-removed'
+	| 'friend-presence';
+
+export type FriendNotify = (playerIds: string[], type: FriendNotificationType, data: any) => void;
+
+export type PresenceLookup = (playerId: string) => FriendPresence;
+
+type FriendResult<T = object> = ({ success: true } & T) | { success: false; error: string };
+
+export class FriendService {
+	private db: StorageBackend;
+	private notifyCallback: FriendNotify | null = null;
+	private presenceLookup: PresenceLookup | null = null;
+
+	// Configuration
+	private readonly MAX_FRIENDS = 200;
+	private readonly MAX_PENDING_REQUESTS = 50;
+	private readonly MAX_BLOCKED = 500;
+
+	constructor(db: StorageBackend) {
+		this.db = db;
+	}
+
+	/**
+	 * Set callback that pushes friend events to connected players
+	 */
+	setNotifyCallback(notify: FriendNotify): void {
+		this.notifyCallback = notify;
+	}
+
+	/**
+	 * Set lookup for a player's current presence (the signaling server knows who is online and where)
+	 */
+	setPresenceLookup(lookup: PresenceLookup): void {
+		this.presenceLookup = lookup;
+	}
+
+	/**
+	 * Send a friend request by username. If the target already asked this
+	 * player, the request is accepted instead.
+	 */
+	async sendRequest(
+		playerId: string,
+		playerName: string,
+		targetUsername: string,
+	): Promise<FriendResult<{ request?: FriendRequest; friend?: Friend }>> {
+		const target = await this.db.query(
+			'SELECT id, username FROM players WHERE LOWER(username) = LOWER($1)',
+			[targetUsername.trim()],
+		);
+		const targetRow = target.rows[0];
+
+		if (!targetRow) {
+			return { success: false, error: 'Player not found' };
+		}
+
+		const targetId = String(targetRow.id);
+		if (targetId === playerId) {
+			return { success: false, error: 'Cannot add yourself as a friend' };
+		}
+
+		// Blocked players (in either direction) look the same as unknown ones to the sender
+		if (await this.isBlocked(playerId, targetId)) {
+			return { success: false, error: 'Cannot send a friend request to this player' };
+		}
+
+		if (await this.areFriends(playerId, targetId)) {
+			return { success: false, error: 'Already friends' };
+		}
+
+		const reverse = await this.db.query(
+			'SELECT 1 FROM friend_requests WHERE from_player_id = $1 AND to_player_id = $2',
+			[targetId, playerId],
+		);
+		if (reverse.rows.length > 0) {
+			return this.acceptRequest(playerId, playerName, targetId);
+		}
+
+		if ((await this.countFriends(playerId)) >= this.MAX_FRIENDS) {
+			return { success: false, error: `Friend list is full (${this.MAX_FRIENDS})` };
+		}
+
+		const pending = await this.db.query(
+			'SELECT COUNT(*) AS count FROM friend_requests WHERE from_player_id = $1',
+			[playerId],
+		);
+		if (Number(pending.rows[0]?.count ?? 0) >= this.MAX_PENDING_REQUESTS) {
+			return { success: false, error: 'Too many pending friend requests' };
+		}
+
+		const result = await this.db.query(
+			`INSERT INTO friend_requests (from_player_id, from_player_name, to_player_id, to_player_name)
+			VALUES ($1, $2, $3, $4)
+			ON CONFLICT (from_player_id, to_player_id) DO NOTHING
+			RETURNING *`,
+			[playerId, playerName, targetId, targetRow.username],
+		);
+
+		if (result.rows.length === 0) {
+			return { success: false, error: 'Friend request already sent' };
+		}
+
+		const request = this.rowToRequest(result.rows[0]);
+		this.notify([targetId], 'friend-request', { request });
+
+		return { success: true, request };
+	}
+
+	/**
+	 * Get a player's incoming and outgoing friend requests
+	 */
+	async getRequests(
+		playerId: string,
+	): Promise<{ incoming: FriendRequest[]; outgoing: FriendRequest[] }> {
+		const result = await this.db.query(
+			`SELECT * FROM friend_requests
+			WHERE from_player_id = $1 OR to_player_id = $1
+			ORDER BY created_at DESC`,
+			[playerId],
+		);
+		const requests = result.rows.map((row) => this.rowToRequest(row));
+
+		return {
+			incoming: requests.filter((request) => request.to_player_id === playerId),
+			outgoing: requests.filter((request) => request.from_player_id === playerId),
+		};
+	}
+
+	/**
+	 * Accept a friend request sent to the player
+	 */
+	async acceptRequest(
+		playerId: string,
+		playerName: string,
+		fromPlayerId: string,
+	): Promise<FriendResult<{ friend: Friend }>> {
+		if ((await this.countFriends(playerId)) >= this.MAX_FRIENDS) {
+			return { success: false, error: `Friend list is full (${this.MAX_FRIENDS})` };
+		}
+		if ((await this.countFriends(fromPlayerId)) >= this.MAX_FRIENDS) {
+			return { success: false, error: "The other player's friend list is full" };
+		}
+
+		const client = await this.db.connect();
+		let request: FriendRequest;
+		try {
+			await client.query('BEGIN');
+
+			const deleted = await client.query(
+				`DELETE FROM friend_requests
+				WHERE from_player_id = $1 AND to_player_id = $2
+				RETURNING *`,
+				[fromPlayerId, playerId],
+			);
+
+			if (deleted.rows.length === 0) {
+				await client.query('ROLLBACK');
+				return { success: false, error: 'Friend request not found' };
+			}
+
+			request = this.rowToRequest(deleted.rows[0]);
+
+			// Drop a crossed request in the other direction too
+			await client.query(
+				'DELETE FROM friend_requests WHERE from_player_id = $1 AND to_player_id = $2',
+				[playerId, fromPlayerId],
+			);
+
+			await client.query(
+				`INSERT INTO friendships (player_id, friend_id, friend_name)
+				VALUES ($1, $2, $3), ($2, $1, $4)
+				ON CONFLICT (player_id, friend_id) DO NOTHING`,
+				[playerId, fromPlayerId, request.from_player_name, playerName],
+			);
+
+			await client.query('COMMIT');
+		} catch (error) {
+			await client.query('ROLLBACK');
+			console.error('[FriendService] Failed to accept friend request:', error);
+			return { success: false, error: 'Failed to accept friend request' };
+		} finally {
+			client.release();
+		}
+
+		const since = new Date().toISOString();
+		const friend = this.toFriend(fromPlayerId, request.from_player_name, since);
+		this.notify([fromPlayerId], 'friend-added', {
+			friend: this.toFriend(playerId, playerName, since),
+		});
+
+		console.log(`[FriendService] ${playerName} and ${request.from_player_name} are now friends`);
+
+		return { success: true, friend };
+	}
+
+	/**
+	 * Decline a friend request sent to the player
+	 */
+	async declineRequest(playerId: string, fromPlayerId: string): Promise<FriendResult> {
+		const result = await this.db.query(
+			'DELETE FROM friend_requests WHERE from_player_id = $1 AND to_player_id = $2',
+			[fromPlayerId, playerId],
+		);
+
+		if (result.rowCount === 0) {
+			return { success: false, error: 'Friend request not found' };
+		}
+
+		return { success: true };
+	}
+
+	/**
+	 * Withdraw a friend request the player sent
+	 */
+	async cancelRequest(playerId: string, toPlayerId: string): Promise<FriendResult> {
+		const result = await this.db.query(
+			'DELETE FROM friend_requests WHERE from_player_id = $1 AND to_player_id = $2',
+			[playerId, toPlayerId],
+		);
+
+		if (result.rowCount === 0) {
+			return { success: false, error: 'Friend request not found' };
+		}
+
+		return { success: true };
+	}
+
+	/**
+	 * Remove a friend (for both players)
+	 */
+	async removeFriend(playerId: string, friendId: string): Promise<FriendResult> {
+		const result = await this.db.query(
+			`DELETE FROM friendships
+			WHERE (player_id = $1 AND friend_id = $2) OR (player_id = $2 AND friend_id = $1)`,
+			[playerId, friendId],
+		);
+
+		if (result.rowCount === 0) {
+			return { success: false, error: 'Friend not found' };
+		}
+
+		this.notify([friendId], 'friend-removed', { playerId });
+
+		return { success: true };
+	}
+
+	/**
+	 * Get a player's friends with their current presence, online friends first
+	 */
+	async getFriends(playerId: string): Promise<Friend[]> {
+		const result = await this.db.query(
+			'SELECT * FROM friendships WHERE player_id = $1 ORDER BY friend_name',
+			[playerId],
+		);
+
+		const friends = result.rows.map((row) =>
+			this.toFriend(row.friend_id, row.friend_name, row.created_at),
+		);
+
+		return friends.sort((a, b) => Number(b.online) - Number(a.online));
+	}
+
+	/**
+	 * Block a player: ends any friendship, drops pending requests both ways
+	 * and rejects their future friend requests
+	 */
+	async blockPlayer(
+		playerId: string,
+		targetId: string,
+	): Promise<FriendResult<{ blocked: BlockedPlayer }>> {
+		if (targetId === playerId) {
+			return { success: false, error: 'Cannot block yourself' };
+		}
+
+		const target = await this.db.query('SELECT id, username FROM players WHERE id = $1', [
+			targetId,
+		]);
+		const targetRow = target.rows[0];
+
+		if (!targetRow) {
+			return { success: false, error: 'Player not found' };
+		}
+
+		const count = await this.db.query(
+			'SELECT COUNT(*) AS count FROM player_blocks WHERE player_id = $1',
+			[playerId],
+		);
+		if (Number(count.rows[0]?.count ?? 0) >= this.MAX_BLOCKED) {
+			return { success: false, error: `Block list is full (${this.MAX_BLOCKED})` };
+		}
+
+		const client = await this.db.connect();
+		let wasFriend = false;
+		try {
+			await client.query('BEGIN');
+
+			await client.query(
+				`INSERT INTO player_blocks (player_id, blocked_id, blocked_name)
+				VALUES ($1, $2, $3)
+				ON CONFLICT (player_id, blocked_id) DO NOTHING`,
+				[playerId, targetId, targetRow.username],
+			);
+
+			const removed = await client.query(
+				`DELETE FROM friendships
+				WHERE (player_id = $1 AND friend_id = $2) OR (player_id = $2 AND friend_id = $1)`,
+				[playerId, targetId],
+			);
+			wasFriend = (removed.rowCount ?? 0) > 0;
+
+			await client.query(
+				`DELETE FROM friend_requests
+				WHERE (from_player_id = $1 AND to_player_id = $2) OR (from_player_id = $2 AND to_player_id = $1)`,
+				[playerId, targetId],
+			);
+
+			await client.query('COMMIT');
+		} catch (error) {
+			await client.query('ROLLBACK');
+			console.error('[FriendService] Failed to block player:', error);
+			return { success: false, error: 'Failed to block player' };
+		} finally {
+			client.release();
+		}
+
+		if (wasFriend) {
+			this.notify([targetId], 'friend-removed', { playerId });
+		}
+
+		return {
+			success: true,
+			blocked: {
+				player_id: targetId,
+				player_name: targetRow.username,
+				blocked_at: new Date().toISOString(),
+			},
+		};
+	}
+
+	/**
+	 * Unblock a player
+	 */
+	async unblockPlayer(playerId: string, targetId: string): Promise<FriendResult> {
+		const result = await this.db.query(
+			'DELETE FROM player_blocks WHERE player_id = $1 AND blocked_id = $2',
+			[playerId, targetId],
+		);
+
+		if (result.rowCount === 0) {
+			return { success: false, error: 'Player is not blocked' };
+		}
+
+		return { success: true };
+	}
+
+	/**
+	 * Get the players a player has blocked
+	 */
+	async getBlocked(playerId: string): Promise<BlockedPlayer[]> {
+		const result = await this.db.query(
+			'SELECT * FROM player_blocks WHERE player_id = $1 ORDER BY blocked_name',
+			[playerId],
+		);
+
+		return result.rows.map((row) => ({
+			player_id: row.blocked_id,
+			player_name: row.blocked_name,
+			blocked_at: row.created_at,
+		}));
+	}
+
+	/**
+	 * Check whether either player has blocked the other
+	 */
+	async isBlocked(playerId: string, otherId: string): Promise<boolean> {
+		const result = await this.db.query(
+			`SELECT 1 FROM player_blocks
+			WHERE (player_id = $1 AND blocked_id = $2) OR (player_id = $2 AND blocked_id = $1)
+			LIMIT 1`,
+			[playerId, otherId],
+		);
+
+		return result.rows.length > 0;
+	}
+
+	/**
+	 * Push a player's new presence (connected, disconnected or changed zone) to their friends
+	 */
+	async handlePresenceChange(playerId: string, presence: FriendPresence): Promise<void> {
+		const result = await this.db.query('SELECT player_id FROM friendships WHERE friend_id = $1', [
+			playerId,
+		]);
+
+		if (result.rows.length === 0) return;
+
+		this.notify(
+			result.rows.map((row) => row.player_id),
+			'friend-presence',
+			{ playerId, presence },
+		);
+	}
+
+	/**
+	 * Check whether two players are friends
+	 */
+	private async areFriends(playerId: string, otherId: string): Promise<boolean> {
+		const result = await this.db.query(
+			'SELECT 1 FROM friendships WHERE player_id = $1 AND friend_id = $2',
+			[playerId, otherId],
+		);
+
+		return result.rows.length > 0;
+	}
+
+	/**
+	 * Count a player's friends
+	 */
+	private async countFriends(playerId: string): Promise<number> {
+		const result = await this.db.query(
+			'SELECT COUNT(*) AS count FROM friendships WHERE player_id = $1',
+			[playerId],
+		);
+
+		return Number(result.rows[0]?.count ?? 0);
+	}
+
+	/**
+	 * Build a friend entry with the friend's current presence
+	 */
+	private toFriend(playerId: string, playerName: string, since: string): Friend {
+		const presence = this.presenceLookup?.(playerId) ?? { online: false, zone_id: null };
+
+		return {
+			player_id: playerId,
+			player_name: playerName,
+			since,
+			online: presence.online,
+			zone_id: presence.zone_id,
+		};
+	}
+
+	/**
+	 * Push a friend event to players
+	 */
+	private notify(playerIds: string[], type: FriendNotificationType, data: any): void {
+		this.notifyCallback?.(playerIds, type, data);
+	}
+
+	/**
+	 * Convert a database row to a friend request
+	 */
+	private rowToRequest(row: any): FriendRequest {
+		return {
+			from_player_id: row.from_player_id,
+			from_player_name: row.from_player_name,
+			to_player_id: row.to_player_id,
+			to_player_name: row.to_player_name,
+			created_at: row.created_at,
+		};
+	}
+}
@@ -0,0 +1,16 @@
+/**
+ * Friends Module
+ * Friend lists, presence, block lists and REST routes
+ */
+
+export { FriendService } from './FriendService.ts';
+export type {
+	Friend,
+	FriendPresence,
+	FriendRequest,
+	BlockedPlayer,
+	FriendNotificationType,
+	FriendNotify,
+	PresenceLookup,
+} from './FriendService.ts';
+export { registerFriendRoutes } from './routes.ts';
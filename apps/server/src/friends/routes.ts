@@ -0,0 +1,82 @@
+/**
+ * Friend Routes
+ * REST endpoints for friends, friend requests and block lists (all require authentication)
+ */
+
+import type { Elit } from 'elit';
+import { authMiddleware } from '../auth/middleware.ts';
+import { getPlayer, readBody, sendError, sendResult } from '../http/index.ts';
+import type { FriendService } from './FriendService.ts';
+
+export function registerFriendRoutes(app: Elit, friends: FriendService): void {
+	app.get('/api/friends', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		ctx.json({ success: true, friends: await friends.getFriends(player.playerId) });
+	});
+
+	app.delete('/api/friends/:friendId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, await friends.removeFriend(player.playerId, ctx.params.friendId));
+	});
+
+	app.get('/api/friends/requests', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		ctx.json({ success: true, ...(await friends.getRequests(player.playerId)) });
+	});
+
+	app.post('/api/friends/requests', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.username) {
+			return sendError(ctx, 400, 'username is required');
+		}
+
+		const result = await friends.sendRequest(
+			player.playerId,
+			player.username,
+			String(body.username),
+		);
+
+		sendResult(ctx, result, 201);
+	});
+
+	app.post('/api/friends/requests/:playerId/accept', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(
+			ctx,
+			await friends.acceptRequest(player.playerId, player.username, ctx.params.playerId),
+		);
+	});
+
+	app.post('/api/friends/requests/:playerId/decline', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, await friends.declineRequest(player.playerId, ctx.params.playerId));
+	});
+
+	app.delete('/api/friends/requests/:playerId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, await friends.cancelRequest(player.playerId, ctx.params.playerId));
+	});
+
+	app.get('/api/friends/blocked', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		ctx.json({ success: true, blocked: await friends.getBlocked(player.playerId) });
+	});
+
+	app.post('/api/friends/blocked', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.player_id) {
+			return sendError(ctx, 400, 'player_id is required');
+		}
+
+		sendResult(ctx, await friends.blockPlayer(player.playerId, String(body.player_id)), 201);
+	});
+
+	app.delete('/api/friends/blocked/:playerId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, await friends.unblockPlayer(player.playerId, ctx.params.playerId));
+	});
+}
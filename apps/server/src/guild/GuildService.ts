@@ -0,0 +1,1056 @@
+/**
+ * GuildService
+ * Guilds with rank-based permissions, invitations, a shared item/currency bank
+ * with an audit log, and server-routed guild chat
+ */
+
+import type { StorageBackend } from '../database/index.ts';
+import type { Item } from '@rpg/game-core/inventory/index';
+import type { CurrencyService } from '../currency/CurrencyService.ts';
+import type { InventoryService } from '../inventory/InventoryService.ts';
+import { GUILD_RANKS, compareGuildRanks, hasGuildPermission } from './ranks.ts';
+import type { GuildPermission, GuildRank } from './ranks.ts';
+
+export interface Guild {
+	id: number;
+	name: string;
+	tag: string;
+	leader_id: string;
+	motd: string;
+	bank_balance: number;
+	member_count: number;
+	created_at: string;
+}
+
+export interface GuildMember {
+	guild_id: number;
+	player_id: string;
+	player_name: string;
+	rank: GuildRank;
+	joined_at: string;
+}
+
+export interface GuildDetails extends Guild {
+	members: GuildMember[];
+}
+
+export interface GuildInvite {
+	guild_id: number;
+	guild_name: string;
+	guild_tag: string;
+	player_id: string;
+	invited_by: string;
+	invited_by_name: string;
+	created_at: string;
+	expires_at: string;
+}
+
+export interface GuildBankItem {
+	item_id: string;
+	quantity: number;
+}
+
+export interface GuildBank {
+	balance: number;
+	items: GuildBankItem[];
+}
+
+export type GuildLogAction =
+	| 'create'
+	| 'join'
+	| 'leave'
+	| 'kick'
+	| 'set_rank'
+	| 'edit_motd'
+	| 'deposit_item'
+	| 'withdraw_item'
+	| 'deposit_currency'
+	| 'withdraw_currency';
+
+export interface GuildLogEntry {
+	id: number;
+	guild_id: number;
+	player_id: string;
+	player_name: string;
+	action: GuildLogAction;
+	target_id: string | null;
+	item_id: string | null;
+	quantity: number | null;
+	amount: number | null;
+	details: string | null;
+	created_at: string;
+}
+
+export interface GuildChatMessage {
+	id: number;
+	guild_id: number;
+	sender_id: string;
+	sender_name: string;
+	message: string;
+	created_at: string;
+}
+
+export type GuildNotificationType =
+	| 'guild-invite'
+	| 'guild-updated'
+	| 'guild-removed'
+	| 'guild-chat-message';
+
+export type GuildNotify = (playerIds: string[], type: GuildNotificationType, data: any) => void;
+
+type GuildResult<T = object> = ({ success: true } & T) | { success: false; error: string };
+
+interface LogDetails {
+	target_id?: string;
+	item_id?: string;
+	quantity?: number;
+	amount?: number;
+	details?: string;
+}
+
+export class GuildService {
+	private db: StorageBackend;
+	private currency: CurrencyService;
+	private inventory: InventoryService;
+	private items: Map<string, Item>;
+	private notifyCallback: GuildNotify | null = null;
+
+	// Configuration
+	private readonly CREATION_COST = 1000;
+	private readonly MAX_MEMBERS = 100;
+	private readonly INVITE_EXPIRY = 604800000; // 7 days
+	private readonly NAME_PATTERN = /^[A-Za-z0-9 ]{3,24}$/;
+	private readonly TAG_PATTERN = /^[A-Za-z0-9]{2,5}$/;
+	private readonly MAX_MOTD_LENGTH = 500;
+	private readonly MAX_CHAT_LENGTH = 500;
+	private readonly CHAT_HISTORY_LIMIT = 100;
+
+	constructor(
+		db: StorageBackend,
+		currency: CurrencyService,
+		inventory: InventoryService,
+		items: Map<string, Item>,
+	) {
+		this.db = db;
+		this.currency = currency;
+		this.inventory = inventory;
+		this.items = items;
+	}
+
+	/**
+	 * Set callback that pushes guild events to connected players
+	 */
+	setNotifyCallback(notify: GuildNotify): void {
+		this.notifyCallback = notify;
+	}
+
+	/**
+	 * Create a guild, charging the creator the creation cost
+	 */
+	async createGuild(
+		playerId: string,
+		playerName: string,
+		name: string,
+		tag: string,
+	): Promise<GuildResult<{ guild: Guild }>> {
+		name = name.trim();
+		tag = tag.trim().toUpperCase();
+
+		if (!this.NAME_PATTERN.test(name)) {
+			return { success: false, error: 'Guild name must be 3-24 letters, numbers or spaces' };
+		}
+		if (!this.TAG_PATTERN.test(tag)) {
+			return { success: false, error: 'Guild tag must be 2-5 letters or numbers' };
+		}
+		if (await this.getMembership(playerId)) {
+			return { success: false, error: 'Already in a guild' };
+		}
+
+		const taken = await this.db.query(
+			'SELECT 1 FROM guilds WHERE LOWER(name) = LOWER($1) OR UPPER(tag) = $2',
+			[name, tag],
+		);
+		if (taken.rows.length > 0) {
+			return { success: false, error: 'Guild name or tag is already taken' };
+		}
+
+		const payment = await this.currency.subtractCurrency(
+			playerId,
+			this.CREATION_COST,
+			'guild_creation',
+		);
+		if (!payment.success) {
+			return { success: false, error: payment.error || 'Failed to pay guild creation cost' };
+		}
+
+		const client = await this.db.connect();
+		let guildId: number | null = null;
+		try {
+			await client.query('BEGIN');
+
+			const result = await client.query(
+				'INSERT INTO guilds (name, tag, leader_id) VALUES ($1, $2, $3) RETURNING id',
+				[name, tag, playerId],
+			);
+			const createdId: number = result.rows[0].id;
+
+			await client.query(
+				"INSERT INTO guild_members (player_id, guild_id, player_name, rank) VALUES ($1, $2, $3, 'leader')",
+				[playerId, createdId, playerName],
+			);
+			await client.query('DELETE FROM guild_invites WHERE player_id = $1', [playerId]);
+			await client.query(
+				"INSERT INTO guild_log (guild_id, player_id, player_name, action, amount) VALUES ($1, $2, $3, 'create', $4)",
+				[createdId, playerId, playerName, this.CREATION_COST],
+			);
+
+			await client.query('COMMIT');
+			guildId = createdId;
+		} catch (error) {
+			await client.query('ROLLBACK');
+			console.error('[GuildService] Failed to create guild:', error);
+		} finally {
+			client.release();
+		}
+
+		if (guildId === null) {
+			// Name/tag raced with another creation or the player joined a guild meanwhile
+			await this.currency.addCurrency(playerId, this.CREATION_COST, 'guild_creation_refund');
+			return { success: false, error: 'Failed to create guild' };
+		}
+
+		console.log(`[GuildService] ${playerName} created guild [${tag}] ${name}`);
+
+		const guild = await this.getGuild(guildId);
+		return guild ? { success: true, guild } : { success: false, error: 'Guild not found' };
+	}
+
+	/**
+	 * Get a guild by ID
+	 */
+	async getGuild(guildId: number): Promise<Guild | null> {
+		const result = await this.db.query(
+			`SELECT g.*, (SELECT COUNT(*) FROM guild_members m WHERE m.guild_id = g.id) AS member_count
+			FROM guilds g WHERE g.id = $1`,
+			[guildId],
+		);
+
+		return result.rows.length > 0 ? this.rowToGuild(result.rows[0]) : null;
+	}
+
+	/**
+	 * Get a guild with its member list
+	 */
+	async getGuildDetails(guildId: number): Promise<GuildDetails | null> {
+		const guild = await this.getGuild(guildId);
+		if (!guild) {
+			return null;
+		}
+
+		return { ...guild, members: await this.getMembers(guildId) };
+	}
+
+	/**
+	 * Get the guild a player belongs to, with its member list
+	 */
+	async getPlayerGuild(playerId: string): Promise<GuildDetails | null> {
+		const membership = await this.getMembership(playerId);
+		return membership ? this.getGuildDetails(membership.guild_id) : null;
+	}
+
+	/**
+	 * Get guild members, highest rank first
+	 */
+	async getMembers(guildId: number): Promise<GuildMember[]> {
+		const result = await this.db.query(
+			'SELECT * FROM guild_members WHERE guild_id = $1 ORDER BY joined_at ASC',
+			[guildId],
+		);
+
+		return result.rows
+			.map((row) => this.rowToMember(row))
+			.sort((a, b) => compareGuildRanks(b.rank, a.rank));
+	}
+
+	/**
+	 * Get a player's guild membership
+	 */
+	async getMembership(playerId: string): Promise<GuildMember | null> {
+		const result = await this.db.query('SELECT * FROM guild_members WHERE player_id = $1', [
+			playerId,
+		]);
+		return result.rows.length > 0 ? this.rowToMember(result.rows[0]) : null;
+	}
+
+	/**
+	 * Invite a player to the inviter's guild
+	 */
+	async invite(inviterId: string, inviterName: string, targetId: string): Promise<GuildResult> {
+		const membership = await this.getMembership(inviterId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+		if (!hasGuildPermission(membership.rank, 'invite')) {
+			return { success: false, error: 'Not authorized to invite members' };
+		}
+		if (targetId === inviterId) {
+			return { success: false, error: 'Cannot invite yourself' };
+		}
+
+		const target = await this.db.query('SELECT id FROM players WHERE id = $1', [targetId]);
+		if (target.rows.length === 0) {
+			return { success: false, error: 'Player not found' };
+		}
+		if (await this.getMembership(targetId)) {
+			return { success: false, error: 'Player is already in a guild' };
+		}
+
+		const guild = await this.getGuild(membership.guild_id);
+		if (!guild) {
+			return { success: false, error: 'Guild not found' };
+		}
+		if (guild.member_count >= this.MAX_MEMBERS) {
+			return { success: false, error: 'Guild is full' };
+		}
+
+		const expiresAt = new Date(Date.now() + this.INVITE_EXPIRY);
+		await this.db.query(
+			`INSERT INTO guild_invites (guild_id, player_id, invited_by, invited_by_name, expires_at)
+			VALUES ($1, $2, $3, $4, $5)
+			ON CONFLICT (guild_id, player_id)
+			DO UPDATE SET invited_by = $3, invited_by_name = $4, created_at = NOW(), expires_at = $5`,
+			[guild.id, targetId, inviterId, inviterName, expiresAt],
+		);
+
+		const invite: GuildInvite = {
+			guild_id: guild.id,
+			guild_name: guild.name,
+			guild_tag: guild.tag,
+			player_id: targetId,
+			invited_by: inviterId,
+			invited_by_name: inviterName,
+			created_at: new Date().toISOString(),
+			expires_at: expiresAt.toISOString(),
+		};
+		this.notify([targetId], 'guild-invite', { invite });
+
+		return { success: true };
+	}
+
+	/**
+	 * Get pending invites for a player
+	 */
+	async getInvites(playerId: string): Promise<GuildInvite[]> {
+		const result = await this.db.query(
+			`SELECT i.*, g.name AS guild_name, g.tag AS guild_tag
+			FROM guild_invites i JOIN guilds g ON g.id = i.guild_id
+			WHERE i.player_id = $1 AND i.expires_at > NOW()
+			ORDER BY i.created_at DESC`,
+			[playerId],
+		);
+
+		return result.rows.map((row) => ({
+			guild_id: row.guild_id,
+			guild_name: row.guild_name,
+			guild_tag: row.guild_tag,
+			player_id: row.player_id,
+			invited_by: row.invited_by,
+			invited_by_name: row.invited_by_name,
+			created_at: row.created_at,
+			expires_at: row.expires_at,
+		}));
+	}
+
+	/**
+	 * Accept a guild invite, joining as a recruit
+	 */
+	async acceptInvite(playerId: string, playerName: string, guildId: number): Promise<GuildResult> {
+		if (await this.getMembership(playerId)) {
+			return { success: false, error: 'Already in a guild' };
+		}
+
+		const invite = await this.db.query(
+			'SELECT 1 FROM guild_invites WHERE guild_id = $1 AND player_id = $2 AND expires_at > NOW()',
+			[guildId, playerId],
+		);
+		if (invite.rows.length === 0) {
+			return { success: false, error: 'Invite not found' };
+		}
+
+		const guild = await this.getGuild(guildId);
+		if (!guild) {
+			return { success: false, error: 'Guild not found' };
+		}
+		if (guild.member_count >= this.MAX_MEMBERS) {
+			return { success: false, error: 'Guild is full' };
+		}
+
+		const client = await this.db.connect();
+		try {
+			await client.query('BEGIN');
+			await client.query(
+				"INSERT INTO guild_members (player_id, guild_id, player_name, rank) VALUES ($1, $2, $3, 'recruit')",
+				[playerId, guildId, playerName],
+			);
+			await client.query('DELETE FROM guild_invites WHERE player_id = $1', [playerId]);
+			await client.query(
+				"INSERT INTO guild_log (guild_id, player_id, player_name, action) VALUES ($1, $2, $3, 'join')",
+				[guildId, playerId, playerName],
+			);
+			await client.query('COMMIT');
+		} catch (error) {
+			await client.query('ROLLBACK');
+			console.error('[GuildService] Failed to accept invite:', error);
+			return { success: false, error: 'Failed to join guild' };
+		} finally {
+			client.release();
+		}
+
+		console.log(`[GuildService] ${playerName} joined guild [${guild.tag}] ${guild.name}`);
+		await this.notifyGuildUpdated(guildId);
+
+		return { success: true };
+	}
+
+	/**
+	 * Decline a guild invite
+	 */
+	async declineInvite(playerId: string, guildId: number): Promise<GuildResult> {
+		const result = await this.db.query(
+			'DELETE FROM guild_invites WHERE guild_id = $1 AND player_id = $2',
+			[guildId, playerId],
+		);
+
+		return (result.rowCount ?? 0) > 0
+			? { success: true }
+			: { success: false, error: 'Invite not found' };
+	}
+
+	/**
+	 * Leave the player's guild (the last remaining leader disbands it instead)
+	 */
+	async leaveGuild(playerId: string): Promise<GuildResult> {
+		const membership = await this.getMembership(playerId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+
+		if (membership.rank === 'leader') {
+			const guild = await this.getGuild(membership.guild_id);
+			if (guild && guild.member_count > 1) {
+				return { success: false, error: 'Transfer leadership before leaving the guild' };
+			}
+			return this.disbandGuild(playerId);
+		}
+
+		await this.removeMember(membership, membership, 'leave');
+		return { success: true };
+	}
+
+	/**
+	 * Remove a lower-ranked member from the guild
+	 */
+	async kickMember(actorId: string, targetId: string): Promise<GuildResult> {
+		const check = await this.checkAuthority(actorId, targetId, 'kick');
+		if (!check.success) {
+			return check;
+		}
+
+		await this.removeMember(check.actor, check.target, 'kick');
+		this.notify([targetId], 'guild-removed', { guildId: check.actor.guild_id, reason: 'kicked' });
+
+		return { success: true };
+	}
+
+	/**
+	 * Change a member's rank; setting 'leader' transfers leadership
+	 */
+	async setRank(actorId: string, targetId: string, rank: GuildRank): Promise<GuildResult> {
+		if (!GUILD_RANKS.includes(rank)) {
+			return { success: false, error: 'Invalid rank' };
+		}
+
+		const check = await this.checkAuthority(actorId, targetId, 'set_rank');
+		if (!check.success) {
+			return check;
+		}
+		const { actor, target } = check;
+
+		if (target.rank === rank) {
+			return { success: false, error: `${target.player_name} is already ${rank}` };
+		}
+
+		if (rank === 'leader') {
+			if (actor.rank !== 'leader') {
+				return { success: false, error: 'Not authorized to transfer leadership' };
+			}
+		} else if (compareGuildRanks(rank, actor.rank) >= 0) {
+			return { success: false, error: 'Not authorized to grant a rank equal to your own' };
+		}
+
+		const client = await this.db.connect();
+		try {
+			await client.query('BEGIN');
+			await client.query('UPDATE guild_members SET rank = $1 WHERE player_id = $2', [
+				rank,
+				targetId,
+			]);
+
+			// The previous leader steps down to officer
+			if (rank === 'leader') {
+				await client.query("UPDATE guild_members SET rank = 'officer' WHERE player_id = $1", [
+					actorId,
+				]);
+				await client.query('UPDATE guilds SET leader_id = $1 WHERE id = $2', [
+					targetId,
+					actor.guild_id,
+				]);
+			}
+
+			await client.query(
+				`INSERT INTO guild_log (guild_id, player_id, player_name, action, target_id, details)
+				VALUES ($1, $2, $3, 'set_rank', $4, $5)`,
+				[actor.guild_id, actorId, actor.player_name, targetId, `${target.rank} -> ${rank}`],
+			);
+			await client.query('COMMIT');
+		} catch (error) {
+			await client.query('ROLLBACK');
+			console.error('[GuildService] Failed to set rank:', error);
+			return { success: false, error: 'Failed to set rank' };
+		} finally {
+			client.release();
+		}
+
+		await this.notifyGuildUpdated(actor.guild_id);
+		return { success: true };
+	}
+
+	/**
+	 * Update the guild message of the day
+	 */
+	async setMotd(playerId: string, motd: string): Promise<GuildResult> {
+		const membership = await this.getMembership(playerId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+		if (!hasGuildPermission(membership.rank, 'edit_motd')) {
+			return { success: false, error: 'Not authorized to edit the message of the day' };
+		}
+
+		motd = motd.trim();
+		if (motd.length > this.MAX_MOTD_LENGTH) {
+			return {
+				success: false,
+				error: `Message of the day is limited to ${this.MAX_MOTD_LENGTH} characters`,
+			};
+		}
+
+		await this.db.query('UPDATE guilds SET motd = $1 WHERE id = $2', [motd, membership.guild_id]);
+		await this.log(membership, 'edit_motd', {});
+		await this.notifyGuildUpdated(membership.guild_id);
+
+		return { success: true };
+	}
+
+	/**
+	 * Disband the guild (leader only, bank must be empty)
+	 */
+	async disbandGuild(playerId: string): Promise<GuildResult> {
+		const membership = await this.getMembership(playerId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+		if (!hasGuildPermission(membership.rank, 'disband')) {
+			return { success: false, error: 'Not authorized to disband the guild' };
+		}
+
+		const bank = await this.getBankContents(membership.guild_id);
+		if (bank.balance > 0 || bank.items.length > 0) {
+			return { success: false, error: 'Empty the guild bank before disbanding' };
+		}
+
+		const memberIds = await this.getMemberIds(membership.guild_id);
+		await this.db.query('DELETE FROM guilds WHERE id = $1', [membership.guild_id]);
+
+		console.log(
+			`[GuildService] Guild ${membership.guild_id} disbanded by ${membership.player_name}`,
+		);
+		this.notify(memberIds, 'guild-removed', { guildId: membership.guild_id, reason: 'disbanded' });
+
+		return { success: true };
+	}
+
+	/**
+	 * Get the guild bank for a member
+	 */
+	async getBank(playerId: string): Promise<GuildResult<{ bank: GuildBank }>> {
+		const membership = await this.getMembership(playerId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+
+		return { success: true, bank: await this.getBankContents(membership.guild_id) };
+	}
+
+	/**
+	 * Move items from the player's inventory into the guild bank
+	 */
+	async depositItem(playerId: string, itemId: string, quantity: number): Promise<GuildResult> {
+		const membership = await this.getMembership(playerId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+		if (!this.items.has(itemId)) {
+			return { success: false, error: 'Item not found' };
+		}
+		if (!Number.isInteger(quantity) || quantity <= 0) {
+			return { success: false, error: 'Invalid quantity' };
+		}
+
+		const removed = await this.inventory.removeItem(playerId, itemId, quantity);
+		if (!removed.valid) {
+			return { success: false, error: removed.error || 'Failed to remove item from inventory' };
+		}
+
+		try {
+			await this.db.query(
+				`INSERT INTO guild_bank_items (guild_id, item_id, quantity) VALUES ($1, $2, $3)
+				ON CONFLICT (guild_id, item_id)
+				DO UPDATE SET quantity = guild_bank_items.quantity + EXCLUDED.quantity`,
+				[membership.guild_id, itemId, quantity],
+			);
+		} catch (error) {
+			console.error('[GuildService] Failed to deposit item:', error);
+			await this.giveItem(playerId, itemId, quantity);
+			return { success: false, error: 'Failed to deposit item' };
+		}
+
+		await this.log(membership, 'deposit_item', { item_id: itemId, quantity });
+		await this.notifyGuildUpdated(membership.guild_id);
+
+		return { success: true };
+	}
+
+	/**
+	 * Move items from the guild bank into the player's inventory
+	 */
+	async withdrawItem(playerId: string, itemId: string, quantity: number): Promise<GuildResult> {
+		const membership = await this.getMembership(playerId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+		if (!hasGuildPermission(membership.rank, 'withdraw_items')) {
+			return { success: false, error: 'Not authorized to withdraw items' };
+		}
+		if (!Number.isInteger(quantity) || quantity <= 0) {
+			return { success: false, error: 'Invalid quantity' };
+		}
+
+		// Take the items out first so concurrent withdrawals cannot overdraw the bank
+		const taken = await this.db.query(
+			`UPDATE guild_bank_items SET quantity = quantity - $3
+			WHERE guild_id = $1 AND item_id = $2 AND quantity > $3
+			RETURNING quantity`,
+			[membership.guild_id, itemId, quantity],
+		);
+		if (taken.rows.length === 0) {
+			const emptied = await this.db.query(
+				'DELETE FROM guild_bank_items WHERE guild_id = $1 AND item_id = $2 AND quantity = $3',
+				[membership.guild_id, itemId, quantity],
+			);
+			if ((emptied.rowCount ?? 0) === 0) {
+				return { success: false, error: 'Not enough items in the guild bank' };
+			}
+		}
+
+		const added = await this.giveItem(playerId, itemId, quantity);
+		if (!added.valid) {
+			await this.db.query(
+				`INSERT INTO guild_bank_items (guild_id, item_id, quantity) VALUES ($1, $2, $3)
+				ON CONFLICT (guild_id, item_id)
+				DO UPDATE SET quantity = guild_bank_items.quantity + EXCLUDED.quantity`,
+				[membership.guild_id, itemId, quantity],
+			);
+			return { success: false, error: added.error || 'Failed to add item to inventory' };
+		}
+
+		await this.log(membership, 'withdraw_item', { item_id: itemId, quantity });
+		await this.notifyGuildUpdated(membership.guild_id);
+
+		return { success: true };
+	}
+
+	/**
+	 * Move currency from the player into the guild bank
+	 */
+	async depositCurrency(
+		playerId: string,
+		amount: number,
+	): Promise<GuildResult<{ balance: number }>> {
+		const membership = await this.getMembership(playerId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+		if (!Number.isInteger(amount) || amount <= 0) {
+			return { success: false, error: 'Invalid amount' };
+		}
+
+		const payment = await this.currency.subtractCurrency(playerId, amount, 'guild_bank_deposit');
+		if (!payment.success) {
+			return { success: false, error: payment.error || 'Failed to deposit currency' };
+		}
+
+		let balance: number;
+		try {
+			const result = await this.db.query(
+				'UPDATE guilds SET bank_balance = bank_balance + $1 WHERE id = $2 RETURNING bank_balance',
+				[amount, membership.guild_id],
+			);
+			balance = Number(result.rows[0].bank_balance);
+		} catch (error) {
+			console.error('[GuildService] Failed to deposit currency:', error);
+			await this.currency.addCurrency(playerId, amount, 'guild_bank_refund');
+			return { success: false, error: 'Failed to deposit currency' };
+		}
+
+		await this.log(membership, 'deposit_currency', { amount });
+		await this.notifyGuildUpdated(membership.guild_id);
+
+		return { success: true, balance };
+	}
+
+	/**
+	 * Move currency from the guild bank to the player
+	 */
+	async withdrawCurrency(
+		playerId: string,
+		amount: number,
+	): Promise<GuildResult<{ balance: number }>> {
+		const membership = await this.getMembership(playerId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+		if (!hasGuildPermission(membership.rank, 'withdraw_currency')) {
+			return { success: false, error: 'Not authorized to withdraw currency' };
+		}
+		if (!Number.isInteger(amount) || amount <= 0) {
+			return { success: false, error: 'Invalid amount' };
+		}
+
+		const taken = await this.db.query(
+			`UPDATE guilds SET bank_balance = bank_balance - $1
+			WHERE id = $2 AND bank_balance >= $1
+			RETURNING bank_balance`,
+			[amount, membership.guild_id],
+		);
+		if (taken.rows.length === 0) {
+			return { success: false, error: 'Not enough currency in the guild bank' };
+		}
+
+		const paid = await this.currency.addCurrency(playerId, amount, 'guild_bank_withdraw');
+		if (!paid.success) {
+			await this.db.query('UPDATE guilds SET bank_balance = bank_balance + $1 WHERE id = $2', [
+				amount,
+				membership.guild_id,
+			]);
+			return { success: false, error: paid.error || 'Failed to withdraw currency' };
+		}
+
+		await this.log(membership, 'withdraw_currency', { amount });
+		await this.notifyGuildUpdated(membership.guild_id);
+
+		return { success: true, balance: Number(taken.rows[0].bank_balance) };
+	}
+
+	/**
+	 * Get the guild audit log
+	 */
+	async getLog(
+		playerId: string,
+		limit: number = 50,
+		offset: number = 0,
+	): Promise<GuildResult<{ entries: GuildLogEntry[] }>> {
+		const membership = await this.getMembership(playerId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+		if (!hasGuildPermission(membership.rank, 'view_log')) {
+			return { success: false, error: 'Not authorized to view the guild log' };
+		}
+
+		const result = await this.db.query(
+			'SELECT * FROM guild_log WHERE guild_id = $1 ORDER BY created_at DESC, id DESC LIMIT $2 OFFSET $3',
+			[membership.guild_id, limit, offset],
+		);
+
+		return {
+			success: true,
+			entries: result.rows.map((row) => ({
+				id: row.id,
+				guild_id: row.guild_id,
+				player_id: row.player_id,
+				player_name: row.player_name,
+				action: row.action,
+				target_id: row.target_id,
+				item_id: row.item_id,
+				quantity: row.quantity,
+				amount: row.amount === null ? null : Number(row.amount),
+				details: row.details,
+				created_at: row.created_at,
+			})),
+		};
+	}
+
+	/**
+	 * Send a guild chat message to every online member
+	 */
+	async sendChatMessage(
+		playerId: string,
+		message: string,
+	): Promise<GuildResult<{ message: GuildChatMessage }>> {
+		const membership = await this.getMembership(playerId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+
+		message = message.trim();
+		if (!message) {
+			return { success: false, error: 'Message is empty' };
+		}
+		if (message.length > this.MAX_CHAT_LENGTH) {
+			return {
+				success: false,
+				error: `Messages are limited to ${this.MAX_CHAT_LENGTH} characters`,
+			};
+		}
+
+		const result = await this.db.query(
+			`INSERT INTO guild_chat_messages (guild_id, sender_id, sender_name, message)
+			VALUES ($1, $2, $3, $4) RETURNING *`,
+			[membership.guild_id, playerId, membership.player_name, message],
+		);
+		const chatMessage = this.rowToChatMessage(result.rows[0]);
+
+		this.notify(await this.getMemberIds(membership.guild_id), 'guild-chat-message', {
+			message: chatMessage,
+		});
+
+		return { success: true, message: chatMessage };
+	}
+
+	/**
+	 * Get recent guild chat, oldest first
+	 */
+	async getChatHistory(
+		playerId: string,
+		limit: number = 50,
+	): Promise<GuildResult<{ messages: GuildChatMessage[] }>> {
+		const membership = await this.getMembership(playerId);
+		if (!membership) {
+			return { success: false, error: 'Not in a guild' };
+		}
+
+		const result = await this.db.query(
+			'SELECT * FROM guild_chat_messages WHERE guild_id = $1 ORDER BY created_at DESC, id DESC LIMIT $2',
+			[membership.guild_id, Math.min(limit, this.CHAT_HISTORY_LIMIT)],
+		);
+
+		return {
+			success: true,
+			messages: result.rows.map((row) => this.rowToChatMessage(row)).reverse(),
+		};
+	}
+
+	/**
+	 * Check that the actor has a permission and outranks the target
+	 */
+	private async checkAuthority(
+		actorId: string,
+		targetId: string,
+		permission: GuildPermission,
+	): Promise<
+		{ success: true; actor: GuildMember; target: GuildMember } | { success: false; error: string }
+	> {
+		const actor = await this.getMembership(actorId);
+		if (!actor) {
+			return { success: false, error: 'Not in a guild' };
+		}
+		if (!hasGuildPermission(actor.rank, permission)) {
+			return { success: false, error: 'Not authorized for this guild action' };
+		}
+		if (actorId === targetId) {
+			return { success: false, error: 'Cannot target yourself' };
+		}
+
+		const target = await this.getMembership(targetId);
+		if (!target || target.guild_id !== actor.guild_id) {
+			return { success: false, error: 'Member not found' };
+		}
+		if (compareGuildRanks(actor.rank, target.rank) <= 0) {
+			return { success: false, error: 'Not authorized to manage members of equal or higher rank' };
+		}
+
+		return { success: true, actor, target };
+	}
+
+	/**
+	 * Remove a member and record who removed them
+	 */
+	private async removeMember(
+		actor: GuildMember,
+		target: GuildMember,
+		action: 'leave' | 'kick',
+	): Promise<void> {
+		await this.db.query('DELETE FROM guild_members WHERE player_id = $1', [target.player_id]);
+		await this.log(actor, action, action === 'kick' ? { target_id: target.player_id } : {});
+
+		console.log(
+			`[GuildService] ${target.player_name} removed from guild ${target.guild_id} (${action})`,
+		);
+		await this.notifyGuildUpdated(target.guild_id);
+	}
+
+	/**
+	 * Add an item to a player's inventory using its item definition
+	 */
+	private async giveItem(
+		playerId: string,
+		itemId: string,
+		quantity: number,
+	): Promise<{ valid: boolean; error?: string }> {
+		const item = this.items.get(itemId);
+		if (!item) {
+			return { valid: false, error: 'Item not found' };
+		}
+
+		return this.inventory.addItem(
+			playerId,
+			itemId,
+			quantity,
+			item.weight,
+			item.stackable,
+			item.maxStack,
+		);
+	}
+
+	/**
+	 * Get bank balance and items for a guild
+	 */
+	private async getBankContents(guildId: number): Promise<GuildBank> {
+		const [balance, items] = await Promise.all([
+			this.db.query('SELECT bank_balance FROM guilds WHERE id = $1', [guildId]),
+			this.db.query(
+				'SELECT item_id, quantity FROM guild_bank_items WHERE guild_id = $1 ORDER BY item_id',
+				[guildId],
+			),
+		]);
+
+		return {
+			balance: balance.rows.length > 0 ? Number(balance.rows[0].bank_balance) : 0,
+			items: items.rows.map((row) => ({ item_id: row.item_id, quantity: row.quantity })),
+		};
+	}
+
+	/**
+	 * Write an audit log entry
+	 */
+	private async log(
+		member: GuildMember,
+		action: GuildLogAction,
+		details: LogDetails,
+	): Promise<void> {
+		await this.db.query(
+			`INSERT INTO guild_log (guild_id, player_id, player_name, action, target_id, item_id, quantity, amount, details)
+			VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+			[
+				member.guild_id,
+				member.player_id,
+				member.player_name,
+				action,
+				details.target_id ?? null,
+				details.item_id ?? null,
+				details.quantity ?? null,
+				details.amount ?? null,
+				details.details ?? null,
+			],
+		);
+	}
+
+	/**
+	 * Get IDs of every member of a guild
+	 */
+	private async getMemberIds(guildId: number): Promise<string[]> {
+		const result = await this.db.query('SELECT player_id FROM guild_members WHERE guild_id = $1', [
+			guildId,
+		]);
+		return result.rows.map((row) => row.player_id);
+	}
+
+	/**
+	 * Push the current guild state to its members
+	 */
+	private async notifyGuildUpdated(guildId: number): Promise<void> {
+		if (!this.notifyCallback) {
+			return;
+		}
+
+		const guild = await this.getGuildDetails(guildId);
+		if (guild) {
+			this.notify(
+				guild.members.map((m) => m.player_id),
+				'guild-updated',
+				{ guild },
+			);
+		}
+	}
+
+	/**
+	 * Push a guild event to connected players
+	 */
+	private notify(playerIds: string[], type: GuildNotificationType, data: any): void {
+		this.notifyCallback?.(playerIds, type, data);
+	}
+
+	/**
+	 * Convert a database row to a guild
+	 */
+	private rowToGuild(row: any): Guild {
+		return {
+			id: row.id,
+			name: row.name,
+			tag: row.tag,
+			leader_id: row.leader_id,
+			motd: row.motd,
+			bank_balance: Number(row.bank_balance),
+			member_count: Number(row.member_count),
+			created_at: row.created_at,
+		};
+	}
+
+	/**
+	 * Convert a database row to a guild member
+	 */
+	private rowToMember(row: any): GuildMember {
+		return {
+			guild_id: row.guild_id,
+			player_id: row.player_id,
+			player_name: row.player_name,
+			rank: row.rank,
+			joined_at: row.joined_at,
+		};
+	}
+
+	/**
+	 * Convert a database row to a chat message
+	 */
+	private rowToChatMessage(row: any): GuildChatMessage {
+		return {
+			id: row.id,
+			guild_id: row.guild_id,
+			sender_id: row.sender_id,
+			sender_name: row.sender_name,
+			message: row.message,
+			created_at: row.created_at,
+		};
+	}
+}
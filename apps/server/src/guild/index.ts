@@ -0,0 +1,27 @@
+/**
+ * Guild Module
+ * Guilds with ranks, a shared bank, guild chat and REST routes
+ */
+
+export { GuildService } from './GuildService.ts';
+export type {
+	Guild,
+	GuildMember,
+	GuildDetails,
+	GuildInvite,
+	GuildBank,
+	GuildBankItem,
+	GuildLogAction,
+	GuildLogEntry,
+	GuildChatMessage,
+	GuildNotificationType,
+	GuildNotify,
+} from './GuildService.ts';
+export {
+	GUILD_RANKS,
+	GUILD_RANK_PERMISSIONS,
+	hasGuildPermission,
+	compareGuildRanks,
+} from './ranks.ts';
+export type { GuildRank, GuildPermission } from './ranks.ts';
+export { registerGuildRoutes } from './routes.ts';
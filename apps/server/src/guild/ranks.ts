@@ -0,0 +1,57 @@
+/**
+ * Guild Ranks
+ * Rank ordering and the permissions each rank grants
+ */
+
+export type GuildRank = 'leader' | 'officer' | 'member' | 'recruit';
+
+export type GuildPermission =
+	| 'invite'
+	| 'kick'
+	| 'set_rank'
+	| 'edit_motd'
+	| 'withdraw_items'
+	| 'withdraw_currency'
+	| 'view_log'
+	| 'disband';
+
+// Lowest rank first; members can only manage ranks below their own
+export const GUILD_RANKS: GuildRank[] = ['recruit', 'member', 'officer', 'leader'];
+
+export const GUILD_RANK_PERMISSIONS: Record<GuildRank, GuildPermission[]> = {
+	leader: [
+		'invite',
+		'kick',
+		'set_rank',
+		'edit_motd',
+		'withdraw_items',
+		'withdraw_currency',
+		'view_log',
+		'disband',
+	],
+	officer: [
+		'invite',
+		'kick',
+		'set_rank',
+		'edit_motd',
+		'withdraw_items',
+		'withdraw_currency',
+		'view_log',
+	],
+	member: ['invite', 'withdraw_items'],
+	recruit: [],
+};
+
+/**
+ * Check whether a rank grants a permission
+ */
+export function hasGuildPermission(rank: GuildRank, permission: GuildPermission): boolean {
+	return GUILD_RANK_PERMISSIONS[rank].includes(permission);
+}
+
+/**
+ * Compare ranks (positive when a outranks b)
+ */
+export function compareGuildRanks(a: GuildRank, b: GuildRank): number {
+	return GUILD_RANKS.indexOf(a) - GUILD_RANKS.indexOf(b);
+}
@@ -0,0 +1,230 @@
+/**
+ * Guild Routes
+ * REST endpoints for guild membership, ranks, bank and chat (all require authentication)
+ */
+
+import type { Elit } from 'elit';
+import { authMiddleware } from '../auth/middleware.ts';
+import {
+	getPlayer,
+	getQuery,
+	parseInteger,
+	readBody,
+	sendError,
+	sendResult,
+} from '../http/index.ts';
+import type { ChatService } from '../chat/ChatService.ts';
+import type { GuildService } from './GuildService.ts';
+import type { GuildRank } from './ranks.ts';
+
+export function registerGuildRoutes(app: Elit, guilds: GuildService, chat: ChatService): void {
+	app.post('/api/guild/create', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.name || !body?.tag) {
+			return sendError(ctx, 400, 'name and tag are required');
+		}
+
+		const result = await guilds.createGuild(
+			player.playerId,
+			player.username,
+			String(body.name),
+			String(body.tag),
+		);
+
+		sendResult(ctx, result, 201);
+	});
+
+	app.get('/api/guild', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		ctx.json({ success: true, guild: await guilds.getPlayerGuild(player.playerId) });
+	});
+
+	app.get('/api/guild/info/:guildId', authMiddleware, async (ctx) => {
+		const guildId = parseInteger(ctx.params.guildId);
+
+		if (guildId === undefined) {
+			return sendError(ctx, 400, 'Invalid guild ID');
+		}
+
+		const guild = await guilds.getGuildDetails(guildId);
+
+		if (!guild) {
+			return sendError(ctx, 404, 'Guild not found');
+		}
+
+		ctx.json({ success: true, guild });
+	});
+
+	app.post('/api/guild/invite', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.player_id) {
+			return sendError(ctx, 400, 'player_id is required');
+		}
+
+		sendResult(ctx, await guilds.invite(player.playerId, player.username, String(body.player_id)));
+	});
+
+	app.get('/api/guild/invites', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		ctx.json({ success: true, invites: await guilds.getInvites(player.playerId) });
+	});
+
+	app.post('/api/guild/invites/:guildId/accept', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const guildId = parseInteger(ctx.params.guildId);
+
+		if (guildId === undefined) {
+			return sendError(ctx, 400, 'Invalid guild ID');
+		}
+
+		sendResult(ctx, await guilds.acceptInvite(player.playerId, player.username, guildId));
+	});
+
+	app.post('/api/guild/invites/:guildId/decline', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const guildId = parseInteger(ctx.params.guildId);
+
+		if (guildId === undefined) {
+			return sendError(ctx, 400, 'Invalid guild ID');
+		}
+
+		sendResult(ctx, await guilds.declineInvite(player.playerId, guildId));
+	});
+
+	app.post('/api/guild/leave', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, await guilds.leaveGuild(player.playerId));
+	});
+
+	app.post('/api/guild/kick', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.player_id) {
+			return sendError(ctx, 400, 'player_id is required');
+		}
+
+		sendResult(ctx, await guilds.kickMember(player.playerId, String(body.player_id)));
+	});
+
+	// Setting rank 'leader' transfers leadership
+	app.post('/api/guild/rank', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.player_id || !body?.rank) {
+			return sendError(ctx, 400, 'player_id and rank are required');
+		}
+
+		sendResult(
+			ctx,
+			await guilds.setRank(player.playerId, String(body.player_id), body.rank as GuildRank),
+		);
+	});
+
+	app.put('/api/guild/motd', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (typeof body?.motd !== 'string') {
+			return sendError(ctx, 400, 'motd is required');
+		}
+
+		sendResult(ctx, await guilds.setMotd(player.playerId, body.motd));
+	});
+
+	app.post('/api/guild/disband', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, await guilds.disbandGuild(player.playerId));
+	});
+
+	app.get('/api/guild/bank', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, await guilds.getBank(player.playerId));
+	});
+
+	app.post('/api/guild/bank/deposit-item', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.item_id || !body?.quantity) {
+			return sendError(ctx, 400, 'item_id and quantity are required');
+		}
+
+		sendResult(
+			ctx,
+			await guilds.depositItem(player.playerId, String(body.item_id), Number(body.quantity)),
+		);
+	});
+
+	app.post('/api/guild/bank/withdraw-item', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.item_id || !body?.quantity) {
+			return sendError(ctx, 400, 'item_id and quantity are required');
+		}
+
+		sendResult(
+			ctx,
+			await guilds.withdrawItem(player.playerId, String(body.item_id), Number(body.quantity)),
+		);
+	});
+
+	app.post('/api/guild/bank/deposit-currency', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.amount) {
+			return sendError(ctx, 400, 'amount is required');
+		}
+
+		sendResult(ctx, await guilds.depositCurrency(player.playerId, Number(body.amount)));
+	});
+
+	app.post('/api/guild/bank/withdraw-currency', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.amount) {
+			return sendError(ctx, 400, 'amount is required');
+		}
+
+		sendResult(ctx, await guilds.withdrawCurrency(player.playerId, Number(body.amount)));
+	});
+
+	app.get('/api/guild/log', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const query = getQuery(ctx);
+		const result = await guilds.getLog(
+			player.playerId,
+			parseInteger(query.get('limit')),
+			parseInteger(query.get('offset')),
+		);
+
+		sendResult(ctx, result);
+	});
+
+	app.get('/api/guild/chat', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const limit = parseInteger(getQuery(ctx).get('limit'));
+		sendResult(ctx, await guilds.getChatHistory(player.playerId, limit));
+	});
+
+	// REST fallback for clients without a WebSocket connection (moderated like the chat-send request)
+	app.post('/api/guild/chat', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (typeof body?.message !== 'string') {
+			return sendError(ctx, 400, 'message is required');
+		}
+
+		const result = await chat.sendMessage(player.playerId, player.username, 'guild', body.message);
+		sendResult(ctx, result, 201);
+	});
+}
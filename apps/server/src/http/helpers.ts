@@ -0,0 +1,87 @@
+/**
+ * HTTP Helpers
+ * Shared request parsing and response shapes for REST routes
+ */
+
+import type { Context } from 'elit';
+import type { TokenPayload } from '../auth/index.ts';
+
+/**
+ * Error body returned by every failing API route
+ */
+export interface ErrorResponse {
+	success: false;
+	error: string;
+}
+
+/**
+ * Get the authenticated player attached by authMiddleware
+ */
+export function getPlayer(ctx: Context): TokenPayload {
+	return (ctx as any).player;
+}
+
+/**
+ * Parse the JSON body, returns null when missing or malformed
+ */
+export async function readBody<T = Record<string, any>>(ctx: Context): Promise<T | null> {
+	try {
+		const body = await ctx.request.json();
+		return body && typeof body === 'object' ? (body as T) : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Get query string parameters
+ */
+export function getQuery(ctx: Context): URLSearchParams {
+	return new URL(ctx.request.url, 'http://localhost').searchParams;
+}
+
+/**
+ * Parse an integer route/query value, returns undefined when invalid
+ */
+export function parseInteger(value: string | null | undefined): number | undefined {
+	if (value === null || value === undefined || value === '') {
+		return undefined;
+	}
+
+	const parsed = Number(value);
+	return Number.isInteger(parsed) ? parsed : undefined;
+}
+
+/**
+ * Send an error response
+ */
+export function sendError(ctx: Context, status: number, error: string): void {
+	const body: ErrorResponse = { success: false, error };
+	ctx.status(status).json(body);
+}
+
+/**
+ * Send a service result, failed results are mapped to an HTTP status
+ */
+export function sendResult(
+	ctx: Context,
+	result: { success: boolean; error?: string },
+	successStatus: number = 200,
+): void {
+	if (result.success) {
+		ctx.status(successStatus).json(result);
+	} else {
+		const error = result.error || 'Request failed';
+		sendError(ctx, statusForError(error), error);
+	}
+}
+
+/**
+ * Map service error messages to HTTP status codes
+ */
+function statusForError(error: string): number {
+	if (/not found/i.test(error)) return 404;
+	if (/^not (authorized|your)/i.test(error)) return 403;
+	if (/^(database error|failed to)/i.test(error)) return 500;
+	return 400;
+}
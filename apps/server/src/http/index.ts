@@ -0,0 +1,7 @@
+/**
+ * HTTP Module
+ * Exports shared route helpers
+ */
+
+export { getPlayer, readBody, getQuery, parseInteger, sendError, sendResult } from './helpers.ts';
+export type { ErrorResponse } from './helpers.ts';
@@ -5,24 +5,101 @@
 
 import { Elit } from 'elit';
 import { createWebSocketServer } from 'elit/ws';
-import { testConnection } from './database/index.ts';
+import { migrateUp, pool, testConnection } from './database/index.ts';
 import { AuthService } from './auth/index.ts';
-import { authMiddleware } from './auth/middleware.ts';
-import { SaveService } from './save/index.ts';
+import { authMiddleware, getDeviceInfo, isAdmin } from './auth/middleware.ts';
+import { SaveService, SaveValidator } from './save/index.ts';
 import { SignalingServer } from './signaling/index.ts';
+import type { SignalingMessage } from './signaling/index.ts';
+import { AuctionHouseService, registerAuctionRoutes } from './auction/index.ts';
+import { TradeValidationService, registerTradingRoutes } from './trading/index.ts';
+import { CurrencyService, registerCurrencyRoutes } from './currency/index.ts';
+import { InventoryService, registerInventoryRoutes } from './inventory/index.ts';
+import { ArenaSeasonService, ArenaService, registerArenaRoutes } from './arena/index.ts';
+import { PlayerShopService, registerPlayerShopRoutes } from './player-shops/index.ts';
+import { GuildService, registerGuildRoutes } from './guild/index.ts';
+import { PartyService, registerPartyRoutes } from './party/index.ts';
+import { FriendService, registerFriendRoutes } from './friends/index.ts';
+import { CHAT_CHANNELS, ChatService, registerChatRoutes } from './chat/index.ts';
+import type { ChatChannel } from './chat/index.ts';
+import { BattleService, loadGameData, registerBattleRoutes } from './combat/index.ts';
+import { CombatActionType } from '@rpg/game-core/combat/index';
 
 const PORT = parseInt(process.env.PORT || '3000', 10);
 const HOST = process.env.HOST || 'localhost';
 
+// Refuse to run in production with a JWT secret anyone can look up
+if (process.env.NODE_ENV === 'production' && AuthService.isUsingDefaultSecret()) {
+	console.error('[RPG Server] JWT_SECRET must be set to a private value in production');
+	process.exit(1);
+}
+
 const app = new Elit();
 
 console.log('[RPG Server] Initializing...');
 
-// Initialize database connection
-testConnection().catch((error) => {
-	console.error('[RPG Server] Database connection failed:', error);
-	console.log('[RPG Server] Running without database connection');
-});
+// Static game data (jobs, monsters, items) shared by the battle and season services
+const gameData = loadGameData();
+
+// Game services
+const auctionHouse = new AuctionHouseService(pool);
+const tradeValidation = new TradeValidationService(pool);
+const currency = new CurrencyService(pool);
+const inventory = new InventoryService();
+const arena = new ArenaService(pool);
+const arenaSeasons = new ArenaSeasonService(pool, currency, inventory, gameData.items);
+const playerShops = new PlayerShopService(pool);
+const battles = new BattleService(pool, arena, currency, inventory, gameData);
+const guilds = new GuildService(pool, currency, inventory, gameData.items);
+const parties = new PartyService(inventory, gameData.items);
+const friends = new FriendService(pool);
+const chat = new ChatService(pool, parties, guilds, friends);
+const saveValidator = new SaveValidator(currency, inventory, gameData.world);
+
+/**
+ * Start services that need the database (each on its own so one failure doesn't block the rest)
+ * Seasons come first since new matches reference them
+ */
+async function initializeServices(): Promise<void> {
+	const services: [string, () => Promise<void>][] = [
+		['Arena seasons', () => arenaSeasons.initialize()],
+		['Chat', () => chat.initialize()],
+	];
+
+	for (const [name, initialize] of services) {
+		try {
+			await initialize();
+		} catch (error) {
+			console.error(`[RPG Server] ${name} initialization failed:`, error);
+		}
+	}
+}
+
+// Initialize database connection, apply pending migrations and start services
+testConnection()
+	.then(async (connected) => {
+		if (!connected) {
+			console.log(
+				'[RPG Server] Running without database connection (set DB_BACKEND=embedded to run without PostgreSQL)',
+			);
+			return;
+		}
+
+		try {
+			await migrateUp();
+		} catch (error) {
+			console.error('[RPG Server] Database migrations failed:', error);
+			return;
+		}
+
+		await initializeServices();
+		arena.startMatchmaking();
+		battles.start();
+	})
+	.catch((error) => {
+		console.error('[RPG Server] Database connection failed:', error);
+		console.log('[RPG Server] Running without database connection');
+	});
 
 // Health check endpoint
 app.get('/health', (ctx) => {
@@ -45,7 +122,7 @@ app.get('/api/test', (ctx) => {
 // Auth routes
 app.post('/api/auth/register', async (ctx) => {
 	const body = await ctx.request.json();
-	const result = await AuthService.register(body);
+	const result = await AuthService.register(body, getDeviceInfo(ctx));
 
 	if (result.success) {
 		ctx.status(201).json(result);
@@ -56,7 +133,7 @@ app.post('/api/auth/register', async (ctx) => {
 
 app.post('/api/auth/login', async (ctx) => {
 	const body = await ctx.request.json();
-	const result = await AuthService.login(body);
+	const result = await AuthService.login(body, getDeviceInfo(ctx));
 
 	if (result.success) {
 		ctx.json(result);
@@ -65,17 +142,51 @@ app.post('/api/auth/login', async (ctx) => {
 	}
 });
 
-app.post('/api/auth/logout', authMiddleware, async (ctx) => {
-	const authHeader = ctx.request.headers.get('authorization');
-	const token = authHeader?.split(' ')[1];
+app.post('/api/auth/refresh', async (ctx) => {
+	const body = await ctx.request.json();
+	const result = await AuthService.refresh(body?.refreshToken, getDeviceInfo(ctx));
 
-	if (token) {
-		await AuthService.logout(token);
+	if (result.success) {
+		ctx.json(result);
+	} else {
+		ctx.status(result.error === 'REFRESH_ERROR' ? 500 : 401).json(result);
 	}
+});
+
+app.post('/api/auth/logout', authMiddleware, async (ctx) => {
+	const player = (ctx as any).player;
+	await AuthService.logout(player.sessionId);
 
 	ctx.json({ success: true, message: 'Logged out successfully' });
 });
 
+// Log out everywhere
+app.post('/api/auth/logout-all', authMiddleware, async (ctx) => {
+	const player = (ctx as any).player;
+	const revoked = await AuthService.revokeAllSessions(player.playerId);
+
+	ctx.json({ success: true, message: 'Logged out of all sessions', data: { revoked } });
+});
+
+// Device list
+app.get('/api/auth/sessions', authMiddleware, async (ctx) => {
+	const player = (ctx as any).player;
+	const sessions = await AuthService.getSessions(player.playerId, player.sessionId);
+
+	ctx.json({ success: true, data: sessions });
+});
+
+app.delete('/api/auth/sessions/:sessionId', authMiddleware, async (ctx) => {
+	const player = (ctx as any).player;
+	const revoked = await AuthService.revokePlayerSession(player.playerId, ctx.params.sessionId);
+
+	if (revoked) {
+		ctx.json({ success: true, message: 'Session revoked' });
+	} else {
+		ctx.status(404).json({ success: false, error: 'SESSION_NOT_FOUND' });
+	}
+});
+
 // Save/Load routes (protected)
 app.get('/api/save', authMiddleware, async (ctx) => {
 	const player = (ctx as any).player;
@@ -93,10 +204,19 @@ app.post('/api/save', authMiddleware, async (ctx) => {
 	const body = await ctx.request.json();
 	const saveType = body.saveType || 'auto';
 
-	const result = await SaveService.saveSave(player.playerId, body.saveData, saveType);
+	const result = await SaveService.saveSave(
+		player.playerId,
+		body.saveData,
+		saveValidator,
+		saveType,
+	);
 
 	if (result.success) {
 		ctx.json(result);
+	} else if (result.error === 'INVALID_SAVE') {
+		ctx.status(400).json(result);
+	} else if (result.error === 'PROFILE_NOT_FOUND') {
+		ctx.status(404).json(result);
 	} else {
 		ctx.status(500).json(result);
 	}
@@ -120,10 +240,24 @@ app.get('/api/save/snapshot/:saveId', authMiddleware, async (ctx) => {
 	}
 });
 
+// Game service routes (protected)
+registerAuctionRoutes(app, auctionHouse);
+registerTradingRoutes(app, tradeValidation);
+registerCurrencyRoutes(app, currency);
+registerInventoryRoutes(app, inventory);
+registerArenaRoutes(app, arena, battles, arenaSeasons);
+registerPlayerShopRoutes(app, playerShops);
+registerBattleRoutes(app, battles, parties);
+registerGuildRoutes(app, guilds, chat);
+registerPartyRoutes(app, parties, chat);
+registerFriendRoutes(app, friends);
+registerChatRoutes(app, chat);
+
 // Error handling
 app.onError((error, ctx) => {
 	console.error('[Server Error]', error);
 	ctx.status(500).json({
+		success: false,
 		error: 'Internal Server Error',
 		message: error.message,
 	});
@@ -132,6 +266,7 @@ app.onError((error, ctx) => {
 // 404 handler
 app.use((ctx) => {
 	ctx.status(404).json({
+		success: false,
 		error: 'Not Found',
 		path: ctx.request.url,
 	});
@@ -149,6 +284,171 @@ const httpServer = app.listen(PORT, () => {
 const WS_PORT = parseInt(process.env.WS_PORT || '3001', 10);
 const signalingServer = new SignalingServer();
 
+// Push arena and battle events over the WebSocket instead of HTTP polling
+arena.setNotifyCallback((playerIds, type, data) => {
+	signalingServer.sendToPlayers(playerIds, { type, data });
+});
+
+arena.setMatchReadyCallback((match) => {
+	battles.startArenaBattle(match).then((result) => {
+		if (!result.success) {
+			console.error(`[RPG Server] Failed to start arena match ${match.id}: ${result.error}`);
+			arena.cancelMatch(match.id);
+		}
+	});
+});
+
+battles.setBroadcastCallback((playerIds, type, battle) => {
+	signalingServer.sendToPlayers(playerIds, { type, data: battle });
+});
+
+// Guild chat is routed through the server so it reaches members in every zone
+guilds.setNotifyCallback((playerIds, type, data) => {
+	signalingServer.sendToPlayers(playerIds, { type, data });
+});
+
+// Party frames, chat and loot rolls follow members across zones
+parties.setNotifyCallback((playerIds, type, data) => {
+	signalingServer.sendToPlayers(playerIds, { type, data });
+});
+
+battles.setLootDistributor((playerIds, drops) => parties.distributeLoot(playerIds, drops));
+
+// Friends see each other come online, go offline and change zones wherever they are
+friends.setNotifyCallback((playerIds, type, data) => {
+	signalingServer.sendToPlayers(playerIds, { type, data });
+});
+
+friends.setPresenceLookup((playerId) => signalingServer.getPresence(playerId));
+
+signalingServer.setPresenceCallback((playerId, presence) => {
+	friends.handlePresenceChange(playerId, presence).catch((error) => {
+		console.error('[RPG Server] Presence update failed:', error);
+	});
+});
+
+// Global and whisper chat reach players in every zone; zone chat uses the signaling server's zones
+chat.setNotifyCallback((playerIds, type, data) => {
+	signalingServer.sendToPlayers(playerIds, { type, data });
+});
+
+chat.setAudience(signalingServer);
+
+/**
+ * Handle a moderator's chat-mute/chat-unmute request (players are named, not IDs)
+ */
+async function handleMuteRequest(
+	playerId: string,
+	message: SignalingMessage,
+): Promise<{ success: boolean; error?: string }> {
+	if (!isAdmin(playerId)) {
+		return { success: false, error: 'Not authorized to mute players' };
+	}
+
+	const targetId = await chat.findPlayerId(String(message.data?.target ?? ''));
+	if (!targetId) {
+		return { success: false, error: 'Player not found' };
+	}
+
+	return message.type === 'chat-mute'
+		? chat.mutePlayer(
+				playerId,
+				targetId,
+				Number(message.data?.minutes),
+				String(message.data?.reason ?? ''),
+			)
+		: chat.unmutePlayer(playerId, targetId);
+}
+
+/**
+ * Handle arena ready checks, battle actions, party updates and chat sent over the WebSocket
+ */
+async function handleGameMessage(
+	playerId: string,
+	message: SignalingMessage,
+	username: string,
+): Promise<void> {
+	let result: { success: boolean; error?: string };
+
+	if (message.type === 'arena-ready') {
+		const matchId = Number(message.data?.matchId);
+		result = Number.isInteger(matchId)
+			? await arena.respondToReadyCheck(matchId, playerId, message.data?.accept === true)
+			: { success: false, error: 'Invalid match ID' };
+	} else if (message.type === 'chat-send' || message.type === 'guild-chat' || message.type === 'party-chat') {
+		const channel: ChatChannel =
+			message.type === 'chat-send'
+				? message.data?.channel
+				: message.type === 'guild-chat'
+					? 'guild'
+					: 'party';
+		result = CHAT_CHANNELS.includes(channel)
+			? await chat.sendMessage(
+					playerId,
+					username,
+					channel,
+					String(message.data?.message ?? ''),
+					message.data?.target ? String(message.data.target) : undefined,
+				)
+			: { success: false, error: 'Invalid chat channel' };
+	} else if (message.type === 'chat-report') {
+		const targetId = await chat.findPlayerId(String(message.data?.target ?? ''));
+		result = targetId
+			? await chat.reportPlayer(playerId, username, targetId, String(message.data?.reason ?? ''))
+			: { success: false, error: 'Player not found' };
+	} else if (message.type === 'chat-mute' || message.type === 'chat-unmute') {
+		result = await handleMuteRequest(playerId, message);
+	} else if (message.type === 'party-status') {
+		const status = message.data ?? {};
+		result = parties.updateStatus(playerId, {
+			hp: Number(status.hp) || 0,
+			maxHp: Number(status.maxHp) || 0,
+			mp: Number(status.mp) || 0,
+			maxMp: Number(status.maxMp) || 0,
+			zoneId: String(status.zoneId ?? ''),
+			x: Number(status.x) || 0,
+			y: Number(status.y) || 0,
+		});
+	} else if (message.type === 'party-loot-choice') {
+		result = await parties.chooseLoot(playerId, String(message.data?.rollId), message.data?.choice);
+	} else {
+		const action = message.data?.action;
+		result =
+			action && Object.values(CombatActionType).includes(action.type)
+				? await battles.submitAction(String(message.data?.battleId), playerId, {
+						type: action.type,
+						targetId: String(action.targetId ?? ''),
+						skillId: action.skillId ? String(action.skillId) : undefined,
+						itemId: action.itemId ? String(action.itemId) : undefined,
+					})
+				: { success: false, error: 'Invalid action type' };
+	}
+
+	// Successful requests are answered by the pushed arena/battle/party/guild events
+	if (!result.success) {
+		signalingServer.sendToPlayers([playerId], {
+			type: 'game-error',
+			data: { request: message.type, error: result.error },
+		});
+	}
+}
+
+signalingServer.setGameCallbacks(
+	(playerId, message, username) => {
+		handleGameMessage(playerId, message, username).catch((error) => {
+			console.error('[RPG Server] Game message failed:', error);
+		});
+	},
+	// Queued players, party members and spectators must stay connected to receive their events
+	(playerId) => {
+		arena.leaveQueue(playerId);
+		arena.leaveParty(playerId);
+		parties.leaveParty(playerId);
+		battles.stopSpectating(playerId);
+		chat.handleDisconnect(playerId);
+	},
+);
+
 const wss = createWebSocketServer({ port: WS_PORT }, () => {
 	console.log(`✓ WebSocket server running on ws://${HOST}:${WS_PORT}`);
 	console.log(`✓ Signaling server ready for P2P connections`);
@@ -177,9 +477,28 @@ wss.on('connection', async (ws, request) => {
 	const playerId = payload.playerId;
 
 	// Register connection with signaling server
-	signalingServer.handleConnection(ws, playerId, username);
+	signalingServer.handleConnection(ws, playerId, username, payload.sessionId);
+});
+
+// Sockets only check their token when they open, so close them when their session ends
+AuthService.setRevocationCallback((sessionIds) => {
+	signalingServer.closeSessions(sessionIds, 'Session revoked');
 });
 
+const SESSION_CHECK_INTERVAL = 60000; // Catches expired sessions and revocations by other instances
+
+setInterval(() => {
+	const sessionIds = signalingServer.getConnectedSessions();
+	AuthService.getActiveSessionIds(sessionIds)
+		.then((active) => {
+			const ended = sessionIds.filter((sessionId) => !active.has(sessionId));
+			signalingServer.closeSessions(ended, 'Session expired');
+		})
+		.catch((error) => {
+			console.error('[RPG Server] Session check failed:', error);
+		});
+}, SESSION_CHECK_INTERVAL);
+
 // Stats endpoint
 app.get('/api/stats', (ctx) => {
 	ctx.json({
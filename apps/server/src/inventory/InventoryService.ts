@@ -4,7 +4,7 @@
  */
 
 import { pool } from '../database/config.ts';
-import type { PoolClient } from 'pg';
+import type { StorageClient } from '../database/index.ts';
 
 export interface InventoryItem {
 	id: string;
@@ -132,7 +132,7 @@ export class InventoryService {
 			await client.query('COMMIT');
 
 			// Log audit
-			await this.logAudit(playerId, 'inventory_add', {
+			await this.logAudit(client, playerId, 'inventory_add', {
 				item_id: itemId,
 				quantity,
 			});
@@ -216,7 +216,7 @@ export class InventoryService {
 			await client.query('COMMIT');
 
 			// Log audit
-			await this.logAudit(playerId, 'inventory_remove', {
+			await this.logAudit(client, playerId, 'inventory_remove', {
 				item_id: itemId,
 				quantity,
 			});
@@ -343,7 +343,7 @@ export class InventoryService {
 			await client.query('COMMIT');
 
 			// Log audit
-			await this.logAudit(playerId, 'inventory_move', {
+			await this.logAudit(client, playerId, 'inventory_move', {
 				from_slot: fromSlot,
 				to_slot: toSlot,
 			});
@@ -401,7 +401,7 @@ export class InventoryService {
 			await client.query('COMMIT');
 
 			// Log audit
-			await this.logAudit(playerId, 'inventory_equip', {
+			await this.logAudit(client, playerId, 'inventory_equip', {
 				item_id: item.item_id,
 				slot_index: slotIndex,
 			});
@@ -459,7 +459,7 @@ export class InventoryService {
 			await client.query('COMMIT');
 
 			// Log audit
-			await this.logAudit(playerId, 'inventory_unequip', {
+			await this.logAudit(client, playerId, 'inventory_unequip', {
 				item_id: item.item_id,
 				slot_index: slotIndex,
 			});
@@ -477,8 +477,11 @@ export class InventoryService {
 	/**
 	 * Get full inventory for player
 	 */
-	async getInventory(playerId: string): Promise<InventoryItem[]> {
-		const result = await pool.query(
+	async getInventory(
+		playerId: string,
+		db: Pick<StorageClient, 'query'> = pool,
+	): Promise<InventoryItem[]> {
+		const result = await db.query(
 			`SELECT id, player_id, item_id, quantity, slot_index, is_equipped, acquired_at
 			FROM player_inventory
 			WHERE player_id = $1
@@ -493,7 +496,7 @@ export class InventoryService {
 	 * Get inventory state (weight, slots)
 	 */
 	private async getInventoryState(
-		client: PoolClient,
+		client: StorageClient,
 		playerId: string,
 	): Promise<{ totalWeight: number; usedSlots: number }> {
 		const result = await client.query(
@@ -514,7 +517,7 @@ export class InventoryService {
 	/**
 	 * Find next available slot index
 	 */
-	private async findNextAvailableSlot(client: PoolClient, playerId: string, maxSlots: number): Promise<number> {
+	private async findNextAvailableSlot(client: StorageClient, playerId: string, maxSlots: number): Promise<number> {
 		const result = await client.query(
 			`SELECT slot_index
 			FROM player_inventory
@@ -538,7 +541,7 @@ export class InventoryService {
 	 * Log transaction for economy tracking
 	 */
 	private async logTransaction(
-		client: PoolClient,
+		client: StorageClient,
 		playerId: string,
 		action: string,
 		itemId: string,
@@ -562,8 +565,13 @@ export class InventoryService {
 	/**
 	 * Log audit for anti-cheat
 	 */
-	private async logAudit(playerId: string, action: string, details: any): Promise<void> {
-		await pool.query(
+	private async logAudit(
+		client: StorageClient,
+		playerId: string,
+		action: string,
+		details: any,
+	): Promise<void> {
+		await client.query(
 			`INSERT INTO audit_logs (player_id, action, details)
 			VALUES ($1, $2, $3)`,
 			[playerId, action, JSON.stringify(details)],
@@ -1,7 +1,8 @@
 /**
  * Inventory Module
- * Server-side inventory validation
+ * Server-side inventory validation and REST routes
  */
 
 export { InventoryService } from './InventoryService.ts';
 export type { InventoryItem, InventoryTransaction, ValidationResult } from './InventoryService.ts';
+export { registerInventoryRoutes } from './routes.ts';
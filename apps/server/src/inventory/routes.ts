@@ -0,0 +1,71 @@
+/**
+ * Inventory Routes
+ * REST endpoints for reading and rearranging the player inventory (all require authentication)
+ * Adding and removing items stays server-internal (loot, shops, trades)
+ */
+
+import type { Elit } from 'elit';
+import { authMiddleware } from '../auth/middleware.ts';
+import { getPlayer, readBody, sendError, sendResult } from '../http/index.ts';
+import type { InventoryService, ValidationResult } from './InventoryService.ts';
+
+/**
+ * Send an inventory validation result using the shared response shape
+ */
+function sendValidation(ctx: Parameters<typeof sendResult>[0], result: ValidationResult): void {
+	sendResult(ctx, { ...result, success: result.valid });
+}
+
+export function registerInventoryRoutes(app: Elit, inventory: InventoryService): void {
+	app.get('/api/inventory/get', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const items = await inventory.getInventory(player.playerId);
+
+		ctx.json({ success: true, items });
+	});
+
+	app.post('/api/inventory/move', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+		const fromSlot = Number(body?.from_slot);
+		const toSlot = Number(body?.to_slot);
+
+		if (!Number.isInteger(fromSlot) || !Number.isInteger(toSlot)) {
+			return sendError(ctx, 400, 'from_slot and to_slot are required');
+		}
+
+		const result = await inventory.moveItem(
+			player.playerId,
+			fromSlot,
+			toSlot,
+			body?.merge !== false,
+		);
+		sendValidation(ctx, result);
+	});
+
+	app.post('/api/inventory/equip', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+		const slotIndex = Number(body?.slot_index);
+
+		if (!Number.isInteger(slotIndex)) {
+			return sendError(ctx, 400, 'slot_index is required');
+		}
+
+		const result = await inventory.equipItem(player.playerId, slotIndex);
+		sendValidation(ctx, result);
+	});
+
+	app.post('/api/inventory/unequip', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+		const slotIndex = Number(body?.slot_index);
+
+		if (!Number.isInteger(slotIndex)) {
+			return sendError(ctx, 400, 'slot_index is required');
+		}
+
+		const result = await inventory.unequipItem(player.playerId, slotIndex);
+		sendValidation(ctx, result);
+	});
+}
@@ -0,0 +1,584 @@
+/**
+ * PartyService
+ * Exploration parties: invites, leader, member status relay, party chat
+ * and loot distribution (free-for-all, round-robin, need/greed)
+ */
+
+import { randomInt, randomUUID } from 'crypto';
+import { MAX_PARTY_SIZE } from '@rpg/game-core/combat/index';
+import type { LootDrop } from '@rpg/game-core/combat/index';
+import type { Item } from '@rpg/game-core/inventory/index';
+import type { InventoryService } from '../inventory/InventoryService.ts';
+
+export type LootMode = 'free-for-all' | 'round-robin' | 'need-greed';
+
+export const LOOT_MODES: LootMode[] = ['free-for-all', 'round-robin', 'need-greed'];
+
+/**
+ * Latest HP/MP and position reported by a member's client
+ */
+export interface PartyMemberStatus {
+	hp: number;
+	maxHp: number;
+	mp: number;
+	maxMp: number;
+	zoneId: string;
+	x: number;
+	y: number;
+	updatedAt: number;
+}
+
+export interface PartyMember {
+	player_id: string;
+	player_name: string;
+	status: PartyMemberStatus | null; // Null until the client reports in
+}
+
+export interface Party {
+	id: string;
+	leader_id: string;
+	members: PartyMember[];
+	invites: string[]; // Invited player IDs
+	loot_mode: LootMode;
+	created_at: string;
+}
+
+export interface PartyChatMessage {
+	party_id: string;
+	sender_id: string;
+	sender_name: string;
+	message: string;
+	sent_at: string;
+}
+
+export type LootRollChoice = 'need' | 'greed' | 'pass';
+
+/**
+ * Need/greed roll for one drop; need beats greed, highest roll wins
+ */
+export interface LootRoll {
+	id: string;
+	party_id: string;
+	drop: LootDrop;
+	eligible: string[]; // Player IDs that may roll
+	choices: Record<string, { choice: LootRollChoice; roll: number }>;
+	deadline: number;
+	winner_id: string | null;
+}
+
+export type PartyNotificationType =
+	| 'party-invite'
+	| 'party-updated'
+	| 'party-member-status'
+	| 'party-chat-message'
+	| 'party-loot-roll'
+	| 'party-loot-result';
+
+export type PartyNotify = (playerIds: string[], type: PartyNotificationType, data: any) => void;
+
+export class PartyService {
+	private inventory: InventoryService;
+	private items: Map<string, Item>;
+	private parties: Map<string, Party> = new Map();
+	private playerParties: Map<string, string> = new Map(); // Player ID -> party ID
+	private lootRolls: Map<string, { roll: LootRoll; timer: Timer }> = new Map();
+	private roundRobinIndex: Map<string, number> = new Map(); // Party ID -> next member index
+	private notifyCallback: PartyNotify | null = null;
+
+	// Configuration
+	private readonly MAX_PARTY_SIZE = MAX_PARTY_SIZE;
+	private readonly MAX_CHAT_LENGTH = 500;
+	private readonly LOOT_ROLL_TIMEOUT = 30000; // 30 seconds to choose need/greed/pass
+
+	constructor(inventory: InventoryService, items: Map<string, Item>) {
+		this.inventory = inventory;
+		this.items = items;
+	}
+
+	/**
+	 * Set callback that pushes party events to connected players
+	 */
+	setNotifyCallback(notify: PartyNotify): void {
+		this.notifyCallback = notify;
+	}
+
+	/**
+	 * Create a party led by the player
+	 */
+	createParty(
+		playerId: string,
+		playerName: string,
+	): { success: boolean; error?: string; party?: Party } {
+		if (this.playerParties.has(playerId)) {
+			return { success: false, error: 'Already in a party' };
+		}
+
+		const party: Party = {
+			id: randomUUID(),
+			leader_id: playerId,
+			members: [{ player_id: playerId, player_name: playerName, status: null }],
+			invites: [],
+			loot_mode: 'round-robin',
+			created_at: new Date().toISOString(),
+		};
+
+		this.parties.set(party.id, party);
+		this.playerParties.set(playerId, party.id);
+
+		console.log(`[PartyService] ${playerName} created party ${party.id}`);
+
+		return { success: true, party };
+	}
+
+	/**
+	 * Invite a player to the leader's party
+	 */
+	invite(leaderId: string, targetId: string): { success: boolean; error?: string } {
+		const party = this.getParty(leaderId);
+
+		if (!party || party.leader_id !== leaderId) {
+			return { success: false, error: 'Only the party leader can invite players' };
+		}
+
+		if (party.members.some((member) => member.player_id === targetId)) {
+			return { success: false, error: 'Player is already in the party' };
+		}
+
+		if (party.members.length + party.invites.length >= this.MAX_PARTY_SIZE) {
+			return { success: false, error: 'Party is full' };
+		}
+
+		if (!party.invites.includes(targetId)) {
+			party.invites.push(targetId);
+		}
+
+		this.notify([targetId], 'party-invite', { party });
+		this.notifyParty(party);
+
+		return { success: true };
+	}
+
+	/**
+	 * Accept a party invite
+	 */
+	acceptInvite(
+		partyId: string,
+		playerId: string,
+		playerName: string,
+	): { success: boolean; error?: string; party?: Party } {
+		const party = this.parties.get(partyId);
+
+		if (!party || !party.invites.includes(playerId)) {
+			return { success: false, error: 'Invite not found' };
+		}
+
+		if (this.playerParties.has(playerId)) {
+			return { success: false, error: 'Already in a party' };
+		}
+
+		party.invites = party.invites.filter((id) => id !== playerId);
+		party.members.push({ player_id: playerId, player_name: playerName, status: null });
+		this.playerParties.set(playerId, party.id);
+
+		console.log(`[PartyService] ${playerName} joined party ${party.id}`);
+		this.notifyParty(party);
+
+		return { success: true, party };
+	}
+
+	/**
+	 * Decline a party invite
+	 */
+	declineInvite(partyId: string, playerId: string): { success: boolean; error?: string } {
+		const party = this.parties.get(partyId);
+
+		if (!party || !party.invites.includes(playerId)) {
+			return { success: false, error: 'Invite not found' };
+		}
+
+		party.invites = party.invites.filter((id) => id !== playerId);
+		this.notifyParty(party);
+
+		return { success: true };
+	}
+
+	/**
+	 * Leave the current party (leadership passes on; empty parties are disbanded)
+	 */
+	leaveParty(playerId: string): { success: boolean; error?: string } {
+		const party = this.getParty(playerId);
+
+		if (!party) {
+			return { success: false, error: 'Not in a party' };
+		}
+
+		this.removeMember(party, playerId);
+		return { success: true };
+	}
+
+	/**
+	 * Remove a member from the leader's party
+	 */
+	kickMember(leaderId: string, targetId: string): { success: boolean; error?: string } {
+		const party = this.getParty(leaderId);
+
+		if (!party || party.leader_id !== leaderId) {
+			return { success: false, error: 'Only the party leader can kick members' };
+		}
+
+		if (targetId === leaderId || !party.members.some((member) => member.player_id === targetId)) {
+			return { success: false, error: 'Member not found' };
+		}
+
+		this.removeMember(party, targetId);
+		return { success: true };
+	}
+
+	/**
+	 * Hand party leadership to another member
+	 */
+	setLeader(leaderId: string, targetId: string): { success: boolean; error?: string } {
+		const party = this.getParty(leaderId);
+
+		if (!party || party.leader_id !== leaderId) {
+			return { success: false, error: 'Only the party leader can change the leader' };
+		}
+
+		if (!party.members.some((member) => member.player_id === targetId)) {
+			return { success: false, error: 'Member not found' };
+		}
+
+		party.leader_id = targetId;
+		this.notifyParty(party);
+
+		return { success: true };
+	}
+
+	/**
+	 * Change how the party's drops are distributed
+	 */
+	setLootMode(leaderId: string, mode: LootMode): { success: boolean; error?: string } {
+		const party = this.getParty(leaderId);
+
+		if (!party || party.leader_id !== leaderId) {
+			return { success: false, error: 'Only the party leader can change the loot mode' };
+		}
+
+		if (!LOOT_MODES.includes(mode)) {
+			return { success: false, error: 'Invalid loot mode' };
+		}
+
+		party.loot_mode = mode;
+		this.notifyParty(party);
+
+		return { success: true };
+	}
+
+	/**
+	 * Get the party a player belongs to
+	 */
+	getParty(playerId: string): Party | null {
+		const partyId = this.playerParties.get(playerId);
+		return partyId ? (this.parties.get(partyId) ?? null) : null;
+	}
+
+	/**
+	 * Store a member's HP/MP and position and relay it to the rest of the party
+	 */
+	updateStatus(
+		playerId: string,
+		status: Omit<PartyMemberStatus, 'updatedAt'>,
+	): { success: boolean; error?: string } {
+		const party = this.getParty(playerId);
+		const member = party?.members.find((m) => m.player_id === playerId);
+
+		if (!party || !member) {
+			return { success: false, error: 'Not in a party' };
+		}
+
+		member.status = { ...status, updatedAt: Date.now() };
+
+		const others = party.members.filter((m) => m.player_id !== playerId).map((m) => m.player_id);
+		this.notify(others, 'party-member-status', { playerId, status: member.status });
+
+		return { success: true };
+	}
+
+	/**
+	 * Party members (other than the player) who may join an encounter the player starts
+	 * (the battle service keeps the ones whose saved profile is in the encounter's zone)
+	 */
+	getEncounterMembers(playerId: string): string[] {
+		const party = this.getParty(playerId);
+		if (!party) return [];
+
+		return party.members
+			.filter((member) => member.player_id !== playerId)
+			.map((member) => member.player_id);
+	}
+
+	/**
+	 * Send a party chat message to every member
+	 */
+	sendChatMessage(
+		playerId: string,
+		message: string,
+	): { success: boolean; error?: string; message?: PartyChatMessage } {
+		const party = this.getParty(playerId);
+		const member = party?.members.find((m) => m.player_id === playerId);
+
+		if (!party || !member) {
+			return { success: false, error: 'Not in a party' };
+		}
+
+		message = message.trim();
+		if (!message) {
+			return { success: false, error: 'Message is empty' };
+		}
+		if (message.length > this.MAX_CHAT_LENGTH) {
+			return {
+				success: false,
+				error: `Messages are limited to ${this.MAX_CHAT_LENGTH} characters`,
+			};
+		}
+
+		const chatMessage: PartyChatMessage = {
+			party_id: party.id,
+			sender_id: playerId,
+			sender_name: member.player_name,
+			message,
+			sent_at: new Date().toISOString(),
+		};
+
+		this.notify(
+			party.members.map((m) => m.player_id),
+			'party-chat-message',
+			{ message: chatMessage },
+		);
+
+		return { success: true, message: chatMessage };
+	}
+
+	/**
+	 * Assign drops from a party battle by the party's loot mode.
+	 * Returns the drops each player receives now; need/greed drops are rolled
+	 * for and granted once the roll closes.
+	 */
+	distributeLoot(playerIds: string[], drops: LootDrop[]): Map<string, LootDrop[]> {
+		const assigned = new Map<string, LootDrop[]>(playerIds.map((id) => [id, []]));
+		const party = playerIds[0] ? this.getParty(playerIds[0]) : null;
+		const eligible = party
+			? playerIds.filter((id) => party.members.some((member) => member.player_id === id))
+			: [];
+
+		// Solo battles (or a party that broke up mid-fight) keep every drop
+		if (!party || eligible.length < 2) {
+			assigned.get(playerIds[0]!)?.push(...drops);
+			return assigned;
+		}
+
+		for (const drop of drops) {
+			if (party.loot_mode === 'need-greed') {
+				this.openLootRoll(party, eligible, drop);
+				continue;
+			}
+
+			const winnerId =
+				party.loot_mode === 'round-robin'
+					? this.nextRoundRobin(party, eligible)
+					: eligible[randomInt(eligible.length)]!;
+			assigned.get(winnerId)!.push(drop);
+		}
+
+		return assigned;
+	}
+
+	/**
+	 * Record a need/greed/pass choice; the roll closes once everyone has chosen
+	 */
+	async chooseLoot(
+		playerId: string,
+		rollId: string,
+		choice: LootRollChoice,
+	): Promise<{ success: boolean; error?: string }> {
+		const entry = this.lootRolls.get(rollId);
+
+		if (!entry || !entry.roll.eligible.includes(playerId)) {
+			return { success: false, error: 'Loot roll not found' };
+		}
+
+		if (!['need', 'greed', 'pass'].includes(choice)) {
+			return { success: false, error: 'Invalid loot choice' };
+		}
+
+		if (entry.roll.choices[playerId]) {
+			return { success: false, error: 'Already rolled' };
+		}
+
+		entry.roll.choices[playerId] = { choice, roll: choice === 'pass' ? 0 : randomInt(1, 101) };
+
+		if (entry.roll.eligible.every((id) => entry.roll.choices[id])) {
+			await this.closeLootRoll(rollId);
+		}
+
+		return { success: true };
+	}
+
+	/**
+	 * Get open loot rolls the player can still choose on
+	 */
+	getPendingRolls(playerId: string): LootRoll[] {
+		return Array.from(this.lootRolls.values())
+			.map((entry) => entry.roll)
+			.filter((roll) => roll.eligible.includes(playerId) && !roll.choices[playerId]);
+	}
+
+	/**
+	 * Close every open loot roll and drop all parties
+	 */
+	destroy(): void {
+		for (const { timer } of this.lootRolls.values()) {
+			clearTimeout(timer);
+		}
+		this.lootRolls.clear();
+		this.parties.clear();
+		this.playerParties.clear();
+		this.roundRobinIndex.clear();
+	}
+
+	/**
+	 * Remove a member, pass leadership on and disband empty parties
+	 */
+	private removeMember(party: Party, playerId: string): void {
+		party.members = party.members.filter((member) => member.player_id !== playerId);
+		this.playerParties.delete(playerId);
+		this.notify([playerId], 'party-updated', { party: null });
+
+		// Open rolls treat members who left as passing
+		for (const { roll } of this.lootRolls.values()) {
+			if (
+				roll.party_id === party.id &&
+				roll.eligible.includes(playerId) &&
+				!roll.choices[playerId]
+			) {
+				roll.choices[playerId] = { choice: 'pass', roll: 0 };
+			}
+		}
+
+		if (party.members.length === 0) {
+			this.parties.delete(party.id);
+			this.roundRobinIndex.delete(party.id);
+			console.log(`[PartyService] Party ${party.id} disbanded`);
+			return;
+		}
+
+		if (party.leader_id === playerId) {
+			party.leader_id = party.members[0]!.player_id;
+		}
+
+		this.notifyParty(party);
+	}
+
+	/**
+	 * Next eligible member in the party's loot rotation
+	 */
+	private nextRoundRobin(party: Party, eligible: string[]): string {
+		let index = this.roundRobinIndex.get(party.id) ?? 0;
+
+		for (let i = 0; i < party.members.length; i++) {
+			const member = party.members[(index + i) % party.members.length]!;
+			if (eligible.includes(member.player_id)) {
+				index = (index + i) % party.members.length;
+				break;
+			}
+		}
+
+		this.roundRobinIndex.set(party.id, index + 1);
+		return party.members[index % party.members.length]!.player_id;
+	}
+
+	/**
+	 * Start a need/greed roll for a drop
+	 */
+	private openLootRoll(party: Party, eligible: string[], drop: LootDrop): void {
+		const roll: LootRoll = {
+			id: randomUUID(),
+			party_id: party.id,
+			drop,
+			eligible,
+			choices: {},
+			deadline: Date.now() + this.LOOT_ROLL_TIMEOUT,
+			winner_id: null,
+		};
+
+		// Players who don't choose in time pass
+		const timer = setTimeout(() => {
+			this.closeLootRoll(roll.id).catch((error) => {
+				console.error('[PartyService] Failed to close loot roll:', error);
+			});
+		}, this.LOOT_ROLL_TIMEOUT);
+
+		this.lootRolls.set(roll.id, { roll, timer });
+		this.notify(eligible, 'party-loot-roll', { roll });
+	}
+
+	/**
+	 * Pick the winner and grant the drop; falls through to the next best roll
+	 * when the winner's inventory cannot take it
+	 */
+	private async closeLootRoll(rollId: string): Promise<void> {
+		const entry = this.lootRolls.get(rollId);
+		if (!entry) return;
+
+		clearTimeout(entry.timer);
+		this.lootRolls.delete(rollId);
+
+		const { roll } = entry;
+		for (const playerId of roll.eligible) {
+			roll.choices[playerId] ??= { choice: 'pass', roll: 0 };
+		}
+
+		const priority: Record<LootRollChoice, number> = { need: 2, greed: 1, pass: 0 };
+		const ranked = Object.entries(roll.choices)
+			.filter(([, { choice }]) => choice !== 'pass')
+			.sort(([, a], [, b]) => priority[b.choice] - priority[a.choice] || b.roll - a.roll);
+
+		const item = this.items.get(roll.drop.itemId);
+		for (const [playerId] of ranked) {
+			if (!item) break;
+
+			const added = await this.inventory.addItem(
+				playerId,
+				item.id,
+				roll.drop.quantity,
+				item.weight,
+				item.stackable,
+				item.maxStack,
+			);
+			if (added.valid) {
+				roll.winner_id = playerId;
+				break;
+			}
+		}
+
+		this.notify(roll.eligible, 'party-loot-result', { roll });
+	}
+
+	/**
+	 * Push the party state to its members
+	 */
+	private notifyParty(party: Party): void {
+		this.notify(
+			party.members.map((member) => member.player_id),
+			'party-updated',
+			{ party },
+		);
+	}
+
+	/**
+	 * Push a party event to connected players
+	 */
+	private notify(playerIds: string[], type: PartyNotificationType, data: any): void {
+		this.notifyCallback?.(playerIds, type, data);
+	}
+}
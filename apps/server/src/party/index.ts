@@ -0,0 +1,18 @@
+/**
+ * Party Module
+ * Exploration parties with loot distribution, party chat and REST routes
+ */
+
+export { PartyService, LOOT_MODES } from './PartyService.ts';
+export type {
+	LootMode,
+	Party,
+	PartyMember,
+	PartyMemberStatus,
+	PartyChatMessage,
+	LootRollChoice,
+	LootRoll,
+	PartyNotificationType,
+	PartyNotify,
+} from './PartyService.ts';
+export { registerPartyRoutes } from './routes.ts';
@@ -0,0 +1,112 @@
+/**
+ * Party Routes
+ * REST endpoints for exploration parties (all require authentication)
+ */
+
+import type { Elit } from 'elit';
+import { authMiddleware } from '../auth/middleware.ts';
+import { getPlayer, readBody, sendError, sendResult } from '../http/index.ts';
+import type { ChatService } from '../chat/ChatService.ts';
+import type { LootMode, LootRollChoice, PartyService } from './PartyService.ts';
+
+export function registerPartyRoutes(app: Elit, parties: PartyService, chat: ChatService): void {
+	app.get('/api/party', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		ctx.json({
+			success: true,
+			party: parties.getParty(player.playerId),
+			lootRolls: parties.getPendingRolls(player.playerId),
+		});
+	});
+
+	app.post('/api/party/create', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, parties.createParty(player.playerId, player.username), 201);
+	});
+
+	app.post('/api/party/invite', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.player_id) {
+			return sendError(ctx, 400, 'player_id is required');
+		}
+
+		sendResult(ctx, parties.invite(player.playerId, String(body.player_id)));
+	});
+
+	app.post('/api/party/accept/:partyId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, parties.acceptInvite(ctx.params.partyId, player.playerId, player.username));
+	});
+
+	app.post('/api/party/decline/:partyId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, parties.declineInvite(ctx.params.partyId, player.playerId));
+	});
+
+	app.post('/api/party/leave', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		sendResult(ctx, parties.leaveParty(player.playerId));
+	});
+
+	app.post('/api/party/kick', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.player_id) {
+			return sendError(ctx, 400, 'player_id is required');
+		}
+
+		sendResult(ctx, parties.kickMember(player.playerId, String(body.player_id)));
+	});
+
+	app.post('/api/party/leader', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.player_id) {
+			return sendError(ctx, 400, 'player_id is required');
+		}
+
+		sendResult(ctx, parties.setLeader(player.playerId, String(body.player_id)));
+	});
+
+	app.put('/api/party/loot-mode', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.mode) {
+			return sendError(ctx, 400, 'mode is required');
+		}
+
+		sendResult(ctx, parties.setLootMode(player.playerId, body.mode as LootMode));
+	});
+
+	app.post('/api/party/loot/:rollId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (!body?.choice) {
+			return sendError(ctx, 400, 'choice is required');
+		}
+
+		sendResult(
+			ctx,
+			await parties.chooseLoot(player.playerId, ctx.params.rollId, body.choice as LootRollChoice),
+		);
+	});
+
+	// REST fallback for clients without a WebSocket connection (moderated like the chat-send request)
+	app.post('/api/party/chat', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+
+		if (typeof body?.message !== 'string') {
+			return sendError(ctx, 400, 'message is required');
+		}
+
+		const result = await chat.sendMessage(player.playerId, player.username, 'party', body.message);
+		sendResult(ctx, result, 201);
+	});
+}
@@ -0,0 +1,17 @@
+/**
+ * Player Shops Module
+ * Player-run shops and REST routes
+ */
+
+export { PlayerShopService } from './PlayerShopService.ts';
+export type {
+	ShopLocation,
+	ShopItem,
+	PlayerShop,
+	CreateShopRequest,
+	AddItemRequest,
+	PurchaseRequest,
+	SearchShopsRequest,
+	PurchaseResult,
+} from './PlayerShopService.ts';
+export { registerPlayerShopRoutes } from './routes.ts';
@@ -0,0 +1,230 @@
+/**
+ * Player Shop Routes
+ * REST endpoints for player-run shops (all require authentication)
+ */
+
+import type { Elit } from 'elit';
+import { authMiddleware } from '../auth/middleware.ts';
+import {
+	getPlayer,
+	getQuery,
+	parseInteger,
+	readBody,
+	sendError,
+	sendResult,
+} from '../http/index.ts';
+import type { PlayerShopService } from './PlayerShopService.ts';
+
+export function registerPlayerShopRoutes(app: Elit, shops: PlayerShopService): void {
+	app.post('/api/player-shops/create', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody(ctx);
+		const x = Number(body?.x);
+		const y = Number(body?.y);
+
+		if (!body?.zone_id || !Number.isFinite(x) || !Number.isFinite(y)) {
+			return sendError(ctx, 400, 'zone_id, x and y are required');
+		}
+
+		// Owner identity always comes from the token
+		const result = await shops.createShop({
+			owner_id: player.playerId,
+			owner_name: player.username,
+			shop_name: String(body.shop_name ?? ''),
+			description: String(body.description ?? ''),
+			zone_id: String(body.zone_id),
+			x,
+			y,
+		});
+
+		sendResult(ctx, result, 201);
+	});
+
+	app.delete('/api/player-shops/delete/:shopId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const shopId = parseInteger(ctx.params.shopId);
+
+		if (shopId === undefined) {
+			return sendError(ctx, 400, 'Invalid shop ID');
+		}
+
+		const result = await shops.deleteShop(shopId, player.playerId);
+		sendResult(ctx, result);
+	});
+
+	app.put('/api/player-shops/update/:shopId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const shopId = parseInteger(ctx.params.shopId);
+		const body = await readBody(ctx);
+
+		if (shopId === undefined) {
+			return sendError(ctx, 400, 'Invalid shop ID');
+		}
+
+		const result = await shops.updateShop(shopId, player.playerId, {
+			shop_name: body?.shop_name !== undefined ? String(body.shop_name) : undefined,
+			description: body?.description !== undefined ? String(body.description) : undefined,
+			is_open: typeof body?.is_open === 'boolean' ? body.is_open : undefined,
+		});
+
+		sendResult(ctx, result);
+	});
+
+	app.post('/api/player-shops/add-item/:shopId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const shopId = parseInteger(ctx.params.shopId);
+		const body = await readBody(ctx);
+		const quantity = Number(body?.quantity);
+		const pricePerUnit = Number(body?.price_per_unit);
+
+		if (shopId === undefined) {
+			return sendError(ctx, 400, 'Invalid shop ID');
+		}
+
+		if (!body?.item_id || !Number.isInteger(quantity) || !Number.isInteger(pricePerUnit)) {
+			return sendError(ctx, 400, 'item_id, quantity and price_per_unit are required');
+		}
+
+		const result = await shops.addItem(shopId, player.playerId, {
+			item_id: String(body.item_id),
+			quantity,
+			price_per_unit: pricePerUnit,
+		});
+
+		sendResult(ctx, result);
+	});
+
+	app.delete('/api/player-shops/remove-item/:shopId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const shopId = parseInteger(ctx.params.shopId);
+		const body = await readBody(ctx);
+
+		if (shopId === undefined) {
+			return sendError(ctx, 400, 'Invalid shop ID');
+		}
+
+		if (!body?.item_id) {
+			return sendError(ctx, 400, 'item_id is required');
+		}
+
+		const result = await shops.removeItem(shopId, player.playerId, String(body.item_id));
+		sendResult(ctx, result);
+	});
+
+	app.put('/api/player-shops/update-price/:shopId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const shopId = parseInteger(ctx.params.shopId);
+		const body = await readBody(ctx);
+		const newPrice = Number(body?.new_price);
+
+		if (shopId === undefined) {
+			return sendError(ctx, 400, 'Invalid shop ID');
+		}
+
+		if (!body?.item_id || !Number.isInteger(newPrice)) {
+			return sendError(ctx, 400, 'item_id and new_price are required');
+		}
+
+		const result = await shops.updateItemPrice(
+			shopId,
+			player.playerId,
+			String(body.item_id),
+			newPrice,
+		);
+		sendResult(ctx, result);
+	});
+
+	app.post('/api/player-shops/purchase/:shopId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const shopId = parseInteger(ctx.params.shopId);
+		const body = await readBody(ctx);
+		const quantity = Number(body?.quantity);
+
+		if (shopId === undefined) {
+			return sendError(ctx, 400, 'Invalid shop ID');
+		}
+
+		if (!body?.item_id || !Number.isInteger(quantity)) {
+			return sendError(ctx, 400, 'item_id and quantity are required');
+		}
+
+		const result = await shops.purchaseItem(shopId, {
+			buyer_id: player.playerId,
+			buyer_name: player.username,
+			item_id: String(body.item_id),
+			quantity,
+		});
+
+		sendResult(ctx, result);
+	});
+
+	app.get('/api/player-shops/search', authMiddleware, async (ctx) => {
+		const query = getQuery(ctx);
+		const isOpen = query.get('is_open');
+
+		const result = await shops.searchShops({
+			zone_id: query.get('zone_id') || undefined,
+			owner_id: query.get('owner_id') || undefined,
+			item_id: query.get('item_id') || undefined,
+			search_name: query.get('search_name') || undefined,
+			is_open: isOpen === null ? undefined : isOpen === 'true',
+			limit: parseInteger(query.get('limit')),
+			offset: parseInteger(query.get('offset')),
+		});
+
+		ctx.json({ success: true, shops: result });
+	});
+
+	app.get('/api/player-shops/shop/:shopId', authMiddleware, async (ctx) => {
+		const shopId = parseInteger(ctx.params.shopId);
+
+		if (shopId === undefined) {
+			return sendError(ctx, 400, 'Invalid shop ID');
+		}
+
+		const shop = await shops.getShop(shopId);
+
+		if (!shop) {
+			return sendError(ctx, 404, 'Shop not found');
+		}
+
+		ctx.json({ success: true, shop });
+	});
+
+	// History and statistics are owner-only, enforced by the service
+	app.get('/api/player-shops/history/:shopId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const shopId = parseInteger(ctx.params.shopId);
+		const query = getQuery(ctx);
+
+		if (shopId === undefined) {
+			return sendError(ctx, 400, 'Invalid shop ID');
+		}
+
+		const transactions = await shops.getTransactionHistory(
+			shopId,
+			player.playerId,
+			parseInteger(query.get('limit')),
+			parseInteger(query.get('offset')),
+		);
+
+		ctx.json({ success: true, transactions });
+	});
+
+	app.get('/api/player-shops/statistics/:shopId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const shopId = parseInteger(ctx.params.shopId);
+
+		if (shopId === undefined) {
+			return sendError(ctx, 400, 'Invalid shop ID');
+		}
+
+		const statistics = await shops.getStatistics(shopId, player.playerId);
+
+		if (!statistics) {
+			return sendError(ctx, 404, 'Shop not found');
+		}
+
+		ctx.json({ success: true, statistics });
+	});
+}
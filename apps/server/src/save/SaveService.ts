@@ -4,9 +4,16 @@
  */
 
 import { query, transaction } from '../database/index.ts';
-import type { PoolClient } from 'pg';
+import type { StorageClient } from '../database/index.ts';
+import type { SaveValidationResult, SaveValidator, SaveViolation } from './SaveValidator.ts';
+import { CURRENT_SAVE_VERSION, migrateSave } from './migrations.ts';
 
+/**
+ * Current save format. Older snapshots are upgraded by the steps in migrations.ts;
+ * bump the version there when changing this shape.
+ */
 export interface PlayerSaveData {
+	saveVersion: number;
 	profile: {
 		displayName: string;
 		level: number;
@@ -42,6 +49,18 @@ export interface PlayerSaveData {
 		skillLevel: number;
 		learnedFromJob: string;
 	}>;
+	quests: {
+		active: Array<{
+			questId: string;
+			progress: Record<string, number>;
+			acceptedAt: number;
+		}>;
+		completed: Array<{
+			questId: string;
+			completedAt: number;
+			timesCompleted: number;
+		}>;
+	};
 }
 
 export interface SaveResponse {
@@ -49,6 +68,7 @@ export interface SaveResponse {
 	message: string;
 	data?: PlayerSaveData;
 	error?: string;
+	violations?: SaveViolation[]; // Values the server rejected or corrected
 }
 
 export class SaveService {
@@ -104,7 +124,16 @@ export class SaveService {
 				[playerId],
 			);
 
+			// Load quests
+			const questsResult = await query(
+				`SELECT quest_id, status, progress, accepted_at, completed_at, times_completed
+				 FROM player_quests
+				 WHERE player_id = $1`,
+				[playerId],
+			);
+
 			const saveData: PlayerSaveData = {
+				saveVersion: CURRENT_SAVE_VERSION,
 				profile: {
 					displayName: profile.display_name,
 					level: profile.level,
@@ -137,6 +166,23 @@ export class SaveService {
 					skillLevel: row.skill_level,
 					learnedFromJob: row.learned_from_job,
 				})),
+				quests: {
+					active: questsResult.rows
+						.filter((row) => row.status === 'active')
+						.map((row) => ({
+							questId: row.quest_id,
+							progress: row.progress,
+							acceptedAt: new Date(row.accepted_at).getTime(),
+						})),
+					// Repeatable quests can be active again while keeping their completion history
+					completed: questsResult.rows
+						.filter((row) => row.times_completed > 0)
+						.map((row) => ({
+							questId: row.quest_id,
+							completedAt: new Date(row.completed_at).getTime(),
+							timesCompleted: row.times_completed,
+						})),
+				},
 			};
 
 			console.log('[Save] Loaded save for player:', playerId);
@@ -158,44 +204,63 @@ export class SaveService {
 
 	/**
 	 * Save player data
+	 * The validator checks the save against the server's ledgers first; impossible
+	 * values are replaced with the server's and malformed saves are rejected
 	 */
 	static async saveSave(
 		playerId: string,
 		saveData: PlayerSaveData,
+		validator: SaveValidator,
 		saveType: 'auto' | 'manual' | 'checkpoint' = 'auto',
 	): Promise<SaveResponse> {
+		let validation: SaveValidationResult;
+
 		try {
-			await transaction(async (client: PoolClient) => {
+			validation = await transaction(async (client: StorageClient) => {
+				const result = await validator.validate(client, playerId, saveData);
+				if (!result.valid) {
+					return result;
+				}
+
+				const { profile } = result.saveData;
+
 				// Update player profile
 				await client.query(
 					`UPDATE player_profiles
 					 SET display_name = $1, level = $2, experience = $3, gold = $4,
 					     position_x = $5, position_y = $6, current_map = $7,
 					     health = $8, max_health = $9, mana = $10, max_mana = $11,
-					     stats = $12, updated_at = CURRENT_TIMESTAMP
+					     stats = $12, validated_level = $2, validated_at = CURRENT_TIMESTAMP,
+					     updated_at = CURRENT_TIMESTAMP
 					 WHERE player_id = $13`,
 					[
-						saveData.profile.displayName,
-						saveData.profile.level,
-						saveData.profile.experience,
-						saveData.profile.gold,
-						saveData.profile.position.x,
-						saveData.profile.position.y,
-						saveData.profile.currentMap,
-						saveData.profile.health,
-						saveData.profile.maxHealth,
-						saveData.profile.mana,
-						saveData.profile.maxMana,
-						JSON.stringify(saveData.profile.stats),
+						profile.displayName,
+						profile.level,
+						profile.experience,
+						profile.gold,
+						profile.position.x,
+						profile.position.y,
+						profile.currentMap,
+						profile.health,
+						profile.maxHealth,
+						profile.mana,
+						profile.maxMana,
+						JSON.stringify(profile.stats),
 						playerId,
 					],
 				);
 
+				// Replace quest progress (saves from before quests were added carry none,
+				// so their migrated empty list must not wipe existing progress)
+				if (saveData.quests) {
+					await SaveService.saveQuests(client, playerId, result.saveData.quests);
+				}
+
 				// Create save snapshot
 				await client.query(
 					`INSERT INTO game_saves (player_id, save_data, save_type)
 					 VALUES ($1, $2, $3)`,
-					[playerId, JSON.stringify(saveData), saveType],
+					[playerId, JSON.stringify(result.saveData), saveType],
 				);
 
 				// Cleanup old auto-saves (keep last 10)
@@ -210,14 +275,9 @@ export class SaveService {
 					 )`,
 					[playerId],
 				);
-			});
-
-			console.log('[Save] Saved data for player:', playerId, `(${saveType})`);
 
-			return {
-				success: true,
-				message: 'Save successful',
-			};
+				return result;
+			});
 		} catch (error) {
 			console.error('[Save] Save error:', error);
 			return {
@@ -226,6 +286,95 @@ export class SaveService {
 				error: 'SAVE_ERROR',
 			};
 		}
+
+		await validator.recordViolations(playerId, saveType, validation);
+
+		if (!validation.valid) {
+			return {
+				success: false,
+				message:
+					validation.error === 'PROFILE_NOT_FOUND' ? 'Player profile not found' : 'Save rejected',
+				error: validation.error,
+				violations: validation.violations,
+			};
+		}
+
+		console.log('[Save] Saved data for player:', playerId, `(${saveType})`);
+
+		// Corrected saves send back what was stored so the client can resync
+		if (validation.violations.length > 0) {
+			return {
+				success: true,
+				message: 'Save corrected by server',
+				data: validation.saveData,
+				violations: validation.violations,
+			};
+		}
+
+		return {
+			success: true,
+			message: 'Save successful',
+		};
+	}
+
+	/**
+	 * Write quest progress rows, one per quest
+	 */
+	private static async saveQuests(
+		client: StorageClient,
+		playerId: string,
+		quests: PlayerSaveData['quests'],
+	): Promise<void> {
+		await client.query('DELETE FROM player_quests WHERE player_id = $1', [playerId]);
+
+		const rows = new Map<
+			string,
+			{
+				status: 'active' | 'completed';
+				progress: Record<string, number>;
+				acceptedAt: number | null;
+				completedAt: number | null;
+				timesCompleted: number;
+			}
+		>();
+
+		for (const completion of quests.completed) {
+			rows.set(completion.questId, {
+				status: 'completed',
+				progress: {},
+				acceptedAt: null,
+				completedAt: completion.completedAt,
+				timesCompleted: completion.timesCompleted,
+			});
+		}
+
+		for (const active of quests.active) {
+			const previous = rows.get(active.questId);
+			rows.set(active.questId, {
+				status: 'active',
+				progress: active.progress,
+				acceptedAt: active.acceptedAt,
+				completedAt: previous?.completedAt ?? null,
+				timesCompleted: previous?.timesCompleted ?? 0,
+			});
+		}
+
+		for (const [questId, row] of rows) {
+			await client.query(
+				`INSERT INTO player_quests
+				 (player_id, quest_id, status, progress, accepted_at, completed_at, times_completed)
+				 VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+				[
+					playerId,
+					questId,
+					row.status,
+					JSON.stringify(row.progress),
+					row.acceptedAt !== null ? new Date(row.acceptedAt) : null,
+					row.completedAt !== null ? new Date(row.completedAt) : null,
+					row.timesCompleted,
+				],
+			);
+		}
 	}
 
 	/**
@@ -259,7 +408,7 @@ export class SaveService {
 	}
 
 	/**
-	 * Load specific save snapshot
+	 * Load specific save snapshot, upgraded to the current save format
 	 */
 	static async loadSnapshot(
 		playerId: string,
@@ -284,7 +433,7 @@ export class SaveService {
 			return {
 				success: true,
 				message: 'Snapshot loaded successfully',
-				data: result.rows[0].save_data,
+				data: migrateSave(result.rows[0].save_data).data,
 			};
 		} catch (error) {
 			console.error('[Save] Load snapshot error:', error);
@@ -0,0 +1,550 @@
+/**
+ * Save Validator
+ * Checks client saves against the server's own ledgers (currency balance, inventory,
+ * EXP curve, world map) and clamps impossible values back to the server's state
+ */
+
+import type { StorageClient } from '../database/index.ts';
+import { CharacterProgression, DEFAULT_PROGRESSION_CONFIG } from '@rpg/game-core/progression/index';
+import type { Continent, WorldData, Zone } from '@rpg/game-core/world/index';
+import { query } from '../database/index.ts';
+import type { CurrencyService } from '../currency/CurrencyService.ts';
+import type { InventoryService } from '../inventory/InventoryService.ts';
+import type { PlayerSaveData } from './SaveService.ts';
+import { migrateSave } from './migrations.ts';
+
+type SaveStats = PlayerSaveData['profile']['stats'];
+
+export type SaveViolationField =
+	| 'save'
+	| 'gold'
+	| 'experience'
+	| 'stats'
+	| 'vitals'
+	| 'position'
+	| 'inventory';
+
+export interface SaveViolation {
+	field: SaveViolationField;
+	reason: string;
+	claimed?: unknown;
+	accepted?: unknown; // Value written instead (omitted when the whole save was rejected)
+}
+
+export interface SaveValidationResult {
+	valid: boolean; // False when the save was rejected outright
+	error?: 'INVALID_SAVE' | 'PROFILE_NOT_FOUND';
+	saveData: PlayerSaveData; // Corrected save to write
+	violations: SaveViolation[];
+}
+
+/**
+ * Server-side profile the save is checked against
+ */
+interface StoredProfile {
+	level: number;
+	experience: number;
+	stats: SaveStats;
+	maxHealth: number;
+	maxMana: number;
+	currentMap: string;
+	position: { x: number; y: number };
+	validatedLevel: number; // Level at the last validated save (battles may have added levels since)
+	validatedAt: Date;
+}
+
+const STAT_NAMES: (keyof SaveStats)[] = [
+	'strength',
+	'dexterity',
+	'intelligence',
+	'vitality',
+	'luck',
+];
+
+// Stat points a level-up may add (allocatable points plus automatic growth)
+const STAT_POINTS_PER_LEVEL =
+	DEFAULT_PROGRESSION_CONFIG.statPointsPerLevel +
+	Object.values(DEFAULT_PROGRESSION_CONFIG.attributeGrowth).reduce((sum, n) => sum + n, 0);
+
+// Max health and mana a level-up may add (automatic growth plus every stat point
+// spent on the attribute that raises them most)
+const VITALS_PER_LEVEL = getVitalsPerLevel();
+
+export class SaveValidator {
+	private currency: CurrencyService;
+	private inventory: InventoryService;
+	private world: WorldData;
+	private progression = new CharacterProgression();
+
+	// Configuration
+	// Battle EXP is written by the server; only quest rewards and the like arrive through saves
+	private readonly EXP_PER_MINUTE = 500; // Client-side EXP allowed per minute since the last save
+	private readonly MAX_EXP_ALLOWANCE = 15000; // Long gaps between saves don't bank more allowance
+	private readonly MAX_DISPLAY_NAME_LENGTH = 50;
+
+	constructor(currency: CurrencyService, inventory: InventoryService, world: WorldData) {
+		this.currency = currency;
+		this.inventory = inventory;
+		this.world = world;
+	}
+
+	/**
+	 * Validate a save inside the save transaction (locks the profile row)
+	 * Saves from older clients are upgraded to the current format first
+	 */
+	async validate(
+		client: StorageClient,
+		playerId: string,
+		saveData: PlayerSaveData,
+	): Promise<SaveValidationResult> {
+		try {
+			saveData = migrateSave(saveData).data;
+		} catch (error) {
+			return {
+				valid: false,
+				error: 'INVALID_SAVE',
+				saveData,
+				violations: [{ field: 'save', reason: (error as Error).message }],
+			};
+		}
+
+		const shapeError = this.checkShape(saveData);
+		if (shapeError) {
+			return {
+				valid: false,
+				error: 'INVALID_SAVE',
+				saveData,
+				violations: [{ field: 'save', reason: shapeError }],
+			};
+		}
+
+		const stored = await this.loadProfile(client, playerId);
+		if (!stored) {
+			return { valid: false, error: 'PROFILE_NOT_FOUND', saveData, violations: [] };
+		}
+
+		const violations: SaveViolation[] = [];
+		const profile = { ...saveData.profile, position: { ...saveData.profile.position } };
+
+		// Gold only moves through the currency ledger
+		const balance = await this.currency.getBalance(playerId, client);
+		if (profile.gold !== balance) {
+			violations.push({
+				field: 'gold',
+				reason: 'Gold does not match the currency ledger',
+				claimed: profile.gold,
+				accepted: balance,
+			});
+			profile.gold = balance;
+		}
+
+		this.checkExperience(profile, stored, violations);
+
+		// Stats and vitals grow with every level since the last save, including battle levels
+		const levelsGained = Math.max(0, profile.level - stored.validatedLevel);
+		this.checkStats(profile, stored, levelsGained, violations);
+		this.checkVitals(profile, stored, levelsGained, violations);
+		this.checkPosition(profile, stored, violations);
+
+		return {
+			valid: true,
+			saveData: {
+				...saveData,
+				profile,
+				inventory: await this.checkInventory(client, playerId, saveData.inventory, violations),
+			},
+			violations,
+		};
+	}
+
+	/**
+	 * Record a rejected or corrected save in the audit log
+	 */
+	async recordViolations(
+		playerId: string,
+		saveType: string,
+		result: SaveValidationResult,
+	): Promise<void> {
+		if (result.violations.length === 0) return;
+
+		try {
+			await query(
+				`INSERT INTO audit_logs (player_id, action, details)
+				 VALUES ($1, $2, $3)`,
+				[
+					playerId,
+					result.valid ? 'save_corrected' : 'save_rejected',
+					JSON.stringify({ save_type: saveType, violations: result.violations }),
+				],
+			);
+		} catch (error) {
+			console.error('[SaveValidator] Failed to record violations:', error);
+		}
+
+		console.warn(
+			`[SaveValidator] ${result.valid ? 'Corrected' : 'Rejected'} save for player ${playerId}:`,
+			result.violations.map((v) => v.reason).join('; '),
+		);
+	}
+
+	/**
+	 * Check the save has every field the server writes, with sane types
+	 */
+	private checkShape(saveData: PlayerSaveData): string | null {
+		const profile = saveData?.profile;
+		if (!profile || typeof profile !== 'object') {
+			return 'Save is missing its profile';
+		}
+
+		if (
+			typeof profile.displayName !== 'string' ||
+			!profile.displayName.trim() ||
+			profile.displayName.length > this.MAX_DISPLAY_NAME_LENGTH
+		) {
+			return `Display name must be 1-${this.MAX_DISPLAY_NAME_LENGTH} characters`;
+		}
+
+		const counters = {
+			level: profile.level,
+			experience: profile.experience,
+			gold: profile.gold,
+			health: profile.health,
+			maxHealth: profile.maxHealth,
+			mana: profile.mana,
+			maxMana: profile.maxMana,
+		};
+		for (const [name, value] of Object.entries(counters)) {
+			if (!Number.isSafeInteger(value) || value < 0) {
+				return `${name} must be a non-negative integer`;
+			}
+		}
+
+		if (!profile.stats || typeof profile.stats !== 'object') {
+			return 'Save is missing its stats';
+		}
+		for (const stat of STAT_NAMES) {
+			if (!Number.isSafeInteger(profile.stats[stat]) || profile.stats[stat] < 1) {
+				return `${stat} must be a positive integer`;
+			}
+		}
+
+		if (
+			!profile.position ||
+			!Number.isFinite(profile.position.x) ||
+			!Number.isFinite(profile.position.y)
+		) {
+			return 'Position must have finite x and y';
+		}
+		if (typeof profile.currentMap !== 'string' || !profile.currentMap) {
+			return 'Save is missing its current map';
+		}
+
+		if (
+			!Array.isArray(saveData.jobs) ||
+			!Array.isArray(saveData.inventory) ||
+			!Array.isArray(saveData.skills)
+		) {
+			return 'jobs, inventory and skills must be arrays';
+		}
+		if (!Array.isArray(saveData.quests?.active) || !Array.isArray(saveData.quests?.completed)) {
+			return 'quests must have active and completed arrays';
+		}
+
+		return null;
+	}
+
+	/**
+	 * Load and lock the server's copy of the profile
+	 */
+	private async loadProfile(client: StorageClient, playerId: string): Promise<StoredProfile | null> {
+		const result = await client.query(
+			`SELECT level, experience, stats, max_health, max_mana, current_map, position_x, position_y,
+			        validated_level, validated_at
+			 FROM player_profiles
+			 WHERE player_id = $1
+			 FOR UPDATE`,
+			[playerId],
+		);
+
+		const row = result.rows[0];
+		if (!row) return null;
+
+		return {
+			level: row.level,
+			experience: row.experience,
+			stats: row.stats,
+			maxHealth: row.max_health,
+			maxMana: row.max_mana,
+			currentMap: row.current_map,
+			position: { x: row.position_x, y: row.position_y },
+			validatedLevel: row.validated_level,
+			validatedAt: new Date(row.validated_at),
+		};
+	}
+
+	/**
+	 * Check level and EXP follow the curve and only grow as fast as play allows
+	 * The allowance builds up from the last validated save, so saving often earns nothing extra
+	 */
+	private checkExperience(
+		profile: PlayerSaveData['profile'],
+		stored: StoredProfile,
+		violations: SaveViolation[],
+	): void {
+		const maxLevel = DEFAULT_PROGRESSION_CONFIG.maxLevel;
+		const claimed = { level: profile.level, experience: profile.experience };
+		let reason: string | null = null;
+
+		if (profile.level < 1 || profile.level > maxLevel) {
+			reason = `Level must be between 1 and ${maxLevel}`;
+		} else if (
+			profile.level < maxLevel
+				? profile.experience >= this.progression.getExpForLevel(profile.level)
+				: profile.experience > 0
+		) {
+			reason = 'EXP is past the next level on the EXP curve';
+		} else {
+			const minutes = Math.max(0, Date.now() - stored.validatedAt.getTime()) / 60000;
+			const allowance = Math.min(this.MAX_EXP_ALLOWANCE, Math.floor(minutes * this.EXP_PER_MINUTE));
+			const gained =
+				this.totalExperience(profile.level, profile.experience) -
+				this.totalExperience(stored.level, stored.experience);
+
+			if (gained > allowance) {
+				reason = `Gained ${gained} EXP since the last save (at most ${allowance} allowed)`;
+			}
+		}
+
+		if (reason) {
+			profile.level = stored.level;
+			profile.experience = stored.experience;
+			violations.push({
+				field: 'experience',
+				reason,
+				claimed,
+				accepted: { level: profile.level, experience: profile.experience },
+			});
+		}
+	}
+
+	/**
+	 * Check stats only grew by what the levels gained allow
+	 */
+	private checkStats(
+		profile: PlayerSaveData['profile'],
+		stored: StoredProfile,
+		levelsGained: number,
+		violations: SaveViolation[],
+	): void {
+		const claimedTotal = STAT_NAMES.reduce((sum, stat) => sum + profile.stats[stat], 0);
+		const storedTotal = STAT_NAMES.reduce((sum, stat) => sum + Number(stored.stats[stat] ?? 0), 0);
+		const allowedTotal = storedTotal + levelsGained * STAT_POINTS_PER_LEVEL;
+
+		if (claimedTotal > allowedTotal) {
+			violations.push({
+				field: 'stats',
+				reason: `Stats total ${claimedTotal} but at most ${allowedTotal} is possible`,
+				claimed: profile.stats,
+				accepted: stored.stats,
+			});
+			profile.stats = stored.stats;
+		}
+	}
+
+	/**
+	 * Check max health and mana only grew by what the levels gained allow,
+	 * then keep health and mana within them
+	 */
+	private checkVitals(
+		profile: PlayerSaveData['profile'],
+		stored: StoredProfile,
+		levelsGained: number,
+		violations: SaveViolation[],
+	): void {
+		const allowedMaxHealth = stored.maxHealth + levelsGained * VITALS_PER_LEVEL.maxHealth;
+		const allowedMaxMana = stored.maxMana + levelsGained * VITALS_PER_LEVEL.maxMana;
+
+		if (profile.maxHealth > allowedMaxHealth || profile.maxMana > allowedMaxMana) {
+			const claimed = { maxHealth: profile.maxHealth, maxMana: profile.maxMana };
+			profile.maxHealth = Math.min(profile.maxHealth, allowedMaxHealth);
+			profile.maxMana = Math.min(profile.maxMana, allowedMaxMana);
+			violations.push({
+				field: 'vitals',
+				reason: `Max health or mana grew past ${allowedMaxHealth}/${allowedMaxMana}`,
+				claimed,
+				accepted: { maxHealth: profile.maxHealth, maxMana: profile.maxMana },
+			});
+		}
+
+		if (profile.health > profile.maxHealth || profile.mana > profile.maxMana) {
+			const claimed = { health: profile.health, mana: profile.mana };
+			profile.health = Math.min(profile.health, profile.maxHealth);
+			profile.mana = Math.min(profile.mana, profile.maxMana);
+			violations.push({
+				field: 'vitals',
+				reason: 'Health or mana is above its maximum',
+				claimed,
+				accepted: { health: profile.health, mana: profile.mana },
+			});
+		}
+	}
+
+	/**
+	 * Check the map exists and is reachable from the stored one: on foot within a
+	 * continent, or by fast travel to a town. Positions in a zone must lie inside it.
+	 */
+	private checkPosition(
+		profile: PlayerSaveData['profile'],
+		stored: StoredProfile,
+		violations: SaveViolation[],
+	): void {
+		const claimed = { currentMap: profile.currentMap, position: { ...profile.position } };
+		const reason = this.checkMapChange(stored.currentMap, profile.currentMap);
+
+		if (reason) {
+			profile.currentMap = stored.currentMap;
+			profile.position = { ...stored.position };
+			violations.push({
+				field: 'position',
+				reason,
+				claimed,
+				accepted: { currentMap: profile.currentMap, position: profile.position },
+			});
+			return;
+		}
+
+		const zone = this.findZone(profile.currentMap);
+		if (!zone) return;
+
+		const x = Math.min(Math.max(profile.position.x, 0), zone.size.width);
+		const y = Math.min(Math.max(profile.position.y, 0), zone.size.height);
+		if (x !== profile.position.x || y !== profile.position.y) {
+			profile.position = { x, y };
+			violations.push({
+				field: 'position',
+				reason: `Position is outside ${zone.id}`,
+				claimed,
+				accepted: { currentMap: profile.currentMap, position: profile.position },
+			});
+		}
+	}
+
+	/**
+	 * Get why a map change is impossible, or null when it is allowed
+	 */
+	private checkMapChange(from: string, to: string): string | null {
+		if (from === to) return null;
+
+		const toContinent = this.findContinent(to);
+		if (!toContinent) {
+			return `Unknown map: ${to}`;
+		}
+
+		// Profiles from before world data was checked may hold an unknown map
+		const fromContinent =
+			this.findContinent(from) ?? this.findContinent(this.world.starting_location.town);
+
+		if (toContinent.id === fromContinent?.id) return null;
+
+		const isTown = toContinent.towns.some((town) => town.id === to);
+		if (isTown && this.world.fast_travel.enabled) return null;
+
+		return `${to} is not reachable from ${from}`;
+	}
+
+	/**
+	 * Replace the claimed inventory with the server's, flagging items the server doesn't have
+	 */
+	private async checkInventory(
+		client: StorageClient,
+		playerId: string,
+		claimed: PlayerSaveData['inventory'],
+		violations: SaveViolation[],
+	): Promise<PlayerSaveData['inventory']> {
+		const items = await this.inventory.getInventory(playerId, client);
+
+		const owned = new Map<string, number>();
+		for (const item of items) {
+			owned.set(item.item_id, (owned.get(item.item_id) ?? 0) + item.quantity);
+		}
+
+		const claimedCounts = new Map<string, number>();
+		for (const slot of claimed) {
+			claimedCounts.set(slot.itemId, (claimedCounts.get(slot.itemId) ?? 0) + Number(slot.quantity));
+		}
+
+		const extra = Array.from(claimedCounts)
+			.filter(([itemId, quantity]) => !(quantity <= (owned.get(itemId) ?? 0)))
+			.map(([itemId, quantity]) => ({ itemId, claimed: quantity, owned: owned.get(itemId) ?? 0 }));
+
+		if (extra.length > 0) {
+			violations.push({
+				field: 'inventory',
+				reason: 'Inventory has items the server has no record of',
+				claimed: extra,
+			});
+		}
+
+		return items.map((item) => ({
+			itemId: item.item_id,
+			quantity: item.quantity,
+			slotIndex: item.slot_index,
+			isEquipped: item.is_equipped,
+		}));
+	}
+
+	/**
+	 * Total EXP earned to reach a level and EXP
+	 */
+	private totalExperience(level: number, experience: number): number {
+		let total = experience;
+		for (let l = 1; l < level; l++) {
+			total += this.progression.getExpForLevel(l);
+		}
+		return total;
+	}
+
+	/**
+	 * Find the continent a zone or town is on
+	 */
+	private findContinent(mapId: string): Continent | null {
+		return (
+			this.world.continents.find(
+				(continent) =>
+					continent.zones.some((zone) => zone.id === mapId) ||
+					continent.towns.some((town) => town.id === mapId),
+			) ?? null
+		);
+	}
+
+	/**
+	 * Find a zone by ID
+	 */
+	private findZone(mapId: string): Zone | null {
+		for (const continent of this.world.continents) {
+			const zone = continent.zones.find((z) => z.id === mapId);
+			if (zone) return zone;
+		}
+		return null;
+	}
+}
+
+/**
+ * Get the most max health and mana one level-up can add
+ */
+function getVitalsPerLevel(): { maxHealth: number; maxMana: number } {
+	const base = new CharacterProgression().deriveCombatStats();
+	const growth = { maxHealth: 0, maxMana: 0 };
+
+	for (const stat of STAT_NAMES) {
+		const progression = new CharacterProgression();
+		progression.addExperience(progression.getExpForLevel(1));
+		progression.allocateStatPoints(stat, DEFAULT_PROGRESSION_CONFIG.statPointsPerLevel);
+
+		const stats = progression.deriveCombatStats();
+		growth.maxHealth = Math.max(growth.maxHealth, stats.maxHp - base.maxHp);
+		growth.maxMana = Math.max(growth.maxMana, stats.maxMp - base.maxMp);
+	}
+
+	return growth;
+}
@@ -4,4 +4,14 @@
  */
 
 export { SaveService } from './SaveService.ts';
+export { SaveValidator } from './SaveValidator.ts';
+export { CURRENT_SAVE_VERSION, SAVE_MIGRATIONS, getSaveVersion, migrateSave } from './migrations.ts';
+export { migrateSaveSnapshots } from './migrateSaves.ts';
 export type { PlayerSaveData, SaveResponse } from './SaveService.ts';
+export type {
+	SaveValidationResult,
+	SaveViolation,
+	SaveViolationField,
+} from './SaveValidator.ts';
+export type { MigratedSave, SaveMigration } from './migrations.ts';
+export type { SaveMigrationReport } from './migrateSaves.ts';
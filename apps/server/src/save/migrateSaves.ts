@@ -0,0 +1,92 @@
+/**
+ * Bulk Save Migration
+ * Upgrades every stored game_saves snapshot to the current save format
+ *
+ * Usage: bun run src/save/migrateSaves.ts [--dry-run]
+ */
+
+import { pool, testConnection } from '../database/index.ts';
+import type { StorageResult } from '../database/index.ts';
+import { CURRENT_SAVE_VERSION, migrateSave } from './migrations.ts';
+
+export interface SaveMigrationReport {
+	scanned: number;
+	migrated: number;
+	failed: number;
+}
+
+const BATCH_SIZE = 500;
+
+/**
+ * Migrate snapshots older than CURRENT_SAVE_VERSION in batches
+ * A snapshot that fails to migrate is logged and left as it is
+ */
+export async function migrateSaveSnapshots(dryRun: boolean = false): Promise<SaveMigrationReport> {
+	const report: SaveMigrationReport = { scanned: 0, migrated: 0, failed: 0 };
+	let lastId: string | null = null;
+	let batchLength: number;
+
+	console.log(
+		`[SaveMigration] Upgrading snapshots to version ${CURRENT_SAVE_VERSION}${dryRun ? ' (dry run)' : ''}...`,
+	);
+
+	do {
+		const result: StorageResult<{ id: string; save_data: any }> = await pool.query(
+			`SELECT id, save_data
+			 FROM game_saves
+			 WHERE COALESCE((save_data->>'saveVersion')::int, 1) < $1
+			 AND ($2::uuid IS NULL OR id > $2::uuid)
+			 ORDER BY id
+			 LIMIT $3`,
+			[CURRENT_SAVE_VERSION, lastId, BATCH_SIZE],
+		);
+
+		batchLength = result.rows.length;
+
+		for (const row of result.rows) {
+			report.scanned++;
+			lastId = row.id;
+
+			try {
+				const { data } = migrateSave(row.save_data);
+
+				if (!dryRun) {
+					await pool.query('UPDATE game_saves SET save_data = $1 WHERE id = $2', [
+						JSON.stringify(data),
+						row.id,
+					]);
+				}
+
+				report.migrated++;
+			} catch (error) {
+				report.failed++;
+				console.error(`[SaveMigration] ✗ Snapshot ${row.id}:`, (error as Error).message);
+			}
+		}
+
+		console.log(`[SaveMigration] ${report.scanned} snapshots processed...`);
+	} while (batchLength === BATCH_SIZE);
+
+	console.log(
+		`[SaveMigration] ✓ ${report.migrated} ${dryRun ? 'would be migrated' : 'migrated'}, ${report.failed} failed`,
+	);
+
+	return report;
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+	testConnection()
+		.then(async (connected) => {
+			if (!connected) {
+				throw new Error('Failed to connect to database');
+			}
+
+			const report = await migrateSaveSnapshots(process.argv.includes('--dry-run'));
+			process.exit(report.failed > 0 ? 1 : 0);
+		})
+		.catch((error) => {
+			console.error('[SaveMigration] Migration failed:', error);
+			process.exit(1);
+		});
+}
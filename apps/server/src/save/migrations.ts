@@ -0,0 +1,89 @@
+/**
+ * Save Migrations
+ * Upgrades older PlayerSaveData snapshots to the current format, one version at a time
+ */
+
+import type { PlayerSaveData } from './SaveService.ts';
+
+/**
+ * A step from `version - 1` to `version`. Steps receive the save as it was
+ * written at the previous version, so they must not assume later fields exist.
+ */
+export interface SaveMigration {
+	version: number;
+	description: string;
+	migrate: (save: any) => any;
+}
+
+export interface MigratedSave {
+	data: PlayerSaveData;
+	fromVersion: number;
+	migrated: boolean;
+}
+
+// Saves written before saveVersion existed are version 1
+const UNVERSIONED_SAVE_VERSION = 1;
+
+// Append new steps here when the save format changes; never edit a released step
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+	{
+		version: 2,
+		description: 'Add quest progress',
+		migrate: (save) => ({
+			...save,
+			quests: save.quests ?? { active: [], completed: [] },
+		}),
+	},
+];
+
+export const CURRENT_SAVE_VERSION = SAVE_MIGRATIONS.reduce(
+	(latest, migration) => Math.max(latest, migration.version),
+	UNVERSIONED_SAVE_VERSION,
+);
+
+/**
+ * Get the format version a save was written at
+ */
+export function getSaveVersion(save: any): number {
+	return save?.saveVersion ?? UNVERSIONED_SAVE_VERSION;
+}
+
+/**
+ * Upgrade a save to CURRENT_SAVE_VERSION
+ * Throws if the save comes from a newer server or a step fails
+ */
+export function migrateSave(save: any): MigratedSave {
+	if (!save || typeof save !== 'object' || Array.isArray(save)) {
+		throw new Error('Save data must be an object');
+	}
+
+	const fromVersion = getSaveVersion(save);
+
+	if (!Number.isInteger(fromVersion) || fromVersion < UNVERSIONED_SAVE_VERSION) {
+		throw new Error(`Invalid save version: ${fromVersion}`);
+	}
+	if (fromVersion > CURRENT_SAVE_VERSION) {
+		throw new Error(
+			`Save version ${fromVersion} is newer than this server supports (${CURRENT_SAVE_VERSION})`,
+		);
+	}
+
+	let data = save;
+	for (const migration of SAVE_MIGRATIONS) {
+		if (migration.version <= fromVersion) continue;
+
+		try {
+			data = migration.migrate(data);
+		} catch (error) {
+			throw new Error(
+				`Save migration to version ${migration.version} (${migration.description}) failed: ${(error as Error).message}`,
+			);
+		}
+	}
+
+	return {
+		data: { ...data, saveVersion: CURRENT_SAVE_VERSION },
+		fromVersion,
+		migrated: fromVersion < CURRENT_SAVE_VERSION,
+	};
+}
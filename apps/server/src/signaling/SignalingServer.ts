@@ -8,6 +8,7 @@ import type { WebSocket } from 'elit/ws';
 export interface PlayerConnection {
 	playerId: string;
 	username: string;
+	sessionId: string; // Auth session the socket was opened with
 	ws: WebSocket;
 	currentZone: string | null;
 	position: { x: number; y: number };
@@ -22,27 +23,118 @@ export interface SignalingMessage {
 		| 'webrtc-answer'
 		| 'ice-candidate'
 		| 'position-update'
-		| 'disconnect';
+		| 'disconnect'
+		// Server -> client game events
+		| 'arena-match-found'
+		| 'arena-match-ready'
+		| 'arena-match-cancelled'
+		| 'arena-party-invite'
+		| 'arena-party-updated'
+		| 'arena-queue-timeout'
+		| 'battle-update'
+		| 'battle-turn'
+		| 'battle-end'
+		| 'spectate-update'
+		| 'spectate-end'
+		| 'guild-invite'
+		| 'guild-updated'
+		| 'guild-removed'
+		| 'guild-chat-message'
+		| 'party-invite'
+		| 'party-updated'
+		| 'party-member-status'
+		| 'party-chat-message'
+		| 'party-loot-roll'
+		| 'party-loot-result'
+		| 'friend-request'
+		| 'friend-added'
+		| 'friend-removed'
+		| 'friend-presence'
+		| 'chat-message'
+		| 'chat-muted'
+		| 'chat-unmuted'
+		| 'game-error'
+		// Client -> server game requests
+		| 'arena-ready'
+		| 'battle-action'
+		| 'guild-chat'
+		| 'party-status'
+		| 'party-chat'
+		| 'party-loot-choice'
+		| 'chat-send'
+		| 'chat-report'
+		| 'chat-mute'
+		| 'chat-unmute';
 	from?: string;
 	to?: string;
 	zoneId?: string;
 	data?: any;
 }
 
+// The username comes from the authenticated connection, never from the message
+export type GameMessageHandler = (
+	playerId: string,
+	message: SignalingMessage,
+	username: string,
+) => void;
+
+/**
+ * Whether a player is connected and which zone they are in
+ */
+export interface PlayerPresence {
+	online: boolean;
+	zone_id: string | null;
+}
+
+export type PresenceHandler = (playerId: string, presence: PlayerPresence) => void;
+
+// Client requests handled by game services rather than relayed
+const GAME_REQUEST_TYPES: SignalingMessage['type'][] = [
+	'arena-ready',
+	'battle-action',
+	'guild-chat',
+	'party-status',
+	'party-chat',
+	'party-loot-choice',
+	'chat-send',
+	'chat-report',
+	'chat-mute',
+	'chat-unmute',
+];
+
 export class SignalingServer {
 	private connections: Map<string, PlayerConnection> = new Map();
 	private zones: Map<string, Set<string>> = new Map();
+	private gameMessageHandler: GameMessageHandler | null = null;
+	private disconnectHandler: ((playerId: string) => void) | null = null;
+	private presenceHandler: PresenceHandler | null = null;
+
+	/**
+	 * Set callbacks for game requests and disconnects
+	 */
+	setGameCallbacks(onMessage: GameMessageHandler, onDisconnect: (playerId: string) => void): void {
+		this.gameMessageHandler = onMessage;
+		this.disconnectHandler = onDisconnect;
+	}
+
+	/**
+	 * Set callback for players connecting, disconnecting and changing zones
+	 */
+	setPresenceCallback(onPresence: PresenceHandler): void {
+		this.presenceHandler = onPresence;
+	}
 
 	/**
 	 * Handle new WebSocket connection
 	 */
-	handleConnection(ws: WebSocket, playerId: string, username: string): void {
+	handleConnection(ws: WebSocket, playerId: string, username: string, sessionId: string): void {
 		console.log(`[Signaling] Player connected: ${username} (${playerId})`);
 
 		// Store connection
 		const connection: PlayerConnection = {
 			playerId,
 			username,
+			sessionId,
 			ws,
 			currentZone: null,
 			position: { x: 0, y: 0 },
@@ -73,6 +165,8 @@ export class SignalingServer {
 			type: 'peer-list',
 			data: { message: 'Connected to signaling server' },
 		});
+
+		this.notifyPresence(playerId);
 	}
 
 	/**
@@ -85,10 +179,12 @@ export class SignalingServer {
 		switch (message.type) {
 			case 'join-zone':
 				this.handleJoinZone(playerId, message.zoneId!);
+				this.notifyPresence(playerId);
 				break;
 
 			case 'leave-zone':
 				this.handleLeaveZone(playerId);
+				this.notifyPresence(playerId);
 				break;
 
 			case 'webrtc-offer':
@@ -102,7 +198,11 @@ export class SignalingServer {
 				break;
 
 			default:
-				console.warn(`[Signaling] Unknown message type: ${message.type}`);
+				if (GAME_REQUEST_TYPES.includes(message.type) && this.gameMessageHandler) {
+					this.gameMessageHandler(playerId, message, connection.username);
+				} else {
+					console.warn(`[Signaling] Unknown message type: ${message.type}`);
+				}
 		}
 	}
 
@@ -253,6 +353,35 @@ export class SignalingServer {
 
 		// Remove connection
 		this.connections.delete(playerId);
+
+		this.disconnectHandler?.(playerId);
+		this.notifyPresence(playerId);
+	}
+
+	/**
+	 * Get a player's current presence
+	 */
+	getPresence(playerId: string): PlayerPresence {
+		const connection = this.connections.get(playerId);
+
+		return {
+			online: !!connection,
+			zone_id: connection?.currentZone ?? null,
+		};
+	}
+
+	/**
+	 * Report a player's presence after it changed
+	 */
+	private notifyPresence(playerId: string): void {
+		this.presenceHandler?.(playerId, this.getPresence(playerId));
+	}
+
+	/**
+	 * Push a server message to connected players (offline players are skipped)
+	 */
+	sendToPlayers(playerIds: string[], message: SignalingMessage): void {
+		playerIds.forEach((playerId) => this.sendToPlayer(playerId, message));
 	}
 
 	/**
@@ -294,6 +423,41 @@ export class SignalingServer {
 		return this.connections.size;
 	}
 
+	/**
+	 * Get IDs of all connected players
+	 */
+	getConnectedPlayers(): string[] {
+		return Array.from(this.connections.keys());
+	}
+
+	/**
+	 * Get the auth sessions of all open connections
+	 */
+	getConnectedSessions(): string[] {
+		return Array.from(this.connections.values(), (connection) => connection.sessionId);
+	}
+
+	/**
+	 * Close the connections opened with any of the given sessions
+	 */
+	closeSessions(sessionIds: string[], reason: string): void {
+		const closing = new Set(sessionIds);
+
+		for (const connection of this.connections.values()) {
+			if (!closing.has(connection.sessionId)) continue;
+
+			console.log(`[Signaling] Closing connection for ${connection.username}: ${reason}`);
+			try {
+				connection.ws.close(1008, reason);
+			} catch (error) {
+				console.error(`[Signaling] Failed to close ${connection.playerId}:`, error);
+			}
+
+			// Stop handling its messages without waiting for the close handshake
+			this.handleDisconnect(connection.playerId);
+		}
+	}
+
 	/**
 	 * Get zone count
 	 */
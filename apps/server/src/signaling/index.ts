@@ -4,4 +4,10 @@
  */
 
 export { SignalingServer } from './SignalingServer.ts';
-export type { PlayerConnection, SignalingMessage } from './SignalingServer.ts';
+export type {
+	PlayerConnection,
+	PlayerPresence,
+	PresenceHandler,
+	SignalingMessage,
+	GameMessageHandler,
+} from './SignalingServer.ts';
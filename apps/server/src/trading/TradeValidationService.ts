@@ -3,7 +3,7 @@
  * Server-side validation for P2P trades to prevent duplication and cheating
  */
 
-import type { Pool } from 'pg';
+import type { StorageBackend } from '../database/index.ts';
 
 export interface TradeItem {
 	item_id: string;
@@ -29,7 +29,7 @@ export interface TradeValidationResult {
 }
 
 export class TradeValidationService {
-	private pool: Pool;
+	private pool: StorageBackend;
 	private activeTrades: Map<string, Trade> = new Map();
 
 	// Anti-cheat limits
@@ -37,65 +37,10 @@ export class TradeValidationService {
 	private readonly MAX_TRADE_CURRENCY = 1000000; // Max currency per trade
 	private readonly MAX_TRADES_PER_HOUR = 50;
 
-	constructor(pool: Pool) {
+	constructor(pool: StorageBackend) {
 		this.pool = pool;
 	}
 
-	/**
-	 * Initialize trade validation tables
-	 */
-	async initializeTables(): Promise<void> {
-		const client = await this.pool.connect();
-
-		try {
-			await client.query('BEGIN');
-
-			// Trade log table
-			await client.query(`
-				CREATE TABLE IF NOT EXISTS trade_logs (
-					id SERIAL PRIMARY KEY,
-					trade_id VARCHAR(255) NOT NULL,
-					initiator_id VARCHAR(255) NOT NULL,
-					partner_id VARCHAR(255) NOT NULL,
-					initiator_items JSONB,
-					partner_items JSONB,
-					initiator_currency BIGINT,
-					partner_currency BIGINT,
-					status VARCHAR(50) NOT NULL,
-					timestamp TIMESTAMP NOT NULL DEFAULT NOW(),
-
-					FOREIGN KEY (initiator_id) REFERENCES players(id) ON DELETE CASCADE,
-					FOREIGN KEY (partner_id) REFERENCES players(id) ON DELETE CASCADE
-				)
-			`);
-
-			// Create indexes
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_trade_logs_initiator
-				ON trade_logs(initiator_id)
-			`);
-
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_trade_logs_partner
-				ON trade_logs(partner_id)
-			`);
-
-			await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_trade_logs_timestamp
-				ON trade_logs(timestamp DESC)
-			`);
-
-			await client.query('COMMIT');
-			console.log('[TradeValidationService] Tables initialized successfully');
-		} catch (error) {
-			await client.query('ROLLBACK');
-			console.error('[TradeValidationService] Failed to initialize tables:', error);
-			throw error;
-		} finally {
-			client.release();
-		}
-	}
-
 	/**
 	 * Validate trade before execution
 	 */
@@ -284,6 +229,13 @@ export class TradeValidationService {
 		this.activeTrades.delete(trade.trade_id);
 	}
 
+	/**
+	 * Get a validated trade that has not been logged or cancelled yet
+	 */
+	getActiveTrade(tradeId: string): Trade | null {
+		return this.activeTrades.get(tradeId) || null;
+	}
+
 	/**
 	 * Cancel trade
 	 */
@@ -0,0 +1,13 @@
+/**
+ * Trading Module
+ * P2P trade validation and REST routes
+ */
+
+export { TradeValidationService } from './TradeValidationService.ts';
+export type {
+	TradeItem,
+	TradeOffer,
+	Trade,
+	TradeValidationResult,
+} from './TradeValidationService.ts';
+export { registerTradingRoutes } from './routes.ts';
@@ -0,0 +1,106 @@
+/**
+ * Trading Routes
+ * REST endpoints for validating and recording P2P trades (all require authentication)
+ */
+
+import type { Elit } from 'elit';
+import { authMiddleware } from '../auth/middleware.ts';
+import {
+	getPlayer,
+	getQuery,
+	parseInteger,
+	readBody,
+	sendError,
+	sendResult,
+} from '../http/index.ts';
+import type { Trade, TradeOffer, TradeValidationService } from './TradeValidationService.ts';
+
+function isTradeOffer(offer: any): offer is TradeOffer {
+	return (
+		!!offer &&
+		typeof offer.player_id === 'string' &&
+		Array.isArray(offer.items) &&
+		typeof offer.currency === 'number'
+	);
+}
+
+function isParticipant(trade: Trade, playerId: string): boolean {
+	return trade.initiator.player_id === playerId || trade.partner.player_id === playerId;
+}
+
+export function registerTradingRoutes(app: Elit, trading: TradeValidationService): void {
+	// The initiator submits both offers for validation before the P2P exchange
+	app.post('/api/trading/validate', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const body = await readBody<Partial<Trade>>(ctx);
+
+		if (!body?.trade_id || !isTradeOffer(body.initiator) || !isTradeOffer(body.partner)) {
+			return sendError(ctx, 400, 'trade_id, initiator and partner offers are required');
+		}
+
+		if (body.initiator.player_id !== player.playerId) {
+			return sendError(ctx, 403, 'Only the initiator can submit a trade');
+		}
+
+		const result = await trading.validateTrade({
+			trade_id: String(body.trade_id),
+			initiator: body.initiator,
+			partner: body.partner,
+			status: 'pending',
+		});
+
+		sendResult(ctx, { ...result, success: result.valid });
+	});
+
+	// Logs the validated offers, not whatever the client sends back
+	app.post('/api/trading/complete/:tradeId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const trade = trading.getActiveTrade(ctx.params.tradeId);
+
+		if (!trade) {
+			return sendError(ctx, 404, 'Trade not found');
+		}
+
+		if (!isParticipant(trade, player.playerId)) {
+			return sendError(ctx, 403, 'Not a participant in this trade');
+		}
+
+		await trading.logTrade({ ...trade, status: 'completed' });
+		ctx.json({ success: true });
+	});
+
+	app.post('/api/trading/cancel/:tradeId', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const trade = trading.getActiveTrade(ctx.params.tradeId);
+
+		if (!trade) {
+			return sendError(ctx, 404, 'Trade not found');
+		}
+
+		if (!isParticipant(trade, player.playerId)) {
+			return sendError(ctx, 403, 'Not a participant in this trade');
+		}
+
+		await trading.cancelTrade(trade.trade_id);
+		ctx.json({ success: true });
+	});
+
+	app.get('/api/trading/history', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const query = getQuery(ctx);
+		const trades = await trading.getTradeHistory(
+			player.playerId,
+			parseInteger(query.get('limit')),
+			parseInteger(query.get('offset')),
+		);
+
+		ctx.json({ success: true, trades });
+	});
+
+	app.get('/api/trading/statistics', authMiddleware, async (ctx) => {
+		const player = getPlayer(ctx);
+		const statistics = await trading.getTradeStatistics(player.playerId);
+
+		ctx.json({ success: true, statistics });
+	});
+}
@@ -22,7 +22,7 @@ try {
 	console.log('\nTo run the server:');
 	console.log('  1. Setup PostgreSQL database');
 	console.log('  2. Copy .env.example to .env and configure');
-	console.log('  3. Run: bun run src/database/init.ts');
+	console.log('  3. Run: bun run migrate up');
 	console.log('  4. Run: bun run dev');
 } catch (error) {
 	console.error('\n❌ Import failed:', error);
@@ -12,6 +12,7 @@ export default defineConfig({
       '@rpg/game-core': resolve(__dirname, '../../packages/game-core/src'),
       '@rpg/networking': resolve(__dirname, '../../packages/networking/src'),
       '@rpg/shared': resolve(__dirname, '../../packages/shared/src'),
+      '@rpg/data': resolve(__dirname, '../../packages/data'),
     },
     extensions: ['.ts', '.tsx', '.js', '.jsx', '.json'],
   },
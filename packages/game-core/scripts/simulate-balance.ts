@@ -0,0 +1,197 @@
+/**
+ * Balance Simulator CLI
+ * Runs headless battles against packages/data monsters and prints win rates and usage stats
+ *
+ * Usage:
+ *   bun run scripts/simulate-balance.ts --party warrior:5:rusty_sword,healer:5 --monsters goblin,goblin
+ *   bun run scripts/simulate-balance.ts --party mage:8 --zone forest --items potion:3 --battles 5000
+ *
+ * Options:
+ *   --party     Comma-separated members as job:level[:item+item...] (equipment item IDs)
+ *   --monsters  Comma-separated monster IDs, optionally monster:level (one matchup)
+ *   --zone      Zone from monsters/index.json; runs each zone monster at its min and max level
+ *   --items     Consumables given to every member, as item:quantity,...
+ *   --battles   Battles per matchup (default 1000)
+ *   --seed      Base RNG seed (default 1)
+ *   --json      Print reports as JSON
+ *
+ * Party members are played by CombatAI, which never heals allies: healers only heal
+ * themselves, so parties that rely on a healer show lower win rates than real players get.
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { BalanceSimulator } from '../src/simulation/BalanceSimulator.ts';
+import type {
+	MatchupConfig,
+	MatchupReport,
+	PartyMemberConfig,
+} from '../src/simulation/BalanceSimulator.ts';
+import type { MonsterData } from '../src/combat/MonsterFactory.ts';
+import type { Item } from '../src/inventory/InventoryManager.ts';
+import type { Job } from '../src/jobs/JobManager.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const DATA_DIR = join(__dirname, '../../data');
+
+interface MonsterIndex {
+	monsters: { id: string; file: string; minLevel: number; maxLevel: number }[];
+	zones: Record<string, string[]>;
+}
+
+function readJson<T>(...segments: string[]): T {
+	return JSON.parse(readFileSync(join(DATA_DIR, ...segments), 'utf-8'));
+}
+
+function loadData(): { jobs: Job[]; monsters: MonsterData[]; items: Item[]; index: MonsterIndex } {
+	const jobIndex = readJson<{ jobFiles: string[] }>('jobs', 'index.json');
+	const monsterIndex = readJson<MonsterIndex>('monsters', 'index.json');
+	const itemFiles = ['weapons.json', 'armor.json', 'consumables.json'];
+
+	return {
+		jobs: jobIndex.jobFiles.map((file) => readJson<Job>('jobs', file)),
+		monsters: monsterIndex.monsters.map((entry) => readJson<MonsterData>('monsters', entry.file)),
+		items: itemFiles.flatMap((file) => readJson<{ items: Item[] }>('items', file).items),
+		index: monsterIndex,
+	};
+}
+
+function parseArgs(argv: string[]): Map<string, string> {
+	const args = new Map<string, string>();
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		if (!arg?.startsWith('--')) continue;
+
+		const next = argv[i + 1];
+		if (next && !next.startsWith('--')) {
+			args.set(arg.slice(2), next);
+			i++;
+		} else {
+			args.set(arg.slice(2), 'true');
+		}
+	}
+	return args;
+}
+
+function parseParty(value: string, items: string | undefined): PartyMemberConfig[] {
+	const consumables = (items ?? '')
+		.split(',')
+		.filter(Boolean)
+		.map((entry) => {
+			const [itemId = '', quantity = '1'] = entry.split(':');
+			return { itemId, quantity: Number(quantity) };
+		});
+
+	return value.split(',').map((entry) => {
+		const [jobId = '', level = '1', equipment] = entry.split(':');
+		return {
+			jobId,
+			level: Number(level),
+			equipment: equipment ? equipment.split('+') : [],
+			consumables,
+		};
+	});
+}
+
+function buildMatchups(
+	args: Map<string, string>,
+	party: PartyMemberConfig[],
+	index: MonsterIndex,
+): MatchupConfig[] {
+	const zone = args.get('zone');
+	if (zone) {
+		const monsterIds = index.zones[zone];
+		if (!monsterIds) {
+			throw new Error(`Unknown zone: ${zone}`);
+		}
+
+		return monsterIds.flatMap((monsterId) => {
+			const entry = index.monsters.find((m) => m.id === monsterId);
+			const levels = entry ? [...new Set([entry.minLevel, entry.maxLevel])] : [undefined];
+			return levels.map((level) => ({
+				name: `${zone}: ${monsterId}${level !== undefined ? ` Lv.${level}` : ''}`,
+				party,
+				monsters: [{ monsterId, level }],
+			}));
+		});
+	}
+
+	const monsters = args.get('monsters');
+	if (!monsters) {
+		throw new Error('Either --monsters or --zone is required');
+	}
+
+	return [
+		{
+			party,
+			monsters: monsters.split(',').map((entry) => {
+				const [monsterId = '', level] = entry.split(':');
+				return { monsterId, level: level ? Number(level) : undefined };
+			}),
+		},
+	];
+}
+
+function printReport(report: MatchupReport): void {
+	const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+	const dist = (d: MatchupReport['damageDealt']) =>
+		`min ${d.min} / p25 ${d.p25} / median ${d.median} / p75 ${d.p75} / max ${d.max} (mean ${d.mean})`;
+
+	console.log(`\n=== ${report.name} ===`);
+	console.log(
+		`Battles: ${report.battles}  Win rate: ${pct(report.winRate)}  ` +
+			`(W ${report.wins} / L ${report.losses} / timeout ${report.timeouts})`,
+	);
+	console.log(`Average turns: ${report.avgTurns}`);
+	console.log(`Damage dealt: ${dist(report.damageDealt)}`);
+	console.log(`Damage taken: ${dist(report.damageTaken)}`);
+
+	for (const member of report.members) {
+		console.log(
+			`  ${member.name.padEnd(18)} dmg ${String(member.avgDamageDealt).padStart(8)}  ` +
+				`mp ${String(member.avgMpSpent).padStart(6)}  deaths ${pct(member.deathRate)}`,
+		);
+	}
+
+	const consumables = Object.entries(report.consumablesUsed);
+	if (consumables.length > 0) {
+		console.log(
+			`Consumables per battle: ${consumables.map(([id, uses]) => `${id} ${uses}`).join(', ')}`,
+		);
+	}
+}
+
+function main(): void {
+	const args = parseArgs(process.argv.slice(2));
+	const partyArg = args.get('party');
+	if (!partyArg) {
+		throw new Error('--party is required (e.g. --party warrior:5,healer:5)');
+	}
+
+	const { jobs, monsters, items, index } = loadData();
+	const simulator = new BalanceSimulator({ jobs, monsters, items });
+	const party = parseParty(partyArg, args.get('items'));
+	const matchups = buildMatchups(args, party, index);
+
+	const options = {
+		battles: Number(args.get('battles') ?? 1000),
+		seed: Number(args.get('seed') ?? 1),
+	};
+
+	const reports = matchups.map((matchup) => simulator.runMatchup(matchup, options));
+
+	if (args.has('json')) {
+		console.log(JSON.stringify(reports, null, 2));
+	} else {
+		reports.forEach(printReport);
+	}
+}
+
+try {
+	main();
+} catch (error) {
+	console.error('[BalanceSimulator]', error instanceof Error ? error.message : error);
+	process.exit(1);
+}
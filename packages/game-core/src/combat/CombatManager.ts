@@ -4,6 +4,13 @@
  */
 
 import { EventEmitter } from '../utils/EventEmitter';
+import { InventoryManager } from '../inventory/InventoryManager';
+import type { InventorySlot, Item } from '../inventory/InventoryManager';
+import { SkillRegistry } from './SkillRegistry';
+import type { SkillData } from './SkillRegistry';
+import { StatusEffectEngine } from './StatusEffectEngine';
+import type { CleanseFilter, ModifiableStat } from './StatusEffectEngine';
+import { DeterministicRNG } from './CombatSync';
 
 export enum CombatState {
 	INIT = 'INIT',
@@ -39,6 +46,7 @@ export interface StatusEffect {
 	value: number;
 	duration: number;
 	turnsLeft: number;
+	stacks?: number;
 }
 
 export interface CombatEntity {
@@ -49,7 +57,16 @@ export interface CombatEntity {
 	skills: string[];
 	element?: string;
 	statusEffects: StatusEffect[];
+	immunities?: string[];
 	isPlayer: boolean;
+	isAI?: boolean; // Player-side entity controlled by AI (enemies are always AI)
+	aiPattern?: string;
+	monsterId?: string; // Monster data ID, set for entities built by MonsterFactory
+	stealableItems?: string[]; // Item IDs a steal can take from an entity without an inventory
+	rewards?: {
+		exp: number;
+		gold: number;
+	};
 }
 
 export interface CombatAction {
@@ -65,7 +82,56 @@ export interface DamageResult {
 	isCritical: boolean;
 	isResisted: boolean;
 	isWeak: boolean;
+	isMissed?: boolean;
+	healing?: number;
+	mpRestored?: number;
 	statusInflicted?: string;
+	itemStolen?: string;
+}
+
+export interface CombatRewardShare {
+	entityId: string;
+	exp: number;
+	gold: number;
+}
+
+export interface CombatRewards {
+	totalExp: number;
+	totalGold: number;
+	shares: CombatRewardShare[];
+}
+
+/**
+ * Random source used for every roll in combat
+ * DeterministicRNG satisfies this; the seed is recorded in the combat log
+ */
+export interface RandomSource {
+	next(): number;
+	getSeed(): number;
+	reset(seed: number): void;
+}
+
+export interface CombatManagerOptions {
+	skillRegistry?: SkillRegistry;
+	statusEngine?: StatusEffectEngine;
+	rng?: RandomSource;
+}
+
+/**
+ * Serializable record of a battle; replaying it reproduces the same battle
+ */
+export interface CombatLog {
+	seed: number;
+	party: CombatEntity[];
+	enemies: CombatEntity[];
+	inventories: Record<string, InventorySlot[]>;
+	actions: CombatAction[];
+	result: 'victory' | 'defeat' | 'fled' | null;
+}
+
+interface ActionOutcome {
+	targetId: string;
+	result: DamageResult;
 }
 
 export interface CombatEvents {
@@ -73,11 +139,23 @@ export interface CombatEvents {
 	'turn-start': (actorId: string) => void;
 	'action-executed': (action: CombatAction, result: DamageResult) => void;
 	'entity-damaged': (entityId: string, damage: number) => void;
+	'entity-healed': (entityId: string, amount: number) => void;
+	'entity-mp-restored': (entityId: string, amount: number) => void;
+	'item-used': (actorId: string, item: Item, targetId: string) => void;
+	'item-stolen': (actorId: string, targetId: string, itemId: string) => void;
 	'entity-defeated': (entityId: string) => void;
 	'status-applied': (entityId: string, status: StatusEffect) => void;
+	'status-tick': (entityId: string, status: StatusEffect, damage: number) => void;
+	'status-expired': (entityId: string, status: StatusEffect) => void;
+	'status-removed': (entityId: string, status: StatusEffect) => void;
+	'status-resisted': (entityId: string, statusType: string) => void;
+	'turn-skipped': (entityId: string, status: StatusEffect) => void;
+	'rewards-distributed': (rewards: CombatRewards) => void;
 	'combat-end': (result: 'victory' | 'defeat' | 'fled') => void;
 }
 
+export const MAX_PARTY_SIZE = 4;
+
 export class CombatManager extends EventEmitter<CombatEvents> {
 	private state: CombatState = CombatState.INIT;
 	private entities: Map<string, CombatEntity> = new Map();
@@ -85,6 +163,12 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 	private currentTurnIndex: number = 0;
 	private pendingAction: CombatAction | null = null;
 	private turnCount: number = 0;
+	private skillRegistry: SkillRegistry;
+	private statusEngine: StatusEffectEngine;
+	private inventories: Map<string, InventoryManager> = new Map();
+	private rewards: CombatRewards | null = null;
+	private rng: RandomSource;
+	private log: CombatLog | null = null;
 
 	// Element effectiveness chart
 	private elementChart: Map<string, { weak: string[]; resist: string[] }> = new Map([
@@ -94,18 +178,76 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 		['neutral', { weak: [], resist: [] }],
 	]);
 
-	constructor() {
+	constructor(options: CombatManagerOptions = {}) {
 		super();
+		this.skillRegistry = options.skillRegistry ?? SkillRegistry.loadDefault();
+		this.statusEngine = options.statusEngine ?? new StatusEffectEngine();
+		this.rng = options.rng ?? new DeterministicRNG(Date.now() % 233280);
 	}
 
 	/**
-	 * Initialize combat
+	 * Re-run a recorded battle and return the manager in its final state
 	 */
-	initCombat(player: CombatEntity, enemies: CombatEntity[]): void {
+	static replay(log: CombatLog, options: CombatManagerOptions = {}): CombatManager {
+		const combat = new CombatManager(options);
+		const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+		for (const [entityId, slots] of Object.entries(log.inventories)) {
+			const inventory = new InventoryManager();
+			inventory.import({ slots: clone(slots), weight: 0 });
+			combat.setInventory(entityId, inventory);
+		}
+
+		combat.initCombat(clone(log.party), clone(log.enemies), log.seed);
+		log.actions.forEach((action) => combat.submitAction({ ...action }));
+
+		return combat;
+	}
+
+	/**
+	 * Initialize combat with a single player or a party of up to MAX_PARTY_SIZE
+	 * Pass a seed to make the battle reproducible; otherwise the RNG's current seed is used
+	 */
+	initCombat(
+		party: CombatEntity | CombatEntity[],
+		enemies: CombatEntity[],
+		seed?: number,
+	): boolean {
+		const members = Array.isArray(party) ? party : [party];
+
+		if (members.length === 0 || members.length > MAX_PARTY_SIZE) {
+			console.error(`[CombatManager] Party must have 1-${MAX_PARTY_SIZE} members`);
+			return false;
+		}
+
+		if (members.some((member) => !member.isPlayer)) {
+			console.error('[CombatManager] Party members must be player-side entities');
+			return false;
+		}
+
 		this.reset();
 
+		if (seed !== undefined) {
+			this.rng.reset(seed);
+		}
+
+		// Snapshot starting state before anything mutates it
+		this.log = {
+			seed: this.rng.getSeed(),
+			party: JSON.parse(JSON.stringify(members)),
+			enemies: JSON.parse(JSON.stringify(enemies)),
+			inventories: Object.fromEntries(
+				Array.from(this.inventories.entries()).map(([entityId, inventory]) => [
+					entityId,
+					JSON.parse(JSON.stringify(inventory.export().slots)),
+				]),
+			),
+			actions: [],
+			result: null,
+		};
+
 		// Add entities
-		this.entities.set(player.id, player);
+		members.forEach((member) => this.entities.set(member.id, member));
 		enemies.forEach((enemy) => this.entities.set(enemy.id, enemy));
 
 		// Calculate turn order based on speed
@@ -115,6 +257,8 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 		this.state = CombatState.TURN_START;
 		this.emit('state-changed', this.state);
 		this.startTurn();
+
+		return true;
 	}
 
 	/**
@@ -124,8 +268,10 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 		this.turnOrder = Array.from(this.entities.values())
 			.sort((a, b) => {
 				// Higher speed goes first
-				if (b.stats.spd !== a.stats.spd) {
-					return b.stats.spd - a.stats.spd;
+				const speedA = this.getEffectiveStat(a, 'spd');
+				const speedB = this.getEffectiveStat(b, 'spd');
+				if (speedB !== speedA) {
+					return speedB - speedA;
 				}
 				// Tie-breaker: higher luck
 				return b.stats.luck - a.stats.luck;
@@ -139,9 +285,6 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 	private startTurn(): void {
 		this.turnCount++;
 
-		// Process status effects at turn start
-		this.processStatusEffects();
-
 		// Get current actor
 		const actorId = this.turnOrder[this.currentTurnIndex];
 		const actor = this.entities.get(actorId);
@@ -157,6 +300,25 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 			return;
 		}
 
+		// Checked before ticking so a 1-turn stun still costs a turn
+		const skipEffect = this.statusEngine.getTurnSkipEffect(actor);
+
+		// Process the actor's status effects at turn start
+		if (this.processStatusEffects(actor)) {
+			return;
+		}
+
+		if (actor.stats.hp <= 0) {
+			this.nextTurn();
+			return;
+		}
+
+		if (skipEffect) {
+			this.emit('turn-skipped', actor.id, skipEffect);
+			this.endTurn();
+			return;
+		}
+
 		this.state = CombatState.ACTION_SELECT;
 		this.emit('state-changed', this.state);
 		this.emit('turn-start', actorId);
@@ -177,6 +339,20 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 			return;
 		}
 
+		const actor = this.entities.get(action.actorId);
+		const target = this.entities.get(action.targetId);
+		if (
+			actor &&
+			target &&
+			action.type === CombatActionType.ATTACK &&
+			actor.isPlayer === target.isPlayer
+		) {
+			console.warn('[CombatManager] Cannot attack an ally');
+			return;
+		}
+
+		this.log?.actions.push({ ...action });
+
 		this.pendingAction = action;
 		this.executeAction();
 	}
@@ -199,35 +375,45 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 			return;
 		}
 
-		let result: DamageResult = {
-			damage: 0,
-			isCritical: false,
-			isResisted: false,
-			isWeak: false,
-		};
+		let outcomes: ActionOutcome[] = [];
 
 		switch (action.type) {
 			case CombatActionType.ATTACK:
-				result = this.executeAttack(actor, target);
+				outcomes = [{ targetId: target.id, result: this.executeAttack(actor, target) }];
 				break;
 			case CombatActionType.SKILL:
 				if (action.skillId) {
-					result = this.executeSkill(actor, target, action.skillId);
+					outcomes = this.executeSkill(actor, target, action.skillId);
 				}
 				break;
 			case CombatActionType.ITEM:
-				// TODO: Implement item usage
+				if (action.itemId) {
+					outcomes = this.executeItem(actor, target, action.itemId);
+				}
 				break;
 			case CombatActionType.FLEE:
 				this.executeFlee(actor);
 				return;
 		}
 
-		this.emit('action-executed', action, result);
+		if (outcomes.length === 0) {
+			outcomes = [{ targetId: target.id, result: this.emptyResult() }];
+		}
 
-		// Apply damage
-		if (result.damage > 0) {
-			this.applyDamage(target.id, result.damage);
+		for (const { targetId, result } of outcomes) {
+			this.emit('action-executed', { ...action, targetId }, result);
+
+			// Apply damage / healing
+			if (result.damage > 0) {
+				this.applyDamage(targetId, result.damage);
+				this.applyDamageReactions(actor, targetId);
+			}
+			if (result.healing && result.healing > 0) {
+				this.applyHealing(targetId, result.healing);
+			}
+			if (result.mpRestored && result.mpRestored > 0) {
+				this.restoreMp(targetId, result.mpRestored);
+			}
 		}
 
 		// Check for combat end
@@ -242,7 +428,10 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 	 * Execute basic attack
 	 */
 	private executeAttack(actor: CombatEntity, target: CombatEntity): DamageResult {
-		const baseDamage = this.calculateBaseDamage(actor.stats.atk, target.stats.def);
+		const baseDamage = this.calculateBaseDamage(
+			this.getEffectiveStat(actor, 'atk'),
+			this.getEffectiveStat(target, 'def'),
+		);
 		const isCritical = this.rollCritical(actor.stats.luck);
 		let damage = baseDamage;
 
@@ -265,44 +454,230 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 		actor: CombatEntity,
 		target: CombatEntity,
 		skillId: string,
-	): DamageResult {
-		// TODO: Load skill data from JSON
-		// For now, use placeholder values
-		const skillPower = 70;
-		const skillElement = 'fire';
-		const mpCost = 10;
+	): ActionOutcome[] {
+		const skill = this.skillRegistry.getSkill(skillId);
+		if (!skill) {
+			console.warn(`[CombatManager] Unknown skill: ${skillId}`);
+			return [];
+		}
 
 		// Check MP
-		if (actor.stats.mp < mpCost) {
-			return { damage: 0, isCritical: false, isResisted: false, isWeak: false };
+		if (actor.stats.mp < skill.mpCost) {
+			return [];
 		}
 
 		// Consume MP
-		actor.stats.mp -= mpCost;
+		actor.stats.mp -= skill.mpCost;
 
-		// Calculate damage
-		let baseDamage = this.calculateBaseDamage(
-			actor.stats.atk + skillPower,
-			target.stats.def,
-		);
-		const isCritical = this.rollCritical(actor.stats.luck);
+		return this.resolveSkillTargets(actor, target, skill).map((skillTarget) => ({
+			targetId: skillTarget.id,
+			result: this.applySkillToTarget(actor, skillTarget, skill),
+		}));
+	}
 
-		// Element effectiveness
-		const { isWeak, isResisted } = this.checkElementEffectiveness(
-			skillElement,
-			target.element || 'neutral',
-		);
+	/**
+	 * Resolve the entities affected by a skill from its target type
+	 */
+	private resolveSkillTargets(
+		actor: CombatEntity,
+		target: CombatEntity,
+		skill: SkillData,
+	): CombatEntity[] {
+		const alive = Array.from(this.entities.values()).filter((e) => e.stats.hp > 0);
+
+		switch (skill.target) {
+			case 'self':
+				return [actor];
+			case 'single_ally':
+				// Fall back to self when an enemy was selected
+				return target.isPlayer === actor.isPlayer ? [target] : [actor];
+			case 'allies':
+				return alive.filter((e) => e.isPlayer === actor.isPlayer);
+			case 'all_enemies':
+				return alive.filter((e) => e.isPlayer !== actor.isPlayer);
+			case 'single':
+			default:
+				return [target];
+		}
+	}
 
-		if (isWeak) baseDamage = Math.floor(baseDamage * 1.5);
-		if (isResisted) baseDamage = Math.floor(baseDamage * 0.5);
-		if (isCritical) baseDamage = Math.floor(baseDamage * 1.5);
+	/**
+	 * Apply a skill's damage, healing and effects to one target
+	 */
+	private applySkillToTarget(
+		actor: CombatEntity,
+		target: CombatEntity,
+		skill: SkillData,
+	): DamageResult {
+		const result = this.emptyResult();
+		const isHostile = target.isPlayer !== actor.isPlayer;
+
+		// Accuracy only applies to hostile targets
+		const accuracy = skill.accuracy * this.getEffectiveStat(actor, 'accuracy');
+		if (isHostile && this.rng.next() * 100 >= accuracy) {
+			result.isMissed = true;
+			return result;
+		}
 
-		return {
-			damage: baseDamage,
-			isCritical,
-			isResisted,
-			isWeak,
-		};
+		let critBonus = 0;
+		for (const effect of skill.effects) {
+			if (effect.type === 'crit_boost') {
+				critBonus += effect.value ?? 0;
+			} else if (effect.type === 'heal') {
+				result.healing = (result.healing ?? 0) + (effect.value ?? skill.power);
+			} else if (effect.type === 'cleanse') {
+				this.cleanseStatusEffects(target, 'debuffs');
+			} else if (effect.type === 'steal_item' && isHostile) {
+				if (effect.chance === undefined || this.rng.next() < effect.chance) {
+					result.itemStolen = this.stealItem(actor, target) ?? undefined;
+				}
+			}
+		}
+
+		if (isHostile && skill.power > 0) {
+			let baseDamage = this.calculateBaseDamage(
+				this.getEffectiveStat(actor, 'atk') + skill.power,
+				this.getEffectiveStat(target, 'def'),
+			);
+			const isCritical = this.rollCritical(actor.stats.luck, critBonus);
+
+			// Element effectiveness
+			const { isWeak, isResisted } = this.checkElementEffectiveness(
+				skill.element,
+				target.element || 'neutral',
+			);
+
+			if (isWeak) baseDamage = Math.floor(baseDamage * 1.5);
+			if (isResisted) baseDamage = Math.floor(baseDamage * 0.5);
+			if (isCritical) baseDamage = Math.floor(baseDamage * 1.5);
+
+			result.damage = baseDamage;
+			result.isCritical = isCritical;
+			result.isWeak = isWeak;
+			result.isResisted = isResisted;
+		}
+
+		// Timed effects become status effects on the target
+		for (const effect of skill.effects) {
+			if (!effect.duration) continue;
+			if (effect.chance !== undefined && this.rng.next() >= effect.chance) continue;
+
+			const status: StatusEffect = {
+				type: effect.type,
+				value: effect.value ?? 0,
+				duration: effect.duration,
+				turnsLeft: effect.duration,
+			};
+			if (this.applyStatusEffect(target, status)) {
+				result.statusInflicted = effect.type;
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Take one item from the target: from its battle inventory when it has one,
+	 * otherwise from its stealable items (each of those can only be stolen from once)
+	 */
+	private stealItem(actor: CombatEntity, target: CombatEntity): string | null {
+		const inventory = this.inventories.get(target.id);
+		const candidates = inventory
+			? inventory.getAllItems().map((slot) => slot.item!.id)
+			: (target.stealableItems ?? []);
+		if (candidates.length === 0) {
+			return null;
+		}
+
+		const itemId = candidates[Math.floor(this.rng.next() * candidates.length)]!;
+		if (inventory) {
+			inventory.removeItem(itemId, 1);
+		} else {
+			target.stealableItems = [];
+		}
+
+		this.emit('item-stolen', actor.id, target.id, itemId);
+		return itemId;
+	}
+
+	/**
+	 * Remove status effects matching a cleanse filter
+	 */
+	private cleanseStatusEffects(entity: CombatEntity, filter: CleanseFilter): void {
+		const removed = this.statusEngine.cleanse(entity, filter);
+		removed.forEach((status) => this.emit('status-removed', entity.id, status));
+	}
+
+	/**
+	 * Apply a status effect following its stacking rule
+	 */
+	private applyStatusEffect(entity: CombatEntity, status: StatusEffect): boolean {
+		const outcome = this.statusEngine.apply(entity, status);
+
+		if (outcome === 'immune') {
+			this.emit('status-resisted', entity.id, status.type);
+			return false;
+		}
+		if (outcome === 'ignored') {
+			return false;
+		}
+
+		const applied = entity.statusEffects.find((e) => e.type === status.type);
+		if (applied) {
+			this.emit('status-applied', entity.id, applied);
+		}
+		return true;
+	}
+
+	/**
+	 * Execute item use
+	 */
+	private executeItem(
+		actor: CombatEntity,
+		target: CombatEntity,
+		itemId: string,
+	): ActionOutcome[] {
+		const inventory = this.inventories.get(actor.id);
+		if (!inventory) {
+			console.warn(`[CombatManager] No inventory for entity: ${actor.id}`);
+			return [];
+		}
+
+		// Consumes one from the stack; null if missing or not a consumable
+		const item = inventory.useItem(itemId);
+		if (!item) {
+			console.warn(`[CombatManager] Cannot use item: ${itemId}`);
+			return [];
+		}
+
+		this.emit('item-used', actor.id, item, target.id);
+
+		const result = this.emptyResult();
+
+		for (const effect of item.effects ?? []) {
+			if (effect.type === 'heal_hp') {
+				result.healing = (result.healing ?? 0) + effect.value;
+			} else if (effect.type === 'heal_mp') {
+				result.mpRestored = (result.mpRestored ?? 0) + effect.value;
+			} else if (effect.type === 'cure_all') {
+				this.cleanseStatusEffects(target, 'debuffs');
+			} else if (effect.type.startsWith('cure_')) {
+				this.cleanseStatusEffects(target, [effect.type.slice('cure_'.length)]);
+			} else if (effect.duration) {
+				// Timed effects (atk_up, def_up, ...) become status effects
+				const applied = this.applyStatusEffect(target, {
+					type: effect.type,
+					value: effect.value,
+					duration: effect.duration,
+					turnsLeft: effect.duration,
+				});
+				if (applied) {
+					result.statusInflicted = effect.type;
+				}
+			}
+		}
+
+		return [{ targetId: target.id, result }];
 	}
 
 	/**
@@ -310,12 +685,13 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 	 */
 	private executeFlee(actor: CombatEntity): void {
 		// 50% base flee chance + (speed / 10)%
-		const fleeChance = 0.5 + actor.stats.spd / 1000;
-		const success = Math.random() < fleeChance;
+		const fleeChance = 0.5 + this.getEffectiveStat(actor, 'spd') / 1000;
+		const success = this.rng.next() < fleeChance;
 
 		if (success) {
 			this.state = CombatState.FLED;
 			this.emit('state-changed', this.state);
+			if (this.log) this.log.result = 'fled';
 			this.emit('combat-end', 'fled');
 		} else {
 			// Flee failed, end turn
@@ -329,17 +705,17 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 	private calculateBaseDamage(atk: number, def: number): number {
 		// Formula: (ATK * 2 - DEF) * random(0.85, 1.0)
 		const rawDamage = Math.max(1, atk * 2 - def);
-		const variance = 0.85 + Math.random() * 0.15;
+		const variance = 0.85 + this.rng.next() * 0.15;
 		return Math.floor(rawDamage * variance);
 	}
 
 	/**
 	 * Roll for critical hit
 	 */
-	private rollCritical(luck: number): boolean {
+	private rollCritical(luck: number, bonus: number = 0): boolean {
 		// Base 5% + (luck / 10)% crit chance
-		const critChance = 0.05 + luck / 1000;
-		return Math.random() < critChance;
+		const critChance = 0.05 + luck / 1000 + bonus;
+		return this.rng.next() < critChance;
 	}
 
 	/**
@@ -376,26 +752,79 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 	}
 
 	/**
-	 * Process status effects
+	 * Apply healing to entity
 	 */
-	private processStatusEffects(): void {
-		this.entities.forEach((entity) => {
-			entity.statusEffects = entity.statusEffects.filter((effect) => {
-				effect.turnsLeft--;
+	private applyHealing(entityId: string, amount: number): void {
+		const entity = this.entities.get(entityId);
+		if (!entity || entity.stats.hp <= 0) return;
 
-				// Apply effect
-				if (effect.type === 'poison') {
-					const damage = Math.floor(entity.stats.maxHp * 0.1);
-					this.applyDamage(entity.id, damage);
-				} else if (effect.type === 'burn') {
-					const damage = Math.floor(entity.stats.maxHp * 0.05);
-					this.applyDamage(entity.id, damage);
-				}
+		const healed = Math.min(amount, entity.stats.maxHp - entity.stats.hp);
+		entity.stats.hp += healed;
+		this.emit('entity-healed', entityId, healed);
+	}
 
-				// Remove if expired
-				return effect.turnsLeft > 0;
-			});
-		});
+	/**
+	 * Restore MP to entity
+	 */
+	private restoreMp(entityId: string, amount: number): void {
+		const entity = this.entities.get(entityId);
+		if (!entity || entity.stats.hp <= 0) return;
+
+		const restored = Math.min(amount, entity.stats.maxMp - entity.stats.mp);
+		entity.stats.mp += restored;
+		this.emit('entity-mp-restored', entityId, restored);
+	}
+
+	/**
+	 * Create an empty action result
+	 */
+	private emptyResult(): DamageResult {
+		return { damage: 0, isCritical: false, isResisted: false, isWeak: false };
+	}
+
+	/**
+	 * Process an actor's status effects at the start of its turn
+	 * Returns true if damage-over-time ended the combat
+	 */
+	private processStatusEffects(actor: CombatEntity): boolean {
+		const { ticks, expired } = this.statusEngine.tick(actor);
+
+		for (const { status, damage } of ticks) {
+			this.emit('status-tick', actor.id, status, damage);
+			this.applyDamage(actor.id, damage);
+		}
+
+		expired.forEach((status) => this.emit('status-expired', actor.id, status));
+
+		return ticks.length > 0 && this.checkCombatEnd();
+	}
+
+	/**
+	 * Handle status reactions to a hit: wake sleeping targets and apply counter damage
+	 */
+	private applyDamageReactions(attacker: CombatEntity, targetId: string): void {
+		const target = this.entities.get(targetId);
+		if (!target || target.id === attacker.id) return;
+
+		this.statusEngine
+			.onDamaged(target)
+			.forEach((status) => this.emit('status-removed', target.id, status));
+
+		const counterDamage = this.statusEngine.getEffectValue(target, 'counter_damage');
+		if (counterDamage > 0 && attacker.stats.hp > 0) {
+			this.applyDamage(attacker.id, Math.floor(counterDamage));
+		}
+	}
+
+	/**
+	 * Get a stat with status modifiers applied (accuracy is a multiplier)
+	 */
+	private getEffectiveStat(entity: CombatEntity, stat: ModifiableStat): number {
+		const multiplier = this.statusEngine.getStatMultiplier(entity, stat);
+		if (stat === 'accuracy') {
+			return multiplier;
+		}
+		return Math.floor(entity.stats[stat] * multiplier);
 	}
 
 	/**
@@ -415,6 +844,11 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 	private nextTurn(): void {
 		this.currentTurnIndex = (this.currentTurnIndex + 1) % this.turnOrder.length;
 
+		// New round: speed modifiers may have changed the order
+		if (this.currentTurnIndex === 0) {
+			this.calculateTurnOrder();
+		}
+
 		// Start new turn
 		this.state = CombatState.TURN_START;
 		this.emit('state-changed', this.state);
@@ -432,9 +866,11 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 			(e) => !e.isPlayer && e.stats.hp > 0,
 		);
 
+		// Party wipe
 		if (alivePlayers.length === 0) {
 			this.state = CombatState.DEFEAT;
 			this.emit('state-changed', this.state);
+			if (this.log) this.log.result = 'defeat';
 			this.emit('combat-end', 'defeat');
 			return true;
 		}
@@ -442,6 +878,8 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 		if (aliveEnemies.length === 0) {
 			this.state = CombatState.VICTORY;
 			this.emit('state-changed', this.state);
+			this.distributeRewards(alivePlayers);
+			if (this.log) this.log.result = 'victory';
 			this.emit('combat-end', 'victory');
 			return true;
 		}
@@ -449,6 +887,80 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 		return false;
 	}
 
+	/**
+	 * Split enemy EXP and gold between surviving party members
+	 */
+	private distributeRewards(survivors: CombatEntity[]): void {
+		const enemies = Array.from(this.entities.values()).filter((e) => !e.isPlayer);
+		const totalExp = enemies.reduce((sum, e) => sum + (e.rewards?.exp ?? 0), 0);
+		const totalGold = enemies.reduce((sum, e) => sum + (e.rewards?.gold ?? 0), 0);
+
+		const expShare = Math.floor(totalExp / survivors.length);
+		const goldShare = Math.floor(totalGold / survivors.length);
+
+		const shares: CombatRewardShare[] = survivors.map((member, index) => ({
+			entityId: member.id,
+			// Remainder goes to the first survivor so nothing is lost to rounding
+			exp: expShare + (index === 0 ? totalExp - expShare * survivors.length : 0),
+			gold: goldShare + (index === 0 ? totalGold - goldShare * survivors.length : 0),
+		}));
+
+		this.rewards = { totalExp, totalGold, shares };
+		this.emit('rewards-distributed', this.rewards);
+	}
+
+	/**
+	 * Check if an entity's actions are decided by AI
+	 */
+	isAIControlled(entityId: string): boolean {
+		const entity = this.entities.get(entityId);
+		if (!entity) return false;
+		return !entity.isPlayer || !!entity.isAI;
+	}
+
+	/**
+	 * Get living allies of an entity (including itself)
+	 */
+	getAllies(entityId: string): CombatEntity[] {
+		const entity = this.entities.get(entityId);
+		if (!entity) return [];
+		return Array.from(this.entities.values()).filter(
+			(e) => e.isPlayer === entity.isPlayer && e.stats.hp > 0,
+		);
+	}
+
+	/**
+	 * Get living opponents of an entity
+	 */
+	getOpponents(entityId: string): CombatEntity[] {
+		const entity = this.entities.get(entityId);
+		if (!entity) return [];
+		return Array.from(this.entities.values()).filter(
+			(e) => e.isPlayer !== entity.isPlayer && e.stats.hp > 0,
+		);
+	}
+
+	/**
+	 * Get party members (player side, alive or not)
+	 */
+	getParty(): CombatEntity[] {
+		return Array.from(this.entities.values()).filter((e) => e.isPlayer);
+	}
+
+	/**
+	 * Get rewards from the last victory
+	 */
+	getRewards(): CombatRewards | null {
+		return this.rewards;
+	}
+
+	/**
+	 * Get the battle log of the current or last combat
+	 */
+	getLog(): CombatLog | null {
+		return this.log;
+	}
+
 	/**
 	 * Get current state
 	 */
@@ -485,6 +997,34 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 		return [...this.turnOrder];
 	}
 
+	/**
+	 * Set the inventory an entity uses for ITEM actions
+	 */
+	setInventory(entityId: string, inventory: InventoryManager): void {
+		this.inventories.set(entityId, inventory);
+	}
+
+	/**
+	 * Get inventory for an entity
+	 */
+	getInventory(entityId: string): InventoryManager | null {
+		return this.inventories.get(entityId) || null;
+	}
+
+	/**
+	 * Get status effect engine
+	 */
+	getStatusEngine(): StatusEffectEngine {
+		return this.statusEngine;
+	}
+
+	/**
+	 * Get skill registry
+	 */
+	getSkillRegistry(): SkillRegistry {
+		return this.skillRegistry;
+	}
+
 	/**
 	 * Get turn count
 	 */
@@ -501,6 +1041,7 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 		this.currentTurnIndex = 0;
 		this.pendingAction = null;
 		this.turnCount = 0;
+		this.rewards = null;
 		this.state = CombatState.INIT;
 	}
 
@@ -509,6 +1050,7 @@ export class CombatManager extends EventEmitter<CombatEvents> {
 	 */
 	destroy(): void {
 		this.reset();
+		this.inventories.clear();
 		this.removeAllListeners();
 	}
 }
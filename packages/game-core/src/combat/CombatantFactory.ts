@@ -0,0 +1,80 @@
+/**
+ * CombatantFactory
+ * Builds player-side combat entities from character level, job and equipment data
+ */
+
+import type { CombatEntity } from './CombatManager';
+import type { Item } from '../inventory/InventoryManager';
+import type { Job, JobStats } from '../jobs/JobManager';
+import { CharacterProgression } from '../progression/CharacterProgression';
+
+export interface PlayerCombatantConfig {
+	name: string;
+	level: number; // Character level
+	jobStats: JobStats; // Total job stats (all learned jobs)
+	skills: string[];
+	equipment?: Item[];
+}
+
+export class CombatantFactory {
+	/**
+	 * Create a player-side combat entity
+	 */
+	static createPlayerEntity(config: PlayerCombatantConfig, instanceId: string): CombatEntity {
+		const progression = new CharacterProgression();
+		progression.setLevel(config.level);
+
+		return {
+			id: instanceId,
+			name: config.name,
+			level: config.level,
+			stats: progression.deriveCombatStats(
+				config.jobStats,
+				CombatantFactory.getEquipmentStats(config.equipment ?? []),
+			),
+			skills: [...new Set(config.skills)],
+			statusEffects: [],
+			isPlayer: true,
+		};
+	}
+
+	/**
+	 * Get a job's stats at a job level
+	 */
+	static getJobStats(job: Job, level: number): JobStats {
+		const growth = level - 1;
+		return {
+			hp: job.baseStats.hp + job.statGrowth.hp * growth,
+			mp: job.baseStats.mp + job.statGrowth.mp * growth,
+			atk: job.baseStats.atk + job.statGrowth.atk * growth,
+			def: job.baseStats.def + job.statGrowth.def * growth,
+			spd: job.baseStats.spd + job.statGrowth.spd * growth,
+			luck: job.baseStats.luck + job.statGrowth.luck * growth,
+		};
+	}
+
+	/**
+	 * Get the skills a job has unlocked at a job level
+	 */
+	static getJobSkills(job: Job, level: number): string[] {
+		return job.skills.filter((skill) => skill.learnLevel <= level).map((skill) => skill.skillId);
+	}
+
+	/**
+	 * Sum the stats of equipped items
+	 */
+	static getEquipmentStats(items: Item[]): JobStats {
+		const stats: JobStats = { hp: 0, mp: 0, atk: 0, def: 0, spd: 0, luck: 0 };
+
+		for (const item of items) {
+			stats.hp += item.stats?.hp ?? 0;
+			stats.mp += item.stats?.mp ?? 0;
+			stats.atk += item.stats?.atk ?? 0;
+			stats.def += item.stats?.def ?? 0;
+			stats.spd += item.stats?.spd ?? 0;
+			stats.luck += item.stats?.luck ?? 0;
+		}
+
+		return stats;
+	}
+}
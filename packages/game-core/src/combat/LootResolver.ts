@@ -0,0 +1,279 @@
+/**
+ * LootResolver
+ * Rolls monster drops after a victory and hands out items, EXP and gold
+ */
+
+import { EventEmitter } from '../utils/EventEmitter';
+import type { InventoryManager, Item } from '../inventory/InventoryManager';
+import type { JobManager } from '../jobs/JobManager';
+import type { CharacterProgression } from '../progression/CharacterProgression';
+import type { CombatManager, RandomSource } from './CombatManager';
+import { MonsterFactory } from './MonsterFactory';
+import type { MonsterData } from './MonsterFactory';
+import { DeterministicRNG } from './CombatSync';
+
+export interface LootDrop {
+	itemId: string;
+	name: string;
+	quantity: number;
+	sourceId: string; // Monster ID that dropped it
+}
+
+export interface LootSummary {
+	exp: number;
+	gold: number;
+	items: LootDrop[]; // Added to the inventory
+	pending: LootDrop[]; // Held because the inventory was full
+	jobsAwarded: string[];
+}
+
+export interface LootResolverEvents {
+	'loot-resolved': (summary: LootSummary) => void;
+	'pending-loot-changed': (pending: LootDrop[]) => void;
+	'pending-loot-claimed': (drop: LootDrop) => void;
+}
+
+// Each point of party luck raises drop chances by this fraction
+const LUCK_DROP_BONUS = 0.01;
+
+export class LootResolver extends EventEmitter<LootResolverEvents> {
+	private monsters: Map<string, MonsterData> = new Map();
+	private items: Map<string, Item> = new Map();
+	private pendingLoot: LootDrop[] = [];
+	private rng: RandomSource;
+	private inventory: InventoryManager | null = null;
+	private jobManager: JobManager | null = null;
+	private progression: CharacterProgression | null = null;
+	private addGoldCallback: ((gold: number) => void) | null = null;
+
+	constructor(rng?: RandomSource) {
+		super();
+		this.rng = rng ?? new DeterministicRNG(Date.now() % 233280);
+	}
+
+	/**
+	 * Load monster data (drop tables)
+	 */
+	loadMonsters(monsters: MonsterData[]): void {
+		for (const monster of monsters) {
+			this.monsters.set(monster.id, monster);
+		}
+	}
+
+	/**
+	 * Load item data
+	 */
+	loadItems(items: Item[]): void {
+		for (const item of items) {
+			this.items.set(item.id, item);
+		}
+	}
+
+	/**
+	 * Set inventory that receives drops
+	 */
+	setInventory(inventory: InventoryManager | null): void {
+		this.inventory = inventory;
+	}
+
+	/**
+	 * Set job manager that receives EXP (all learned jobs)
+	 */
+	setJobManager(jobManager: JobManager | null): void {
+		this.jobManager = jobManager;
+	}
+
+	/**
+	 * Set character progression that receives base EXP
+	 */
+	setProgression(progression: CharacterProgression | null): void {
+		this.progression = progression;
+	}
+
+	/**
+	 * Set gold callback
+	 */
+	setGoldCallback(addGold: (gold: number) => void): void {
+		this.addGoldCallback = addGold;
+	}
+
+	/**
+	 * Resolve loot automatically whenever the combat ends in victory
+	 */
+	attach(combat: CombatManager, playerEntityId: string): void {
+		combat.on('combat-end', (result) => {
+			if (result === 'victory') {
+				this.resolve(combat, playerEntityId);
+			}
+		});
+	}
+
+	/**
+	 * Roll drops for all defeated enemies and award the player's reward share
+	 */
+	resolve(combat: CombatManager, playerEntityId: string): LootSummary {
+		const share = combat.getRewards()?.shares.find((s) => s.entityId === playerEntityId);
+		const summary: LootSummary = {
+			exp: share?.exp ?? 0,
+			gold: share?.gold ?? 0,
+			items: [],
+			pending: [],
+			jobsAwarded: [],
+		};
+
+		const survivors = combat.getParty().filter((member) => member.stats.hp > 0);
+		const luck =
+			survivors.length > 0
+				? survivors.reduce((sum, member) => sum + member.stats.luck, 0) / survivors.length
+				: 0;
+
+		const enemies = combat
+			.getAllEntities()
+			.filter((entity) => !entity.isPlayer && entity.stats.hp <= 0);
+
+		for (const enemy of enemies) {
+			const monster = enemy.monsterId ? this.monsters.get(enemy.monsterId) : undefined;
+			if (!monster) continue;
+
+			for (const drop of this.rollDrops(monster, luck)) {
+				const remaining = this.giveItem(drop);
+				if (remaining < drop.quantity) {
+					summary.items.push({ ...drop, quantity: drop.quantity - remaining });
+				}
+				if (remaining > 0) {
+					summary.pending.push({ ...drop, quantity: remaining });
+				}
+			}
+		}
+
+		if (summary.pending.length > 0) {
+			this.pendingLoot.push(...summary.pending);
+			this.emit('pending-loot-changed', this.getPendingLoot());
+		}
+
+		if (summary.exp > 0) {
+			this.progression?.addExperience(summary.exp);
+
+			for (const learnedJob of this.jobManager?.getAllLearnedJobs() ?? []) {
+				this.jobManager!.addJobExperience(learnedJob.jobId, summary.exp);
+				summary.jobsAwarded.push(learnedJob.jobId);
+			}
+		}
+
+		if (summary.gold > 0) {
+			this.addGoldCallback?.(summary.gold);
+		}
+
+		this.emit('loot-resolved', summary);
+		return summary;
+	}
+
+	/**
+	 * Roll a monster's drop table, luck raises each drop's chance
+	 */
+	rollDrops(monster: MonsterData, luck: number = 0): LootDrop[] {
+		const drops: LootDrop[] = [];
+		const multiplier = 1 + Math.max(0, luck) * LUCK_DROP_BONUS;
+
+		for (const drop of monster.drops) {
+			if (this.rng.next() >= Math.min(1, drop.chance * multiplier)) continue;
+
+			const item = this.items.get(drop.itemId);
+			if (!item) {
+				console.warn(`[LootResolver] Unknown drop item: ${drop.itemId}`);
+				continue;
+			}
+
+			const { min, max } = MonsterFactory.getDropQuantityRange(drop);
+			const quantity = min + Math.floor(this.rng.next() * (max - min + 1));
+			if (quantity <= 0) continue;
+
+			drops.push({ itemId: item.id, name: item.name, quantity, sourceId: monster.id });
+		}
+
+		return drops;
+	}
+
+	/**
+	 * Get loot waiting to be claimed
+	 */
+	getPendingLoot(): LootDrop[] {
+		return this.pendingLoot.map((drop) => ({ ...drop }));
+	}
+
+	/**
+	 * Move as much pending loot into the inventory as fits
+	 */
+	claimPendingLoot(): LootDrop[] {
+		if (!this.inventory) return [];
+
+		const claimed: LootDrop[] = [];
+		const stillPending: LootDrop[] = [];
+
+		for (const drop of this.pendingLoot) {
+			const remaining = this.giveItem(drop);
+			if (remaining < drop.quantity) {
+				const claimedDrop = { ...drop, quantity: drop.quantity - remaining };
+				claimed.push(claimedDrop);
+				this.emit('pending-loot-claimed', claimedDrop);
+			}
+			if (remaining > 0) {
+				stillPending.push({ ...drop, quantity: remaining });
+			}
+		}
+
+		this.pendingLoot = stillPending;
+
+		if (claimed.length > 0) {
+			this.emit('pending-loot-changed', this.getPendingLoot());
+		}
+
+		return claimed;
+	}
+
+	/**
+	 * Discard a pending drop
+	 */
+	discardPendingLoot(index: number): boolean {
+		if (index < 0 || index >= this.pendingLoot.length) return false;
+
+		this.pendingLoot.splice(index, 1);
+		this.emit('pending-loot-changed', this.getPendingLoot());
+		return true;
+	}
+
+	/**
+	 * Export pending loot for save
+	 */
+	export(): { pendingLoot: LootDrop[] } {
+		return { pendingLoot: this.getPendingLoot() };
+	}
+
+	/**
+	 * Import pending loot from save
+	 */
+	import(data: { pendingLoot?: LootDrop[] }): void {
+		this.pendingLoot = (data.pendingLoot ?? []).map((drop) => ({ ...drop }));
+	}
+
+	/**
+	 * Clear pending loot (for logout/reset)
+	 */
+	clear(): void {
+		this.pendingLoot = [];
+	}
+
+	/**
+	 * Add a drop to the inventory, returns the quantity that did not fit
+	 * (addItem can fill some stacks before running out of space)
+	 */
+	private giveItem(drop: LootDrop): number {
+		const item = this.items.get(drop.itemId);
+		if (!item || !this.inventory) return drop.quantity;
+
+		const before = this.inventory.getItemCount(item.id);
+		if (this.inventory.addItem(item, drop.quantity)) return 0;
+
+		return drop.quantity - (this.inventory.getItemCount(item.id) - before);
+	}
+}
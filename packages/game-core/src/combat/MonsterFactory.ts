@@ -0,0 +1,93 @@
+/**
+ * MonsterFactory
+ * Builds combat entities from packages/data/monsters definitions
+ */
+
+import type { CombatEntity } from './CombatManager';
+
+export interface MonsterDrop {
+	itemId: string;
+	chance: number;
+	// Both quantity formats appear in the monster data
+	quantity?: { min: number; max: number };
+	minQuantity?: number;
+	maxQuantity?: number;
+}
+
+export interface MonsterData {
+	id: string;
+	name: string;
+	description: string;
+	level: number;
+	stats: {
+		hp: number;
+		mp: number;
+		atk: number;
+		def: number;
+		spd: number;
+		luck: number;
+	};
+	element: string;
+	skills: string[];
+	drops: MonsterDrop[];
+	exp: number;
+	gold: number;
+	aiPattern?: string;
+	zone?: string;
+}
+
+// Stat scaling per level above/below the monster's base level
+const STAT_SCALING_PER_LEVEL = 0.1;
+
+export class MonsterFactory {
+	/**
+	 * Create a combat entity for a monster, optionally scaled to a level
+	 */
+	static createCombatEntity(
+		monster: MonsterData,
+		instanceId: string,
+		level: number = monster.level,
+	): CombatEntity {
+		const scale = Math.max(0.1, 1 + (level - monster.level) * STAT_SCALING_PER_LEVEL);
+		const scaled = (value: number) => Math.max(1, Math.floor(value * scale));
+
+		return {
+			id: instanceId,
+			name: monster.name,
+			level,
+			stats: {
+				hp: scaled(monster.stats.hp),
+				maxHp: scaled(monster.stats.hp),
+				mp: scaled(monster.stats.mp),
+				maxMp: scaled(monster.stats.mp),
+				atk: scaled(monster.stats.atk),
+				def: scaled(monster.stats.def),
+				spd: scaled(monster.stats.spd),
+				luck: scaled(monster.stats.luck),
+			},
+			skills: [...monster.skills],
+			element: monster.element,
+			statusEffects: [],
+			isPlayer: false,
+			aiPattern: monster.aiPattern,
+			monsterId: monster.id,
+			stealableItems: monster.drops.map((drop) => drop.itemId),
+			rewards: {
+				exp: scaled(monster.exp),
+				gold: scaled(monster.gold),
+			},
+		};
+	}
+
+	/**
+	 * Get the min/max quantity of a drop regardless of data format
+	 */
+	static getDropQuantityRange(drop: MonsterDrop): { min: number; max: number } {
+		if (drop.quantity) {
+			return drop.quantity;
+		}
+
+		const min = drop.minQuantity ?? 1;
+		return { min, max: drop.maxQuantity ?? min };
+	}
+}
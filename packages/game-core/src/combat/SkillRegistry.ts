@@ -0,0 +1,117 @@
+/**
+ * SkillRegistry
+ * Skill definitions loaded from packages/data/skills
+ */
+
+import basicSkills from '@rpg/data/skills/basic_skills.json';
+import magicSkills from '@rpg/data/skills/magic_skills.json';
+import supportSkills from '@rpg/data/skills/support_skills.json';
+
+export type SkillType = 'physical' | 'magic' | 'support' | 'special';
+
+export type SkillTarget = 'single' | 'all_enemies' | 'self' | 'single_ally' | 'allies';
+
+export interface SkillEffect {
+	type: string;
+	value?: number;
+	chance?: number;
+	duration?: number;
+}
+
+export interface SkillData {
+	id: string;
+	name: string;
+	description: string;
+	type: SkillType;
+	element: string;
+	mpCost: number;
+	power: number;
+	accuracy: number;
+	target: SkillTarget;
+	effects: SkillEffect[];
+	animation: string;
+}
+
+interface SkillFile {
+	skills: SkillData[];
+}
+
+// Effects CombatManager resolves on hit; any other effect needs a duration and becomes a status
+const INSTANT_EFFECT_TYPES = ['crit_boost', 'heal', 'cleanse', 'steal_item'];
+
+export class SkillRegistry {
+	private skills: Map<string, SkillData> = new Map();
+
+	/**
+	 * Create a registry with the bundled skill data
+	 */
+	static loadDefault(): SkillRegistry {
+		const registry = new SkillRegistry();
+		registry.loadSkills((basicSkills as SkillFile).skills);
+		registry.loadSkills((magicSkills as SkillFile).skills);
+		registry.loadSkills((supportSkills as SkillFile).skills);
+		return registry;
+	}
+
+	/**
+	 * Load skill definitions
+	 * Throws on effects combat can't resolve rather than letting them silently do nothing
+	 */
+	loadSkills(skills: SkillData[]): void {
+		for (const skill of skills) {
+			const unhandled = skill.effects.find(
+				(effect) => !effect.duration && !INSTANT_EFFECT_TYPES.includes(effect.type),
+			);
+			if (unhandled) {
+				throw new Error(`Skill ${skill.id} has an unhandled effect: ${unhandled.type}`);
+			}
+
+			this.skills.set(skill.id, skill);
+		}
+	}
+
+	/**
+	 * Throw if any of the skill IDs has no definition
+	 */
+	assertSkillsExist(skillIds: string[], owner: string): void {
+		const missing = skillIds.filter((skillId) => !this.skills.has(skillId));
+		if (missing.length > 0) {
+			throw new Error(`${owner} uses undefined skills: ${missing.join(', ')}`);
+		}
+	}
+
+	/**
+	 * Get skill by ID
+	 */
+	getSkill(skillId: string): SkillData | undefined {
+		return this.skills.get(skillId);
+	}
+
+	/**
+	 * Check if skill exists
+	 */
+	hasSkill(skillId: string): boolean {
+		return this.skills.has(skillId);
+	}
+
+	/**
+	 * Get all skills
+	 */
+	getAllSkills(): SkillData[] {
+		return Array.from(this.skills.values());
+	}
+
+	/**
+	 * Get skills by type
+	 */
+	getSkillsByType(type: SkillType): SkillData[] {
+		return this.getAllSkills().filter((skill) => skill.type === type);
+	}
+
+	/**
+	 * Get skills by element
+	 */
+	getSkillsByElement(element: string): SkillData[] {
+		return this.getAllSkills().filter((skill) => skill.element === element);
+	}
+}
@@ -0,0 +1,261 @@
+/**
+ * StatusEffectEngine
+ * Status effect rules: damage-over-time, stat modifiers, turn skipping and stacking
+ */
+
+import type { CombatEntity, StatusEffect } from './CombatManager';
+
+export type StatusCategory = 'dot' | 'stat_modifier' | 'control' | 'special';
+
+/**
+ * How a new application interacts with an existing effect of the same type
+ * - refresh: reset duration, keep the stronger value
+ * - stack: add a stack (up to maxStacks) and reset duration
+ * - extend: add the new duration to the remaining turns
+ * - ignore: keep the existing effect untouched
+ */
+export type StackingRule = 'refresh' | 'stack' | 'extend' | 'ignore';
+
+export type ModifiableStat = 'atk' | 'def' | 'spd' | 'luck' | 'accuracy';
+
+export interface StatusDefinition {
+	type: string;
+	category: StatusCategory;
+	isDebuff: boolean;
+	stacking: StackingRule;
+	maxStacks?: number;
+	stat?: ModifiableStat; // stat_modifier only
+	dotPercent?: number; // dot only, fraction of max HP per stack per tick
+	breaksOnDamage?: boolean; // control only (sleep)
+}
+
+export type StatusApplyOutcome = 'applied' | 'refreshed' | 'stacked' | 'immune' | 'ignored';
+
+export interface StatusTick {
+	status: StatusEffect;
+	damage: number;
+}
+
+export interface StatusTickResult {
+	ticks: StatusTick[];
+	expired: StatusEffect[];
+}
+
+export type CleanseFilter = 'debuffs' | 'buffs' | 'all' | string[];
+
+export const DEFAULT_STATUS_DEFINITIONS: StatusDefinition[] = [
+	// Damage over time
+	{ type: 'burn', category: 'dot', isDebuff: true, stacking: 'refresh', dotPercent: 0.05 },
+	{
+		type: 'poison',
+		category: 'dot',
+		isDebuff: true,
+		stacking: 'stack',
+		maxStacks: 3,
+		dotPercent: 0.1,
+	},
+
+	// Buffs
+	{ type: 'atk_up', category: 'stat_modifier', isDebuff: false, stacking: 'refresh', stat: 'atk' },
+	{ type: 'def_up', category: 'stat_modifier', isDebuff: false, stacking: 'refresh', stat: 'def' },
+	{ type: 'spd_up', category: 'stat_modifier', isDebuff: false, stacking: 'refresh', stat: 'spd' },
+
+	// Debuffs
+	{ type: 'atk_down', category: 'stat_modifier', isDebuff: true, stacking: 'refresh', stat: 'atk' },
+	{ type: 'def_down', category: 'stat_modifier', isDebuff: true, stacking: 'refresh', stat: 'def' },
+	{ type: 'spd_down', category: 'stat_modifier', isDebuff: true, stacking: 'refresh', stat: 'spd' },
+	{
+		type: 'accuracy_down',
+		category: 'stat_modifier',
+		isDebuff: true,
+		stacking: 'refresh',
+		stat: 'accuracy',
+	},
+
+	// Turn skipping
+	{ type: 'stun', category: 'control', isDebuff: true, stacking: 'ignore' },
+	{ type: 'sleep', category: 'control', isDebuff: true, stacking: 'ignore', breaksOnDamage: true },
+
+	// Special
+	{ type: 'counter_damage', category: 'special', isDebuff: false, stacking: 'refresh' },
+];
+
+// Stat modifiers never reduce a stat below this fraction
+const MIN_STAT_MULTIPLIER = 0.1;
+
+export class StatusEffectEngine {
+	private definitions: Map<string, StatusDefinition> = new Map();
+
+	constructor(definitions: StatusDefinition[] = DEFAULT_STATUS_DEFINITIONS) {
+		definitions.forEach((definition) => this.registerDefinition(definition));
+	}
+
+	/**
+	 * Register or override a status definition
+	 */
+	registerDefinition(definition: StatusDefinition): void {
+		this.definitions.set(definition.type, definition);
+	}
+
+	/**
+	 * Get status definition (unknown types are treated as a refreshing special effect)
+	 */
+	getDefinition(type: string): StatusDefinition {
+		return (
+			this.definitions.get(type) || {
+				type,
+				category: 'special',
+				isDebuff: false,
+				stacking: 'refresh',
+			}
+		);
+	}
+
+	/**
+	 * Apply a status effect following its stacking rule
+	 */
+	apply(entity: CombatEntity, status: StatusEffect): StatusApplyOutcome {
+		if (entity.immunities?.includes(status.type)) {
+			return 'immune';
+		}
+
+		const definition = this.getDefinition(status.type);
+		const existing = entity.statusEffects.find((e) => e.type === status.type);
+
+		if (!existing) {
+			entity.statusEffects.push({ ...status, stacks: status.stacks ?? 1 });
+			return 'applied';
+		}
+
+		switch (definition.stacking) {
+			case 'ignore':
+				return 'ignored';
+			case 'extend':
+				existing.turnsLeft += status.duration;
+				existing.duration = existing.turnsLeft;
+				existing.value = Math.max(existing.value, status.value);
+				return 'refreshed';
+			case 'stack': {
+				const maxStacks = definition.maxStacks ?? 1;
+				const stacks = existing.stacks ?? 1;
+				existing.duration = status.duration;
+				existing.turnsLeft = status.duration;
+				if (stacks < maxStacks) {
+					existing.stacks = stacks + 1;
+					return 'stacked';
+				}
+				return 'refreshed';
+			}
+			case 'refresh':
+			default:
+				existing.duration = status.duration;
+				existing.turnsLeft = status.duration;
+				existing.value = Math.max(existing.value, status.value);
+				return 'refreshed';
+		}
+	}
+
+	/**
+	 * Process an entity's effects at the start of its turn
+	 */
+	tick(entity: CombatEntity): StatusTickResult {
+		const ticks: StatusTick[] = [];
+		const expired: StatusEffect[] = [];
+
+		for (const status of entity.statusEffects) {
+			const definition = this.getDefinition(status.type);
+
+			if (definition.category === 'dot' && definition.dotPercent) {
+				const damage = Math.max(
+					1,
+					Math.floor(entity.stats.maxHp * definition.dotPercent * (status.stacks ?? 1)),
+				);
+				ticks.push({ status, damage });
+			}
+
+			status.turnsLeft--;
+			if (status.turnsLeft <= 0) {
+				expired.push(status);
+			}
+		}
+
+		entity.statusEffects = entity.statusEffects.filter((status) => status.turnsLeft > 0);
+
+		return { ticks, expired };
+	}
+
+	/**
+	 * Get the turn-skipping effect on an entity, if any
+	 */
+	getTurnSkipEffect(entity: CombatEntity): StatusEffect | null {
+		return (
+			entity.statusEffects.find(
+				(status) => this.getDefinition(status.type).category === 'control',
+			) || null
+		);
+	}
+
+	/**
+	 * Get the combined multiplier for a stat from active modifiers
+	 */
+	getStatMultiplier(entity: CombatEntity, stat: ModifiableStat): number {
+		let multiplier = 1;
+
+		for (const status of entity.statusEffects) {
+			const definition = this.getDefinition(status.type);
+			if (definition.category !== 'stat_modifier' || definition.stat !== stat) continue;
+
+			const amount = status.value * (status.stacks ?? 1);
+			multiplier += definition.isDebuff ? -amount : amount;
+		}
+
+		return Math.max(MIN_STAT_MULTIPLIER, multiplier);
+	}
+
+	/**
+	 * Get the total value of a special effect (e.g. counter_damage)
+	 */
+	getEffectValue(entity: CombatEntity, type: string): number {
+		return entity.statusEffects
+			.filter((status) => status.type === type)
+			.reduce((sum, status) => sum + status.value * (status.stacks ?? 1), 0);
+	}
+
+	/**
+	 * Remove effects broken by taking damage (e.g. sleep)
+	 */
+	onDamaged(entity: CombatEntity): StatusEffect[] {
+		return this.remove(entity, (status) => !!this.getDefinition(status.type).breaksOnDamage);
+	}
+
+	/**
+	 * Remove effects matching a filter
+	 */
+	cleanse(entity: CombatEntity, filter: CleanseFilter): StatusEffect[] {
+		if (Array.isArray(filter)) {
+			return this.remove(entity, (status) => filter.includes(status.type));
+		}
+
+		switch (filter) {
+			case 'debuffs':
+				return this.remove(entity, (status) => this.getDefinition(status.type).isDebuff);
+			case 'buffs':
+				return this.remove(entity, (status) => !this.getDefinition(status.type).isDebuff);
+			case 'all':
+			default:
+				return this.remove(entity, () => true);
+		}
+	}
+
+	/**
+	 * Remove effects matching a predicate
+	 */
+	private remove(
+		entity: CombatEntity,
+		predicate: (status: StatusEffect) => boolean,
+	): StatusEffect[] {
+		const removed = entity.statusEffects.filter(predicate);
+		entity.statusEffects = entity.statusEffects.filter((status) => !predicate(status));
+		return removed;
+	}
+}
@@ -3,9 +3,14 @@
  * Turn-based combat system
  */
 
-export { CombatManager, CombatState, CombatActionType } from './CombatManager';
+export { CombatManager, CombatState, CombatActionType, MAX_PARTY_SIZE } from './CombatManager';
 export type {
 	CombatStats,
+	CombatRewards,
+	CombatRewardShare,
+	CombatManagerOptions,
+	CombatLog,
+	RandomSource,
 	StatusEffect,
 	CombatEntity,
 	CombatAction,
@@ -13,6 +18,30 @@ export type {
 	CombatEvents,
 } from './CombatManager';
 
+export { SkillRegistry } from './SkillRegistry';
+export type { SkillData, SkillEffect, SkillTarget, SkillType } from './SkillRegistry';
+
+export { StatusEffectEngine, DEFAULT_STATUS_DEFINITIONS } from './StatusEffectEngine';
+export type {
+	StatusCategory,
+	StackingRule,
+	ModifiableStat,
+	StatusDefinition,
+	StatusApplyOutcome,
+	StatusTick,
+	StatusTickResult,
+	CleanseFilter,
+} from './StatusEffectEngine';
+
+export { MonsterFactory } from './MonsterFactory';
+export type { MonsterData, MonsterDrop } from './MonsterFactory';
+
+export { CombatantFactory } from './CombatantFactory';
+export type { PlayerCombatantConfig } from './CombatantFactory';
+
+export { LootResolver } from './LootResolver';
+export type { LootDrop, LootSummary, LootResolverEvents } from './LootResolver';
+
 export { CombatAI, AIPattern } from './CombatAI';
 
 export {
@@ -4,6 +4,9 @@
  */
 
 import { ArenaManager } from '../pvp/ArenaManager';
+import type { ArenaBattle, ArenaMatch, ArenaParty } from '../pvp/ArenaManager';
+import type { SignalingClient } from '@rpg/networking/signaling/index';
+import { CombatActionType } from '../combat/CombatManager';
 import { ArenaUI } from '../ui/ArenaUI';
 
 export class ArenaExample {
@@ -11,7 +14,7 @@ export class ArenaExample {
 	private arenaUI: ArenaUI | null = null;
 
 	constructor() {
-		this.arenaManager = new ArenaManager('http://localhost:3000', 'player123', 'TestPlayer');
+		this.arenaManager = new ArenaManager('http://localhost:3000/api', 'player123', 'TestPlayer');
 
 		// Setup event listeners
 		this.setupEventListeners();
@@ -19,6 +22,14 @@ export class ArenaExample {
 		console.log('[ArenaExample] Initialized');
 	}
 
+	/**
+	 * Receive match and battle events over the signaling WebSocket
+	 */
+	connect(signaling: SignalingClient): void {
+		signaling.on('game-message', (message) => this.arenaManager.handleMessage(message));
+		this.arenaManager.setNetworkCallback((message) => signaling.sendGameMessage(message));
+	}
+
 	/**
 	 * Setup event listeners
 	 */
@@ -32,8 +43,10 @@ export class ArenaExample {
 		});
 
 		this.arenaManager.on('match-found', (match) => {
-			console.log('[Event] Match found!');
-			console.log('  Opponent:', match.player1_id === 'player123' ? match.player2_name : match.player1_name);
+			const onTeam1 = match.team1.some((member) => member.player_id === 'player123');
+			const opponents = onTeam1 ? match.team2 : match.team1;
+			console.log(`[Event] ${match.mode} match found!`);
+			console.log('  Opponents:', opponents.map((member) => member.player_name).join(', '));
 			console.log('  Match ID:', match.id);
 		});
 
@@ -41,6 +54,10 @@ export class ArenaExample {
 			console.log(`[Event] Match ${matchId} started`);
 		});
 
+		this.arenaManager.on('battle-updated', (battle) => {
+			console.log(`[Event] Battle turn ${battle.turn} (${battle.state})`);
+		});
+
 		this.arenaManager.on('match-completed', (matchId, ratingChange) => {
 			console.log(`[Event] Match ${matchId} completed`);
 			console.log(`  Rating change: ${ratingChange > 0 ? '+' : ''}${ratingChange}`);
@@ -165,15 +182,15 @@ export class ArenaExample {
 		console.log(`Recent Matches (${matches.length}):\n`);
 
 		matches.forEach((match, index) => {
-			const wasPlayer1 = match.player1_id === 'player123';
-			const opponent = wasPlayer1 ? match.player2_name : match.player1_name;
-			const myRating = wasPlayer1 ? match.player1_rating : match.player2_rating;
-			const opponentRating = wasPlayer1 ? match.player2_rating : match.player1_rating;
-			const won = match.winner_id === 'player123';
+			const onTeam1 = match.team1.some((member) => member.player_id === 'player123');
+			const allies = onTeam1 ? match.team1 : match.team2;
+			const opponents = onTeam1 ? match.team2 : match.team1;
+			const myRating = allies.find((member) => member.player_id === 'player123')?.rating;
+			const won = match.winning_team === (onTeam1 ? 1 : 2);
 
-			console.log(`Match #${index + 1}:`);
+			console.log(`Match #${index + 1} (${match.mode}):`);
 			console.log(`  Result: ${won ? '✅ Victory' : '❌ Defeat'}`);
-			console.log(`  Opponent: ${opponent} (Rating: ${opponentRating})`);
+			console.log(`  Opponents: ${opponents.map((m) => `${m.player_name} (${m.rating})`).join(', ')}`);
 			console.log(`  Your Rating: ${myRating}`);
 			console.log(`  Date: ${new Date(match.completed_at!).toLocaleString()}`);
 			console.log('');
@@ -190,40 +207,41 @@ export class ArenaExample {
 		console.log('1. Joining queue...');
 		await this.arenaManager.joinQueue();
 
-		// Wait for match (in real scenario, this would be handled by polling)
+		// Match, ready check and battle events are pushed over the WebSocket (see connect())
 		console.log('2. Waiting for match...');
-		console.log('   (In real scenario, match would be found automatically)');
-
-		// Simulate match found
-		console.log('3. Match found!');
+		const match = await new Promise<ArenaMatch | null>((resolve) => {
+			this.arenaManager.once('match-found', (found) => resolve(found));
+			setTimeout(() => resolve(null), 30000);
+		});
 
-		// Get current match
-		const match = this.arenaManager.getCurrentMatch();
 		if (!match) {
 			console.log('   No match found in this example');
+			await this.arenaManager.leaveQueue();
 			return;
 		}
 
-		// Simulate combat
-		console.log('4. Combat in progress...');
-		await new Promise((resolve) => setTimeout(resolve, 2000));
-
-		// Complete match (simulate win)
-		console.log('5. Completing match...');
-		const result = await this.arenaManager.completeMatch({
-			winner_id: 'player123',
-			loser_id: match.player1_id === 'player123' ? match.player2_id : match.player1_id,
-			duration: 120,
-		});
+		// Accept the ready check; the server starts the battle once both players accept
+		console.log('3. Match found, accepting...');
+		await this.arenaManager.acceptMatch();
 
-		if (result.success) {
-			console.log('✓ Match completed successfully');
-			if (result.ratingChanges) {
-				console.log(`   Rating change: +${result.ratingChanges.winner}`);
+		// Attack a living opponent whenever the server prompts for our turn
+		console.log('4. Combat in progress...');
+		const onTurn = (battle: ArenaBattle) => {
+			const me = battle.entities.find((entity) => entity.controllerId === 'player123');
+			const opponent = battle.entities.find(
+				(entity) => entity.isPlayer !== me?.isPlayer && entity.stats.hp > 0,
+			);
+			if (opponent) {
+				this.arenaManager.submitAction({ type: CombatActionType.ATTACK, targetId: opponent.id });
 			}
-		} else {
-			console.error(`✗ Failed to complete match: ${result.error}`);
-		}
+		};
+		this.arenaManager.on('turn-prompt', onTurn);
+
+		await new Promise<void>((resolve) => {
+			this.arenaManager.once('match-completed', () => resolve());
+			this.arenaManager.once('match-cancelled', () => resolve());
+		});
+		this.arenaManager.off('turn-prompt', onTurn);
 
 		// Fetch updated stats
 		await this.exampleGetStats();
@@ -242,6 +260,13 @@ export class ArenaExample {
 			console.log(`  Players in queue: ${status.queueSize}`);
 			console.log(`  Average rating: ${status.averageRating}`);
 			console.log(`  Active matches: ${status.activeMatches}`);
+			console.log(`  By mode: 1v1 ${status.modes['1v1']}, 2v2 ${status.modes['2v2']}, 3v3 ${status.modes['3v3']}`);
+			console.log(`  Estimated wait (1v1): ${status.estimatedWait['1v1'] ?? 'unknown'}s`);
+			if (status.player) {
+				console.log(
+					`  You: ${status.player.waited}s in ${status.player.mode} queue, matching within ±${status.player.ratingRange}`,
+				);
+			}
 		} else {
 			console.log('Failed to get queue status');
 		}
@@ -322,6 +347,40 @@ export class ArenaExample {
 		console.log('- Beat lower rated opponent: Small rating gain');
 		console.log('- Lose to higher rated opponent: Small rating loss');
 		console.log('- Lose to lower rated opponent: Large rating loss');
+		console.log('');
+		console.log('Team modes (2v2, 3v3) rate each player against the opposing team\'s average.');
+	}
+
+	/**
+	 * Example 11: Queue for 2v2 with a party
+	 */
+	async examplePartyQueue(friendId: string): Promise<void> {
+		console.log('\n=== Example 11: Party Queue (2v2) ===');
+
+		const created = await this.arenaManager.createParty();
+		if (!created.success) {
+			console.log('Failed to create party:', created.error);
+			return;
+		}
+
+		// The friend receives 'party-invite' and calls acceptPartyInvite(partyId)
+		await this.arenaManager.invitePlayer(friendId);
+		console.log(`Invited ${friendId}, waiting for them to join...`);
+
+		await new Promise<void>((resolve) => {
+			const onUpdate = (party: ArenaParty | null) => {
+				if (party && party.members.length >= 2) {
+					this.arenaManager.off('party-updated', onUpdate);
+					resolve();
+				}
+			};
+			this.arenaManager.on('party-updated', onUpdate);
+		});
+
+		// The leader queues for the whole party; matchmaking fills the other team
+		this.arenaManager.setMode('2v2');
+		const result = await this.arenaManager.joinQueue();
+		console.log(result.success ? 'Party queued for 2v2' : `Failed to queue: ${result.error}`);
 	}
 
 	/**
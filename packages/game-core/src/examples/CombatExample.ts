@@ -133,19 +133,18 @@ export class CombatExample {
 			}
 		});
 
-		// Turn start - trigger AI if enemy turn
+		// Turn start - trigger AI for enemies and AI-controlled party members
 		this.combat.on('turn-start', (actorId) => {
 			const actor = this.combat.getEntity(actorId);
-			if (!actor || actor.isPlayer) return;
+			if (!actor || !this.combat.isAIControlled(actorId)) return;
 
 			// AI decision (delayed to allow UI update)
 			setTimeout(() => {
-				const allies = this.combat.getAllEntities().filter((e) => !e.isPlayer && e.stats.hp > 0);
-				const enemies = this.combat.getAllEntities().filter((e) => e.isPlayer && e.stats.hp > 0);
+				const allies = this.combat.getAllies(actorId);
+				const enemies = this.combat.getOpponents(actorId);
 
 				// Determine AI pattern from monster data
-				let pattern = AIPattern.RANDOM;
-				// TODO: Load from monster JSON
+				let pattern = (actor.aiPattern as AIPattern) || AIPattern.RANDOM;
 
 				const action = CombatAI.decideAction(actor, allies, enemies, pattern);
 				this.combat.submitAction(action);
@@ -190,12 +189,14 @@ export class CombatExample {
 	/**
 	 * Start combat
 	 */
-	startCombat(player: CombatEntity, enemies: CombatEntity[]): void {
-		this.combat.initCombat(player, enemies);
+	startCombat(party: CombatEntity | CombatEntity[], enemies: CombatEntity[]): void {
+		const members = Array.isArray(party) ? party : [party];
+		// PvP shares the sync seed so both peers roll identically
+		if (!this.combat.initCombat(members, enemies, this.sync?.getSeed())) return;
 
 		// Send init to peer if PvP
 		if (this.sync) {
-			this.sync.sendCombatInit([player, ...enemies]);
+			this.sync.sendCombatInit([...members, ...enemies]);
 		}
 	}
 
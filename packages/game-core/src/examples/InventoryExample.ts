@@ -183,7 +183,7 @@ export class InventoryExample {
 				},
 			});
 
-			const items = await response.json();
+			const { items } = await response.json();
 
 			// Clear local inventory
 			this.inventoryManager.clear();
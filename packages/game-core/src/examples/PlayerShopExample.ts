@@ -21,7 +21,7 @@ export class PlayerShopExample {
 	private currency: number = 5000;
 
 	constructor() {
-		this.shopManager = new PlayerShopManager('http://localhost:3000', 'player123', 'TestPlayer');
+		this.shopManager = new PlayerShopManager('http://localhost:3000/api', 'player123', 'TestPlayer');
 
 		// Set callbacks
 		this.setupCallbacks();
@@ -11,6 +11,8 @@ export * from './world/index';
 export * from './inventory/index';
 export * from './economy/index';
 export * from './entities/index';
+export * from './progression/index';
+export * from './quests/index';
 
 // Scenes
 export * from './scenes/index';
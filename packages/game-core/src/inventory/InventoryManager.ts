@@ -29,6 +29,7 @@ export interface Item {
 	effects?: {
 		type: string;
 		value: number;
+		duration?: number;
 	}[];
 }
 
@@ -0,0 +1,342 @@
+/**
+ * CharacterProgression
+ * Base character level, EXP curve and allocatable stat points
+ */
+
+import { EventEmitter } from '../utils/EventEmitter';
+import type { CombatStats } from '../combat/CombatManager';
+import type { JobManager, JobStats } from '../jobs/JobManager';
+import type { EquipmentManager, EquipmentStats } from '../inventory/EquipmentManager';
+
+export type AttributeName = 'strength' | 'dexterity' | 'intelligence' | 'vitality' | 'luck';
+
+export type Attributes = Record<AttributeName, number>;
+
+export interface ProgressionConfig {
+	maxLevel: number;
+	baseExp: number; // EXP needed to go from level 1 to 2
+	expExponent: number; // Curve steepness: baseExp * level^expExponent
+	statPointsPerLevel: number;
+	baseAttributes: Attributes;
+	attributeGrowth: Attributes; // Automatic growth per level
+}
+
+export interface ProgressionData {
+	level: number;
+	experience: number;
+	unspentStatPoints: number;
+	allocatedStats: Attributes;
+}
+
+export interface CharacterProgressionEvents {
+	'exp-gained': (amount: number, experience: number) => void;
+	'level-up': (level: number, statPointsGained: number) => void;
+	'stat-points-allocated': (attribute: AttributeName, points: number) => void;
+	'stats-changed': (stats: CombatStats) => void;
+}
+
+export const DEFAULT_PROGRESSION_CONFIG: ProgressionConfig = {
+	maxLevel: 99,
+	baseExp: 100,
+	expExponent: 1.5,
+	statPointsPerLevel: 3,
+	baseAttributes: { strength: 5, dexterity: 5, intelligence: 5, vitality: 5, luck: 5 },
+	attributeGrowth: { strength: 1, dexterity: 1, intelligence: 1, vitality: 1, luck: 0 },
+};
+
+// How much each attribute point contributes to combat stats
+const ATTRIBUTE_WEIGHTS: Record<AttributeName, Partial<Record<keyof JobStats, number>>> = {
+	strength: { atk: 2, hp: 2 },
+	dexterity: { spd: 1, atk: 0.5 },
+	intelligence: { mp: 5, atk: 0.5 },
+	vitality: { hp: 10, def: 1 },
+	luck: { luck: 1 },
+};
+
+// EXP multiplier per level the monster is above (+) or below (-) the character
+const EXP_LEVEL_DIFF_FACTOR = 0.05;
+const MIN_EXP_MULTIPLIER = 0.1;
+const MAX_EXP_MULTIPLIER = 1.5;
+
+const ATTRIBUTE_NAMES: AttributeName[] = [
+	'strength',
+	'dexterity',
+	'intelligence',
+	'vitality',
+	'luck',
+];
+
+export class CharacterProgression extends EventEmitter<CharacterProgressionEvents> {
+	private config: ProgressionConfig;
+	private level: number = 1;
+	private experience: number = 0; // EXP into the current level
+	private unspentStatPoints: number = 0;
+	private allocatedStats: Attributes = emptyAttributes();
+	private jobManager: JobManager | null = null;
+	private equipmentManager: EquipmentManager | null = null;
+
+	constructor(config: Partial<ProgressionConfig> = {}) {
+		super();
+		this.config = { ...DEFAULT_PROGRESSION_CONFIG, ...config };
+	}
+
+	/**
+	 * Attach job and equipment managers used for combat stats
+	 * The job manager's player level is kept in sync with the character level
+	 */
+	setStatSources(jobManager: JobManager | null, equipmentManager: EquipmentManager | null): void {
+		this.jobManager = jobManager;
+		this.equipmentManager = equipmentManager;
+		this.jobManager?.setPlayerLevel(this.level);
+	}
+
+	/**
+	 * EXP needed to advance from a level to the next
+	 */
+	getExpForLevel(level: number): number {
+		return Math.floor(this.config.baseExp * Math.pow(level, this.config.expExponent));
+	}
+
+	/**
+	 * Add raw experience, returns the number of levels gained
+	 */
+	addExperience(amount: number): number {
+		if (amount <= 0 || this.level >= this.config.maxLevel) return 0;
+
+		this.experience += Math.floor(amount);
+		this.emit('exp-gained', Math.floor(amount), this.experience);
+
+		let levelsGained = 0;
+		while (
+			this.level < this.config.maxLevel &&
+			this.experience >= this.getExpForLevel(this.level)
+		) {
+			this.experience -= this.getExpForLevel(this.level);
+			this.level++;
+			levelsGained++;
+
+			this.unspentStatPoints += this.config.statPointsPerLevel;
+			this.emit('level-up', this.level, this.config.statPointsPerLevel);
+		}
+
+		// No overflow at the cap
+		if (this.level >= this.config.maxLevel) {
+			this.experience = 0;
+		}
+
+		if (levelsGained > 0) {
+			this.jobManager?.setPlayerLevel(this.level);
+			this.emit('stats-changed', this.getCombatStats());
+		}
+
+		return levelsGained;
+	}
+
+	/**
+	 * Award EXP for defeated monsters, scaled by level difference
+	 */
+	awardMonsterExp(monsters: { exp: number; level: number }[]): number {
+		const total = monsters.reduce((sum, monster) => {
+			const multiplier = Math.min(
+				MAX_EXP_MULTIPLIER,
+				Math.max(
+					MIN_EXP_MULTIPLIER,
+					1 + (monster.level - this.level) * EXP_LEVEL_DIFF_FACTOR,
+				),
+			);
+			return sum + Math.floor(monster.exp * multiplier);
+		}, 0);
+
+		this.addExperience(total);
+		return total;
+	}
+
+	/**
+	 * Spend unspent stat points on an attribute
+	 */
+	allocateStatPoints(attribute: AttributeName, points: number = 1): boolean {
+		if (points <= 0 || points > this.unspentStatPoints) {
+			console.warn('[CharacterProgression] Not enough stat points');
+			return false;
+		}
+
+		this.unspentStatPoints -= points;
+		this.allocatedStats[attribute] += points;
+
+		this.emit('stat-points-allocated', attribute, points);
+		this.emit('stats-changed', this.getCombatStats());
+
+		return true;
+	}
+
+	/**
+	 * Refund all allocated stat points
+	 */
+	resetStatPoints(): void {
+		for (const attribute of ATTRIBUTE_NAMES) {
+			this.unspentStatPoints += this.allocatedStats[attribute];
+		}
+		this.allocatedStats = emptyAttributes();
+
+		this.emit('stats-changed', this.getCombatStats());
+	}
+
+	/**
+	 * Get attributes (base + level growth + allocated points)
+	 */
+	getAttributes(): Attributes {
+		const growthLevels = this.level - 1;
+		const attributes = emptyAttributes();
+
+		for (const attribute of ATTRIBUTE_NAMES) {
+			attributes[attribute] =
+				this.config.baseAttributes[attribute] +
+				this.config.attributeGrowth[attribute] * growthLevels +
+				this.allocatedStats[attribute];
+		}
+
+		return attributes;
+	}
+
+	/**
+	 * Derive combat stats from attributes, job stats and equipment stats
+	 */
+	deriveCombatStats(jobStats?: JobStats, equipmentStats?: EquipmentStats): CombatStats {
+		const totals: JobStats = { hp: 0, mp: 0, atk: 0, def: 0, spd: 0, luck: 0 };
+		const attributes = this.getAttributes();
+
+		for (const attribute of ATTRIBUTE_NAMES) {
+			const weights = ATTRIBUTE_WEIGHTS[attribute];
+			for (const [stat, weight] of Object.entries(weights) as [keyof JobStats, number][]) {
+				totals[stat] += attributes[attribute] * weight;
+			}
+		}
+
+		for (const source of [jobStats, equipmentStats]) {
+			if (!source) continue;
+			totals.hp += source.hp;
+			totals.mp += source.mp;
+			totals.atk += source.atk;
+			totals.def += source.def;
+			totals.spd += source.spd;
+			totals.luck += source.luck;
+		}
+
+		const maxHp = Math.max(1, Math.floor(totals.hp));
+		const maxMp = Math.max(0, Math.floor(totals.mp));
+
+		return {
+			hp: maxHp,
+			maxHp,
+			mp: maxMp,
+			maxMp,
+			atk: Math.floor(totals.atk),
+			def: Math.floor(totals.def),
+			spd: Math.floor(totals.spd),
+			luck: Math.floor(totals.luck),
+		};
+	}
+
+	/**
+	 * Get combat stats using the attached job and equipment managers
+	 */
+	getCombatStats(): CombatStats {
+		return this.deriveCombatStats(
+			this.jobManager?.calculateTotalStats(),
+			this.equipmentManager?.getTotalStats(),
+		);
+	}
+
+	/**
+	 * Get current level
+	 */
+	getLevel(): number {
+		return this.level;
+	}
+
+	/**
+	 * Get EXP into the current level
+	 */
+	getExperience(): number {
+		return this.experience;
+	}
+
+	/**
+	 * Get EXP still needed for the next level
+	 */
+	getExpToNextLevel(): number {
+		if (this.level >= this.config.maxLevel) return 0;
+		return this.getExpForLevel(this.level) - this.experience;
+	}
+
+	/**
+	 * Get unspent stat points
+	 */
+	getUnspentStatPoints(): number {
+		return this.unspentStatPoints;
+	}
+
+	/**
+	 * Get allocated stat points
+	 */
+	getAllocatedStats(): Attributes {
+		return { ...this.allocatedStats };
+	}
+
+	/**
+	 * Set level directly (for tools and simulations)
+	 */
+	setLevel(level: number): void {
+		this.level = Math.max(1, Math.min(this.config.maxLevel, Math.floor(level)));
+		this.experience = 0;
+		this.jobManager?.setPlayerLevel(this.level);
+		this.emit('stats-changed', this.getCombatStats());
+	}
+
+	/**
+	 * Export progression data for save
+	 */
+	export(): ProgressionData {
+		return {
+			level: this.level,
+			experience: this.experience,
+			unspentStatPoints: this.unspentStatPoints,
+			allocatedStats: { ...this.allocatedStats },
+		};
+	}
+
+	/**
+	 * Import progression data from save
+	 */
+	import(data: Partial<ProgressionData>): void {
+		if (data.level !== undefined) {
+			this.level = data.level;
+		}
+		if (data.experience !== undefined) {
+			this.experience = data.experience;
+		}
+		if (data.unspentStatPoints !== undefined) {
+			this.unspentStatPoints = data.unspentStatPoints;
+		}
+		if (data.allocatedStats) {
+			this.allocatedStats = { ...emptyAttributes(), ...data.allocatedStats };
+		}
+
+		this.jobManager?.setPlayerLevel(this.level);
+		this.emit('stats-changed', this.getCombatStats());
+	}
+
+	/**
+	 * Clear progression (for logout/reset)
+	 */
+	clear(): void {
+		this.level = 1;
+		this.experience = 0;
+		this.unspentStatPoints = 0;
+		this.allocatedStats = emptyAttributes();
+	}
+}
+
+function emptyAttributes(): Attributes {
+	return { strength: 0, dexterity: 0, intelligence: 0, vitality: 0, luck: 0 };
+}
@@ -0,0 +1,13 @@
+/**
+ * Progression Module
+ * Character level, experience and stat points
+ */
+
+export { CharacterProgression, DEFAULT_PROGRESSION_CONFIG } from './CharacterProgression';
+export type {
+	AttributeName,
+	Attributes,
+	ProgressionConfig,
+	ProgressionData,
+	CharacterProgressionEvents,
+} from './CharacterProgression';
@@ -4,10 +4,38 @@
  */
 
 import { EventEmitter } from '../utils/EventEmitter';
+import type {
+	CombatAction,
+	CombatActionType,
+	CombatState,
+	CombatStats,
+	DamageResult,
+	StatusEffect,
+} from '../combat/CombatManager';
+
+export type ArenaMode = '1v1' | '2v2' | '3v3';
+
+// Players per side in each mode
+export const ARENA_TEAM_SIZES: Record<ArenaMode, number> = {
+	'1v1': 1,
+	'2v2': 2,
+	'3v3': 3,
+};
+
+export type ArenaTier =
+	| 'Unranked'
+	| 'Bronze'
+	| 'Silver'
+	| 'Gold'
+	| 'Platinum'
+	| 'Diamond'
+	| 'Master'
+	| 'Grandmaster';
 
 export interface ArenaPlayer {
 	player_id: string;
 	player_name: string;
+	mode: ArenaMode; // Ratings and records are tracked per mode
 	rank: number;
 	rating: number;
 	wins: number;
@@ -16,53 +44,212 @@ export interface ArenaPlayer {
 	current_streak: number;
 	best_streak: number;
 	last_match_at: string | null;
+	tier: ArenaTier;
+	peak_rating: number; // Highest rating this season
+	season_wins: number;
+	season_losses: number;
+	placement_matches_remaining: number;
 }
 
+export interface ArenaTeamMember {
+	player_id: string;
+	player_name: string;
+	rating: number;
+}
+
+/**
+ * player1/player2 are the team captains (the only players in 1v1)
+ */
 export interface ArenaMatch {
 	id: number;
+	mode: ArenaMode;
 	player1_id: string;
 	player1_name: string;
 	player1_rating: number;
 	player2_id: string;
 	player2_name: string;
 	player2_rating: number;
-	winner_id: string | null;
+	team1: ArenaTeamMember[];
+	team2: ArenaTeamMember[];
+	winner_id: string | null; // Winning captain
+	winning_team: 1 | 2 | null;
 	status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
 	started_at: string;
 	completed_at: string | null;
 }
 
+/**
+ * Pre-made group that queues for team modes together
+ */
+export interface ArenaParty {
+	id: string;
+	leader_id: string;
+	members: { player_id: string; player_name: string }[];
+	invites: string[]; // Invited player IDs
+}
+
 export interface LeaderboardEntry {
 	rank: number;
 	player_id: string;
 	player_name: string;
+	mode: ArenaMode;
 	rating: number;
 	wins: number;
 	losses: number;
 	win_rate: number;
+	tier: ArenaTier;
+}
+
+export interface ArenaSeason {
+	id: number;
+	name: string;
+	starts_at: string;
+	ends_at: string;
+	status: 'active' | 'ended';
+}
+
+/**
+ * Final standing in a past season
+ */
+export interface SeasonStanding {
+	season_id: number;
+	season_name: string;
+	player_id: string;
+	player_name: string;
+	mode: ArenaMode;
+	rank: number;
+	final_rating: number;
+	peak_rating: number;
+	tier: ArenaTier;
+	wins: number;
+	losses: number;
+	rewards: { gold: number; items: { itemId: string; quantity: number }[] } | null;
+	rewarded_at: string | null;
+	pending_items: { itemId: string; quantity: number }[]; // Reward items not granted yet
 }
 
 export interface QueueStatus {
 	queueSize: number;
 	averageRating: number;
 	activeMatches: number;
+	modes: Record<ArenaMode, number>; // Queued players per mode
+	estimatedWait: Record<ArenaMode, number | null>; // Seconds, from recent matches (null = no data yet)
+	player?: {
+		// Set while this player is queued
+		mode: ArenaMode;
+		waited: number; // Seconds
+		ratingRange: number; // Current acceptable rating difference (widens while waiting)
+		estimatedWait: number | null; // Seconds remaining
+	};
+}
+
+/**
+ * Action sent to the server; the actor is always the caller's own combatant
+ */
+export interface ArenaBattleAction {
+	type: CombatActionType;
+	targetId: string;
+	skillId?: string;
+	itemId?: string;
+}
+
+/**
+ * Server-run battle state (the server resolves every action and the result)
+ */
+export interface ArenaBattle {
+	battleId: string;
+	kind: 'pve' | 'arena';
+	state: CombatState;
+	turn: number;
+	currentActorId: string | null;
+	awaitingPlayerId: string | null;
+	turnDeadline: number | null;
+	entities: {
+		id: string;
+		name: string;
+		level: number;
+		stats: CombatStats;
+		skills: string[];
+		statusEffects: StatusEffect[];
+		isPlayer: boolean;
+		controllerId: string | null;
+	}[];
+	turns: { turn: number; action: CombatAction; result: DamageResult }[];
+	result: {
+		outcome: 'victory' | 'defeat' | 'fled' | 'forfeit' | 'timeout';
+		winnerIds: string[];
+		loserIds: string[];
+		ratingChanges?: Record<string, number>; // Player ID -> rating change
+	} | null;
+}
+
+/**
+ * Arena battle in progress that can be spectated
+ */
+export interface LiveArenaMatch {
+	matchId: number;
+	battleId: string;
+	turn: number; // Turn shown to spectators
+	spectators: number;
+	startedAt: number;
+	match: ArenaMatch;
+}
+
+/**
+ * One recorded action with the entity state after it resolved
+ */
+export interface ArenaReplayFrame {
+	turn: number;
+	action: CombatAction;
+	result: DamageResult;
+	entities: { id: string; hp: number; mp: number; statusEffects: StatusEffect[] }[];
+}
+
+/**
+ * Recorded turn stream of a completed arena match
+ */
+export interface ArenaReplay {
+	battleId: string;
+	matchId: number;
+	entities: ArenaBattle['entities']; // Entity state when the battle started
+	frames: ArenaReplayFrame[];
+	result: NonNullable<ArenaBattle['result']>;
+	duration: number; // Seconds
+}
+
+/**
+ * Arena/battle message pushed by the server over the game WebSocket
+ */
+export interface ArenaNetworkMessage {
+	type: string;
+	data?: any;
 }
 
-export interface MatchResult {
-	winner_id: string;
-	loser_id: string;
-	duration: number;
+/**
+ * Arena/battle request sent to the server over the game WebSocket
+ */
+export interface ArenaRequestMessage {
+	type: 'arena-ready' | 'battle-action';
+	data: any;
 }
 
 export interface ArenaManagerEvents {
 	'queue-joined': (queueSize: number) => void;
 	'queue-left': () => void;
-	'match-found': (match: ArenaMatch) => void;
+	'queue-timeout': (mode: ArenaMode) => void;
+	'match-found': (match: ArenaMatch, readyDeadline: number) => void;
 	'match-started': (matchId: number) => void;
 	'match-completed': (matchId: number, ratingChange: number) => void;
-	'match-cancelled': (matchId: number) => void;
+	'match-cancelled': (matchId: number, requeued: boolean) => void;
+	'battle-updated': (battle: ArenaBattle) => void;
+	'turn-prompt': (battle: ArenaBattle) => void;
 	'stats-updated': (stats: ArenaPlayer) => void;
 	'leaderboard-updated': (leaderboard: LeaderboardEntry[]) => void;
+	'season-updated': (season: ArenaSeason) => void;
+	'party-updated': (party: ArenaParty | null) => void;
+	'party-invite': (party: ArenaParty) => void;
+	'spectate-updated': (battle: ArenaBattle) => void;
+	'spectate-ended': (battle: ArenaBattle) => void;
 	'error': (message: string) => void;
 }
 
@@ -71,16 +258,18 @@ export class ArenaManager extends EventEmitter<ArenaManagerEvents> {
 	private playerId: string;
 	private playerName: string;
 	private authToken: string | null = null;
+	private mode: ArenaMode = '1v1'; // Mode used for queueing, stats and leaderboard
 	private inQueue: boolean = false;
+	private party: ArenaParty | null = null;
+	private partyInvites: Map<string, ArenaParty> = new Map(); // Party ID -> inviting party
 	private currentMatch: ArenaMatch | null = null;
+	private currentBattle: ArenaBattle | null = null;
+	private spectatedBattle: ArenaBattle | null = null; // Delayed read-only view of another match
 	private stats: ArenaPlayer | null = null;
 	private leaderboard: LeaderboardEntry[] = [];
-	private queuePollInterval: Timer | null = null;
-	private matchPollInterval: Timer | null = null;
-
-	// Polling intervals
-	private readonly QUEUE_POLL_INTERVAL = 2000; // 2 seconds
-	private readonly MATCH_POLL_INTERVAL = 1000; // 1 second
+	private season: ArenaSeason | null = null;
+	private readyDeadline: number | null = null;
+	private sendMessageCallback: ((message: ArenaRequestMessage) => void) | null = null;
 
 	constructor(apiUrl: string, playerId: string, playerName: string) {
 		super();
@@ -89,6 +278,13 @@ export class ArenaManager extends EventEmitter<ArenaManagerEvents> {
 		this.playerName = playerName;
 	}
 
+	/**
+	 * Set network callback (game WebSocket); match events arrive through handleMessage
+	 */
+	setNetworkCallback(sendMessage: (message: ArenaRequestMessage) => void): void {
+		this.sendMessageCallback = sendMessage;
+	}
+
 	/**
 	 * Set auth token
 	 */
@@ -97,7 +293,25 @@ export class ArenaManager extends EventEmitter<ArenaManagerEvents> {
 	}
 
 	/**
-	 * Join arena queue
+	 * Select the arena mode (clears stats and leaderboard fetched for the previous mode)
+	 */
+	setMode(mode: ArenaMode): void {
+		if (this.mode === mode) return;
+
+		this.mode = mode;
+		this.stats = null;
+		this.leaderboard = [];
+	}
+
+	/**
+	 * Get the selected arena mode
+	 */
+	getMode(): ArenaMode {
+		return this.mode;
+	}
+
+	/**
+	 * Join arena queue in the selected mode (a party leader queues the whole party)
 	 */
 	async joinQueue(): Promise<{ success: boolean; error?: string; queueSize?: number }> {
 		if (this.inQueue) {
@@ -122,6 +336,7 @@ export class ArenaManager extends EventEmitter<ArenaManagerEvents> {
 				body: JSON.stringify({
 					player_id: this.playerId,
 					player_name: this.playerName,
+					mode: this.mode,
 				}),
 			});
 
@@ -130,7 +345,6 @@ export class ArenaManager extends EventEmitter<ArenaManagerEvents> {
 			if (data.success) {
 				this.inQueue = true;
 				this.emit('queue-joined', data.queueSize || 0);
-				this.startQueuePolling();
 			} else if (data.error) {
 				this.emit('error', data.error);
 			}
@@ -167,7 +381,6 @@ export class ArenaManager extends EventEmitter<ArenaManagerEvents> {
 
 			if (data.success) {
 				this.inQueue = false;
-				this.stopQueuePolling();
 				this.emit('queue-left');
 			}
 
@@ -180,179 +393,303 @@ export class ArenaManager extends EventEmitter<ArenaManagerEvents> {
 	}
 
 	/**
-	 * Start queue polling
+	 * Handle a pushed arena or battle message from the server
 	 */
-	private startQueuePolling(): void {
-		if (this.queuePollInterval) {
-			return;
+	handleMessage(message: ArenaNetworkMessage): void {
+		const data = message.data;
+
+		switch (message.type) {
+			case 'arena-match-found':
+				this.inQueue = false;
+				this.currentMatch = data.match;
+				this.readyDeadline = data.readyDeadline;
+				this.emit('match-found', data.match, data.readyDeadline);
+				break;
+
+			case 'arena-match-ready':
+				this.currentMatch = data.match;
+				this.readyDeadline = null;
+				this.emit('match-started', data.match.id);
+				break;
+
+			case 'arena-match-cancelled':
+				this.handleMatchCancelled(data.matchId, data.requeued ?? []);
+				break;
+
+			case 'arena-queue-timeout':
+				this.inQueue = false;
+				this.emit('queue-timeout', data.mode);
+				break;
+
+			case 'arena-party-invite':
+				this.partyInvites.set(data.party.id, data.party);
+				this.emit('party-invite', data.party);
+				break;
+
+			case 'arena-party-updated':
+				this.party = data.party;
+				if (data.party) {
+					this.partyInvites.delete(data.party.id);
+				}
+				if (!this.currentMatch) {
+					this.inQueue = data.queueMode !== null;
+					if (data.queueMode) {
+						this.mode = data.queueMode;
+					}
+				}
+				this.emit('party-updated', data.party);
+				break;
+
+			case 'battle-update':
+				this.setBattle(data);
+				break;
+
+			case 'battle-turn':
+				this.setBattle(data);
+				if (data.awaitingPlayerId === this.playerId) {
+					this.emit('turn-prompt', data);
+				}
+				break;
+
+			case 'battle-end':
+				this.setBattle(data);
+				this.handleBattleEnd(data);
+				break;
+
+			case 'spectate-update':
+				this.spectatedBattle = data;
+				this.emit('spectate-updated', data);
+				break;
+
+			case 'spectate-end':
+				this.spectatedBattle = null;
+				this.emit('spectate-ended', data);
+				break;
+
+			case 'game-error':
+				this.emit('error', data?.error || 'Request failed');
+				break;
 		}
+	}
 
-		this.queuePollInterval = setInterval(() => {
-			this.checkForMatch();
-		}, this.QUEUE_POLL_INTERVAL);
+	/**
+	 * A cancelled ready check requeues every party without a dodger
+	 */
+	private handleMatchCancelled(matchId: number, requeuedIds: string[]): void {
+		if (this.currentMatch?.id !== matchId) return;
+
+		const requeued = requeuedIds.includes(this.playerId);
+		this.currentMatch = null;
+		this.currentBattle = null;
+		this.readyDeadline = null;
+		this.inQueue = requeued;
+		this.emit('match-cancelled', matchId, requeued);
 	}
 
 	/**
-	 * Stop queue polling
+	 * Finish the current arena match from the server's battle result
 	 */
-	private stopQueuePolling(): void {
-		if (this.queuePollInterval) {
-			clearInterval(this.queuePollInterval);
-			this.queuePollInterval = null;
+	private handleBattleEnd(battle: ArenaBattle): void {
+		if (battle.kind !== 'arena' || !this.currentMatch || !battle.result) return;
+
+		const matchId = this.currentMatch.id;
+		const ratingChange = this.getRatingChange();
+
+		this.currentMatch = null;
+		this.currentBattle = null;
+
+		if (battle.result.winnerIds.length > 0) {
+			this.emit('match-completed', matchId, ratingChange);
+		} else {
+			this.emit('match-cancelled', matchId, false);
 		}
+
+		this.fetchStats();
 	}
 
 	/**
-	 * Check for match
+	 * Accept or decline the pending ready check
 	 */
-	private async checkForMatch(): Promise<void> {
-		if (!this.inQueue) {
-			this.stopQueuePolling();
-			return;
+	async respondToReadyCheck(accept: boolean): Promise<{ success: boolean; error?: string }> {
+		if (!this.currentMatch || this.readyDeadline === null) {
+			return { success: false, error: 'No pending ready check' };
+		}
+
+		const matchId = this.currentMatch.id;
+
+		if (this.sendMessageCallback) {
+			this.sendMessageCallback({ type: 'arena-ready', data: { matchId, accept } });
+			return { success: true };
 		}
 
 		try {
-			const response = await fetch(`${this.apiUrl}/arena/match/active/${this.playerId}`, {
-				method: 'GET',
+			const response = await fetch(`${this.apiUrl}/arena/match/ready/${matchId}`, {
+				method: 'POST',
 				headers: {
+					'Content-Type': 'application/json',
 					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
 				},
+				body: JSON.stringify({ accept }),
 			});
 
 			const data = await response.json();
 
-			if (data.match) {
-				this.inQueue = false;
-				this.stopQueuePolling();
-				this.currentMatch = data.match;
-				this.emit('match-found', data.match);
-				this.startMatchPolling();
+			if (!data.success && data.error) {
+				this.emit('error', data.error);
 			}
+
+			return data;
 		} catch (error) {
-			// Silent fail, will retry on next poll
+			const errorMsg = 'Failed to respond to ready check';
+			this.emit('error', errorMsg);
+			return { success: false, error: errorMsg };
 		}
 	}
 
 	/**
-	 * Start match polling
+	 * Accept the pending match
 	 */
-	private startMatchPolling(): void {
-		if (this.matchPollInterval) {
-			return;
-		}
-
-		this.matchPollInterval = setInterval(() => {
-			this.checkMatchStatus();
-		}, this.MATCH_POLL_INTERVAL);
+	acceptMatch(): Promise<{ success: boolean; error?: string }> {
+		return this.respondToReadyCheck(true);
 	}
 
 	/**
-	 * Stop match polling
+	 * Decline the pending match (locks the queue for a while)
 	 */
-	private stopMatchPolling(): void {
-		if (this.matchPollInterval) {
-			clearInterval(this.matchPollInterval);
-			this.matchPollInterval = null;
-		}
+	declineMatch(): Promise<{ success: boolean; error?: string }> {
+		return this.respondToReadyCheck(false);
 	}
 
 	/**
-	 * Check match status
+	 * Fetch the current match battle (e.g. after reconnecting)
 	 */
-	private async checkMatchStatus(): Promise<void> {
+	async startMatch(): Promise<{ success: boolean; error?: string; battle?: ArenaBattle }> {
 		if (!this.currentMatch) {
-			this.stopMatchPolling();
-			return;
+			return { success: false, error: 'No active match' };
 		}
 
 		try {
-			const response = await fetch(`${this.apiUrl}/arena/match/${this.currentMatch.id}`, {
-				method: 'GET',
+			const response = await fetch(`${this.apiUrl}/arena/match/start/${this.currentMatch.id}`, {
+				method: 'POST',
 				headers: {
+					'Content-Type': 'application/json',
 					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
 				},
 			});
 
 			const data = await response.json();
 
-			if (data.match) {
-				const match = data.match;
+			if (data.success) {
+				this.setBattle(data.battle);
+			} else if (data.error) {
+				this.emit('error', data.error);
+			}
 
-				// Check if match started
-				if (match.status === 'in_progress' && this.currentMatch.status === 'pending') {
-					this.emit('match-started', match.id);
-				}
+			return data;
+		} catch (error) {
+			const errorMsg = 'Failed to start match';
+			this.emit('error', errorMsg);
+			return { success: false, error: errorMsg };
+		}
+	}
 
-				// Check if match completed
-				if (match.status === 'completed') {
-					this.stopMatchPolling();
-					const wasWinner = match.winner_id === this.playerId;
-					const ratingChange = data.ratingChange || 0;
-					this.currentMatch = null;
-					this.emit('match-completed', match.id, ratingChange);
-					await this.fetchStats();
-				}
+	/**
+	 * Submit an action for this player's combatant
+	 */
+	async submitAction(
+		action: ArenaBattleAction,
+	): Promise<{ success: boolean; error?: string; battle?: ArenaBattle }> {
+		if (!this.currentBattle) {
+			return { success: false, error: 'No active battle' };
+		}
 
-				// Check if match cancelled
-				if (match.status === 'cancelled') {
-					this.stopMatchPolling();
-					this.currentMatch = null;
-					this.emit('match-cancelled', match.id);
-				}
+		// Over the socket the result arrives as a pushed battle update
+		if (this.sendMessageCallback) {
+			this.sendMessageCallback({
+				type: 'battle-action',
+				data: { battleId: this.currentBattle.battleId, action },
+			});
+			return { success: true };
+		}
+
+		try {
+			const response = await fetch(`${this.apiUrl}/battle/${this.currentBattle.battleId}/action`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+				body: JSON.stringify(action),
+			});
 
-				this.currentMatch = match;
+			const data = await response.json();
+
+			if (data.success) {
+				this.setBattle(data.battle);
+			} else if (data.error) {
+				this.emit('error', data.error);
 			}
+
+			return data;
 		} catch (error) {
-			// Silent fail, will retry on next poll
+			const errorMsg = 'Failed to submit action';
+			this.emit('error', errorMsg);
+			return { success: false, error: errorMsg };
 		}
 	}
 
 	/**
-	 * Complete match
+	 * Forfeit the current battle (counts as a loss)
 	 */
-	async completeMatch(result: MatchResult): Promise<{ success: boolean; error?: string; ratingChanges?: any }> {
-		if (!this.currentMatch) {
-			return { success: false, error: 'No active match' };
+	async forfeit(): Promise<{ success: boolean; error?: string }> {
+		if (!this.currentBattle) {
+			return { success: false, error: 'No active battle' };
 		}
 
 		try {
-			const response = await fetch(`${this.apiUrl}/arena/match/complete/${this.currentMatch.id}`, {
+			const response = await fetch(`${this.apiUrl}/battle/${this.currentBattle.battleId}/forfeit`, {
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
 					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
 				},
-				body: JSON.stringify(result),
 			});
 
 			const data = await response.json();
 
-			if (data.success) {
-				const wasWinner = result.winner_id === this.playerId;
-				const myRatingChange = wasWinner ? data.ratingChanges?.winner || 0 : data.ratingChanges?.loser || 0;
-
-				this.stopMatchPolling();
-				this.currentMatch = null;
-				this.emit('match-completed', this.currentMatch!.id, myRatingChange);
-				await this.fetchStats();
-			} else if (data.error) {
+			if (!data.success && data.error) {
 				this.emit('error', data.error);
 			}
 
 			return data;
 		} catch (error) {
-			const errorMsg = 'Failed to complete match';
+			const errorMsg = 'Failed to forfeit';
 			this.emit('error', errorMsg);
 			return { success: false, error: errorMsg };
 		}
 	}
 
 	/**
-	 * Fetch player stats
+	 * Store a battle update and notify listeners
+	 */
+	private setBattle(battle: ArenaBattle): void {
+		this.currentBattle = battle;
+		this.emit('battle-updated', battle);
+	}
+
+	/**
+	 * Get this player's rating change from the finished battle
+	 */
+	private getRatingChange(): number {
+		return this.currentBattle?.result?.ratingChanges?.[this.playerId] ?? 0;
+	}
+
+	/**
+	 * Fetch player stats for the selected mode
 	 */
 	async fetchStats(): Promise<ArenaPlayer | null> {
 		try {
-			const response = await fetch(`${this.apiUrl}/arena/stats/${this.playerId}`, {
+			const response = await fetch(`${this.apiUrl}/arena/stats/${this.playerId}?mode=${this.mode}`, {
 				method: 'GET',
 				headers: {
 					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
@@ -382,16 +719,19 @@ export class ArenaManager extends EventEmitter<ArenaManagerEvents> {
 	}
 
 	/**
-	 * Fetch leaderboard
+	 * Fetch leaderboard for the selected mode
 	 */
 	async fetchLeaderboard(limit: number = 100, offset: number = 0): Promise<LeaderboardEntry[]> {
 		try {
-			const response = await fetch(`${this.apiUrl}/arena/leaderboard?limit=${limit}&offset=${offset}`, {
-				method: 'GET',
-				headers: {
-					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+			const response = await fetch(
+				`${this.apiUrl}/arena/leaderboard?limit=${limit}&offset=${offset}&mode=${this.mode}`,
+				{
+					method: 'GET',
+					headers: {
+						...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+					},
 				},
-			});
+			);
 
 			const data = await response.json();
 
@@ -416,11 +756,11 @@ export class ArenaManager extends EventEmitter<ArenaManagerEvents> {
 	}
 
 	/**
-	 * Get player rank
+	 * Get player rank in the selected mode
 	 */
 	async getPlayerRank(): Promise<number | null> {
 		try {
-			const response = await fetch(`${this.apiUrl}/arena/rank/${this.playerId}`, {
+			const response = await fetch(`${this.apiUrl}/arena/rank/${this.playerId}?mode=${this.mode}`, {
 				method: 'GET',
 				headers: {
 					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
@@ -461,7 +801,284 @@ export class ArenaManager extends EventEmitter<ArenaManagerEvents> {
 	}
 
 	/**
-	 * Get queue status
+	 * Create a party led by this player
+	 */
+	createParty(): Promise<{ success: boolean; error?: string; party?: ArenaParty }> {
+		return this.sendPartyRequest('create');
+	}
+
+	/**
+	 * Invite a player to this player's party (leader only)
+	 */
+	invitePlayer(playerId: string): Promise<{ success: boolean; error?: string }> {
+		return this.sendPartyRequest('invite', { player_id: playerId });
+	}
+
+	/**
+	 * Accept a received party invite
+	 */
+	acceptPartyInvite(partyId: string): Promise<{ success: boolean; error?: string; party?: ArenaParty }> {
+		this.partyInvites.delete(partyId);
+		return this.sendPartyRequest(`accept/${partyId}`);
+	}
+
+	/**
+	 * Decline a received party invite
+	 */
+	declinePartyInvite(partyId: string): Promise<{ success: boolean; error?: string }> {
+		this.partyInvites.delete(partyId);
+		return this.sendPartyRequest(`decline/${partyId}`);
+	}
+
+	/**
+	 * Leave the current party (also leaves the queue)
+	 */
+	leaveParty(): Promise<{ success: boolean; error?: string }> {
+		return this.sendPartyRequest('leave');
+	}
+
+	/**
+	 * Party changes are pushed over the WebSocket; responses only update the local copy
+	 */
+	private async sendPartyRequest(path: string, body?: object): Promise<{ success: boolean; error?: string; party?: ArenaParty }> {
+		try {
+			const response = await fetch(`${this.apiUrl}/arena/party/${path}`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+				body: JSON.stringify(body ?? {}),
+			});
+
+			const data = await response.json();
+
+			if (data.party) {
+				this.party = data.party;
+				this.emit('party-updated', data.party);
+			} else if (!data.success && data.error) {
+				this.emit('error', data.error);
+			}
+
+			return data;
+		} catch (error) {
+			const errorMsg = 'Party request failed';
+			this.emit('error', errorMsg);
+			return { success: false, error: errorMsg };
+		}
+	}
+
+	/**
+	 * Fetch this player's party
+	 */
+	async fetchParty(): Promise<ArenaParty | null> {
+		try {
+			const response = await fetch(`${this.apiUrl}/arena/party`, {
+				method: 'GET',
+				headers: {
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+			});
+
+			const data = await response.json();
+
+			this.party = data.party || null;
+			this.emit('party-updated', this.party);
+			return this.party;
+		} catch (error) {
+			this.emit('error', 'Failed to fetch party');
+			return null;
+		}
+	}
+
+	/**
+	 * Get this player's party
+	 */
+	getParty(): ArenaParty | null {
+		return this.party;
+	}
+
+	/**
+	 * Check if this player can queue (solo, or leading a party that fits the selected mode)
+	 */
+	canQueue(): boolean {
+		if (!this.party) return true;
+		return this.party.leader_id === this.playerId && this.party.members.length <= ARENA_TEAM_SIZES[this.mode];
+	}
+
+	/**
+	 * Get pending party invites
+	 */
+	getPartyInvites(): ArenaParty[] {
+		return Array.from(this.partyInvites.values());
+	}
+
+	/**
+	 * Fetch the active season
+	 */
+	async fetchSeason(): Promise<ArenaSeason | null> {
+		try {
+			const response = await fetch(`${this.apiUrl}/arena/season`, {
+				method: 'GET',
+				headers: {
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+			});
+
+			const data = await response.json();
+
+			if (data.season) {
+				this.season = data.season;
+				this.emit('season-updated', data.season);
+				return data.season;
+			}
+
+			return null;
+		} catch (error) {
+			this.emit('error', 'Failed to fetch season');
+			return null;
+		}
+	}
+
+	/**
+	 * Get the active season
+	 */
+	getSeason(): ArenaSeason | null {
+		return this.season;
+	}
+
+	/**
+	 * Get final standings from past seasons
+	 */
+	async getSeasonHistory(): Promise<SeasonStanding[]> {
+		try {
+			const response = await fetch(`${this.apiUrl}/arena/season-history/${this.playerId}`, {
+				method: 'GET',
+				headers: {
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+			});
+
+			const data = await response.json();
+
+			return data.history || [];
+		} catch (error) {
+			this.emit('error', 'Failed to get season history');
+			return [];
+		}
+	}
+
+	/**
+	 * Fetch arena matches that can be spectated
+	 */
+	async fetchLiveMatches(): Promise<LiveArenaMatch[]> {
+		try {
+			const response = await fetch(`${this.apiUrl}/arena/live`, {
+				method: 'GET',
+				headers: {
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+			});
+
+			const data = await response.json();
+
+			return data.matches || [];
+		} catch (error) {
+			this.emit('error', 'Failed to fetch live matches');
+			return [];
+		}
+	}
+
+	/**
+	 * Start spectating a live match; later turns arrive as 'spectate-updated' a few seconds late
+	 */
+	async spectate(matchId: number): Promise<{ success: boolean; error?: string; battle?: ArenaBattle }> {
+		try {
+			const response = await fetch(`${this.apiUrl}/arena/spectate/${matchId}`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+			});
+
+			const data = await response.json();
+
+			if (data.success && data.battle) {
+				this.spectatedBattle = data.battle;
+				this.emit('spectate-updated', data.battle);
+			} else if (data.error) {
+				this.emit('error', data.error);
+			}
+
+			return data;
+		} catch (error) {
+			const errorMsg = 'Failed to spectate match';
+			this.emit('error', errorMsg);
+			return { success: false, error: errorMsg };
+		}
+	}
+
+	/**
+	 * Stop spectating
+	 */
+	async stopSpectating(): Promise<{ success: boolean; error?: string }> {
+		if (!this.spectatedBattle) {
+			return { success: false, error: 'Not spectating a match' };
+		}
+
+		this.spectatedBattle = null;
+
+		try {
+			const response = await fetch(`${this.apiUrl}/arena/spectate/leave`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+			});
+
+			return await response.json();
+		} catch (error) {
+			return { success: false, error: 'Failed to stop spectating' };
+		}
+	}
+
+	/**
+	 * Get the spectated battle
+	 */
+	getSpectatedBattle(): ArenaBattle | null {
+		return this.spectatedBattle;
+	}
+
+	/**
+	 * Fetch the replay of a completed match
+	 */
+	async getReplay(matchId: number): Promise<{ match: ArenaMatch; replay: ArenaReplay } | null> {
+		try {
+			const response = await fetch(`${this.apiUrl}/arena/replay/${matchId}`, {
+				method: 'GET',
+				headers: {
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+			});
+
+			const data = await response.json();
+
+			if (!data.success) {
+				this.emit('error', data.error || 'Replay not found');
+				return null;
+			}
+
+			return { match: data.match, replay: data.replay };
+		} catch (error) {
+			this.emit('error', 'Failed to get replay');
+			return null;
+		}
+	}
+
+	/**
+	 * Get queue status, including estimated waits and this player's queue state
 	 */
 	async getQueueStatus(): Promise<QueueStatus | null> {
 		try {
@@ -494,16 +1111,28 @@ export class ArenaManager extends EventEmitter<ArenaManagerEvents> {
 		return this.currentMatch;
 	}
 
+	/**
+	 * Get current battle
+	 */
+	getCurrentBattle(): ArenaBattle | null {
+		return this.currentBattle;
+	}
+
 	/**
 	 * Cleanup
 	 */
 	destroy(): void {
-		this.stopQueuePolling();
-		this.stopMatchPolling();
 		this.removeAllListeners();
+		this.sendMessageCallback = null;
+		this.readyDeadline = null;
 		this.inQueue = false;
 		this.currentMatch = null;
+		this.currentBattle = null;
+		this.spectatedBattle = null;
 		this.stats = null;
 		this.leaderboard = [];
+		this.season = null;
+		this.party = null;
+		this.partyInvites.clear();
 	}
 }
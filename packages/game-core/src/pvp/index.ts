@@ -3,12 +3,24 @@
  * Arena matchmaking and ranked combat
  */
 
-export { ArenaManager } from './ArenaManager';
+export { ArenaManager, ARENA_TEAM_SIZES } from './ArenaManager';
 export type {
+	ArenaMode,
+	ArenaTier,
 	ArenaPlayer,
 	ArenaMatch,
+	ArenaTeamMember,
+	ArenaParty,
 	LeaderboardEntry,
+	ArenaSeason,
+	SeasonStanding,
 	QueueStatus,
-	MatchResult,
+	ArenaBattleAction,
+	ArenaBattle,
+	LiveArenaMatch,
+	ArenaReplayFrame,
+	ArenaReplay,
+	ArenaNetworkMessage,
+	ArenaRequestMessage,
 	ArenaManagerEvents,
 } from './ArenaManager';
@@ -0,0 +1,530 @@
+/**
+ * QuestManager
+ * Data-driven quests with objectives, prerequisites, repeatable/daily quests and rewards
+ */
+
+import { EventEmitter } from '../utils/EventEmitter';
+
+export type QuestObjectiveType = 'kill' | 'collect' | 'talk' | 'reach' | 'craft';
+
+export interface QuestObjective {
+	id: string;
+	type: QuestObjectiveType;
+	target: string; // Monster, item, NPC or zone ID depending on type
+	count: number;
+	description: string;
+}
+
+export interface QuestReward {
+	exp?: number;
+	gold?: number;
+	items?: Array<{ id: string; quantity: number }>;
+	jobExp?: { jobId: string; amount: number };
+}
+
+export interface QuestData {
+	id: string;
+	name: string;
+	description: string;
+	giver: string; // NPC ID
+	turnIn?: string; // NPC ID, defaults to giver
+	objectives: QuestObjective[];
+	rewards: QuestReward;
+	prerequisites?: {
+		quests?: string[];
+		level?: number;
+		jobs?: string[];
+	};
+	repeatable?: boolean;
+	daily?: boolean; // Repeatable once per day (UTC)
+	consumeItems?: boolean; // Remove collected items on turn-in (default true)
+}
+
+/**
+ * - unavailable: prerequisites not met, or already completed (non-repeatable)
+ * - available: can be accepted
+ * - active: accepted, objectives in progress
+ * - ready: all objectives complete, can be turned in
+ */
+export type QuestStatus = 'unavailable' | 'available' | 'active' | 'ready';
+
+export interface QuestProgress {
+	questId: string;
+	progress: Record<string, number>; // Objective ID -> count
+	acceptedAt: number;
+}
+
+export interface QuestCompletion {
+	questId: string;
+	completedAt: number;
+	timesCompleted: number;
+}
+
+export interface QuestSaveData {
+	active: QuestProgress[];
+	completed: QuestCompletion[];
+}
+
+export interface QuestManagerEvents {
+	'quest-accepted': (questId: string) => void;
+	'quest-progress': (
+		questId: string,
+		objectiveId: string,
+		current: number,
+		required: number,
+	) => void;
+	'quest-ready': (questId: string) => void;
+	'quest-completed': (questId: string, rewards: QuestReward) => void;
+	'quest-abandoned': (questId: string) => void;
+}
+
+export class QuestManager extends EventEmitter<QuestManagerEvents> {
+	private quests: Map<string, QuestData> = new Map();
+	private activeQuests: Map<string, QuestProgress> = new Map();
+	private completedQuests: Map<string, QuestCompletion> = new Map();
+
+	// Callbacks to query and update the player
+	private getItemCountCallback: ((itemId: string) => number) | null = null;
+	private removeItemCallback: ((itemId: string, quantity: number) => boolean) | null = null;
+	private addItemCallback: ((itemId: string, quantity: number) => boolean) | null = null;
+	private getLevelCallback: (() => number) | null = null;
+	private hasJobCallback: ((jobId: string) => boolean) | null = null;
+	private addExperienceCallback: ((exp: number) => void) | null = null;
+	private addGoldCallback: ((gold: number) => void) | null = null;
+	private addJobExperienceCallback: ((jobId: string, exp: number) => void) | null = null;
+
+	constructor() {
+		super();
+	}
+
+	/**
+	 * Set inventory callbacks (collect objectives and item rewards)
+	 */
+	setInventoryCallbacks(
+		getItemCount: (itemId: string) => number,
+		removeItem: (itemId: string, quantity: number) => boolean,
+		addItem: (itemId: string, quantity: number) => boolean,
+	): void {
+		this.getItemCountCallback = getItemCount;
+		this.removeItemCallback = removeItem;
+		this.addItemCallback = addItem;
+	}
+
+	/**
+	 * Set player callbacks (prerequisite checks)
+	 */
+	setPlayerCallbacks(getLevel: () => number, hasJob: (jobId: string) => boolean): void {
+		this.getLevelCallback = getLevel;
+		this.hasJobCallback = hasJob;
+	}
+
+	/**
+	 * Set reward callbacks
+	 */
+	setRewardCallbacks(
+		addExperience: (exp: number) => void,
+		addGold: (gold: number) => void,
+		addJobExperience: (jobId: string, exp: number) => void,
+	): void {
+		this.addExperienceCallback = addExperience;
+		this.addGoldCallback = addGold;
+		this.addJobExperienceCallback = addJobExperience;
+	}
+
+	/**
+	 * Load quest data
+	 */
+	loadQuests(quests: QuestData[]): void {
+		for (const quest of quests) {
+			this.quests.set(quest.id, quest);
+		}
+
+		console.log(`[QuestManager] Loaded ${quests.length} quests`);
+	}
+
+	/**
+	 * Get quest data
+	 */
+	getQuest(questId: string): QuestData | undefined {
+		return this.quests.get(questId);
+	}
+
+	/**
+	 * Get all quests
+	 */
+	getAllQuests(): QuestData[] {
+		return Array.from(this.quests.values());
+	}
+
+	/**
+	 * Get quests given or turned in by an NPC
+	 */
+	getQuestsForNPC(npcId: string): QuestData[] {
+		return this.getAllQuests().filter(
+			(quest) => quest.giver === npcId || (quest.turnIn ?? quest.giver) === npcId,
+		);
+	}
+
+	/**
+	 * Get quest status
+	 */
+	getStatus(questId: string): QuestStatus {
+		if (this.activeQuests.has(questId)) {
+			return this.isReadyToTurnIn(questId) ? 'ready' : 'active';
+		}
+
+		return this.canAcceptQuest(questId).canAccept ? 'available' : 'unavailable';
+	}
+
+	/**
+	 * Check if a quest can be accepted
+	 */
+	canAcceptQuest(questId: string): { canAccept: boolean; reason?: string } {
+		const quest = this.quests.get(questId);
+		if (!quest) {
+			return { canAccept: false, reason: 'Quest not found' };
+		}
+
+		if (this.activeQuests.has(questId)) {
+			return { canAccept: false, reason: 'Quest already active' };
+		}
+
+		const completion = this.completedQuests.get(questId);
+		if (completion) {
+			if (quest.daily) {
+				if (dayKey(completion.completedAt) === dayKey(Date.now())) {
+					return { canAccept: false, reason: 'Already completed today' };
+				}
+			} else if (!quest.repeatable) {
+				return { canAccept: false, reason: 'Quest already completed' };
+			}
+		}
+
+		if (quest.prerequisites) {
+			for (const requiredQuest of quest.prerequisites.quests ?? []) {
+				if (!this.completedQuests.has(requiredQuest)) {
+					const name = this.quests.get(requiredQuest)?.name ?? requiredQuest;
+					return { canAccept: false, reason: `Requires quest: ${name}` };
+				}
+			}
+
+			const level = this.getLevelCallback?.() ?? 1;
+			if (quest.prerequisites.level && level < quest.prerequisites.level) {
+				return { canAccept: false, reason: `Requires level ${quest.prerequisites.level}` };
+			}
+
+			for (const jobId of quest.prerequisites.jobs ?? []) {
+				if (!this.hasJobCallback?.(jobId)) {
+					return { canAccept: false, reason: `Requires ${jobId} job` };
+				}
+			}
+		}
+
+		return { canAccept: true };
+	}
+
+	/**
+	 * Accept a quest
+	 */
+	acceptQuest(questId: string): boolean {
+		const check = this.canAcceptQuest(questId);
+		if (!check.canAccept) {
+			console.warn(`[QuestManager] Cannot accept ${questId}: ${check.reason}`);
+			return false;
+		}
+
+		const quest = this.quests.get(questId)!;
+		const progress: QuestProgress = { questId, progress: {}, acceptedAt: Date.now() };
+		for (const objective of quest.objectives) {
+			progress.progress[objective.id] = 0;
+		}
+
+		this.activeQuests.set(questId, progress);
+		this.emit('quest-accepted', questId);
+
+		// Items already in the inventory count towards collect objectives
+		this.refreshCollectObjectives();
+
+		return true;
+	}
+
+	/**
+	 * Abandon an active quest (progress is lost)
+	 */
+	abandonQuest(questId: string): boolean {
+		if (!this.activeQuests.delete(questId)) return false;
+
+		this.emit('quest-abandoned', questId);
+		return true;
+	}
+
+	/**
+	 * Record a monster kill
+	 */
+	recordKill(monsterId: string, count: number = 1): void {
+		this.advanceObjectives('kill', monsterId, count);
+	}
+
+	/**
+	 * Record talking to an NPC
+	 */
+	recordTalk(npcId: string): void {
+		this.advanceObjectives('talk', npcId, 1);
+	}
+
+	/**
+	 * Record reaching a zone
+	 */
+	recordZoneReached(zoneId: string): void {
+		this.advanceObjectives('reach', zoneId, 1);
+	}
+
+	/**
+	 * Record a crafted item
+	 */
+	recordCraft(itemId: string, quantity: number = 1): void {
+		this.advanceObjectives('craft', itemId, quantity);
+	}
+
+	/**
+	 * Re-check collect objectives against the inventory (call after inventory changes)
+	 */
+	refreshCollectObjectives(): void {
+		if (!this.getItemCountCallback) return;
+
+		for (const [questId, progress] of this.activeQuests) {
+			const quest = this.quests.get(questId);
+			if (!quest) continue;
+
+			const wasReady = this.isReadyToTurnIn(questId);
+
+			for (const objective of quest.objectives) {
+				if (objective.type !== 'collect') continue;
+
+				const current = Math.min(objective.count, this.getItemCountCallback(objective.target));
+				if (current !== progress.progress[objective.id]) {
+					progress.progress[objective.id] = current;
+					this.emit('quest-progress', questId, objective.id, current, objective.count);
+				}
+			}
+
+			if (!wasReady && this.isReadyToTurnIn(questId)) {
+				this.emit('quest-ready', questId);
+			}
+		}
+	}
+
+	/**
+	 * Check if all objectives of an active quest are complete
+	 */
+	isReadyToTurnIn(questId: string): boolean {
+		const quest = this.quests.get(questId);
+		const progress = this.activeQuests.get(questId);
+		if (!quest || !progress) return false;
+
+		return quest.objectives.every(
+			(objective) => (progress.progress[objective.id] ?? 0) >= objective.count,
+		);
+	}
+
+	/**
+	 * Turn in a completed quest and pay out rewards
+	 */
+	turnInQuest(questId: string): boolean {
+		const quest = this.quests.get(questId);
+		if (!quest || !this.activeQuests.has(questId)) {
+			console.error(`[QuestManager] Quest not active: ${questId}`);
+			return false;
+		}
+
+		// Collect objectives are checked against the inventory at turn-in time
+		this.refreshCollectObjectives();
+		if (!this.isReadyToTurnIn(questId)) {
+			console.warn(`[QuestManager] Quest objectives not complete: ${questId}`);
+			return false;
+		}
+
+		if (quest.consumeItems !== false && !this.consumeCollectItems(quest)) {
+			return false;
+		}
+
+		this.activeQuests.delete(questId);
+
+		const previous = this.completedQuests.get(questId);
+		this.completedQuests.set(questId, {
+			questId,
+			completedAt: Date.now(),
+			timesCompleted: (previous?.timesCompleted ?? 0) + 1,
+		});
+
+		this.payRewards(quest.rewards);
+		this.emit('quest-completed', questId, quest.rewards);
+
+		return true;
+	}
+
+	/**
+	 * Get progress for an active quest
+	 */
+	getProgress(questId: string): QuestProgress | undefined {
+		return this.activeQuests.get(questId);
+	}
+
+	/**
+	 * Get all active quests
+	 */
+	getActiveQuests(): QuestData[] {
+		return Array.from(this.activeQuests.keys())
+			.map((questId) => this.quests.get(questId))
+			.filter((quest): quest is QuestData => !!quest);
+	}
+
+	/**
+	 * Get quests that can be accepted right now
+	 */
+	getAvailableQuests(): QuestData[] {
+		return this.getAllQuests().filter((quest) => this.canAcceptQuest(quest.id).canAccept);
+	}
+
+	/**
+	 * Check if a quest has been completed at least once
+	 */
+	isCompleted(questId: string): boolean {
+		return this.completedQuests.has(questId);
+	}
+
+	/**
+	 * Export for save system
+	 */
+	export(): QuestSaveData {
+		return {
+			active: Array.from(this.activeQuests.values()).map((progress) => ({
+				...progress,
+				progress: { ...progress.progress },
+			})),
+			completed: Array.from(this.completedQuests.values()).map((completion) => ({
+				...completion,
+			})),
+		};
+	}
+
+	/**
+	 * Import from save system
+	 */
+	import(data: Partial<QuestSaveData>): void {
+		this.activeQuests.clear();
+		this.completedQuests.clear();
+
+		for (const progress of data.active ?? []) {
+			if (!this.quests.has(progress.questId)) {
+				console.warn(`[QuestManager] Skipping unknown quest in save: ${progress.questId}`);
+				continue;
+			}
+			this.activeQuests.set(progress.questId, {
+				...progress,
+				progress: { ...progress.progress },
+			});
+		}
+
+		for (const completion of data.completed ?? []) {
+			this.completedQuests.set(completion.questId, { ...completion });
+		}
+	}
+
+	/**
+	 * Clear quest progress (for logout/reset)
+	 */
+	clear(): void {
+		this.activeQuests.clear();
+		this.completedQuests.clear();
+	}
+
+	/**
+	 * Advance matching objectives in all active quests
+	 */
+	private advanceObjectives(type: QuestObjectiveType, target: string, amount: number): void {
+		for (const [questId, progress] of this.activeQuests) {
+			const quest = this.quests.get(questId);
+			if (!quest) continue;
+
+			const wasReady = this.isReadyToTurnIn(questId);
+
+			for (const objective of quest.objectives) {
+				if (objective.type !== type || objective.target !== target) continue;
+
+				const current = progress.progress[objective.id] ?? 0;
+				if (current >= objective.count) continue;
+
+				const updated = Math.min(objective.count, current + amount);
+				progress.progress[objective.id] = updated;
+				this.emit('quest-progress', questId, objective.id, updated, objective.count);
+			}
+
+			if (!wasReady && this.isReadyToTurnIn(questId)) {
+				this.emit('quest-ready', questId);
+			}
+		}
+	}
+
+	/**
+	 * Remove the items collect objectives ask for, all or nothing: every count is
+	 * checked first, and items already removed are given back if a removal fails
+	 */
+	private consumeCollectItems(quest: QuestData): boolean {
+		if (!this.removeItemCallback) return true;
+
+		const required = new Map<string, number>();
+		for (const objective of quest.objectives) {
+			if (objective.type !== 'collect') continue;
+			required.set(objective.target, (required.get(objective.target) ?? 0) + objective.count);
+		}
+
+		for (const [itemId, quantity] of required) {
+			if (this.getItemCountCallback && this.getItemCountCallback(itemId) < quantity) {
+				console.warn(`[QuestManager] Not enough ${itemId} to turn in ${quest.id}`);
+				return false;
+			}
+		}
+
+		const removed: [string, number][] = [];
+		for (const [itemId, quantity] of required) {
+			if (!this.removeItemCallback(itemId, quantity)) {
+				console.error(`[QuestManager] Failed to remove ${itemId}`);
+				for (const [removedId, removedQuantity] of removed) {
+					this.addItemCallback?.(removedId, removedQuantity);
+				}
+				return false;
+			}
+			removed.push([itemId, quantity]);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Pay out quest rewards through the reward callbacks
+	 */
+	private payRewards(rewards: QuestReward): void {
+		if (rewards.exp) {
+			this.addExperienceCallback?.(rewards.exp);
+		}
+
+		if (rewards.gold) {
+			this.addGoldCallback?.(rewards.gold);
+		}
+
+		if (rewards.jobExp) {
+			this.addJobExperienceCallback?.(rewards.jobExp.jobId, rewards.jobExp.amount);
+		}
+
+		for (const item of rewards.items ?? []) {
+			if (this.addItemCallback && !this.addItemCallback(item.id, item.quantity)) {
+				console.warn(`[QuestManager] Could not add reward item: ${item.id}`);
+			}
+		}
+	}
+}
+
+function dayKey(timestamp: number): string {
+	return new Date(timestamp).toISOString().slice(0, 10);
+}
@@ -0,0 +1,17 @@
+/**
+ * Quests Module
+ * Quest objectives, prerequisites and rewards
+ */
+
+export { QuestManager } from './QuestManager';
+export type {
+	QuestObjectiveType,
+	QuestObjective,
+	QuestReward,
+	QuestData,
+	QuestStatus,
+	QuestProgress,
+	QuestCompletion,
+	QuestSaveData,
+	QuestManagerEvents,
+} from './QuestManager';
@@ -0,0 +1,404 @@
+/**
+ * BalanceSimulator
+ * Runs headless battles between configured parties and monsters and aggregates balance metrics
+ */
+
+import { CombatManager, CombatActionType, CombatState } from '../combat/CombatManager';
+import type { CombatAction, CombatEntity } from '../combat/CombatManager';
+import { CombatAI, AIPattern } from '../combat/CombatAI';
+import { DeterministicRNG } from '../combat/CombatSync';
+import { MonsterFactory } from '../combat/MonsterFactory';
+import { CombatantFactory } from '../combat/CombatantFactory';
+import type { MonsterData } from '../combat/MonsterFactory';
+import { SkillRegistry } from '../combat/SkillRegistry';
+import { InventoryManager } from '../inventory/InventoryManager';
+import type { InventorySlot, Item } from '../inventory/InventoryManager';
+import type { Job } from '../jobs/JobManager';
+
+export interface PartyMemberConfig {
+	jobId: string;
+	level: number;
+	equipment?: string[]; // Item IDs
+	consumables?: { itemId: string; quantity: number }[];
+	aiPattern?: AIPattern;
+}
+
+export interface MonsterConfig {
+	monsterId: string;
+	level?: number; // Defaults to the monster's base level
+}
+
+export interface MatchupConfig {
+	name?: string;
+	party: PartyMemberConfig[];
+	monsters: MonsterConfig[];
+}
+
+export interface SimulationData {
+	jobs: Job[];
+	monsters: MonsterData[];
+	items: Item[];
+}
+
+export interface SimulationOptions {
+	battles: number;
+	seed: number;
+	maxTurns: number; // Battles still running after this many turns count as timeouts
+	healThreshold: number; // HP fraction below which party members drink a healing item
+}
+
+export interface DamageDistribution {
+	min: number;
+	p25: number;
+	median: number;
+	p75: number;
+	max: number;
+	mean: number;
+}
+
+export interface MemberReport {
+	name: string;
+	jobId: string;
+	level: number;
+	avgDamageDealt: number;
+	avgMpSpent: number;
+	deathRate: number; // Share of battles (0-1)
+}
+
+export interface MatchupReport {
+	name: string;
+	battles: number;
+	wins: number;
+	losses: number;
+	timeouts: number;
+	winRate: number; // Share of battles (0-1)
+	avgTurns: number;
+	damageDealt: DamageDistribution; // Party damage per battle
+	damageTaken: DamageDistribution; // Party damage taken per battle
+	members: MemberReport[];
+	consumablesUsed: Record<string, number>; // Average uses per battle
+}
+
+interface BattleStats {
+	result: 'victory' | 'defeat' | 'timeout';
+	turns: number;
+	damageDealt: Map<string, number>;
+	damageTaken: number;
+	mpSpent: Map<string, number>;
+	itemsUsed: Map<string, number>;
+	deaths: Set<string>;
+}
+
+const DEFAULT_OPTIONS: SimulationOptions = {
+	battles: 1000,
+	seed: 1,
+	maxTurns: 200,
+	healThreshold: 0.3,
+};
+
+export class BalanceSimulator {
+	private jobs: Map<string, Job> = new Map();
+	private monsters: Map<string, MonsterData> = new Map();
+	private items: Map<string, Item> = new Map();
+	private skillRegistry: SkillRegistry;
+
+	constructor(data: SimulationData, skillRegistry: SkillRegistry = SkillRegistry.loadDefault()) {
+		data.jobs.forEach((job) => this.jobs.set(job.id, job));
+		data.monsters.forEach((monster) => this.monsters.set(monster.id, monster));
+		data.items.forEach((item) => this.items.set(item.id, item));
+		this.skillRegistry = skillRegistry;
+	}
+
+	/**
+	 * Get monster definition
+	 */
+	getMonster(monsterId: string): MonsterData | undefined {
+		return this.monsters.get(monsterId);
+	}
+
+	/**
+	 * Run a matchup many times and aggregate the results
+	 */
+	runMatchup(matchup: MatchupConfig, options: Partial<SimulationOptions> = {}): MatchupReport {
+		const opts = { ...DEFAULT_OPTIONS, ...options };
+		const party = matchup.party.map((member, index) => this.createPartyMember(member, index));
+		const enemies = matchup.monsters.map((config, index) => {
+			const monster = this.monsters.get(config.monsterId);
+			if (!monster) {
+				throw new Error(`Unknown monster: ${config.monsterId}`);
+			}
+			return MonsterFactory.createCombatEntity(monster, `enemy-${index}`, config.level);
+		});
+		const consumables = matchup.party.map((member) => this.createConsumableSlots(member));
+
+		const battles: BattleStats[] = [];
+		for (let i = 0; i < opts.battles; i++) {
+			battles.push(
+				this.runBattle(matchup, clone(party), clone(enemies), consumables, opts.seed + i, opts),
+			);
+		}
+
+		return this.buildReport(matchup, party, battles);
+	}
+
+	/**
+	 * Run a single battle to completion
+	 */
+	private runBattle(
+		matchup: MatchupConfig,
+		party: CombatEntity[],
+		enemies: CombatEntity[],
+		consumables: InventorySlot[][],
+		seed: number,
+		options: SimulationOptions,
+	): BattleStats {
+		const combat = new CombatManager({
+			skillRegistry: this.skillRegistry,
+			rng: new DeterministicRNG(seed),
+		});
+
+		const stats: BattleStats = {
+			result: 'timeout',
+			turns: 0,
+			damageDealt: new Map(),
+			damageTaken: 0,
+			mpSpent: new Map(),
+			itemsUsed: new Map(),
+			deaths: new Set(),
+		};
+
+		party.forEach((member, index) => {
+			const inventory = new InventoryManager();
+			inventory.import({ slots: clone(consumables[index] ?? []), weight: 0 });
+			combat.setInventory(member.id, inventory);
+		});
+
+		combat.on('action-executed', (action, result) => {
+			const actor = combat.getEntity(action.actorId);
+			if (!actor || result.damage <= 0) return;
+
+			if (actor.isPlayer) {
+				stats.damageDealt.set(
+					actor.id,
+					(stats.damageDealt.get(actor.id) ?? 0) + result.damage,
+				);
+			} else {
+				stats.damageTaken += result.damage;
+			}
+		});
+		combat.on('item-used', (_actorId, item) => {
+			stats.itemsUsed.set(item.id, (stats.itemsUsed.get(item.id) ?? 0) + 1);
+		});
+		combat.on('entity-defeated', (entityId) => {
+			stats.deaths.add(entityId);
+		});
+		combat.on('combat-end', (result) => {
+			// AI never flees, so anything but victory is a wipe
+			stats.result = result === 'victory' ? 'victory' : 'defeat';
+		});
+
+		combat.initCombat(party, enemies, seed);
+
+		while (
+			combat.getState() === CombatState.ACTION_SELECT &&
+			combat.getTurnCount() <= options.maxTurns
+		) {
+			const actor = combat.getCurrentActor();
+			if (!actor) break;
+
+			const mpBefore = actor.stats.mp;
+			const turn = combat.getTurnCount();
+			combat.submitAction(this.decideAction(combat, actor, matchup, options));
+
+			// A rejected action leaves the turn unchanged; attack instead, and give up if that fails too
+			if (combat.getState() === CombatState.ACTION_SELECT && combat.getTurnCount() === turn) {
+				const target = combat.getOpponents(actor.id)[0];
+				if (target) {
+					combat.submitAction({
+						actorId: actor.id,
+						type: CombatActionType.ATTACK,
+						targetId: target.id,
+					});
+				}
+				if (combat.getState() === CombatState.ACTION_SELECT && combat.getTurnCount() === turn) {
+					console.warn(`[BalanceSimulator] ${actor.name} has no valid action, ending battle`);
+					break;
+				}
+			}
+
+			const mpSpent = mpBefore - actor.stats.mp;
+			if (actor.isPlayer && mpSpent > 0) {
+				stats.mpSpent.set(actor.id, (stats.mpSpent.get(actor.id) ?? 0) + mpSpent);
+			}
+		}
+
+		stats.turns = combat.getTurnCount();
+		combat.destroy();
+
+		return stats;
+	}
+
+	/**
+	 * Decide an action: party members heal below the threshold, otherwise CombatAI decides
+	 * CombatAI only casts healing skills on the caster itself, so healers never heal the party;
+	 * simulated healer parties do worse than player-controlled ones
+	 */
+	private decideAction(
+		combat: CombatManager,
+		actor: CombatEntity,
+		matchup: MatchupConfig,
+		options: SimulationOptions,
+	): CombatAction {
+		if (actor.isPlayer && actor.stats.hp / actor.stats.maxHp < options.healThreshold) {
+			const healingItem = combat
+				.getInventory(actor.id)
+				?.getItemsByType('consumable')
+				.find((slot) => slot.item?.effects?.some((effect) => effect.type === 'heal_hp'));
+
+			if (healingItem?.item) {
+				return {
+					actorId: actor.id,
+					type: CombatActionType.ITEM,
+					targetId: actor.id,
+					itemId: healingItem.item.id,
+				};
+			}
+		}
+
+		const memberIndex = Number(actor.id.replace('party-', ''));
+		const pattern = actor.isPlayer
+			? (matchup.party[memberIndex]?.aiPattern ?? AIPattern.TACTICAL)
+			: ((actor.aiPattern as AIPattern) ?? AIPattern.RANDOM);
+
+		return CombatAI.decideAction(
+			actor,
+			combat.getAllies(actor.id),
+			combat.getOpponents(actor.id),
+			pattern,
+		);
+	}
+
+	/**
+	 * Build a party member from character level, job and equipment
+	 */
+	private createPartyMember(config: PartyMemberConfig, index: number): CombatEntity {
+		const job = this.jobs.get(config.jobId);
+		if (!job) {
+			throw new Error(`Unknown job: ${config.jobId}`);
+		}
+
+		const equipment = (config.equipment ?? []).map((itemId) => {
+			const item = this.items.get(itemId);
+			if (!item) {
+				throw new Error(`Unknown item: ${itemId}`);
+			}
+			return item;
+		});
+
+		// Job level is assumed to match the character level
+		const member = CombatantFactory.createPlayerEntity(
+			{
+				name: `${job.name} Lv.${config.level}`,
+				level: config.level,
+				jobStats: CombatantFactory.getJobStats(job, config.level),
+				skills: CombatantFactory.getJobSkills(job, config.level),
+				equipment,
+			},
+			`party-${index}`,
+		);
+
+		return { ...member, isAI: true };
+	}
+
+	/**
+	 * Build the consumable inventory slots for a party member
+	 */
+	private createConsumableSlots(config: PartyMemberConfig): InventorySlot[] {
+		return (config.consumables ?? []).map(({ itemId, quantity }) => {
+			const item = this.items.get(itemId);
+			if (!item) {
+				throw new Error(`Unknown item: ${itemId}`);
+			}
+			return { item, quantity };
+		});
+	}
+
+	/**
+	 * Aggregate battle stats into a report
+	 */
+	private buildReport(
+		matchup: MatchupConfig,
+		party: CombatEntity[],
+		battles: BattleStats[],
+	): MatchupReport {
+		const count = battles.length;
+		const wins = battles.filter((b) => b.result === 'victory').length;
+		const losses = battles.filter((b) => b.result === 'defeat').length;
+
+		const itemTotals: Record<string, number> = {};
+		for (const battle of battles) {
+			battle.itemsUsed.forEach((uses, itemId) => {
+				itemTotals[itemId] = (itemTotals[itemId] ?? 0) + uses;
+			});
+		}
+
+		const consumablesUsed: Record<string, number> = {};
+		for (const [itemId, total] of Object.entries(itemTotals)) {
+			consumablesUsed[itemId] = round(total / count);
+		}
+
+		return {
+			name:
+				matchup.name ??
+				`${matchup.party.map((m) => `${m.jobId}:${m.level}`).join('+')} vs ${matchup.monsters
+					.map((m) => m.monsterId)
+					.join('+')}`,
+			battles: count,
+			wins,
+			losses,
+			timeouts: count - wins - losses,
+			winRate: wins / count,
+			avgTurns: round(average(battles.map((b) => b.turns))),
+			damageDealt: distribution(
+				battles.map((b) => Array.from(b.damageDealt.values()).reduce((a, c) => a + c, 0)),
+			),
+			damageTaken: distribution(battles.map((b) => b.damageTaken)),
+			members: party.map((member, index) => ({
+				name: member.name,
+				jobId: matchup.party[index]?.jobId ?? '',
+				level: member.level,
+				avgDamageDealt: round(average(battles.map((b) => b.damageDealt.get(member.id) ?? 0))),
+				avgMpSpent: round(average(battles.map((b) => b.mpSpent.get(member.id) ?? 0))),
+				deathRate: battles.filter((b) => b.deaths.has(member.id)).length / count,
+			})),
+			consumablesUsed,
+		};
+	}
+}
+
+function clone<T>(value: T): T {
+	return JSON.parse(JSON.stringify(value));
+}
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+function average(values: number[]): number {
+	return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function distribution(values: number[]): DamageDistribution {
+	const sorted = [...values].sort((a, b) => a - b);
+	const at = (fraction: number) =>
+		sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))] ?? 0;
+
+	return {
+		min: sorted[0] ?? 0,
+		p25: at(0.25),
+		median: at(0.5),
+		p75: at(0.75),
+		max: sorted[sorted.length - 1] ?? 0,
+		mean: round(average(sorted)),
+	};
+}
@@ -0,0 +1,16 @@
+/**
+ * Simulation Module
+ * Headless combat simulation for balance tuning
+ */
+
+export { BalanceSimulator } from './BalanceSimulator';
+export type {
+	PartyMemberConfig,
+	MonsterConfig,
+	MatchupConfig,
+	SimulationData,
+	SimulationOptions,
+	DamageDistribution,
+	MemberReport,
+	MatchupReport,
+} from './BalanceSimulator';
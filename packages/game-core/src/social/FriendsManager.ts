@@ -0,0 +1,393 @@
+/**
+ * FriendsManager
+ * Client-side friends list with live presence, friend requests and the block list
+ */
+
+import { EventEmitter } from '../utils/EventEmitter';
+
+export interface FriendPresence {
+	online: boolean;
+	zone_id: string | null;
+}
+
+export interface Friend extends FriendPresence {
+	player_id: string;
+	player_name: string;
+	since: string;
+}
+
+export interface FriendRequest {
+	from_player_id: string;
+	from_player_name: string;
+	to_player_id: string;
+	to_player_name: string;
+	created_at: string;
+}
+
+export interface BlockedPlayer {
+	player_id: string;
+	player_name: string;
+	blocked_at: string;
+}
+
+/**
+ * Friend message pushed by the server over the game WebSocket
+ */
+export interface FriendNetworkMessage {
+	type: string;
+	data?: any;
+}
+
+export interface FriendsManagerEvents {
+	'friends-updated': (friends: Friend[]) => void;
+	'presence-changed': (friend: Friend) => void;
+	'request-received': (request: FriendRequest) => void;
+	'requests-updated': (incoming: FriendRequest[], outgoing: FriendRequest[]) => void;
+	'blocked-updated': (playerIds: string[]) => void;
+	error: (message: string) => void;
+}
+
+export class FriendsManager extends EventEmitter<FriendsManagerEvents> {
+	private apiUrl: string;
+	private authToken: string | null = null;
+	private friends: Map<string, Friend> = new Map();
+	private incoming: FriendRequest[] = [];
+	private outgoing: FriendRequest[] = [];
+	private blocked: Map<string, BlockedPlayer> = new Map();
+
+	constructor(apiUrl: string) {
+		super();
+		this.apiUrl = apiUrl;
+	}
+
+	/**
+	 * Set auth token
+	 */
+	setAuthToken(token: string): void {
+		this.authToken = token;
+	}
+
+	/**
+	 * Handle a pushed friend message from the server
+	 */
+	handleMessage(message: FriendNetworkMessage): void {
+		const data = message.data;
+
+		switch (message.type) {
+			case 'friend-request':
+				this.incoming = [
+					data.request,
+					...this.incoming.filter((r) => r.from_player_id !== data.request.from_player_id),
+				];
+				this.emit('request-received', data.request);
+				this.emitRequests();
+				break;
+
+			case 'friend-added':
+				this.outgoing = this.outgoing.filter((r) => r.to_player_id !== data.friend.player_id);
+				this.friends.set(data.friend.player_id, data.friend);
+				this.emitFriends();
+				this.emitRequests();
+				break;
+
+			case 'friend-removed':
+				if (this.friends.delete(data.playerId)) {
+					this.emitFriends();
+				}
+				break;
+
+			case 'friend-presence': {
+				const friend = this.friends.get(data.playerId);
+				if (friend) {
+					friend.online = data.presence.online;
+					friend.zone_id = data.presence.zone_id;
+					this.emit('presence-changed', friend);
+				}
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Fetch friends, pending requests and the block list
+	 */
+	async refresh(): Promise<void> {
+		const [friends, requests, blocked] = await Promise.all([
+			this.request('GET', '', undefined, 'Failed to fetch friends'),
+			this.request('GET', '/requests', undefined, 'Failed to fetch friend requests'),
+			this.request('GET', '/blocked', undefined, 'Failed to fetch blocked players'),
+		]);
+
+		if (friends.success) {
+			this.friends = new Map((friends.friends as Friend[]).map((f) => [f.player_id, f]));
+			this.emitFriends();
+		}
+
+		if (requests.success) {
+			this.incoming = requests.incoming;
+			this.outgoing = requests.outgoing;
+			this.emitRequests();
+		}
+
+		if (blocked.success) {
+			this.blocked = new Map((blocked.blocked as BlockedPlayer[]).map((b) => [b.player_id, b]));
+			this.emit('blocked-updated', this.getBlockedIds());
+		}
+	}
+
+	/**
+	 * Send a friend request by username (accepts theirs if they already asked)
+	 */
+	async sendRequest(
+		username: string,
+	): Promise<{ success: boolean; error?: string; request?: FriendRequest; friend?: Friend }> {
+		const data = await this.request(
+			'POST',
+			'/requests',
+			{ username },
+			'Failed to send friend request',
+		);
+
+		if (data.success && data.friend) {
+			this.incoming = this.incoming.filter((r) => r.from_player_id !== data.friend.player_id);
+			this.friends.set(data.friend.player_id, data.friend);
+			this.emitFriends();
+			this.emitRequests();
+		} else if (data.success && data.request) {
+			this.outgoing = [data.request, ...this.outgoing];
+			this.emitRequests();
+		}
+
+		return data;
+	}
+
+	/**
+	 * Accept a received friend request
+	 */
+	async acceptRequest(
+		fromPlayerId: string,
+	): Promise<{ success: boolean; error?: string; friend?: Friend }> {
+		const data = await this.request(
+			'POST',
+			`/requests/${fromPlayerId}/accept`,
+			undefined,
+			'Failed to accept friend request',
+		);
+
+		if (data.success) {
+			this.friends.set(data.friend.player_id, data.friend);
+			this.emitFriends();
+		}
+
+		this.incoming = this.incoming.filter((r) => r.from_player_id !== fromPlayerId);
+		this.emitRequests();
+
+		return data;
+	}
+
+	/**
+	 * Decline a received friend request
+	 */
+	async declineRequest(fromPlayerId: string): Promise<{ success: boolean; error?: string }> {
+		const data = await this.request(
+			'POST',
+			`/requests/${fromPlayerId}/decline`,
+			undefined,
+			'Failed to decline friend request',
+		);
+
+		this.incoming = this.incoming.filter((r) => r.from_player_id !== fromPlayerId);
+		this.emitRequests();
+
+		return data;
+	}
+
+	/**
+	 * Withdraw a sent friend request
+	 */
+	async cancelRequest(toPlayerId: string): Promise<{ success: boolean; error?: string }> {
+		const data = await this.request(
+			'DELETE',
+			`/requests/${toPlayerId}`,
+			undefined,
+			'Failed to cancel friend request',
+		);
+
+		this.outgoing = this.outgoing.filter((r) => r.to_player_id !== toPlayerId);
+		this.emitRequests();
+
+		return data;
+	}
+
+	/**
+	 * Remove a friend
+	 */
+	async removeFriend(friendId: string): Promise<{ success: boolean; error?: string }> {
+		const data = await this.request('DELETE', `/${friendId}`, undefined, 'Failed to remove friend');
+
+		if (data.success && this.friends.delete(friendId)) {
+			this.emitFriends();
+		}
+
+		return data;
+	}
+
+	/**
+	 * Block a player (also removes them as a friend and drops pending requests)
+	 */
+	async blockPlayer(playerId: string): Promise<{ success: boolean; error?: string }> {
+		const data = await this.request(
+			'POST',
+			'/blocked',
+			{ player_id: playerId },
+			'Failed to block player',
+		);
+
+		if (data.success) {
+			this.blocked.set(playerId, data.blocked);
+			this.incoming = this.incoming.filter((r) => r.from_player_id !== playerId);
+			this.outgoing = this.outgoing.filter((r) => r.to_player_id !== playerId);
+
+			if (this.friends.delete(playerId)) {
+				this.emitFriends();
+			}
+			this.emitRequests();
+			this.emit('blocked-updated', this.getBlockedIds());
+		}
+
+		return data;
+	}
+
+	/**
+	 * Unblock a player
+	 */
+	async unblockPlayer(playerId: string): Promise<{ success: boolean; error?: string }> {
+		const data = await this.request(
+			'DELETE',
+			`/blocked/${playerId}`,
+			undefined,
+			'Failed to unblock player',
+		);
+
+		if (data.success && this.blocked.delete(playerId)) {
+			this.emit('blocked-updated', this.getBlockedIds());
+		}
+
+		return data;
+	}
+
+	/**
+	 * Get friends, online friends first
+	 */
+	getFriends(): Friend[] {
+		return Array.from(this.friends.values()).sort(
+			(a, b) => Number(b.online) - Number(a.online) || a.player_name.localeCompare(b.player_name),
+		);
+	}
+
+	/**
+	 * Get online friends in a zone
+	 */
+	getFriendsInZone(zoneId: string): Friend[] {
+		return this.getFriends().filter((friend) => friend.online && friend.zone_id === zoneId);
+	}
+
+	/**
+	 * Check whether a player is a friend
+	 */
+	isFriend(playerId: string): boolean {
+		return this.friends.has(playerId);
+	}
+
+	/**
+	 * Get received friend requests
+	 */
+	getIncomingRequests(): FriendRequest[] {
+		return [...this.incoming];
+	}
+
+	/**
+	 * Get sent friend requests
+	 */
+	getOutgoingRequests(): FriendRequest[] {
+		return [...this.outgoing];
+	}
+
+	/**
+	 * Get blocked players
+	 */
+	getBlocked(): BlockedPlayer[] {
+		return Array.from(this.blocked.values());
+	}
+
+	/**
+	 * Get blocked player IDs (e.g. for ChatManager.setBlockedPlayers)
+	 */
+	getBlockedIds(): string[] {
+		return Array.from(this.blocked.keys());
+	}
+
+	/**
+	 * Check whether a player is blocked
+	 */
+	isBlocked(playerId: string): boolean {
+		return this.blocked.has(playerId);
+	}
+
+	/**
+	 * Emit the current friend list
+	 */
+	private emitFriends(): void {
+		this.emit('friends-updated', this.getFriends());
+	}
+
+	/**
+	 * Emit the current friend requests
+	 */
+	private emitRequests(): void {
+		this.emit('requests-updated', this.getIncomingRequests(), this.getOutgoingRequests());
+	}
+
+	/**
+	 * Send a friends API request, emitting 'error' on failure
+	 */
+	private async request(
+		method: string,
+		path: string,
+		body: object | undefined,
+		errorMsg: string,
+	): Promise<any> {
+		try {
+			const response = await fetch(`${this.apiUrl}/friends${path}`, {
+				method,
+				headers: {
+					'Content-Type': 'application/json',
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+				...(body && { body: JSON.stringify(body) }),
+			});
+
+			const data = await response.json();
+
+			if (!data.success && data.error) {
+				this.emit('error', data.error);
+			}
+
+			return data;
+		} catch (error) {
+			this.emit('error', errorMsg);
+			return { success: false, error: errorMsg };
+		}
+	}
+
+	/**
+	 * Cleanup
+	 */
+	destroy(): void {
+		this.removeAllListeners();
+		this.friends.clear();
+		this.incoming = [];
+		this.outgoing = [];
+		this.blocked.clear();
+	}
+}
@@ -0,0 +1,545 @@
+/**
+ * GuildManager
+ * Client-side guild membership, bank and guild chat
+ */
+
+import { EventEmitter } from '../utils/EventEmitter';
+
+export type GuildRank = 'leader' | 'officer' | 'member' | 'recruit';
+
+export type GuildPermission =
+	| 'invite'
+	| 'kick'
+	| 'set_rank'
+	| 'edit_motd'
+	| 'withdraw_items'
+	| 'withdraw_currency'
+	| 'view_log'
+	| 'disband';
+
+// Lowest rank first; mirrors the server's rank table
+export const GUILD_RANKS: GuildRank[] = ['recruit', 'member', 'officer', 'leader'];
+
+export const GUILD_RANK_PERMISSIONS: Record<GuildRank, GuildPermission[]> = {
+	leader: [
+		'invite',
+		'kick',
+		'set_rank',
+		'edit_motd',
+		'withdraw_items',
+		'withdraw_currency',
+		'view_log',
+		'disband',
+	],
+	officer: [
+		'invite',
+		'kick',
+		'set_rank',
+		'edit_motd',
+		'withdraw_items',
+		'withdraw_currency',
+		'view_log',
+	],
+	member: ['invite', 'withdraw_items'],
+	recruit: [],
+};
+
+export interface GuildMember {
+	guild_id: number;
+	player_id: string;
+	player_name: string;
+	rank: GuildRank;
+	joined_at: string;
+}
+
+export interface Guild {
+	id: number;
+	name: string;
+	tag: string;
+	leader_id: string;
+	motd: string;
+	bank_balance: number;
+	member_count: number;
+	created_at: string;
+	members: GuildMember[];
+}
+
+export interface GuildInvite {
+	guild_id: number;
+	guild_name: string;
+	guild_tag: string;
+	player_id: string;
+	invited_by: string;
+	invited_by_name: string;
+	created_at: string;
+	expires_at: string;
+}
+
+export interface GuildBank {
+	balance: number;
+	items: { item_id: string; quantity: number }[];
+}
+
+export interface GuildLogEntry {
+	id: number;
+	guild_id: number;
+	player_id: string;
+	player_name: string;
+	action: string;
+	target_id: string | null;
+	item_id: string | null;
+	quantity: number | null;
+	amount: number | null;
+	details: string | null;
+	created_at: string;
+}
+
+export interface GuildChatMessage {
+	id: number;
+	guild_id: number;
+	sender_id: string;
+	sender_name: string;
+	message: string;
+	created_at: string;
+}
+
+/**
+ * Guild message pushed by the server over the game WebSocket
+ */
+export interface GuildNetworkMessage {
+	type: string;
+	data?: any;
+}
+
+/**
+ * Guild request sent to the server over the game WebSocket
+ */
+export interface GuildRequestMessage {
+	type: 'guild-chat';
+	data: { message: string };
+}
+
+export interface GuildManagerEvents {
+	'guild-updated': (guild: Guild | null) => void;
+	'guild-removed': (guildId: number, reason: 'kicked' | 'disbanded') => void;
+	'invite-received': (invite: GuildInvite) => void;
+	'bank-updated': (bank: GuildBank) => void;
+	'chat-message': (message: GuildChatMessage) => void;
+	error: (message: string) => void;
+}
+
+export class GuildManager extends EventEmitter<GuildManagerEvents> {
+	private apiUrl: string;
+	private playerId: string;
+	private authToken: string | null = null;
+	private guild: Guild | null = null;
+	private invites: Map<number, GuildInvite> = new Map(); // Guild ID -> invite
+	private bank: GuildBank | null = null;
+	private chatHistory: GuildChatMessage[] = [];
+	private sendMessageCallback: ((message: GuildRequestMessage) => void) | null = null;
+
+	// Configuration
+	private readonly MAX_CHAT_HISTORY = 100;
+
+	constructor(apiUrl: string, playerId: string) {
+		super();
+		this.apiUrl = apiUrl;
+		this.playerId = playerId;
+	}
+
+	/**
+	 * Set network callback (game WebSocket); guild events arrive through handleMessage
+	 */
+	setNetworkCallback(sendMessage: (message: GuildRequestMessage) => void): void {
+		this.sendMessageCallback = sendMessage;
+	}
+
+	/**
+	 * Set auth token
+	 */
+	setAuthToken(token: string): void {
+		this.authToken = token;
+	}
+
+	/**
+	 * Handle a pushed guild message from the server
+	 */
+	handleMessage(message: GuildNetworkMessage): void {
+		const data = message.data;
+
+		switch (message.type) {
+			case 'guild-invite':
+				this.invites.set(data.invite.guild_id, data.invite);
+				this.emit('invite-received', data.invite);
+				break;
+
+			case 'guild-updated':
+				this.guild = data.guild;
+				this.emit('guild-updated', data.guild);
+				break;
+
+			case 'guild-removed':
+				this.clearGuild();
+				this.emit('guild-removed', data.guildId, data.reason);
+				this.emit('guild-updated', null);
+				break;
+
+			case 'guild-chat-message':
+				this.addChatMessage(data.message);
+				break;
+		}
+	}
+
+	/**
+	 * Fetch this player's guild
+	 */
+	async fetchGuild(): Promise<Guild | null> {
+		const data = await this.request('GET', '', undefined, 'Failed to fetch guild');
+
+		if (data.success) {
+			if (data.guild) {
+				this.guild = data.guild;
+			} else {
+				this.clearGuild();
+			}
+			this.emit('guild-updated', this.guild);
+		}
+
+		return this.guild;
+	}
+
+	/**
+	 * Create a guild (costs currency)
+	 */
+	async createGuild(name: string, tag: string): Promise<{ success: boolean; error?: string }> {
+		const data = await this.request('POST', '/create', { name, tag }, 'Failed to create guild');
+
+		if (data.success) {
+			await this.fetchGuild();
+		}
+
+		return data;
+	}
+
+	/**
+	 * Invite a player to this player's guild
+	 */
+	invitePlayer(playerId: string): Promise<{ success: boolean; error?: string }> {
+		return this.request('POST', '/invite', { player_id: playerId }, 'Failed to invite player');
+	}
+
+	/**
+	 * Fetch pending guild invites
+	 */
+	async fetchInvites(): Promise<GuildInvite[]> {
+		const data = await this.request('GET', '/invites', undefined, 'Failed to fetch invites');
+
+		if (data.success) {
+			this.invites.clear();
+			for (const invite of data.invites as GuildInvite[]) {
+				this.invites.set(invite.guild_id, invite);
+			}
+		}
+
+		return this.getInvites();
+	}
+
+	/**
+	 * Get pending guild invites
+	 */
+	getInvites(): GuildInvite[] {
+		return Array.from(this.invites.values());
+	}
+
+	/**
+	 * Accept a guild invite (the joined guild is pushed as 'guild-updated')
+	 */
+	acceptInvite(guildId: number): Promise<{ success: boolean; error?: string }> {
+		this.invites.delete(guildId);
+		return this.request('POST', `/invites/${guildId}/accept`, undefined, 'Failed to accept invite');
+	}
+
+	/**
+	 * Decline a guild invite
+	 */
+	declineInvite(guildId: number): Promise<{ success: boolean; error?: string }> {
+		this.invites.delete(guildId);
+		return this.request(
+			'POST',
+			`/invites/${guildId}/decline`,
+			undefined,
+			'Failed to decline invite',
+		);
+	}
+
+	/**
+	 * Leave the current guild
+	 */
+	async leaveGuild(): Promise<{ success: boolean; error?: string }> {
+		const data = await this.request('POST', '/leave', undefined, 'Failed to leave guild');
+
+		if (data.success) {
+			this.clearGuild();
+			this.emit('guild-updated', null);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Remove a lower-ranked member
+	 */
+	kickMember(playerId: string): Promise<{ success: boolean; error?: string }> {
+		return this.request('POST', '/kick', { player_id: playerId }, 'Failed to kick member');
+	}
+
+	/**
+	 * Change a member's rank ('leader' transfers leadership)
+	 */
+	setRank(playerId: string, rank: GuildRank): Promise<{ success: boolean; error?: string }> {
+		return this.request('POST', '/rank', { player_id: playerId, rank }, 'Failed to set rank');
+	}
+
+	/**
+	 * Update the message of the day
+	 */
+	setMotd(motd: string): Promise<{ success: boolean; error?: string }> {
+		return this.request('PUT', '/motd', { motd }, 'Failed to update message of the day');
+	}
+
+	/**
+	 * Disband the guild (leader only, bank must be empty)
+	 */
+	async disbandGuild(): Promise<{ success: boolean; error?: string }> {
+		const data = await this.request('POST', '/disband', undefined, 'Failed to disband guild');
+
+		if (data.success) {
+			this.clearGuild();
+			this.emit('guild-updated', null);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Fetch the guild bank
+	 */
+	async fetchBank(): Promise<GuildBank | null> {
+		const data = await this.request('GET', '/bank', undefined, 'Failed to fetch guild bank');
+
+		if (data.success) {
+			this.bank = data.bank;
+			this.emit('bank-updated', data.bank);
+		}
+
+		return this.bank;
+	}
+
+	/**
+	 * Get the last fetched guild bank
+	 */
+	getBank(): GuildBank | null {
+		return this.bank;
+	}
+
+	/**
+	 * Deposit items from this player's inventory
+	 */
+	depositItem(itemId: string, quantity: number): Promise<{ success: boolean; error?: string }> {
+		return this.bankRequest('deposit-item', { item_id: itemId, quantity });
+	}
+
+	/**
+	 * Withdraw items into this player's inventory
+	 */
+	withdrawItem(itemId: string, quantity: number): Promise<{ success: boolean; error?: string }> {
+		return this.bankRequest('withdraw-item', { item_id: itemId, quantity });
+	}
+
+	/**
+	 * Deposit currency into the guild bank
+	 */
+	depositCurrency(amount: number): Promise<{ success: boolean; error?: string }> {
+		return this.bankRequest('deposit-currency', { amount });
+	}
+
+	/**
+	 * Withdraw currency from the guild bank
+	 */
+	withdrawCurrency(amount: number): Promise<{ success: boolean; error?: string }> {
+		return this.bankRequest('withdraw-currency', { amount });
+	}
+
+	/**
+	 * Bank changes refresh the local bank copy on success
+	 */
+	private async bankRequest(
+		path: string,
+		body: object,
+	): Promise<{ success: boolean; error?: string }> {
+		const data = await this.request('POST', `/bank/${path}`, body, 'Guild bank request failed');
+
+		if (data.success) {
+			await this.fetchBank();
+		}
+
+		return data;
+	}
+
+	/**
+	 * Fetch the guild audit log (officers and leader)
+	 */
+	async getLog(limit: number = 50, offset: number = 0): Promise<GuildLogEntry[]> {
+		const data = await this.request(
+			'GET',
+			`/log?limit=${limit}&offset=${offset}`,
+			undefined,
+			'Failed to fetch guild log',
+		);
+
+		return data.success ? data.entries : [];
+	}
+
+	/**
+	 * Send a guild chat message (over the WebSocket when connected)
+	 */
+	async sendChatMessage(message: string): Promise<{ success: boolean; error?: string }> {
+		if (!this.guild) {
+			return { success: false, error: 'Not in a guild' };
+		}
+
+		if (this.sendMessageCallback) {
+			this.sendMessageCallback({ type: 'guild-chat', data: { message } });
+			return { success: true };
+		}
+
+		// The REST response is also pushed back as 'guild-chat-message'
+		return this.request('POST', '/chat', { message }, 'Failed to send guild message');
+	}
+
+	/**
+	 * Fetch recent guild chat
+	 */
+	async fetchChatHistory(limit: number = 50): Promise<GuildChatMessage[]> {
+		const data = await this.request(
+			'GET',
+			`/chat?limit=${limit}`,
+			undefined,
+			'Failed to fetch guild chat',
+		);
+
+		if (data.success) {
+			this.chatHistory = data.messages;
+		}
+
+		return this.getChatHistory();
+	}
+
+	/**
+	 * Get received guild chat, oldest first
+	 */
+	getChatHistory(): GuildChatMessage[] {
+		return [...this.chatHistory];
+	}
+
+	/**
+	 * Get this player's guild
+	 */
+	getGuild(): Guild | null {
+		return this.guild;
+	}
+
+	/**
+	 * Get this player's rank in the guild
+	 */
+	getRank(): GuildRank | null {
+		return this.guild?.members.find((m) => m.player_id === this.playerId)?.rank ?? null;
+	}
+
+	/**
+	 * Check whether this player's rank grants a permission
+	 */
+	hasPermission(permission: GuildPermission): boolean {
+		const rank = this.getRank();
+		return rank !== null && GUILD_RANK_PERMISSIONS[rank].includes(permission);
+	}
+
+	/**
+	 * Check whether this player can manage (kick/re-rank) another member
+	 */
+	canManage(member: GuildMember): boolean {
+		const rank = this.getRank();
+		return (
+			rank !== null &&
+			member.player_id !== this.playerId &&
+			GUILD_RANKS.indexOf(rank) > GUILD_RANKS.indexOf(member.rank)
+		);
+	}
+
+	/**
+	 * Store a chat message, dropping the oldest past the history limit
+	 */
+	private addChatMessage(message: GuildChatMessage): void {
+		if (this.chatHistory.some((m) => m.id === message.id)) {
+			return;
+		}
+
+		this.chatHistory.push(message);
+		if (this.chatHistory.length > this.MAX_CHAT_HISTORY) {
+			this.chatHistory.shift();
+		}
+
+		this.emit('chat-message', message);
+	}
+
+	/**
+	 * Forget guild state after leaving, being kicked or disbanding
+	 */
+	private clearGuild(): void {
+		this.guild = null;
+		this.bank = null;
+		this.chatHistory = [];
+	}
+
+	/**
+	 * Send a guild API request, emitting 'error' on failure
+	 */
+	private async request(
+		method: string,
+		path: string,
+		body: object | undefined,
+		errorMsg: string,
+	): Promise<any> {
+		try {
+			const response = await fetch(`${this.apiUrl}/guild${path}`, {
+				method,
+				headers: {
+					'Content-Type': 'application/json',
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+				...(body && { body: JSON.stringify(body) }),
+			});
+
+			const data = await response.json();
+
+			if (!data.success && data.error) {
+				this.emit('error', data.error);
+			}
+
+			return data;
+		} catch (error) {
+			this.emit('error', errorMsg);
+			return { success: false, error: errorMsg };
+		}
+	}
+
+	/**
+	 * Cleanup
+	 */
+	destroy(): void {
+		this.removeAllListeners();
+		this.sendMessageCallback = null;
+		this.clearGuild();
+		this.invites.clear();
+	}
+}
@@ -0,0 +1,438 @@
+/**
+ * PartyManager
+ * Client-side exploration parties: invites, leader, loot mode, member frames and party chat
+ */
+
+import { EventEmitter } from '../utils/EventEmitter';
+import type { LootDrop } from '../combat/LootResolver';
+
+export type LootMode = 'free-for-all' | 'round-robin' | 'need-greed';
+
+export type LootRollChoice = 'need' | 'greed' | 'pass';
+
+/**
+ * HP/MP and position a member's client reports
+ */
+export interface PartyMemberStatus {
+	hp: number;
+	maxHp: number;
+	mp: number;
+	maxMp: number;
+	zoneId: string;
+	x: number;
+	y: number;
+	updatedAt: number;
+}
+
+export interface PartyMember {
+	player_id: string;
+	player_name: string;
+	status: PartyMemberStatus | null;
+}
+
+export interface Party {
+	id: string;
+	leader_id: string;
+	members: PartyMember[];
+	invites: string[];
+	loot_mode: LootMode;
+	created_at: string;
+}
+
+export interface PartyChatMessage {
+	party_id: string;
+	sender_id: string;
+	sender_name: string;
+	message: string;
+	sent_at: string;
+}
+
+export interface LootRoll {
+	id: string;
+	party_id: string;
+	drop: LootDrop;
+	eligible: string[];
+	choices: Record<string, { choice: LootRollChoice; roll: number }>;
+	deadline: number;
+	winner_id: string | null;
+}
+
+/**
+ * Party message pushed by the server over the game WebSocket
+ */
+export interface PartyNetworkMessage {
+	type: string;
+	data?: any;
+}
+
+/**
+ * Party request sent to the server over the game WebSocket
+ */
+export interface PartyRequestMessage {
+	type: 'party-status' | 'party-chat' | 'party-loot-choice';
+	data: any;
+}
+
+export interface PartyManagerEvents {
+	'party-updated': (party: Party | null) => void;
+	'party-invite': (party: Party) => void;
+	'member-status': (playerId: string, status: PartyMemberStatus) => void;
+	'chat-message': (message: PartyChatMessage) => void;
+	'loot-roll': (roll: LootRoll) => void;
+	'loot-result': (roll: LootRoll) => void;
+	error: (message: string) => void;
+}
+
+export class PartyManager extends EventEmitter<PartyManagerEvents> {
+	private apiUrl: string;
+	private playerId: string;
+	private authToken: string | null = null;
+	private party: Party | null = null;
+	private invites: Map<string, Party> = new Map(); // Party ID -> inviting party
+	private lootRolls: Map<string, LootRoll> = new Map();
+	private chatHistory: PartyChatMessage[] = [];
+	private lastStatus: Omit<PartyMemberStatus, 'updatedAt'> | null = null;
+	private lastStatusSentAt: number = 0;
+	private sendMessageCallback: ((message: PartyRequestMessage) => void) | null = null;
+
+	// Configuration
+	private readonly STATUS_INTERVAL = 500; // Position-only updates are sent at most twice a second
+	private readonly MAX_CHAT_HISTORY = 100;
+
+	constructor(apiUrl: string, playerId: string) {
+		super();
+		this.apiUrl = apiUrl;
+		this.playerId = playerId;
+	}
+
+	/**
+	 * Set network callback (game WebSocket); party events arrive through handleMessage
+	 */
+	setNetworkCallback(sendMessage: (message: PartyRequestMessage) => void): void {
+		this.sendMessageCallback = sendMessage;
+	}
+
+	/**
+	 * Set auth token
+	 */
+	setAuthToken(token: string): void {
+		this.authToken = token;
+	}
+
+	/**
+	 * Handle a pushed party message from the server
+	 */
+	handleMessage(message: PartyNetworkMessage): void {
+		const data = message.data;
+
+		switch (message.type) {
+			case 'party-invite':
+				this.invites.set(data.party.id, data.party);
+				this.emit('party-invite', data.party);
+				break;
+
+			case 'party-updated':
+				this.setParty(data.party);
+				break;
+
+			case 'party-member-status': {
+				const member = this.party?.members.find((m) => m.player_id === data.playerId);
+				if (member) {
+					member.status = data.status;
+					this.emit('member-status', data.playerId, data.status);
+				}
+				break;
+			}
+
+			case 'party-chat-message':
+				this.chatHistory.push(data.message);
+				if (this.chatHistory.length > this.MAX_CHAT_HISTORY) {
+					this.chatHistory.shift();
+				}
+				this.emit('chat-message', data.message);
+				break;
+
+			case 'party-loot-roll':
+				this.lootRolls.set(data.roll.id, data.roll);
+				this.emit('loot-roll', data.roll);
+				break;
+
+			case 'party-loot-result':
+				this.lootRolls.delete(data.roll.id);
+				this.emit('loot-result', data.roll);
+				break;
+		}
+	}
+
+	/**
+	 * Fetch this player's party and open loot rolls (e.g. after reconnecting)
+	 */
+	async fetchParty(): Promise<Party | null> {
+		const data = await this.request('GET', '', undefined, 'Failed to fetch party');
+
+		if (data.success) {
+			this.lootRolls = new Map((data.lootRolls as LootRoll[]).map((roll) => [roll.id, roll]));
+			this.setParty(data.party || null);
+		}
+
+		return this.party;
+	}
+
+	/**
+	 * Create a party led by this player
+	 */
+	async createParty(): Promise<{ success: boolean; error?: string; party?: Party }> {
+		const data = await this.request('POST', '/create', undefined, 'Failed to create party');
+
+		if (data.success) {
+			this.setParty(data.party);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Invite a player (leader only)
+	 */
+	invitePlayer(playerId: string): Promise<{ success: boolean; error?: string }> {
+		return this.request('POST', '/invite', { player_id: playerId }, 'Failed to invite player');
+	}
+
+	/**
+	 * Get received party invites
+	 */
+	getInvites(): Party[] {
+		return Array.from(this.invites.values());
+	}
+
+	/**
+	 * Accept a received party invite
+	 */
+	async acceptInvite(
+		partyId: string,
+	): Promise<{ success: boolean; error?: string; party?: Party }> {
+		this.invites.delete(partyId);
+		const data = await this.request(
+			'POST',
+			`/accept/${partyId}`,
+			undefined,
+			'Failed to join party',
+		);
+
+		if (data.success) {
+			this.setParty(data.party);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Decline a received party invite
+	 */
+	declineInvite(partyId: string): Promise<{ success: boolean; error?: string }> {
+		this.invites.delete(partyId);
+		return this.request('POST', `/decline/${partyId}`, undefined, 'Failed to decline invite');
+	}
+
+	/**
+	 * Leave the current party
+	 */
+	async leaveParty(): Promise<{ success: boolean; error?: string }> {
+		const data = await this.request('POST', '/leave', undefined, 'Failed to leave party');
+
+		if (data.success) {
+			this.setParty(null);
+		}
+
+		return data;
+	}
+
+	/**
+	 * Remove a member (leader only)
+	 */
+	kickMember(playerId: string): Promise<{ success: boolean; error?: string }> {
+		return this.request('POST', '/kick', { player_id: playerId }, 'Failed to kick member');
+	}
+
+	/**
+	 * Hand leadership to another member (leader only)
+	 */
+	setLeader(playerId: string): Promise<{ success: boolean; error?: string }> {
+		return this.request('POST', '/leader', { player_id: playerId }, 'Failed to change leader');
+	}
+
+	/**
+	 * Change how drops are distributed (leader only)
+	 */
+	setLootMode(mode: LootMode): Promise<{ success: boolean; error?: string }> {
+		return this.request('PUT', '/loot-mode', { mode }, 'Failed to change loot mode');
+	}
+
+	/**
+	 * Roll need/greed or pass on an open loot roll
+	 */
+	async chooseLoot(
+		rollId: string,
+		choice: LootRollChoice,
+	): Promise<{ success: boolean; error?: string }> {
+		if (this.sendMessageCallback) {
+			this.sendMessageCallback({ type: 'party-loot-choice', data: { rollId, choice } });
+			return { success: true };
+		}
+
+		return this.request('POST', `/loot/${rollId}`, { choice }, 'Failed to roll on loot');
+	}
+
+	/**
+	 * Get loot rolls this player has not chosen on yet
+	 */
+	getPendingRolls(): LootRoll[] {
+		return Array.from(this.lootRolls.values()).filter((roll) => !roll.choices[this.playerId]);
+	}
+
+	/**
+	 * Report this player's HP/MP and position to the party.
+	 * HP/MP/zone changes go out immediately, movement is throttled.
+	 */
+	updateStatus(status: Omit<PartyMemberStatus, 'updatedAt'>): void {
+		if (!this.party || !this.sendMessageCallback) return;
+
+		const last = this.lastStatus;
+		const vitalsChanged =
+			!last ||
+			last.hp !== status.hp ||
+			last.maxHp !== status.maxHp ||
+			last.mp !== status.mp ||
+			last.maxMp !== status.maxMp ||
+			last.zoneId !== status.zoneId;
+		const moved = !last || last.x !== status.x || last.y !== status.y;
+		const now = Date.now();
+
+		if (!vitalsChanged && (!moved || now - this.lastStatusSentAt < this.STATUS_INTERVAL)) {
+			return;
+		}
+
+		this.lastStatus = { ...status };
+		this.lastStatusSentAt = now;
+		this.sendMessageCallback({ type: 'party-status', data: status });
+	}
+
+	/**
+	 * Send a party chat message
+	 */
+	async sendChatMessage(message: string): Promise<{ success: boolean; error?: string }> {
+		if (!this.party) {
+			return { success: false, error: 'Not in a party' };
+		}
+
+		if (this.sendMessageCallback) {
+			this.sendMessageCallback({ type: 'party-chat', data: { message } });
+			return { success: true };
+		}
+
+		return this.request('POST', '/chat', { message }, 'Failed to send party message');
+	}
+
+	/**
+	 * Get received party chat, oldest first
+	 */
+	getChatHistory(): PartyChatMessage[] {
+		return [...this.chatHistory];
+	}
+
+	/**
+	 * Get this player's party
+	 */
+	getParty(): Party | null {
+		return this.party;
+	}
+
+	/**
+	 * Get the other members of the party
+	 */
+	getOtherMembers(): PartyMember[] {
+		return this.party?.members.filter((member) => member.player_id !== this.playerId) ?? [];
+	}
+
+	/**
+	 * Check whether this player leads the party
+	 */
+	isLeader(): boolean {
+		return this.party?.leader_id === this.playerId;
+	}
+
+	/**
+	 * Player IDs that enter an encounter in a zone together: this player plus
+	 * every member last reported in the same zone
+	 */
+	getEncounterMembers(zoneId: string): string[] {
+		return [
+			this.playerId,
+			...this.getOtherMembers()
+				.filter((member) => member.status?.zoneId === zoneId)
+				.map((member) => member.player_id),
+		];
+	}
+
+	/**
+	 * Replace the local party copy
+	 */
+	private setParty(party: Party | null): void {
+		if (!party) {
+			this.chatHistory = [];
+			this.lootRolls.clear();
+			this.lastStatus = null;
+		} else if (party.id !== this.party?.id) {
+			// Report in right away so the new party gets this player's frame
+			this.lastStatus = null;
+		}
+
+		this.party = party;
+		this.emit('party-updated', party);
+	}
+
+	/**
+	 * Send a party API request, emitting 'error' on failure
+	 */
+	private async request(
+		method: string,
+		path: string,
+		body: object | undefined,
+		errorMsg: string,
+	): Promise<any> {
+		try {
+			const response = await fetch(`${this.apiUrl}/party${path}`, {
+				method,
+				headers: {
+					'Content-Type': 'application/json',
+					...(this.authToken && { Authorization: `Bearer ${this.authToken}` }),
+				},
+				...(body && { body: JSON.stringify(body) }),
+			});
+
+			const data = await response.json();
+
+			if (!data.success && data.error) {
+				this.emit('error', data.error);
+			}
+
+			return data;
+		} catch (error) {
+			this.emit('error', errorMsg);
+			return { success: false, error: errorMsg };
+		}
+	}
+
+	/**
+	 * Cleanup
+	 */
+	destroy(): void {
+		this.removeAllListeners();
+		this.sendMessageCallback = null;
+		this.party = null;
+		this.invites.clear();
+		this.lootRolls.clear();
+		this.chatHistory = [];
+		this.lastStatus = null;
+	}
+}
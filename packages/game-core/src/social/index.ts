@@ -0,0 +1,41 @@
+/**
+ * Social Module
+ * Guilds, exploration parties and friends
+ */
+
+export { GuildManager, GUILD_RANKS, GUILD_RANK_PERMISSIONS } from './GuildManager';
+export type {
+	GuildRank,
+	GuildPermission,
+	Guild,
+	GuildMember,
+	GuildInvite,
+	GuildBank,
+	GuildLogEntry,
+	GuildChatMessage,
+	GuildNetworkMessage,
+	GuildRequestMessage,
+	GuildManagerEvents,
+} from './GuildManager';
+export { PartyManager } from './PartyManager';
+export type {
+	LootMode,
+	LootRollChoice,
+	LootRoll,
+	Party,
+	PartyMember,
+	PartyMemberStatus,
+	PartyChatMessage,
+	PartyNetworkMessage,
+	PartyRequestMessage,
+	PartyManagerEvents,
+} from './PartyManager';
+export { FriendsManager } from './FriendsManager';
+export type {
+	Friend,
+	FriendPresence,
+	FriendRequest,
+	BlockedPlayer,
+	FriendNetworkMessage,
+	FriendsManagerEvents,
+} from './FriendsManager';
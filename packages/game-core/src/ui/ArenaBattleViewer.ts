@@ -0,0 +1,430 @@
+/**
+ * ArenaBattleViewer
+ * Read-only canvas view of an arena battle, used to spectate live matches and play back replays
+ */
+
+import { CombatActionType, CombatAnimationManager } from '../combat/index';
+import type { CombatAction, DamageResult, StatusEffect } from '../combat/index';
+import type { ArenaBattle, ArenaReplay, ArenaReplayFrame } from '../pvp/ArenaManager';
+
+export interface ArenaBattleViewerConfig {
+	container: HTMLElement;
+	title: string;
+	onClose?: () => void;
+}
+
+interface ViewerEntity {
+	id: string;
+	name: string;
+	team: 1 | 2;
+	hp: number;
+	maxHp: number;
+	mp: number;
+	maxMp: number;
+	statusEffects: StatusEffect[];
+}
+
+interface ViewerStep {
+	turn: number;
+	action: CombatAction;
+	result: DamageResult;
+	entities?: ArenaReplayFrame['entities']; // Replay frames carry the state after the action
+}
+
+const CANVAS_WIDTH = 640;
+const CANVAS_HEIGHT = 360;
+
+export class ArenaBattleViewer {
+	private config: ArenaBattleViewerConfig;
+	private root: HTMLElement;
+	private canvas: HTMLCanvasElement;
+	private ctx: CanvasRenderingContext2D;
+	private status: HTMLElement;
+	private controls: HTMLElement;
+	private animations: CombatAnimationManager = new CombatAnimationManager();
+	private entities: Map<string, ViewerEntity> = new Map();
+	private steps: ViewerStep[] = [];
+	private stepIndex: number = 0;
+	private caption: string = '';
+	private replay: ArenaReplay | null = null;
+	private liveState: ArenaBattle | null = null; // Latest spectator snapshot, applied once its turns have played
+	private liveTurns: number = 0;
+	private paused: boolean = false;
+	private speed: number = 1;
+	private stepTimer: Timer | null = null;
+	private stepElapsed: number = 0;
+	private frameHandle: number | null = null;
+	private lastFrameTime: number = 0;
+
+	private readonly STEP_INTERVAL = 1200; // ms per action at 1x speed
+
+	constructor(config: ArenaBattleViewerConfig) {
+		this.config = config;
+
+		this.root = document.createElement('div');
+		this.root.style.cssText = `
+			position: fixed;
+			top: 50%;
+			left: 50%;
+			transform: translate(-50%, -50%);
+			background: #1e1e2e;
+			color: white;
+			padding: 20px;
+			border-radius: 12px;
+			box-shadow: 0 10px 30px rgba(0,0,0,0.5);
+			z-index: 10001;
+			font-family: Arial, sans-serif;
+		`;
+
+		const header = document.createElement('div');
+		header.style.cssText =
+			'display: flex; justify-content: space-between; align-items: center; margin-bottom: 10px;';
+		header.innerHTML = `<h3 style="margin: 0;">${config.title}</h3>`;
+
+		const closeBtn = this.createButton('Close', () => this.close());
+		header.appendChild(closeBtn);
+		this.root.appendChild(header);
+
+		this.canvas = document.createElement('canvas');
+		this.canvas.width = CANVAS_WIDTH;
+		this.canvas.height = CANVAS_HEIGHT;
+		this.canvas.style.cssText = 'display: block; background: #2a2a3e; border-radius: 8px;';
+		this.ctx = this.canvas.getContext('2d')!;
+		this.root.appendChild(this.canvas);
+
+		this.status = document.createElement('div');
+		this.status.style.cssText = 'margin-top: 10px; font-size: 13px; color: rgba(255,255,255,0.7);';
+		this.root.appendChild(this.status);
+
+		this.controls = document.createElement('div');
+		this.controls.style.cssText = 'display: flex; gap: 8px; margin-top: 10px;';
+		this.root.appendChild(this.controls);
+
+		config.container.appendChild(this.root);
+
+		this.lastFrameTime = performance.now();
+		this.frameHandle = requestAnimationFrame((time) => this.renderFrame(time));
+		this.stepTimer = setInterval(() => this.step(), this.STEP_INTERVAL / 4);
+	}
+
+	/**
+	 * Play back a recorded match turn by turn
+	 */
+	playReplay(replay: ArenaReplay): void {
+		this.replay = replay;
+		this.liveState = null;
+		this.loadEntities(replay.entities);
+		this.steps = replay.frames.map((frame) => ({ ...frame }));
+		this.stepIndex = 0;
+		this.paused = false;
+		this.caption = 'Replay starting...';
+
+		this.controls.innerHTML = '';
+
+		const playBtn = this.createButton('Pause', () => {
+			this.paused = !this.paused;
+			playBtn.textContent = this.paused ? 'Play' : 'Pause';
+		});
+		const speedBtn = this.createButton('1x', () => {
+			this.speed = this.speed === 1 ? 2 : this.speed === 2 ? 4 : 1;
+			speedBtn.textContent = `${this.speed}x`;
+		});
+		const restartBtn = this.createButton('Restart', () => {
+			if (this.replay) {
+				this.playReplay(this.replay);
+			}
+		});
+
+		this.controls.appendChild(playBtn);
+		this.controls.appendChild(speedBtn);
+		this.controls.appendChild(restartBtn);
+		this.updateStatus();
+	}
+
+	/**
+	 * Show a spectator snapshot; turns added since the last one are animated in order
+	 */
+	showLive(battle: ArenaBattle): void {
+		if (!this.liveState) {
+			this.loadEntities(battle.entities);
+			this.liveTurns = battle.turns.length;
+			this.caption = 'Spectating (delayed)';
+		}
+
+		for (const turn of battle.turns.slice(this.liveTurns)) {
+			this.steps.push({ ...turn });
+		}
+		this.liveTurns = battle.turns.length;
+		this.liveState = battle;
+		this.updateStatus();
+	}
+
+	/**
+	 * Load the starting entity state (team 1 fights from the player side)
+	 */
+	private loadEntities(entities: ArenaBattle['entities']): void {
+		this.entities.clear();
+		this.animations.clear();
+
+		for (const entity of entities) {
+			this.entities.set(entity.id, {
+				id: entity.id,
+				name: entity.name,
+				team: entity.isPlayer ? 1 : 2,
+				hp: entity.stats.hp,
+				maxHp: entity.stats.maxHp,
+				mp: entity.stats.mp,
+				maxMp: entity.stats.maxMp,
+				statusEffects: entity.statusEffects,
+			});
+		}
+	}
+
+	/**
+	 * Play the next queued action once enough time has passed for the current speed
+	 */
+	private step(): void {
+		if (this.paused) return;
+
+		this.stepElapsed += (this.STEP_INTERVAL / 4) * this.speed;
+		if (this.stepElapsed < this.STEP_INTERVAL) return;
+		this.stepElapsed = 0;
+
+		const next = this.steps[this.stepIndex];
+		if (!next) {
+			this.finishSteps();
+			return;
+		}
+
+		this.stepIndex++;
+		this.playStep(next);
+		this.updateStatus();
+	}
+
+	/**
+	 * Animate one action and apply its state
+	 */
+	private playStep(step: ViewerStep): void {
+		const actor = this.entities.get(step.action.actorId);
+		const target = this.entities.get(step.action.targetId);
+		if (!actor || !target) return;
+
+		const actorPos = this.getEntityPosition(actor.id);
+		const targetPos = this.getEntityPosition(target.id);
+
+		if (step.action.type === CombatActionType.ATTACK) {
+			this.animations.addAttackAnimation(actorPos.x, actorPos.y, targetPos.x, targetPos.y);
+		} else if (step.action.type === CombatActionType.SKILL && step.action.skillId) {
+			this.animations.addSkillAnimation(targetPos.x, targetPos.y, step.action.skillId);
+		}
+
+		const { result } = step;
+		if (result.healing) {
+			this.animations.addDamageNumber({
+				x: targetPos.x,
+				y: targetPos.y - 30,
+				damage: result.healing,
+				isCritical: false,
+				isWeak: false,
+				isResisted: false,
+				isHeal: true,
+			});
+		} else if (!result.isMissed) {
+			this.animations.addDamageNumber({
+				x: targetPos.x,
+				y: targetPos.y - 30,
+				damage: result.damage,
+				isCritical: result.isCritical,
+				isWeak: result.isWeak,
+				isResisted: result.isResisted,
+			});
+		}
+
+		this.caption = `Turn ${step.turn}: ${actor.name} ${this.describeAction(step.action)} ${target.name}${result.isMissed ? ' (missed)' : ''}`;
+
+		if (step.entities) {
+			for (const state of step.entities) {
+				const entity = this.entities.get(state.id);
+				if (!entity) continue;
+				entity.hp = state.hp;
+				entity.mp = state.mp;
+				entity.statusEffects = state.statusEffects;
+			}
+		} else if (result.healing) {
+			target.hp = Math.min(target.maxHp, target.hp + result.healing);
+		} else {
+			target.hp = Math.max(0, target.hp - result.damage);
+		}
+	}
+
+	/**
+	 * All queued actions played: sync to the live snapshot or show the replay result
+	 */
+	private finishSteps(): void {
+		if (this.liveState) {
+			for (const state of this.liveState.entities) {
+				const entity = this.entities.get(state.id);
+				if (!entity) continue;
+				entity.hp = state.stats.hp;
+				entity.mp = state.stats.mp;
+				entity.statusEffects = state.statusEffects;
+			}
+
+			if (this.liveState.result) {
+				this.caption = this.describeResult(this.liveState.result.winnerIds);
+			}
+		} else if (this.replay) {
+			this.caption = this.describeResult(this.replay.result.winnerIds);
+		}
+	}
+
+	/**
+	 * Draw entities and animations
+	 */
+	private renderFrame(time: number): void {
+		const deltaTime = ((time - this.lastFrameTime) / 1000) * this.speed;
+		this.lastFrameTime = time;
+
+		this.animations.update(deltaTime);
+
+		const ctx = this.ctx;
+		ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+		for (const entity of this.entities.values()) {
+			const { x, y } = this.getEntityPosition(entity.id);
+			const defeated = entity.hp <= 0;
+
+			ctx.globalAlpha = defeated ? 0.4 : 1;
+			ctx.fillStyle = entity.team === 1 ? '#4a90e2' : '#e74c3c';
+			ctx.beginPath();
+			ctx.arc(x, y, 20, 0, Math.PI * 2);
+			ctx.fill();
+
+			ctx.fillStyle = '#ffffff';
+			ctx.font = '12px Arial';
+			ctx.textAlign = 'center';
+			ctx.fillText(entity.name, x, y + 36);
+
+			this.drawBar(x - 30, y + 42, entity.hp / Math.max(1, entity.maxHp), '#4caf50');
+			this.drawBar(x - 30, y + 49, entity.mp / Math.max(1, entity.maxMp), '#2196f3');
+
+			if (entity.statusEffects.length > 0) {
+				ctx.fillStyle = '#ffd54f';
+				ctx.font = '10px Arial';
+				ctx.fillText(entity.statusEffects.map((status) => status.type).join(', '), x, y - 28);
+			}
+			ctx.globalAlpha = 1;
+		}
+
+		this.animations.render(ctx);
+
+		ctx.fillStyle = '#ffffff';
+		ctx.font = '14px Arial';
+		ctx.textAlign = 'center';
+		ctx.fillText(this.caption, CANVAS_WIDTH / 2, 24);
+
+		this.frameHandle = requestAnimationFrame((next) => this.renderFrame(next));
+	}
+
+	/**
+	 * Draw an HP/MP bar
+	 */
+	private drawBar(x: number, y: number, ratio: number, color: string): void {
+		this.ctx.fillStyle = 'rgba(0,0,0,0.5)';
+		this.ctx.fillRect(x, y, 60, 5);
+		this.ctx.fillStyle = color;
+		this.ctx.fillRect(x, y, 60 * Math.max(0, Math.min(1, ratio)), 5);
+	}
+
+	/**
+	 * Team 1 stands on the left, team 2 on the right
+	 */
+	private getEntityPosition(entityId: string): { x: number; y: number } {
+		const entity = this.entities.get(entityId);
+		if (!entity) return { x: 0, y: 0 };
+
+		const team = Array.from(this.entities.values()).filter((other) => other.team === entity.team);
+		const index = team.findIndex((other) => other.id === entityId);
+		const spacing = CANVAS_HEIGHT / (team.length + 1);
+
+		return {
+			x: entity.team === 1 ? 160 : CANVAS_WIDTH - 160,
+			y: spacing * (index + 1),
+		};
+	}
+
+	/**
+	 * Caption verb for an action
+	 */
+	private describeAction(action: CombatAction): string {
+		switch (action.type) {
+			case CombatActionType.SKILL:
+				return `uses ${action.skillId} on`;
+			case CombatActionType.ITEM:
+				return `uses ${action.itemId} on`;
+			default:
+				return 'attacks';
+		}
+	}
+
+	/**
+	 * Caption for the final result
+	 */
+	private describeResult(winnerIds: string[]): string {
+		const winner = winnerIds.map((id) => this.entities.get(id)).find(Boolean);
+		return winner ? `Team ${winner.team} wins!` : 'Match ended without a winner';
+	}
+
+	/**
+	 * Update the progress line under the canvas
+	 */
+	private updateStatus(): void {
+		const total = this.steps.length;
+		this.status.textContent = this.replay
+			? `Action ${this.stepIndex} / ${total} · ${this.replay.duration}s match`
+			: `Live · turn ${this.liveState?.turn ?? 0} · shown with a short delay`;
+	}
+
+	/**
+	 * Create a control button
+	 */
+	private createButton(label: string, onClick: () => void): HTMLButtonElement {
+		const button = document.createElement('button');
+		button.textContent = label;
+		button.style.cssText = `
+			padding: 6px 14px;
+			border: none;
+			border-radius: 6px;
+			background: rgba(255,255,255,0.2);
+			color: white;
+			cursor: pointer;
+			font-size: 13px;
+		`;
+		button.addEventListener('click', onClick);
+		return button;
+	}
+
+	/**
+	 * Close the viewer
+	 */
+	private close(): void {
+		this.destroy();
+		this.config.onClose?.();
+	}
+
+	/**
+	 * Cleanup
+	 */
+	destroy(): void {
+		if (this.stepTimer) {
+			clearInterval(this.stepTimer);
+			this.stepTimer = null;
+		}
+		if (this.frameHandle !== null) {
+			cancelAnimationFrame(this.frameHandle);
+			this.frameHandle = null;
+		}
+		this.animations.clear();
+		this.root.remove();
+	}
+}
@@ -1,16 +1,38 @@
 /**
  * ArenaUI
- * UI for PvP arena matchmaking and leaderboard
+ * UI for PvP arena matchmaking (solo and party), leaderboard, seasons, spectating and replays
  */
 
-import type { ArenaManager, ArenaPlayer, ArenaMatch, LeaderboardEntry } from '../pvp/ArenaManager';
+import { ARENA_TEAM_SIZES } from '../pvp/ArenaManager';
+import { ArenaBattleViewer } from './ArenaBattleViewer';
+import type {
+	ArenaManager,
+	ArenaMatch,
+	ArenaMode,
+	ArenaParty,
+	ArenaTeamMember,
+	ArenaTier,
+} from '../pvp/ArenaManager';
+
+const TIER_COLORS: Record<ArenaTier, string> = {
+	Unranked: '#9E9E9E',
+	Bronze: '#CD7F32',
+	Silver: '#C0C0C0',
+	Gold: '#FFD700',
+	Platinum: '#4DD0E1',
+	Diamond: '#7C4DFF',
+	Master: '#E040FB',
+	Grandmaster: '#FF5252',
+};
 
 export class ArenaUI {
 	private container: HTMLElement;
 	private arenaManager: ArenaManager;
-	private currentTab: 'queue' | 'stats' | 'leaderboard' | 'history' = 'queue';
+	private currentTab: 'queue' | 'stats' | 'leaderboard' | 'live' | 'history' | 'seasons' = 'queue';
 	private queueTimerInterval: Timer | null = null;
 	private queueStartTime: number = 0;
+	private readyCheckNotification: HTMLElement | null = null;
+	private viewer: ArenaBattleViewer | null = null;
 
 	constructor(container: HTMLElement, arenaManager: ArenaManager) {
 		this.container = container;
@@ -35,12 +57,19 @@ export class ArenaUI {
 			this.render();
 		});
 
-		this.arenaManager.on('match-found', (match) => {
+		this.arenaManager.on('queue-timeout', () => {
 			this.stopQueueTimer();
-			this.showMatchFound(match);
+			this.showError('No match found in time, you left the queue');
+			this.render();
+		});
+
+		this.arenaManager.on('match-found', (match, readyDeadline) => {
+			this.stopQueueTimer();
+			this.showMatchFound(match, readyDeadline);
 		});
 
 		this.arenaManager.on('match-started', (matchId) => {
+			this.closeReadyCheck();
 			this.render();
 		});
 
@@ -49,8 +78,12 @@ export class ArenaUI {
 			this.render();
 		});
 
-		this.arenaManager.on('match-cancelled', () => {
-			this.showError('Match was cancelled');
+		this.arenaManager.on('match-cancelled', (matchId, requeued) => {
+			this.closeReadyCheck();
+			this.showError(requeued ? 'Opponent did not accept, back in queue' : 'Match was cancelled');
+			if (requeued) {
+				this.startQueueTimer();
+			}
 			this.render();
 		});
 
@@ -62,6 +95,26 @@ export class ArenaUI {
 			this.render();
 		});
 
+		this.arenaManager.on('season-updated', () => {
+			this.render();
+		});
+
+		this.arenaManager.on('party-updated', () => {
+			this.render();
+		});
+
+		this.arenaManager.on('party-invite', (party) => {
+			this.showPartyInvite(party);
+		});
+
+		this.arenaManager.on('spectate-updated', (battle) => {
+			this.viewer?.showLive(battle);
+		});
+
+		this.arenaManager.on('spectate-ended', (battle) => {
+			this.viewer?.showLive(battle);
+		});
+
 		this.arenaManager.on('error', (message) => {
 			this.showError(message);
 		});
@@ -100,13 +153,20 @@ export class ArenaUI {
 			const minutes = Math.floor(elapsed / 60);
 			const seconds = elapsed % 60;
 			timerEl.textContent = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+
+			// The rating window widens every 15 seconds; refresh the estimate with it
+			if (elapsed > 0 && elapsed % 15 === 0) {
+				this.updateQueueEstimate();
+			}
 		}
 	}
 
 	/**
-	 * Show match found notification
+	 * Show match found ready check (accept/decline before the deadline)
 	 */
-	private showMatchFound(match: ArenaMatch): void {
+	private showMatchFound(match: ArenaMatch, readyDeadline: number): void {
+		this.closeReadyCheck();
+
 		const notification = document.createElement('div');
 		notification.className = 'arena-notification';
 		notification.style.cssText = `
@@ -124,27 +184,62 @@ export class ArenaUI {
 			min-width: 400px;
 		`;
 
-		const opponent =
-			match.player1_id === this.arenaManager['playerId'] ? match.player2_name : match.player1_name;
-		const opponentRating =
-			match.player1_id === this.arenaManager['playerId'] ? match.player2_rating : match.player1_rating;
+		const { allies, opponents } = this.getTeams(match);
+		const secondsLeft = Math.max(0, Math.ceil((readyDeadline - Date.now()) / 1000));
 
 		notification.innerHTML = `
-			<h2 style="margin: 0 0 20px 0; font-size: 32px;">Match Found!</h2>
+			<h2 style="margin: 0 0 20px 0; font-size: 32px;">${match.mode} Match Found!</h2>
 			<div style="font-size: 18px; margin-bottom: 20px;">
-				<div style="margin-bottom: 10px;">Opponent: <strong>${opponent}</strong></div>
-				<div style="color: rgba(255,255,255,0.8);">Rating: ${opponentRating}</div>
+				${allies.length > 1 ? `<div style="margin-bottom: 10px;">Team: <strong>${this.formatTeam(allies)}</strong></div>` : ''}
+				<div style="margin-bottom: 10px;">Opponent: <strong>${this.formatTeam(opponents)}</strong></div>
+				<div style="color: rgba(255,255,255,0.8);">Rating: ${this.getTeamRating(opponents)}</div>
 			</div>
-			<div style="font-size: 14px; color: rgba(255,255,255,0.6);">
-				Prepare for battle!
+			<div style="font-size: 14px; color: rgba(255,255,255,0.6); margin-bottom: 20px;">
+				Accept within ${secondsLeft}s (declining locks the queue for a while)
 			</div>
 		`;
 
+		const buttonStyle = `
+			margin: 0 8px;
+			padding: 12px 28px;
+			border: none;
+			border-radius: 6px;
+			color: white;
+			cursor: pointer;
+			font-size: 16px;
+			font-weight: bold;
+		`;
+
+		const acceptBtn = document.createElement('button');
+		acceptBtn.textContent = 'Accept';
+		acceptBtn.style.cssText = `${buttonStyle} background: #4caf50;`;
+		acceptBtn.addEventListener('click', () => {
+			acceptBtn.disabled = true;
+			declineBtn.disabled = true;
+			acceptBtn.textContent = 'Waiting for other players...';
+			this.arenaManager.acceptMatch();
+		});
+
+		const declineBtn = document.createElement('button');
+		declineBtn.textContent = 'Decline';
+		declineBtn.style.cssText = `${buttonStyle} background: #f44336;`;
+		declineBtn.addEventListener('click', () => {
+			this.closeReadyCheck();
+			this.arenaManager.declineMatch();
+		});
+
+		notification.appendChild(acceptBtn);
+		notification.appendChild(declineBtn);
 		document.body.appendChild(notification);
+		this.readyCheckNotification = notification;
+	}
 
-		setTimeout(() => {
-			notification.remove();
-		}, 5000);
+	/**
+	 * Remove the ready check notification
+	 */
+	private closeReadyCheck(): void {
+		this.readyCheckNotification?.remove();
+		this.readyCheckNotification = null;
 	}
 
 	/**
@@ -182,6 +277,80 @@ export class ArenaUI {
 		}, 4000);
 	}
 
+	/**
+	 * Show a party invite with accept/decline buttons
+	 */
+	private showPartyInvite(party: ArenaParty): void {
+		const leader = party.members.find((member) => member.player_id === party.leader_id);
+
+		const invite = document.createElement('div');
+		invite.className = 'arena-party-invite';
+		invite.style.cssText = `
+			position: fixed;
+			top: 20px;
+			left: 50%;
+			transform: translateX(-50%);
+			background: #333;
+			color: white;
+			padding: 15px 20px;
+			border-radius: 8px;
+			box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+			z-index: 10000;
+			display: flex;
+			align-items: center;
+			gap: 10px;
+		`;
+		invite.innerHTML = `<span>${leader?.player_name ?? 'A player'} invited you to an arena party</span>`;
+
+		const acceptBtn = document.createElement('button');
+		acceptBtn.textContent = 'Join';
+		acceptBtn.style.cssText = 'padding: 6px 14px; border: none; border-radius: 4px; background: #4caf50; color: white; cursor: pointer;';
+		acceptBtn.addEventListener('click', () => {
+			invite.remove();
+			this.arenaManager.acceptPartyInvite(party.id);
+		});
+
+		const declineBtn = document.createElement('button');
+		declineBtn.textContent = 'Decline';
+		declineBtn.style.cssText = 'padding: 6px 14px; border: none; border-radius: 4px; background: #f44336; color: white; cursor: pointer;';
+		declineBtn.addEventListener('click', () => {
+			invite.remove();
+			this.arenaManager.declinePartyInvite(party.id);
+		});
+
+		invite.appendChild(acceptBtn);
+		invite.appendChild(declineBtn);
+		document.body.appendChild(invite);
+
+		setTimeout(() => {
+			invite.remove();
+		}, 30000);
+	}
+
+	/**
+	 * Split a match into this player's team and the opposing team
+	 */
+	private getTeams(match: ArenaMatch): { team: 1 | 2; allies: ArenaTeamMember[]; opponents: ArenaTeamMember[] } {
+		const onTeam1 = match.team1.some((member) => member.player_id === this.arenaManager['playerId']);
+		return onTeam1
+			? { team: 1, allies: match.team1, opponents: match.team2 }
+			: { team: 2, allies: match.team2, opponents: match.team1 };
+	}
+
+	/**
+	 * Team member names
+	 */
+	private formatTeam(members: ArenaTeamMember[]): string {
+		return members.map((member) => member.player_name).join(', ');
+	}
+
+	/**
+	 * Average rating of a team
+	 */
+	private getTeamRating(members: ArenaTeamMember[]): number {
+		return members.length > 0 ? Math.round(members.reduce((sum, m) => sum + m.rating, 0) / members.length) : 0;
+	}
+
 	/**
 	 * Show error message
 	 */
@@ -231,7 +400,11 @@ export class ArenaUI {
 		// Header
 		const header = document.createElement('div');
 		header.style.cssText = 'margin-bottom: 20px;';
-		header.innerHTML = `<h2 style="margin: 0; font-size: 24px;">⚔️ PvP Arena</h2>`;
+		const season = this.arenaManager.getSeason();
+		header.innerHTML = `
+			<h2 style="margin: 0; font-size: 24px;">⚔️ PvP Arena</h2>
+			${season ? `<div style="font-size: 13px; color: rgba(255,255,255,0.7);">${season.name} · ends ${new Date(season.ends_at).toLocaleDateString()}</div>` : ''}
+		`;
 		wrapper.appendChild(header);
 
 		// Tabs
@@ -246,7 +419,9 @@ export class ArenaUI {
 			{ id: 'queue', label: 'Queue' },
 			{ id: 'stats', label: 'My Stats' },
 			{ id: 'leaderboard', label: 'Leaderboard' },
+			{ id: 'live', label: 'Live' },
 			{ id: 'history', label: 'Match History' },
+			{ id: 'seasons', label: 'Seasons' },
 		];
 
 		tabButtons.forEach((tab) => {
@@ -273,6 +448,37 @@ export class ArenaUI {
 
 		wrapper.appendChild(tabs);
 
+		// Mode selector (queue, stats and leaderboard follow the selected mode)
+		if (this.currentTab !== 'live' && this.currentTab !== 'history' && this.currentTab !== 'seasons') {
+			const modes = document.createElement('div');
+			modes.style.cssText = 'display: flex; gap: 6px; margin-bottom: 15px;';
+
+			(Object.keys(ARENA_TEAM_SIZES) as ArenaMode[]).forEach((mode) => {
+				const selected = this.arenaManager.getMode() === mode;
+				const button = document.createElement('button');
+				button.textContent = mode;
+				button.disabled = this.arenaManager.isInQueue() || this.arenaManager.getCurrentMatch() !== null;
+				button.style.cssText = `
+					padding: 6px 14px;
+					border: 1px solid rgba(255,255,255,0.5);
+					border-radius: 14px;
+					cursor: pointer;
+					font-size: 13px;
+					background: ${selected ? '#ffffff' : 'transparent'};
+					color: ${selected ? '#667eea' : 'white'};
+				`;
+
+				button.addEventListener('click', () => {
+					this.arenaManager.setMode(mode);
+					this.render();
+				});
+
+				modes.appendChild(button);
+			});
+
+			wrapper.appendChild(modes);
+		}
+
 		// Content
 		const content = document.createElement('div');
 		content.style.cssText = `
@@ -289,8 +495,12 @@ export class ArenaUI {
 			this.renderStatsTab(content);
 		} else if (this.currentTab === 'leaderboard') {
 			this.renderLeaderboardTab(content);
+		} else if (this.currentTab === 'live') {
+			this.renderLiveTab(content);
 		} else if (this.currentTab === 'history') {
 			this.renderHistoryTab(content);
+		} else if (this.currentTab === 'seasons') {
+			this.renderSeasonsTab(content);
 		}
 
 		wrapper.appendChild(content);
@@ -326,21 +536,14 @@ export class ArenaUI {
 
 		if (currentMatch) {
 			// Show current match
-			const opponent =
-				currentMatch.player1_id === this.arenaManager['playerId']
-					? currentMatch.player2_name
-					: currentMatch.player1_name;
-			const opponentRating =
-				currentMatch.player1_id === this.arenaManager['playerId']
-					? currentMatch.player2_rating
-					: currentMatch.player1_rating;
+			const { opponents } = this.getTeams(currentMatch);
 
 			content.innerHTML = `
 				<div style="text-align: center; padding: 40px;">
-					<h3 style="margin-top: 0; font-size: 28px;">In Match</h3>
+					<h3 style="margin-top: 0; font-size: 28px;">In ${currentMatch.mode} Match</h3>
 					<div style="margin: 30px 0; font-size: 20px;">
-						<div style="margin-bottom: 15px;">vs <strong>${opponent}</strong></div>
-						<div style="color: rgba(255,255,255,0.7);">Rating: ${opponentRating}</div>
+						<div style="margin-bottom: 15px;">vs <strong>${this.formatTeam(opponents)}</strong></div>
+						<div style="color: rgba(255,255,255,0.7);">Rating: ${this.getTeamRating(opponents)}</div>
 					</div>
 					<div style="font-size: 16px; color: rgba(255,255,255,0.6);">
 						Status: ${currentMatch.status === 'pending' ? 'Starting...' : 'In Progress'}
@@ -351,15 +554,17 @@ export class ArenaUI {
 			// Show queue status
 			content.innerHTML = `
 				<div style="text-align: center; padding: 40px;">
-					<h3 style="margin-top: 0; font-size: 28px;">🔍 Searching for opponent...</h3>
+					<h3 style="margin-top: 0; font-size: 28px;">🔍 Searching for ${this.arenaManager.getMode()} match...</h3>
 					<div style="margin: 30px 0;">
 						<div style="font-size: 48px; font-weight: bold; margin-bottom: 10px;" id="arena-queue-timer">0:00</div>
 						<div style="font-size: 14px; color: rgba(255,255,255,0.7);">Time in queue</div>
+						<div style="font-size: 14px; color: rgba(255,255,255,0.7); margin-top: 10px;" id="arena-queue-estimate"></div>
 					</div>
 				</div>
 			`;
 
 			this.updateQueueTimer();
+			this.updateQueueEstimate();
 
 			const leaveBtn = document.createElement('button');
 			leaveBtn.textContent = 'Leave Queue';
@@ -398,11 +603,23 @@ export class ArenaUI {
 					`
 							: ''
 					}
+					<div style="font-size: 14px; color: rgba(255,255,255,0.7);" id="arena-queue-estimate"></div>
 				</div>
 			`;
 
+			this.updateQueueEstimate();
+			this.renderPartyPanel(content);
+
+			const party = this.arenaManager.getParty();
 			const joinBtn = document.createElement('button');
-			joinBtn.textContent = 'Join Queue';
+			joinBtn.textContent = party ? 'Queue with Party' : 'Join Queue';
+			joinBtn.disabled = !this.arenaManager.canQueue();
+			if (joinBtn.disabled) {
+				joinBtn.title =
+					party?.leader_id !== this.arenaManager['playerId']
+						? 'Only the party leader can queue'
+						: `Party is too large for ${this.arenaManager.getMode()}`;
+			}
 			joinBtn.style.cssText = `
 				display: block;
 				margin: 20px auto 0;
@@ -423,6 +640,114 @@ export class ArenaUI {
 		}
 	}
 
+	/**
+	 * Fill in the estimated wait (and the current rating window while queued)
+	 */
+	private async updateQueueEstimate(): Promise<void> {
+		const status = await this.arenaManager.getQueueStatus();
+		const estimateEl = document.getElementById('arena-queue-estimate');
+		if (!status || !estimateEl) return;
+
+		const format = (seconds: number | null) =>
+			seconds === null ? 'unknown' : `~${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+		if (status.player) {
+			estimateEl.textContent = `Estimated wait: ${format(status.player.estimatedWait)} · Matching within ±${status.player.ratingRange} rating`;
+		} else {
+			estimateEl.textContent = `Estimated wait: ${format(status.estimatedWait[this.arenaManager.getMode()])}`;
+		}
+	}
+
+	/**
+	 * Render party members, invites and party actions
+	 */
+	private renderPartyPanel(content: HTMLElement): void {
+		const party = this.arenaManager.getParty();
+		const playerId = this.arenaManager['playerId'];
+
+		const panel = document.createElement('div');
+		panel.style.cssText = `
+			background: rgba(255,255,255,0.1);
+			padding: 15px;
+			border-radius: 8px;
+			margin: 0 auto 10px;
+			max-width: 420px;
+		`;
+
+		const buttonStyle = `
+			padding: 6px 14px;
+			border: none;
+			border-radius: 4px;
+			color: white;
+			cursor: pointer;
+			font-size: 13px;
+		`;
+
+		if (!party) {
+			panel.innerHTML = `<div style="margin-bottom: 10px;">Queue solo, or form a party for 2v2 and 3v3.</div>`;
+
+			const createBtn = document.createElement('button');
+			createBtn.textContent = 'Create Party';
+			createBtn.style.cssText = `${buttonStyle} background: #667eea;`;
+			createBtn.addEventListener('click', () => {
+				this.arenaManager.createParty();
+			});
+			panel.appendChild(createBtn);
+
+			content.appendChild(panel);
+			return;
+		}
+
+		const isLeader = party.leader_id === playerId;
+		panel.innerHTML = `
+			<h4 style="margin: 0 0 10px 0;">Party (${party.members.length}/${ARENA_TEAM_SIZES['3v3']})</h4>
+			${party.members
+				.map(
+					(member) => `
+				<div style="padding: 4px 0;">
+					${member.player_id === party.leader_id ? '👑 ' : ''}${member.player_name}${member.player_id === playerId ? ' (You)' : ''}
+				</div>
+			`,
+				)
+				.join('')}
+			${party.invites.length > 0 ? `<div style="font-size: 12px; color: rgba(255,255,255,0.6);">${party.invites.length} invite(s) pending</div>` : ''}
+		`;
+
+		const actions = document.createElement('div');
+		actions.style.cssText = 'display: flex; gap: 8px; margin-top: 10px;';
+
+		if (isLeader) {
+			const input = document.createElement('input');
+			input.placeholder = 'Player ID';
+			input.style.cssText = 'flex: 1; padding: 6px; border: none; border-radius: 4px;';
+
+			const inviteBtn = document.createElement('button');
+			inviteBtn.textContent = 'Invite';
+			inviteBtn.style.cssText = `${buttonStyle} background: #4caf50;`;
+			inviteBtn.addEventListener('click', () => {
+				const targetId = input.value.trim();
+				if (targetId) {
+					this.arenaManager.invitePlayer(targetId);
+					input.value = '';
+				}
+			});
+
+			actions.appendChild(input);
+			actions.appendChild(inviteBtn);
+		}
+
+		const leaveBtn = document.createElement('button');
+		leaveBtn.textContent = 'Leave Party';
+		leaveBtn.style.cssText = `${buttonStyle} background: #f44336;`;
+		leaveBtn.addEventListener('click', () => {
+			this.arenaManager.leaveParty();
+		});
+		actions.appendChild(leaveBtn);
+
+		panel.appendChild(actions);
+		content.appendChild(panel);
+	}
+
 	/**
 	 * Render stats tab
 	 */
@@ -436,10 +761,21 @@ export class ArenaUI {
 		}
 
 		const totalMatches = stats.wins + stats.losses;
+		const placement = stats.placement_matches_remaining > 0
+			? `${stats.placement_matches_remaining} placement matches remaining`
+			: `Season peak: ${stats.peak_rating}`;
 
 		content.innerHTML = `
 			<div>
-				<h3 style="margin-top: 0;">Your Arena Stats</h3>
+				<h3 style="margin-top: 0;">Your ${stats.mode} Arena Stats</h3>
+
+				<div style="display: flex; align-items: center; gap: 15px; margin-bottom: 20px;">
+					${this.renderTierBadge(stats.tier, 'large')}
+					<div style="font-size: 14px; color: rgba(255,255,255,0.7);">
+						Season record: ${stats.season_wins}W - ${stats.season_losses}L<br>
+						${placement}
+					</div>
+				</div>
 
 				<div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 20px; margin-bottom: 30px;">
 					<div style="background: rgba(255,255,255,0.1); padding: 20px; border-radius: 8px; text-align: center;">
@@ -503,7 +839,7 @@ export class ArenaUI {
 			return;
 		}
 
-		content.innerHTML = '<h3 style="margin-top: 0;">Top Players</h3>';
+		content.innerHTML = `<h3 style="margin-top: 0;">Top ${this.arenaManager.getMode()} Players</h3>`;
 
 		const table = document.createElement('table');
 		table.style.cssText = `
@@ -516,6 +852,7 @@ export class ArenaUI {
 				<tr style="border-bottom: 2px solid rgba(255,255,255,0.3);">
 					<th style="padding: 10px; text-align: left;">Rank</th>
 					<th style="padding: 10px; text-align: left;">Player</th>
+					<th style="padding: 10px; text-align: center;">Tier</th>
 					<th style="padding: 10px; text-align: center;">Rating</th>
 					<th style="padding: 10px; text-align: center;">W/L</th>
 					<th style="padding: 10px; text-align: center;">Win Rate</th>
@@ -539,6 +876,7 @@ export class ArenaUI {
 				<td style="padding: 12px; ${isMe ? 'font-weight: bold; color: #FFD700;' : ''}">
 					${entry.player_name} ${isMe ? '(You)' : ''}
 				</td>
+				<td style="padding: 12px; text-align: center;">${this.renderTierBadge(entry.tier)}</td>
 				<td style="padding: 12px; text-align: center; font-weight: bold;">${entry.rating}</td>
 				<td style="padding: 12px; text-align: center;">${entry.wins}/${entry.losses}</td>
 				<td style="padding: 12px; text-align: center;">${entry.win_rate.toFixed(1)}%</td>
@@ -551,6 +889,116 @@ export class ArenaUI {
 		content.appendChild(table);
 	}
 
+	/**
+	 * Render live tab (matches in progress that can be spectated)
+	 */
+	private renderLiveTab(content: HTMLElement): void {
+		content.innerHTML = '<h3 style="margin-top: 0;">Live Matches</h3><p style="color: rgba(255,255,255,0.7);">Loading...</p>';
+
+		this.arenaManager.fetchLiveMatches().then((matches) => {
+			content.innerHTML = '<h3 style="margin-top: 0;">Live Matches</h3>';
+
+			if (matches.length === 0) {
+				content.innerHTML += '<p style="color: rgba(255,255,255,0.7);">No matches in progress.</p>';
+				return;
+			}
+
+			const list = document.createElement('div');
+			list.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+
+			matches.forEach((live) => {
+				const card = document.createElement('div');
+				card.style.cssText = `
+					display: flex;
+					justify-content: space-between;
+					align-items: center;
+					padding: 15px;
+					background: rgba(255,255,255,0.1);
+					border-radius: 6px;
+				`;
+
+				card.innerHTML = `
+					<div>
+						<div style="font-weight: bold; font-size: 16px; margin-bottom: 5px;">
+							${this.formatTeam(live.match.team1)} vs ${this.formatTeam(live.match.team2)}
+						</div>
+						<div style="font-size: 12px; color: rgba(255,255,255,0.6);">
+							${live.match.mode} | Turn ${live.turn} | ${live.spectators} watching
+						</div>
+					</div>
+				`;
+
+				const watchBtn = document.createElement('button');
+				watchBtn.textContent = 'Watch';
+				watchBtn.style.cssText = `
+					padding: 8px 18px;
+					border: none;
+					border-radius: 6px;
+					background: #4caf50;
+					color: white;
+					cursor: pointer;
+				`;
+				watchBtn.addEventListener('click', () => this.spectateMatch(live.matchId, live.match));
+
+				card.appendChild(watchBtn);
+				list.appendChild(card);
+			});
+
+			content.appendChild(list);
+		});
+	}
+
+	/**
+	 * Open the viewer on a live match
+	 */
+	private async spectateMatch(matchId: number, match: ArenaMatch): Promise<void> {
+		this.closeViewer();
+		this.viewer = new ArenaBattleViewer({
+			container: document.body,
+			title: `Spectating ${match.mode}: ${this.formatTeam(match.team1)} vs ${this.formatTeam(match.team2)}`,
+			onClose: () => {
+				this.viewer = null;
+				this.arenaManager.stopSpectating();
+			},
+		});
+
+		const result = await this.arenaManager.spectate(matchId);
+		if (!result.success) {
+			this.closeViewer();
+		}
+	}
+
+	/**
+	 * Open the viewer on a completed match's replay
+	 */
+	private async watchReplay(match: ArenaMatch): Promise<void> {
+		const data = await this.arenaManager.getReplay(match.id);
+		if (!data) return;
+
+		this.closeViewer();
+		this.viewer = new ArenaBattleViewer({
+			container: document.body,
+			title: `Replay ${match.mode}: ${this.formatTeam(match.team1)} vs ${this.formatTeam(match.team2)}`,
+			onClose: () => {
+				this.viewer = null;
+			},
+		});
+		this.viewer.playReplay(data.replay);
+	}
+
+	/**
+	 * Close the spectate/replay viewer
+	 */
+	private closeViewer(): void {
+		if (!this.viewer) return;
+
+		this.viewer.destroy();
+		this.viewer = null;
+		if (this.arenaManager.getSpectatedBattle()) {
+			this.arenaManager.stopSpectating();
+		}
+	}
+
 	/**
 	 * Render history tab
 	 */
@@ -569,11 +1017,9 @@ export class ArenaUI {
 			list.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
 
 			matches.forEach((match) => {
-				const wasPlayer1 = match.player1_id === this.arenaManager['playerId'];
-				const myRating = wasPlayer1 ? match.player1_rating : match.player2_rating;
-				const opponent = wasPlayer1 ? match.player2_name : match.player1_name;
-				const opponentRating = wasPlayer1 ? match.player2_rating : match.player1_rating;
-				const won = match.winner_id === this.arenaManager['playerId'];
+				const { team, allies, opponents } = this.getTeams(match);
+				const myRating = allies.find((member) => member.player_id === this.arenaManager['playerId'])?.rating;
+				const won = match.winning_team === team;
 
 				const matchCard = document.createElement('div');
 				matchCard.style.cssText = `
@@ -590,10 +1036,10 @@ export class ArenaUI {
 					<div style="display: flex; justify-content: space-between; align-items: center;">
 						<div>
 							<div style="font-weight: bold; font-size: 16px; margin-bottom: 5px;">
-								${won ? '✅ Victory' : '❌ Defeat'} vs ${opponent}
+								${won ? '✅ Victory' : '❌ Defeat'} vs ${this.formatTeam(opponents)}
 							</div>
 							<div style="font-size: 12px; color: rgba(255,255,255,0.6);">
-								Your Rating: ${myRating} | Opponent: ${opponentRating}
+								${match.mode} | Your Rating: ${myRating} | Opponent: ${this.getTeamRating(opponents)}
 							</div>
 						</div>
 						<div style="text-align: right; font-size: 12px; color: rgba(255,255,255,0.6);">
@@ -602,6 +1048,21 @@ export class ArenaUI {
 					</div>
 				`;
 
+				const replayBtn = document.createElement('button');
+				replayBtn.textContent = 'Watch replay';
+				replayBtn.style.cssText = `
+					margin-top: 10px;
+					padding: 6px 14px;
+					border: none;
+					border-radius: 6px;
+					background: rgba(255,255,255,0.2);
+					color: white;
+					cursor: pointer;
+					font-size: 12px;
+				`;
+				replayBtn.addEventListener('click', () => this.watchReplay(match));
+				matchCard.appendChild(replayBtn);
+
 				list.appendChild(matchCard);
 			});
 
@@ -609,11 +1070,83 @@ export class ArenaUI {
 		});
 	}
 
+	/**
+	 * Render seasons tab (past final standings and rewards)
+	 */
+	private renderSeasonsTab(content: HTMLElement): void {
+		content.innerHTML = '<h3 style="margin-top: 0;">Season History</h3><p style="color: rgba(255,255,255,0.7);">Loading...</p>';
+
+		this.arenaManager.getSeasonHistory().then((history) => {
+			content.innerHTML = '<h3 style="margin-top: 0;">Season History</h3>';
+
+			if (history.length === 0) {
+				content.innerHTML += '<p style="color: rgba(255,255,255,0.7);">No completed seasons yet. Finish your placement matches to earn a final rank.</p>';
+				return;
+			}
+
+			const list = document.createElement('div');
+			list.style.cssText = 'display: flex; flex-direction: column; gap: 10px;';
+
+			history.forEach((standing) => {
+				const rewards = standing.rewards
+					? [`${standing.rewards.gold} gold`, ...standing.rewards.items.map((item) => `${item.quantity}x ${item.itemId}`)].join(', ')
+					: 'None';
+				const rewardStatus = !standing.rewarded_at
+					? ' (pending)'
+					: standing.pending_items.length > 0
+						? ' (items pending)'
+						: '';
+
+				const card = document.createElement('div');
+				card.style.cssText = `
+					padding: 15px;
+					background: rgba(255,255,255,0.1);
+					border-left: 4px solid ${TIER_COLORS[standing.tier]};
+					border-radius: 6px;
+				`;
+
+				card.innerHTML = `
+					<div style="display: flex; justify-content: space-between; align-items: center;">
+						<div>
+							<div style="font-weight: bold; font-size: 16px; margin-bottom: 5px;">
+								${standing.season_name} · ${standing.mode} · #${standing.rank}
+							</div>
+							<div style="font-size: 12px; color: rgba(255,255,255,0.6);">
+								Final: ${standing.final_rating} | Peak: ${standing.peak_rating} | ${standing.wins}W - ${standing.losses}L
+							</div>
+							<div style="font-size: 12px; color: rgba(255,255,255,0.6);">
+								Rewards: ${rewards}${rewardStatus}
+							</div>
+						</div>
+						${this.renderTierBadge(standing.tier)}
+					</div>
+				`;
+
+				list.appendChild(card);
+			});
+
+			content.appendChild(list);
+		});
+	}
+
+	/**
+	 * Tier badge markup
+	 */
+	private renderTierBadge(tier: ArenaTier, size: 'small' | 'large' = 'small'): string {
+		const color = TIER_COLORS[tier];
+		const padding = size === 'large' ? '8px 16px' : '3px 8px';
+		const fontSize = size === 'large' ? '18px' : '12px';
+
+		return `<span style="display: inline-block; padding: ${padding}; border: 2px solid ${color}; border-radius: 12px; color: ${color}; font-size: ${fontSize}; font-weight: bold; background: rgba(0,0,0,0.2);">${tier}</span>`;
+	}
+
 	/**
 	 * Show UI
 	 */
 	show(): void {
 		this.arenaManager.fetchStats();
+		this.arenaManager.fetchSeason();
+		this.arenaManager.fetchParty();
 		this.render();
 	}
 
@@ -630,6 +1163,8 @@ export class ArenaUI {
 	 */
 	destroy(): void {
 		this.stopQueueTimer();
+		this.closeReadyCheck();
+		this.closeViewer();
 		this.container.innerHTML = '';
 	}
 }
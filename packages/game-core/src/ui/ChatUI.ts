@@ -3,7 +3,24 @@
  * Chat interface component
  */
 
-import type { ChatManager, ChatMessage } from '@rpg/networking';
+import type { ChatChannel, ChatManager, ChatMessage } from '@rpg/networking';
+
+interface ChannelStyle {
+	label: string;
+	color: string;
+}
+
+// Local chat has no label; also used for channels without a style of their own
+const DEFAULT_CHANNEL_STYLE: ChannelStyle = { label: '', color: '#fff' };
+
+const CHANNEL_STYLES: Record<ChatChannel, ChannelStyle> = {
+	local: DEFAULT_CHANNEL_STYLE,
+	global: { label: '[Global]', color: '#FFB74D' },
+	zone: { label: '[Zone]', color: '#AED581' },
+	party: { label: '[Party]', color: '#4FC3F7' },
+	guild: { label: '[Guild]', color: '#81C784' },
+	whisper: { label: '[Whisper]', color: '#CE93D8' },
+};
 
 export interface ChatUIConfig {
 	container: HTMLElement;
@@ -86,7 +103,7 @@ export class ChatUI {
 		// Input field
 		this.input.id = 'chat-input';
 		this.input.type = 'text';
-		this.input.placeholder = 'Type a message...';
+		this.input.placeholder = 'Type a message... (/g global, /z zone, /p party, /gu guild, /w name)';
 		this.input.maxLength = 500;
 		this.input.style.cssText = `
 			flex: 1;
@@ -168,6 +185,18 @@ export class ChatUI {
 		this.chatManager.on('message-sent', (message) => {
 			this.addMessage(message, true);
 		});
+
+		this.chatManager.on('muted', (expiresAt: number) => {
+			this.addNotice(`You are muted until ${new Date(expiresAt).toLocaleTimeString()}`);
+		});
+
+		this.chatManager.on('unmuted', () => {
+			this.addNotice('You are no longer muted');
+		});
+
+		this.chatManager.on('error', (error: string) => {
+			this.addNotice(error);
+		});
 	}
 
 	/**
@@ -202,16 +231,45 @@ export class ChatUI {
 			minute: '2-digit',
 		});
 
-		// Sender name
+		// Sender name (whispers show who they went to)
 		const senderColor = isSelf ? '#4CAF50' : '#2196F3';
+		const channel = CHANNEL_STYLES[message.type] ?? DEFAULT_CHANNEL_STYLE;
+		const sender =
+			message.type === 'whisper' && isSelf
+				? `To ${message.targetName ?? 'unknown'}`
+				: message.senderName;
 
 		messageEl.innerHTML = `
 			<span style="color: #888; font-size: 12px;">[${time}]</span>
-			<span style="color: ${senderColor}; font-weight: bold;"> ${message.senderName}:</span>
-			<span style="color: #fff;"> ${this.escapeHtml(message.message)}</span>
+			<span style="color: ${channel.color};">${channel.label}</span>
+			<span style="color: ${senderColor}; font-weight: bold;"> ${this.escapeHtml(sender)}:</span>
+			<span style="color: ${channel.color};"> ${this.escapeHtml(message.message)}</span>
+		`;
+
+		this.appendElement(messageEl);
+	}
+
+	/**
+	 * Add a system notice (errors, mutes) to the UI
+	 */
+	private addNotice(text: string): void {
+		const noticeEl = document.createElement('div');
+		noticeEl.textContent = text;
+		noticeEl.style.cssText = `
+			margin-bottom: 8px;
+			padding: 6px 8px;
+			color: #EF9A9A;
+			font-style: italic;
 		`;
 
-		this.messagesContainer.appendChild(messageEl);
+		this.appendElement(noticeEl);
+	}
+
+	/**
+	 * Append an element, scroll to it and trim old messages
+	 */
+	private appendElement(element: HTMLElement): void {
+		this.messagesContainer.appendChild(element);
 
 		// Auto-scroll to bottom
 		this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
@@ -9,10 +9,14 @@ import type {
 	CombatAction,
 	CombatActionType,
 } from '../combat/CombatManager';
+import type { LootResolver } from '../combat/LootResolver';
+import type { InventoryManager } from '../inventory/InventoryManager';
 
 export interface CombatUIConfig {
 	container: HTMLElement;
 	onActionSelected: (action: CombatAction) => void;
+	inventory?: InventoryManager;
+	loot?: LootResolver;
 }
 
 export class CombatUI {
@@ -113,34 +117,99 @@ export class CombatUI {
 
 			this.currentActor = actor;
 
-			if (actor.isPlayer) {
-				this.addLog(`${actor.name}'s turn!`, 'player');
-				this.showActionMenu();
-			} else {
-				this.addLog(`${actor.name}'s turn!`, 'enemy');
+			this.addLog(`${actor.name}'s turn!`, actor.isPlayer ? 'player' : 'enemy');
+			if (this.combat.isAIControlled(actorId)) {
 				this.hideActionMenu();
+			} else {
+				this.showActionMenu();
 			}
 
 			this.renderBattle();
 		});
 
+		this.combat.on('item-used', (actorId, item, targetId) => {
+			const actor = this.combat.getEntity(actorId);
+			const target = this.combat.getEntity(targetId);
+			if (!actor || !target) return;
+
+			this.addLog(
+				`${actor.name} uses ${item.name} on ${target.name}!`,
+				actor.isPlayer ? 'player' : 'enemy',
+			);
+		});
+
 		this.combat.on('action-executed', (action, result) => {
 			const actor = this.combat.getEntity(action.actorId);
 			const target = this.combat.getEntity(action.targetId);
 			if (!actor || !target) return;
 
-			let message = `${actor.name} attacks ${target.name}!`;
-			if (result.damage > 0) {
+			if (action.type === 'ITEM') {
+				const effects: string[] = [];
+				if (result.healing) effects.push(`Restored ${result.healing} HP!`);
+				if (result.mpRestored) effects.push(`Restored ${result.mpRestored} MP!`);
+				if (result.statusInflicted) effects.push(`(${result.statusInflicted})`);
+				if (effects.length > 0) {
+					this.addLog(
+						`${target.name}: ${effects.join(' ')}`,
+						actor.isPlayer ? 'player' : 'enemy',
+					);
+				}
+				this.renderBattle();
+				return;
+			}
+
+			const skill = action.skillId
+				? this.combat.getSkillRegistry().getSkill(action.skillId)
+				: undefined;
+			let message = skill
+				? `${actor.name} uses ${skill.name} on ${target.name}!`
+				: `${actor.name} attacks ${target.name}!`;
+			if (result.isMissed) {
+				message += ' It missed!';
+			} else if (result.damage > 0) {
 				message += ` ${result.damage} damage!`;
 				if (result.isCritical) message += ' Critical hit!';
 				if (result.isWeak) message += ' Super effective!';
 				if (result.isResisted) message += ' Not very effective...';
 			}
+			if (result.healing) message += ` Restored ${result.healing} HP!`;
+			if (result.statusInflicted) message += ` (${result.statusInflicted})`;
+			if (result.itemStolen) message += ` Stole ${result.itemStolen}!`;
 
 			this.addLog(message, actor.isPlayer ? 'player' : 'enemy');
 			this.renderBattle();
 		});
 
+		this.combat.on('status-applied', (entityId, status) => {
+			const entity = this.combat.getEntity(entityId);
+			if (!entity) return;
+
+			this.addLog(`${entity.name} is affected by ${status.type}!`, 'system');
+			this.renderBattle();
+		});
+
+		this.combat.on('status-tick', (entityId, status, damage) => {
+			const entity = this.combat.getEntity(entityId);
+			if (!entity) return;
+
+			this.addLog(`${entity.name} takes ${damage} damage from ${status.type}!`, 'system');
+		});
+
+		this.combat.on('status-expired', (entityId, status) => {
+			const entity = this.combat.getEntity(entityId);
+			if (!entity) return;
+
+			this.addLog(`${entity.name}'s ${status.type} wore off.`, 'system');
+			this.renderBattle();
+		});
+
+		this.combat.on('turn-skipped', (entityId, status) => {
+			const entity = this.combat.getEntity(entityId);
+			if (!entity) return;
+
+			this.addLog(`${entity.name} can't move (${status.type})!`, 'system');
+		});
+
 		this.combat.on('entity-defeated', (entityId) => {
 			const entity = this.combat.getEntity(entityId);
 			if (!entity) return;
@@ -149,6 +218,30 @@ export class CombatUI {
 			this.renderBattle();
 		});
 
+		this.combat.on('rewards-distributed', (rewards) => {
+			for (const share of rewards.shares) {
+				const member = this.combat.getEntity(share.entityId);
+				if (!member) continue;
+
+				this.addLog(`${member.name} gained ${share.exp} EXP and ${share.gold} gold.`, 'system');
+			}
+		});
+
+		this.config.loot?.on('loot-resolved', (summary) => {
+			for (const drop of summary.items) {
+				this.addLog(`Obtained ${drop.name} x${drop.quantity}.`, 'system');
+			}
+			for (const drop of summary.pending) {
+				this.addLog(
+					`Inventory full! ${drop.name} x${drop.quantity} is waiting to be claimed.`,
+					'system',
+				);
+			}
+			if (summary.jobsAwarded.length > 0) {
+				this.addLog(`Job EXP +${summary.exp} (${summary.jobsAwarded.join(', ')})`, 'system');
+			}
+		});
+
 		this.combat.on('combat-end', (result) => {
 			if (result === 'victory') {
 				this.addLog('Victory!', 'system');
@@ -248,6 +341,23 @@ export class CombatUI {
 		statsEl.textContent = `ATK:${entity.stats.atk} DEF:${entity.stats.def} SPD:${entity.stats.spd}`;
 		card.appendChild(statsEl);
 
+		// Status effects
+		if (entity.statusEffects.length > 0) {
+			const statusEl = document.createElement('div');
+			statusEl.style.cssText = `
+				font-size: 12px;
+				color: #f1c40f;
+				margin-top: 4px;
+			`;
+			statusEl.textContent = entity.statusEffects
+				.map((status) => {
+					const stacks = status.stacks && status.stacks > 1 ? ` x${status.stacks}` : '';
+					return `${status.type}${stacks} (${status.turnsLeft})`;
+				})
+				.join(', ');
+			card.appendChild(statusEl);
+		}
+
 		return card;
 	}
 
@@ -362,7 +472,7 @@ export class CombatUI {
 	private handleAction(type: CombatActionType): void {
 		if (!this.currentActor) return;
 
-		const enemies = this.combat.getAllEntities().filter((e) => !e.isPlayer && e.stats.hp > 0);
+		const enemies = this.combat.getOpponents(this.currentActor.id);
 		if (enemies.length === 0) return;
 
 		// For now, target first enemy
@@ -375,14 +485,45 @@ export class CombatUI {
 		};
 
 		// If skill, use first skill
-		if (type === 'SKILL' && this.currentActor.skills.length > 0) {
-			action.skillId = this.currentActor.skills[0];
+		const skillId = this.currentActor.skills[0];
+		if (type === 'SKILL' && skillId) {
+			action.skillId = skillId;
+
+			// Support skills target the most injured ally
+			const skill = this.combat.getSkillRegistry().getSkill(skillId);
+			if (skill && (skill.target === 'single_ally' || skill.target === 'allies')) {
+				action.targetId = this.getMostInjuredAlly(this.currentActor).id;
+			}
+		}
+
+		// If item, use first consumable on self
+		if (type === 'ITEM') {
+			const consumable = this.config.inventory?.getItemsByType('consumable')[0];
+			if (!consumable?.item) {
+				this.addLog('No usable items!', 'system');
+				return;
+			}
+
+			action.itemId = consumable.item.id;
+			action.targetId = this.getMostInjuredAlly(this.currentActor).id;
 		}
 
 		this.config.onActionSelected(action);
 		this.hideActionMenu();
 	}
 
+	/**
+	 * Get the living ally with the lowest HP percentage
+	 */
+	private getMostInjuredAlly(actor: CombatEntity): CombatEntity {
+		const allies = this.combat.getAllies(actor.id);
+		if (allies.length === 0) return actor;
+
+		return allies.reduce((prev, current) =>
+			current.stats.hp / current.stats.maxHp < prev.stats.hp / prev.stats.maxHp ? current : prev,
+		);
+	}
+
 	/**
 	 * Add log message
 	 */
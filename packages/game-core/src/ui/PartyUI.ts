@@ -0,0 +1,294 @@
+/**
+ * PartyUI
+ * Party member frames (HP/MP, zone and position), loot mode and need/greed roll prompts
+ */
+
+import type { LootMode, LootRoll, Party, PartyManager, PartyMember } from '../social/PartyManager';
+
+const LOOT_MODE_LABELS: Record<LootMode, string> = {
+	'free-for-all': 'Free for all',
+	'round-robin': 'Round robin',
+	'need-greed': 'Need / greed',
+};
+
+export class PartyUI {
+	private container: HTMLElement;
+	private partyManager: PartyManager;
+	private framesPanel: HTMLDivElement;
+	private rollPrompts: Map<string, HTMLElement> = new Map(); // Roll ID -> prompt
+
+	constructor(container: HTMLElement, partyManager: PartyManager) {
+		this.container = container;
+		this.partyManager = partyManager;
+		this.framesPanel = document.createElement('div');
+		this.framesPanel.id = 'party-frames';
+		this.framesPanel.style.cssText = `
+			display: flex;
+			flex-direction: column;
+			gap: 6px;
+			width: 220px;
+			font-family: monospace;
+			color: #fff;
+		`;
+		this.container.appendChild(this.framesPanel);
+
+		this.setupEventListeners();
+		this.render();
+
+		for (const roll of this.partyManager.getPendingRolls()) {
+			this.showLootRoll(roll);
+		}
+	}
+
+	/**
+	 * Setup event listeners
+	 */
+	private setupEventListeners(): void {
+		this.partyManager.on('party-updated', () => {
+			this.render();
+		});
+
+		this.partyManager.on('member-status', (playerId) => {
+			const member = this.partyManager.getParty()?.members.find((m) => m.player_id === playerId);
+			const frame = this.framesPanel.querySelector(`[data-player-id="${playerId}"]`);
+
+			if (member && frame) {
+				frame.replaceWith(this.createFrame(member, this.partyManager.getParty()!));
+			}
+		});
+
+		this.partyManager.on('party-invite', (party) => {
+			this.showPartyInvite(party);
+		});
+
+		this.partyManager.on('loot-roll', (roll) => {
+			this.showLootRoll(roll);
+		});
+
+		this.partyManager.on('loot-result', (roll) => {
+			this.rollPrompts.get(roll.id)?.remove();
+			this.rollPrompts.delete(roll.id);
+
+			const winner = this.partyManager
+				.getParty()
+				?.members.find((m) => m.player_id === roll.winner_id);
+			this.showNotice(
+				winner
+					? `${winner.player_name} won ${roll.drop.quantity}x ${roll.drop.name}`
+					: `Nobody took ${roll.drop.quantity}x ${roll.drop.name}`,
+			);
+		});
+
+		this.partyManager.on('error', (message) => {
+			this.showNotice(message, true);
+		});
+	}
+
+	/**
+	 * Render the member frames
+	 */
+	private render(): void {
+		this.framesPanel.innerHTML = '';
+
+		const party = this.partyManager.getParty();
+		if (!party) return;
+
+		for (const member of party.members) {
+			this.framesPanel.appendChild(this.createFrame(member, party));
+		}
+
+		const footer = document.createElement('div');
+		footer.style.cssText = 'display: flex; gap: 6px; align-items: center; font-size: 12px;';
+
+		if (this.partyManager.isLeader()) {
+			const select = document.createElement('select');
+			for (const [mode, label] of Object.entries(LOOT_MODE_LABELS)) {
+				const option = document.createElement('option');
+				option.value = mode;
+				option.textContent = label;
+				option.selected = mode === party.loot_mode;
+				select.appendChild(option);
+			}
+			select.addEventListener('change', () => {
+				this.partyManager.setLootMode(select.value as LootMode);
+			});
+			footer.appendChild(select);
+		} else {
+			footer.appendChild(document.createTextNode(`Loot: ${LOOT_MODE_LABELS[party.loot_mode]}`));
+		}
+
+		const leaveButton = document.createElement('button');
+		leaveButton.textContent = 'Leave';
+		leaveButton.addEventListener('click', () => {
+			this.partyManager.leaveParty();
+		});
+		footer.appendChild(leaveButton);
+
+		this.framesPanel.appendChild(footer);
+	}
+
+	/**
+	 * Create one member frame with HP/MP bars and location
+	 */
+	private createFrame(member: PartyMember, party: Party): HTMLElement {
+		const frame = document.createElement('div');
+		frame.dataset.playerId = member.player_id;
+		frame.style.cssText = `
+			padding: 6px 8px;
+			background: rgba(0, 0, 0, 0.75);
+			border: 1px solid #444;
+			border-radius: 4px;
+			font-size: 12px;
+		`;
+
+		const status = member.status;
+		const leader = member.player_id === party.leader_id ? ' ★' : '';
+		const location = status
+			? `${status.zoneId} (${Math.round(status.x)}, ${Math.round(status.y)})`
+			: 'Unknown';
+
+		frame.innerHTML = `
+			<div style="display: flex; justify-content: space-between;">
+				<strong>${member.player_name}${leader}</strong>
+				<span style="color: #aaa;">${location}</span>
+			</div>
+			${this.createBar(status?.hp ?? 0, status?.maxHp ?? 0, '#e53935')}
+			${this.createBar(status?.mp ?? 0, status?.maxMp ?? 0, '#1e88e5')}
+		`;
+
+		if (this.partyManager.isLeader() && member.player_id !== party.leader_id) {
+			const actions = document.createElement('div');
+			actions.style.cssText = 'display: flex; gap: 4px; margin-top: 4px;';
+
+			const promoteButton = document.createElement('button');
+			promoteButton.textContent = 'Make leader';
+			promoteButton.addEventListener('click', () => {
+				this.partyManager.setLeader(member.player_id);
+			});
+
+			const kickButton = document.createElement('button');
+			kickButton.textContent = 'Kick';
+			kickButton.addEventListener('click', () => {
+				this.partyManager.kickMember(member.player_id);
+			});
+
+			actions.append(promoteButton, kickButton);
+			frame.appendChild(actions);
+		}
+
+		return frame;
+	}
+
+	/**
+	 * HP/MP bar markup
+	 */
+	private createBar(value: number, max: number, color: string): string {
+		const percent = max > 0 ? Math.max(0, Math.min(100, (value / max) * 100)) : 0;
+
+		return `
+			<div style="position: relative; height: 10px; margin-top: 3px; background: #222; border-radius: 2px;">
+				<div style="width: ${percent}%; height: 100%; background: ${color}; border-radius: 2px;"></div>
+				<span style="position: absolute; top: -2px; right: 4px; font-size: 10px;">${value}/${max}</span>
+			</div>
+		`;
+	}
+
+	/**
+	 * Show a need/greed/pass prompt until the player chooses or the roll closes
+	 */
+	private showLootRoll(roll: LootRoll): void {
+		if (this.rollPrompts.has(roll.id)) return;
+
+		const prompt = document.createElement('div');
+		prompt.style.cssText = `
+			margin-top: 6px;
+			padding: 8px;
+			background: rgba(40, 30, 0, 0.9);
+			border: 1px solid #FFD700;
+			border-radius: 4px;
+			font-family: monospace;
+			font-size: 12px;
+			color: #fff;
+		`;
+		prompt.innerHTML = `<div style="margin-bottom: 6px;">${roll.drop.quantity}x ${roll.drop.name}</div>`;
+
+		for (const choice of ['need', 'greed', 'pass'] as const) {
+			const button = document.createElement('button');
+			button.textContent = choice.charAt(0).toUpperCase() + choice.slice(1);
+			button.style.marginRight = '4px';
+			button.addEventListener('click', () => {
+				this.partyManager.chooseLoot(roll.id, choice);
+				prompt.innerHTML = `<div>${roll.drop.quantity}x ${roll.drop.name}: ${choice}, waiting for the others...</div>`;
+			});
+			prompt.appendChild(button);
+		}
+
+		this.rollPrompts.set(roll.id, prompt);
+		this.container.appendChild(prompt);
+	}
+
+	/**
+	 * Show a party invite with accept/decline buttons
+	 */
+	private showPartyInvite(party: Party): void {
+		const leader = party.members.find((member) => member.player_id === party.leader_id);
+		const invite = document.createElement('div');
+		invite.style.cssText = `
+			margin-top: 6px;
+			padding: 8px;
+			background: rgba(0, 0, 0, 0.85);
+			border: 1px solid #4CAF50;
+			border-radius: 4px;
+			font-family: monospace;
+			font-size: 12px;
+			color: #fff;
+		`;
+		invite.innerHTML = `<div style="margin-bottom: 6px;">${leader?.player_name ?? 'A player'} invited you to a party</div>`;
+
+		const acceptButton = document.createElement('button');
+		acceptButton.textContent = 'Accept';
+		acceptButton.addEventListener('click', () => {
+			this.partyManager.acceptInvite(party.id);
+			invite.remove();
+		});
+
+		const declineButton = document.createElement('button');
+		declineButton.textContent = 'Decline';
+		declineButton.style.marginLeft = '4px';
+		declineButton.addEventListener('click', () => {
+			this.partyManager.declineInvite(party.id);
+			invite.remove();
+		});
+
+		invite.append(acceptButton, declineButton);
+		this.container.appendChild(invite);
+	}
+
+	/**
+	 * Show a short-lived notice
+	 */
+	private showNotice(message: string, isError: boolean = false): void {
+		const notice = document.createElement('div');
+		notice.textContent = message;
+		notice.style.cssText = `
+			margin-top: 6px;
+			padding: 6px 8px;
+			background: ${isError ? 'rgba(120, 0, 0, 0.85)' : 'rgba(0, 0, 0, 0.85)'};
+			border-radius: 4px;
+			font-family: monospace;
+			font-size: 12px;
+			color: #fff;
+		`;
+
+		this.container.appendChild(notice);
+		setTimeout(() => notice.remove(), 4000);
+	}
+
+	/**
+	 * Cleanup
+	 */
+	destroy(): void {
+		this.rollPrompts.clear();
+		this.container.innerHTML = '';
+	}
+}
@@ -5,6 +5,7 @@
 
 import { EventEmitter } from '../utils/EventEmitter';
 import type { Position } from './WorldManager';
+import type { QuestManager, QuestStatus } from '../quests/QuestManager';
 
 export interface NPCDialogue {
 	greeting: string;
@@ -43,17 +44,35 @@ export interface NPCManagerEvents {
 	'dialogue-start': (npcId: string, dialogue: string) => void;
 	'dialogue-end': (npcId: string) => void;
 	'service-requested': (npcId: string, service: string) => void;
+	'quest-dialogue': (npcId: string, questId: string, status: QuestStatus, text: string) => void;
+	'quest-accepted': (npcId: string, questId: string) => void;
+	'quest-turned-in': (npcId: string, questId: string) => void;
 }
 
+// Dialogue keys used for quest conversations, in priority order
+const QUEST_DIALOGUE_KEYS: Array<{ status: QuestStatus; key: string }> = [
+	{ status: 'ready', key: 'quest_complete' },
+	{ status: 'active', key: 'quest_active' },
+	{ status: 'available', key: 'quest_available' },
+];
+
 export class NPCManager extends EventEmitter<NPCManagerEvents> {
 	private npcData: Map<string, NPCData> = new Map();
 	private npcInstances: NPCInstance[] = [];
 	private activeDialogue: { npcId: string; text: string } | null = null;
+	private questManager: QuestManager | null = null;
 
 	constructor() {
 		super();
 	}
 
+	/**
+	 * Attach quest manager so NPCs can offer and accept quests
+	 */
+	setQuestManager(questManager: QuestManager | null): void {
+		this.questManager = questManager;
+	}
+
 	/**
 	 * Load NPC data
 	 */
@@ -124,7 +143,90 @@ export class NPCManager extends EventEmitter<NPCManagerEvents> {
 		if (!npc) return;
 
 		this.emit('npc-interact', npcId);
+		this.questManager?.recordTalk(npcId);
 		this.startDialogue(npcId, npc.dialogue.greeting);
+
+		const questDialogue = this.getQuestDialogue(npcId);
+		if (questDialogue) {
+			this.emit(
+				'quest-dialogue',
+				npcId,
+				questDialogue.questId,
+				questDialogue.status,
+				questDialogue.text,
+			);
+		}
+	}
+
+	/**
+	 * Get the most relevant quest dialogue for an NPC
+	 * Quests ready to turn in take priority over active and available quests
+	 */
+	getQuestDialogue(npcId: string): { questId: string; status: QuestStatus; text: string } | null {
+		const npc = this.getNPC(npcId);
+		if (!npc || !this.questManager) return null;
+
+		const quests = this.questManager.getQuestsForNPC(npcId);
+
+		for (const { status, key } of QUEST_DIALOGUE_KEYS) {
+			const quest = quests.find((q) => {
+				if (this.questManager!.getStatus(q.id) !== status) return false;
+				// Only the turn-in NPC talks about finished quests, only offering NPCs offer them
+				if (status === 'ready') return (q.turnIn ?? q.giver) === npcId;
+				if (status === 'available') return this.offersQuest(npc, q.id);
+				return true;
+			});
+
+			if (quest) {
+				const text = this.getDialogue(npcId, key, { quest_name: quest.name }) || quest.description;
+				return { questId: quest.id, status, text };
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Accept a quest offered by an NPC
+	 */
+	acceptQuest(npcId: string, questId: string): boolean {
+		const npc = this.getNPC(npcId);
+		if (!npc || !this.questManager) return false;
+
+		if (!this.offersQuest(npc, questId)) {
+			console.error(`[NPCManager] NPC ${npcId} does not offer quest: ${questId}`);
+			return false;
+		}
+
+		if (!this.questManager.acceptQuest(questId)) return false;
+
+		this.emit('quest-accepted', npcId, questId);
+		return true;
+	}
+
+	/**
+	 * Turn in a quest to an NPC
+	 */
+	turnInQuest(npcId: string, questId: string): boolean {
+		if (!this.getNPC(npcId) || !this.questManager) return false;
+
+		const quest = this.questManager.getQuest(questId);
+		if (!quest || (quest.turnIn ?? quest.giver) !== npcId) {
+			console.error(`[NPCManager] Quest ${questId} cannot be turned in to ${npcId}`);
+			return false;
+		}
+
+		if (!this.questManager.turnInQuest(questId)) return false;
+
+		this.emit('quest-turned-in', npcId, questId);
+		return true;
+	}
+
+	/**
+	 * Check if an NPC offers a quest
+	 */
+	private offersQuest(npc: NPCData, questId: string): boolean {
+		return npc.quests?.includes(questId) ?? false;
 	}
 
 	/**
@@ -204,6 +306,16 @@ export class NPCManager extends EventEmitter<NPCManagerEvents> {
 			return { canTrain: false, reason: 'Job already learned' };
 		}
 
+		// Check required quest
+		if (
+			npc.quest_required &&
+			this.questManager &&
+			!this.questManager.isCompleted(npc.quest_required)
+		) {
+			const questName = this.questManager.getQuest(npc.quest_required)?.name ?? npc.quest_required;
+			return { canTrain: false, reason: `Requires quest: ${questName}` };
+		}
+
 		// Check prerequisites
 		if (npc.prerequisites) {
 			// Check required jobs
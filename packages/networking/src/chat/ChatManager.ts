@@ -1,35 +1,93 @@
 /**
  * ChatManager
- * Manages P2P text chat between players
+ * Local P2P chat between players in a zone, plus server-routed global, zone,
+ * party, guild and whisper channels
  */
 
 import { EventEmitter } from '../utils/EventEmitter.ts';
 
+// local = P2P chat with peers in the zone, everything else is routed by the server
+export type ChatChannel = 'local' | 'global' | 'zone' | 'party' | 'guild' | 'whisper';
+
 export interface ChatMessage {
 	id: string;
 	senderId: string;
 	senderName: string;
 	message: string;
 	timestamp: number;
-	type: 'local' | 'global'; // local = P2P chat, global = server chat
+	type: ChatChannel;
+	targetId?: string; // Whisper recipient
+	targetName?: string;
+}
+
+/**
+ * Chat request sent to the server over the game WebSocket
+ */
+export interface ChatRequestMessage {
+	type: 'chat-send' | 'chat-report' | 'chat-mute' | 'chat-unmute';
+	data: any;
+}
+
+/**
+ * Chat message pushed by the server over the game WebSocket
+ */
+export interface ChatNetworkMessage {
+	type: string;
+	data?: any;
 }
 
 export interface ChatEvents {
 	'message-received': (message: ChatMessage) => void;
 	'message-sent': (message: ChatMessage) => void;
 	'history-updated': () => void;
+	muted: (expiresAt: number) => void;
+	unmuted: () => void;
+	error: (message: string) => void;
 }
 
+// Server requests whose failures are reported as chat errors
+const CHAT_REQUEST_TYPES = [
+	'chat-send',
+	'chat-report',
+	'chat-mute',
+	'chat-unmute',
+	'guild-chat',
+	'party-chat',
+];
+
+const CHANNEL_COMMANDS: Record<string, ChatChannel> = {
+	l: 'local',
+	local: 'local',
+	g: 'global',
+	global: 'global',
+	z: 'zone',
+	zone: 'zone',
+	p: 'party',
+	party: 'party',
+	gu: 'guild',
+	guild: 'guild',
+};
+
 export class ChatManager extends EventEmitter<ChatEvents> {
 	private localPlayerId: string;
 	private localPlayerName: string;
 	private chatHistory: ChatMessage[] = [];
 	private maxHistorySize: number = 100;
+	private blockedPlayers: Set<string> = new Set();
+	private peerMessageTimes: Map<string, number[]> = new Map(); // Peer ID -> recent message timestamps
+	private lastWhisperFrom: string | null = null;
+	private mutedUntil: number = 0;
+
+	// Peer messages dropped when the sender is blocked
+	private readonly BLOCKED_MESSAGE_TYPES = ['chat-message', 'trade-request'];
+
+	// Peers sending faster than this are ignored (the server rate limits its own channels)
+	private readonly PEER_RATE_LIMIT = 5;
+	private readonly PEER_RATE_WINDOW = 10000; // 10 seconds
 
-	// Callback to send message via P2P (will be set by NetworkManager)
-	private sendMessageCallback: ((peerId: string, data: any) => boolean) | null =
-		null;
+	// Callback to broadcast via P2P (will be set by NetworkManager)
 	private broadcastCallback: ((data: any) => void) | null = null;
+	private serverCallback: ((message: ChatRequestMessage) => void) | null = null;
 
 	constructor(localPlayerId: string, localPlayerName: string) {
 		super();
@@ -38,23 +96,43 @@ export class ChatManager extends EventEmitter<ChatEvents> {
 	}
 
 	/**
-	 * Set callbacks for sending messages
+	 * Set callback for broadcasting local chat to peers
 	 */
-	setSendCallbacks(
-		sendToPeer: (peerId: string, data: any) => boolean,
-		broadcast: (data: any) => void,
-	): void {
-		this.sendMessageCallback = sendToPeer;
+	setBroadcastCallback(broadcast: (data: any) => void): void {
 		this.broadcastCallback = broadcast;
 	}
 
 	/**
-	 * Send a message to all peers (P2P broadcast)
+	 * Set callback for server-routed chat requests (game WebSocket)
+	 */
+	setServerCallback(send: (message: ChatRequestMessage) => void): void {
+		this.serverCallback = send;
+	}
+
+	/**
+	 * Send a message on a channel ('local' broadcasts to peers, the rest go
+	 * through the server). Messages starting with "/" are chat commands.
 	 */
-	sendMessage(message: string): void {
+	sendMessage(message: string, channel: ChatChannel = 'local', target?: string): boolean {
+		message = message.trim();
+		if (!message) return false;
+
+		if (message.startsWith('/')) {
+			return this.runCommand(message);
+		}
+
+		if (this.mutedUntil > Date.now()) {
+			this.emit('error', `You are muted until ${new Date(this.mutedUntil).toLocaleTimeString()}`);
+			return false;
+		}
+
+		if (channel !== 'local') {
+			return this.sendToServer({ type: 'chat-send', data: { channel, message, target } });
+		}
+
 		if (!this.broadcastCallback) {
 			console.warn('[ChatManager] Broadcast callback not set');
-			return;
+			return false;
 		}
 
 		const chatMessage: ChatMessage = {
@@ -76,57 +154,173 @@ export class ChatManager extends EventEmitter<ChatEvents> {
 		});
 
 		this.emit('message-sent', chatMessage);
+		return true;
 	}
 
 	/**
-	 * Send a private message to a specific peer
+	 * Whisper a player by name in any zone (routed through the server)
 	 */
-	sendPrivateMessage(peerId: string, message: string): boolean {
-		if (!this.sendMessageCallback) {
-			console.warn('[ChatManager] Send callback not set');
-			return false;
+	sendWhisper(targetName: string, message: string): boolean {
+		return this.sendMessage(message, 'whisper', targetName);
+	}
+
+	/**
+	 * Report a player by name; the server attaches their recent messages
+	 */
+	reportPlayer(targetName: string, reason: string): boolean {
+		return this.sendToServer({ type: 'chat-report', data: { target: targetName, reason } });
+	}
+
+	/**
+	 * Handle received chat message from a peer. The sender ID and name must
+	 * match the peer the message arrived from, as announced by the signaling server.
+	 */
+	handleReceivedMessage(message: ChatMessage, fromPeerId: string, fromPeerName?: string): void {
+		// Validate message
+		if (!this.isValidMessage(message)) {
+			console.warn('[ChatManager] Invalid message received', message);
+			return;
 		}
 
-		const chatMessage: ChatMessage = {
-			id: this.generateMessageId(),
-			senderId: this.localPlayerId,
-			senderName: this.localPlayerName,
-			message: `[Private] ${message}`,
-			timestamp: Date.now(),
+		if (message.senderId !== fromPeerId || !fromPeerName) {
+			console.warn(`[ChatManager] Dropped spoofed chat message from ${fromPeerId}`);
+			return;
+		}
+
+		if (this.isBlocked(fromPeerId) || this.isPeerRateLimited(fromPeerId)) {
+			return;
+		}
+
+		// P2P messages are always local chat under the peer's real name
+		const verified: ChatMessage = {
+			id: message.id,
+			senderId: fromPeerId,
+			senderName: fromPeerName,
+			message: message.message,
+			timestamp: message.timestamp,
 			type: 'local',
 		};
 
 		// Add to history
-		this.addToHistory(chatMessage);
+		this.addToHistory(verified);
 
-		// Send to specific peer
-		const success = this.sendMessageCallback(peerId, {
-			type: 'chat-message',
-			data: chatMessage,
-		});
+		// Emit event
+		this.emit('message-received', verified);
+	}
 
-		if (success) {
-			this.emit('message-sent', chatMessage);
+	/**
+	 * Handle a chat message pushed by the server (chat, guild and party
+	 * messages, mute notices and failed chat requests)
+	 */
+	handleServerMessage(message: ChatNetworkMessage): void {
+		const data = message.data;
+
+		switch (message.type) {
+			case 'chat-message':
+				this.receiveServerMessage({
+					id: data.message.id,
+					senderId: data.message.sender_id,
+					senderName: data.message.sender_name,
+					message: data.message.message,
+					timestamp: Date.parse(data.message.sent_at),
+					type: data.message.channel,
+					...(data.message.target_id && {
+						targetId: data.message.target_id,
+						targetName: data.message.target_name,
+					}),
+				});
+				break;
+
+			case 'guild-chat-message':
+				this.receiveServerMessage({
+					id: `guild-${data.message.id}`,
+					senderId: data.message.sender_id,
+					senderName: data.message.sender_name,
+					message: data.message.message,
+					timestamp: Date.parse(data.message.created_at),
+					type: 'guild',
+				});
+				break;
+
+			case 'party-chat-message':
+				this.receiveServerMessage({
+					id: `party-${data.message.sender_id}-${data.message.sent_at}`,
+					senderId: data.message.sender_id,
+					senderName: data.message.sender_name,
+					message: data.message.message,
+					timestamp: Date.parse(data.message.sent_at),
+					type: 'party',
+				});
+				break;
+
+			case 'chat-muted':
+				this.mutedUntil = Date.parse(data.mute.expires_at);
+				this.emit('muted', this.mutedUntil);
+				break;
+
+			case 'chat-unmuted':
+				this.mutedUntil = 0;
+				this.emit('unmuted');
+				break;
+
+			case 'game-error':
+				if (CHAT_REQUEST_TYPES.includes(data?.request)) {
+					this.emit('error', data.error);
+				}
+				break;
 		}
+	}
 
-		return success;
+	/**
+	 * Check whether peer data should be dropped because its sender is blocked
+	 * (chat messages and trade requests)
+	 */
+	shouldDropPeerData(peerId: string, data: any): boolean {
+		return this.isBlocked(peerId) && this.BLOCKED_MESSAGE_TYPES.includes(data?.type);
 	}
 
 	/**
-	 * Handle received chat message from peer
+	 * Replace the block list (e.g. with the list loaded from the server)
 	 */
-	handleReceivedMessage(message: ChatMessage): void {
-		// Validate message
-		if (!this.isValidMessage(message)) {
-			console.warn('[ChatManager] Invalid message received', message);
-			return;
-		}
+	setBlockedPlayers(playerIds: string[]): void {
+		this.blockedPlayers = new Set(playerIds);
+		this.removeBlockedMessages();
+	}
 
-		// Add to history
-		this.addToHistory(message);
+	/**
+	 * Block a player and remove their messages from history
+	 */
+	blockPlayer(playerId: string): void {
+		this.blockedPlayers.add(playerId);
+		this.removeBlockedMessages();
+	}
 
-		// Emit event
-		this.emit('message-received', message);
+	/**
+	 * Unblock a player
+	 */
+	unblockPlayer(playerId: string): void {
+		this.blockedPlayers.delete(playerId);
+	}
+
+	/**
+	 * Check whether a player is blocked
+	 */
+	isBlocked(playerId: string): boolean {
+		return this.blockedPlayers.has(playerId);
+	}
+
+	/**
+	 * Get blocked player IDs
+	 */
+	getBlockedPlayers(): string[] {
+		return Array.from(this.blockedPlayers);
+	}
+
+	/**
+	 * Check whether the server has muted this player
+	 */
+	isMuted(): boolean {
+		return this.mutedUntil > Date.now();
 	}
 
 	/**
@@ -153,9 +347,9 @@ export class ChatManager extends EventEmitter<ChatEvents> {
 	}
 
 	/**
-	 * Filter messages by type
+	 * Filter messages by channel
 	 */
-	getMessagesByType(type: 'local' | 'global'): ChatMessage[] {
+	getMessagesByType(type: ChatChannel): ChatMessage[] {
 		return this.chatHistory.filter((msg) => msg.type === type);
 	}
 
@@ -171,6 +365,104 @@ export class ChatManager extends EventEmitter<ChatEvents> {
 		);
 	}
 
+	/**
+	 * Run a chat command:
+	 * /g, /z, /p, /gu, /l <message>   post on global, zone, party, guild or local chat
+	 * /w <player> <message>           whisper, /r <message> replies to the last whisper
+	 * /report <player> <reason>
+	 * /mute <player> <minutes> [reason], /unmute <player>   (moderators)
+	 */
+	private runCommand(input: string): boolean {
+		const [command = '', ...args] = input.slice(1).split(/\s+/);
+		const name = command.toLowerCase();
+		const channel = CHANNEL_COMMANDS[name];
+
+		if (channel) {
+			return this.sendMessage(args.join(' '), channel);
+		}
+
+		switch (name) {
+			case 'w':
+			case 'whisper':
+				return this.sendWhisper(args[0] ?? '', args.slice(1).join(' '));
+
+			case 'r':
+			case 'reply':
+				if (!this.lastWhisperFrom) {
+					this.emit('error', 'Nobody has whispered you yet');
+					return false;
+				}
+				return this.sendWhisper(this.lastWhisperFrom, args.join(' '));
+
+			case 'report':
+				return this.reportPlayer(args[0] ?? '', args.slice(1).join(' '));
+
+			case 'mute':
+				return this.sendToServer({
+					type: 'chat-mute',
+					data: { target: args[0], minutes: Number(args[1]), reason: args.slice(2).join(' ') },
+				});
+
+			case 'unmute':
+				return this.sendToServer({ type: 'chat-unmute', data: { target: args[0] } });
+
+			default:
+				this.emit('error', `Unknown command: /${command}`);
+				return false;
+		}
+	}
+
+	/**
+	 * Add a server-routed message to history; the server echoes this player's
+	 * own messages back, which count as sent
+	 */
+	private receiveServerMessage(message: ChatMessage): void {
+		const isSelf = message.senderId === this.localPlayerId;
+
+		if (!isSelf && this.isBlocked(message.senderId)) {
+			return;
+		}
+
+		if (message.type === 'whisper' && !isSelf) {
+			this.lastWhisperFrom = message.senderName;
+		}
+
+		this.addToHistory(message);
+		this.emit(isSelf ? 'message-sent' : 'message-received', message);
+	}
+
+	/**
+	 * Send a chat request to the server
+	 */
+	private sendToServer(request: ChatRequestMessage): boolean {
+		if (!this.serverCallback) {
+			console.warn('[ChatManager] Server callback not set');
+			return false;
+		}
+
+		this.serverCallback(request);
+		return true;
+	}
+
+	/**
+	 * Track a peer's message rate, returns true when the message should be ignored
+	 */
+	private isPeerRateLimited(peerId: string): boolean {
+		const now = Date.now();
+		const times = (this.peerMessageTimes.get(peerId) ?? []).filter(
+			(time) => now - time < this.PEER_RATE_WINDOW,
+		);
+
+		if (times.length >= this.PEER_RATE_LIMIT) {
+			this.peerMessageTimes.set(peerId, times);
+			return true;
+		}
+
+		times.push(now);
+		this.peerMessageTimes.set(peerId, times);
+		return false;
+	}
+
 	/**
 	 * Add message to history with size limit
 	 */
@@ -185,6 +477,18 @@ export class ChatManager extends EventEmitter<ChatEvents> {
 		this.emit('history-updated');
 	}
 
+	/**
+	 * Drop history messages sent by blocked players
+	 */
+	private removeBlockedMessages(): void {
+		const count = this.chatHistory.length;
+		this.chatHistory = this.chatHistory.filter((msg) => !this.isBlocked(msg.senderId));
+
+		if (this.chatHistory.length !== count) {
+			this.emit('history-updated');
+		}
+	}
+
 	/**
 	 * Validate received message
 	 */
@@ -236,8 +540,10 @@ export class ChatManager extends EventEmitter<ChatEvents> {
 	 */
 	destroy(): void {
 		this.clearHistory();
-		this.sendMessageCallback = null;
+		this.blockedPlayers.clear();
+		this.peerMessageTimes.clear();
 		this.broadcastCallback = null;
+		this.serverCallback = null;
 		this.removeAllListeners();
 	}
 }
@@ -1,7 +1,13 @@
 /**
  * Chat Module
- * P2P text chat system
+ * P2P local chat and server-routed chat channels
  */
 
 export { ChatManager } from './ChatManager.ts';
-export type { ChatMessage, ChatEvents } from './ChatManager.ts';
+export type {
+	ChatChannel,
+	ChatMessage,
+	ChatRequestMessage,
+	ChatNetworkMessage,
+	ChatEvents,
+} from './ChatManager.ts';
@@ -29,6 +29,7 @@ export class NetworkManager {
 	private config: NetworkManagerConfig;
 	private eventListeners: Map<keyof NetworkManagerEvents, Set<Function>> = new Map();
 	private currentZone: string | null = null;
+	private peerNames: Map<string, string> = new Map(); // Player ID -> username announced by the signaling server
 
 	constructor(config: NetworkManagerConfig) {
 		this.config = config;
@@ -60,18 +61,26 @@ export class NetworkManager {
 			if (data.peers) {
 				// New zone joined - connect to all peers
 				for (const peer of data.peers) {
+					this.peerNames.set(peer.playerId, peer.username);
 					await this.connectToPeer(peer.playerId, peer.username, true);
 				}
 			} else if (data.action === 'player-joined') {
 				// New player joined zone - they will initiate connection
 				console.log(`[NetworkManager] Player ${data.player.username} joined zone`);
+				this.peerNames.set(data.player.playerId, data.player.username);
 			} else if (data.action === 'player-left') {
 				// Player left zone
 				console.log(`[NetworkManager] Player left zone: ${data.playerId}`);
 				this.peerManager.removePeer(data.playerId);
+				this.peerNames.delete(data.playerId);
 			}
 		});
 
+		// Server-routed chat (global, zone, party, guild, whisper) and mute notices
+		this.signalingClient.on('game-message', (message) => {
+			this.chatManager.handleServerMessage(message);
+		});
+
 		// Handle WebRTC signaling
 		this.signalingClient.on('webrtc-offer', async (from, offer) => {
 			console.log(`[NetworkManager] Received offer from ${from}`);
@@ -114,9 +123,14 @@ export class NetworkManager {
 		});
 
 		this.peerManager.on('peer-data', (playerId, data) => {
+			// Chat messages and trade requests from blocked players never reach the game
+			if (this.chatManager.shouldDropPeerData(playerId, data)) {
+				return;
+			}
+
 			// Handle chat messages
 			if (data.type === 'chat-message') {
-				this.chatManager.handleReceivedMessage(data.data);
+				this.chatManager.handleReceivedMessage(data.data, playerId, this.peerNames.get(playerId));
 			} else {
 				this.emit('peer-data', playerId, data);
 			}
@@ -127,11 +141,9 @@ export class NetworkManager {
 	 * Setup chat manager
 	 */
 	private setupChatManager(): void {
-		// Set callbacks for sending messages
-		this.chatManager.setSendCallbacks(
-			(peerId, data) => this.sendToPeer(peerId, data),
-			(data) => this.broadcast(data),
-		);
+		// Local chat goes to peers, every other channel through the server
+		this.chatManager.setBroadcastCallback((data) => this.broadcast(data));
+		this.chatManager.setServerCallback((message) => this.signalingClient.sendGameMessage(message));
 	}
 
 	/**
@@ -161,6 +173,7 @@ export class NetworkManager {
 
 		this.signalingClient.leaveZone();
 		this.peerManager.closeAll();
+		this.peerNames.clear();
 		this.currentZone = null;
 	}
 
@@ -12,7 +12,48 @@ export interface SignalingMessage {
 		| 'webrtc-answer'
 		| 'ice-candidate'
 		| 'position-update'
-		| 'disconnect';
+		| 'disconnect'
+		// Server -> client game events
+		| 'arena-match-found'
+		| 'arena-match-ready'
+		| 'arena-match-cancelled'
+		| 'arena-party-invite'
+		| 'arena-party-updated'
+		| 'arena-queue-timeout'
+		| 'battle-update'
+		| 'battle-turn'
+		| 'battle-end'
+		| 'spectate-update'
+		| 'spectate-end'
+		| 'guild-invite'
+		| 'guild-updated'
+		| 'guild-removed'
+		| 'guild-chat-message'
+		| 'party-invite'
+		| 'party-updated'
+		| 'party-member-status'
+		| 'party-chat-message'
+		| 'party-loot-roll'
+		| 'party-loot-result'
+		| 'friend-request'
+		| 'friend-added'
+		| 'friend-removed'
+		| 'friend-presence'
+		| 'chat-message'
+		| 'chat-muted'
+		| 'chat-unmuted'
+		| 'game-error'
+		// Client -> server game requests
+		| 'arena-ready'
+		| 'battle-action'
+		| 'guild-chat'
+		| 'party-status'
+		| 'party-chat'
+		| 'party-loot-choice'
+		| 'chat-send'
+		| 'chat-report'
+		| 'chat-mute'
+		| 'chat-unmute';
 	from?: string;
 	to?: string;
 	zoneId?: string;
@@ -27,8 +68,42 @@ export type SignalingClientEvents = {
 	'webrtc-offer': (from: string, offer: RTCSessionDescriptionInit) => void;
 	'webrtc-answer': (from: string, answer: RTCSessionDescriptionInit) => void;
 	'ice-candidate': (from: string, candidate: RTCIceCandidateInit) => void;
+	'game-message': (message: SignalingMessage) => void; // Arena, battle, party and guild events
 };
 
+// Server-pushed game events forwarded as 'game-message'
+const GAME_EVENT_TYPES: SignalingMessage['type'][] = [
+	'arena-match-found',
+	'arena-match-ready',
+	'arena-match-cancelled',
+	'arena-party-invite',
+	'arena-party-updated',
+	'arena-queue-timeout',
+	'battle-update',
+	'battle-turn',
+	'battle-end',
+	'spectate-update',
+	'spectate-end',
+	'guild-invite',
+	'guild-updated',
+	'guild-removed',
+	'guild-chat-message',
+	'party-invite',
+	'party-updated',
+	'party-member-status',
+	'party-chat-message',
+	'party-loot-roll',
+	'party-loot-result',
+	'friend-request',
+	'friend-added',
+	'friend-removed',
+	'friend-presence',
+	'chat-message',
+	'chat-muted',
+	'chat-unmuted',
+	'game-error',
+];
+
 export class SignalingClient {
 	private ws: WebSocket | null = null;
 	private serverUrl: string;
@@ -114,7 +189,11 @@ export class SignalingClient {
 				break;
 
 			default:
-				console.warn(`[SignalingClient] Unknown message type: ${message.type}`);
+				if (GAME_EVENT_TYPES.includes(message.type)) {
+					this.emit('game-message', message);
+				} else {
+					console.warn(`[SignalingClient] Unknown message type: ${message.type}`);
+				}
 		}
 	}
 
@@ -203,6 +282,13 @@ export class SignalingClient {
 		});
 	}
 
+	/**
+	 * Send a game request (arena ready check, battle action) to the server
+	 */
+	sendGameMessage(message: SignalingMessage): void {
+		this.send(message);
+	}
+
 	/**
 	 * Send message to server
 	 */